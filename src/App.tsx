@@ -3,8 +3,9 @@
  * Sets up the application shell with responsive layout
  */
 
+import { useEffect } from 'react';
 import { SimulationProvider } from './context/SimulationContext';
-import { ToastProvider } from './context/ToastContext';
+import { ToastProvider, useToast } from './context/ToastContext';
 import { MenuBar } from './ui/MenuBar';
 import { ControlPanel } from './ui/ControlPanel';
 import { VisualizationCanvas } from './ui/VisualizationCanvas';
@@ -15,14 +16,55 @@ import { TimelineDisplay } from './ui/TimelineDisplay';
 import { StellarPropertiesDisplay } from './ui/StellarPropertiesDisplay';
 import { SystemOverview } from './ui/SystemOverview';
 import { InternalStructureView } from './ui/InternalStructureView';
+import { RadialProfileChart } from './ui/RadialProfileChart';
 import { NuclearSynthesisPanel } from './ui/NuclearSynthesisPanel';
 import { InternalStructureInfo } from './ui/InternalStructureInfo';
 import { useSimulation } from './context/SimulationContext';
+import { describeSimulationEvent } from './simulation/SimulationEvents';
+import { SimulationEventType, StructureModel } from './types/core';
 
 function AppContent() {
-  const { system } = useSimulation();
+  const { system, controller } = useSimulation();
+  const { showInfo, showWarning } = useToast();
   const primaryStar = system?.stars[0];
 
+  // Notify about milestones as the simulation emits them
+  useEffect(() => {
+    const unsubscribers = [
+      controller.on(SimulationEventType.PHASE_CHANGE, (event) => {
+        showInfo(describeSimulationEvent(event, controller.getSystem()));
+      }),
+      controller.on(SimulationEventType.REMNANT_FORMED, (event) => {
+        showInfo(describeSimulationEvent(event, controller.getSystem()));
+      }),
+      controller.on(SimulationEventType.PLANET_LOST, (event) => {
+        showWarning(describeSimulationEvent(event, controller.getSystem()));
+      }),
+      controller.on(SimulationEventType.STABILITY_WARNING, (event) => {
+        showWarning(describeSimulationEvent(event, controller.getSystem()));
+      }),
+      controller.on(SimulationEventType.SUPERNOVA, (event) => {
+        showWarning(describeSimulationEvent(event, controller.getSystem()));
+      }),
+      controller.on(SimulationEventType.MASS_TRANSFER_STARTED, (event) => {
+        showInfo(describeSimulationEvent(event, controller.getSystem()));
+      }),
+      controller.on(SimulationEventType.COMMON_ENVELOPE, (event) => {
+        showWarning(describeSimulationEvent(event, controller.getSystem()));
+      }),
+      controller.on(SimulationEventType.NOVA, (event) => {
+        showInfo(describeSimulationEvent(event, controller.getSystem()));
+      }),
+      controller.on(SimulationEventType.TYPE_IA_SUPERNOVA, (event) => {
+        showWarning(describeSimulationEvent(event, controller.getSystem()));
+      }),
+      controller.on(SimulationEventType.STAR_FORMATION, (event) => {
+        showInfo(describeSimulationEvent(event, controller.getSystem()));
+      }),
+    ];
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [controller, showInfo, showWarning]);
+
   return (
     <div style={{
       maxWidth: '1400px',
@@ -64,6 +106,24 @@ function AppContent() {
               }}>
                 Cross-section view of stellar layers
               </div>
+              {primaryStar.radialProfile && (
+                <>
+                  <div style={{ display: 'flex', justifyContent: 'center', marginTop: '15px' }}>
+                    <RadialProfileChart profile={primaryStar.radialProfile} width={280} height={180} />
+                  </div>
+                  <div style={{
+                    marginTop: '10px',
+                    fontSize: '12px',
+                    color: '#666',
+                    textAlign: 'center',
+                    fontStyle: 'italic',
+                  }}>
+                    Radial profile ({primaryStar.radialProfile.model === StructureModel.HYDROSTATIC
+                      ? 'hydrostatic solver'
+                      : `n = ${primaryStar.radialProfile.polytropicIndex} polytrope`})
+                  </div>
+                </>
+              )}
             </div>
           )}
           
@@ -21,6 +21,8 @@ export const PHYSICS_CONSTANTS = {
   SPEED_OF_LIGHT: 2.998e8,            // m/s
   STEFAN_BOLTZMANN: 5.670e-8,         // W/(m²⋅K⁴)
   WIEN_CONSTANT: 2.898e-3,            // m⋅K
+  BOLTZMANN_CONSTANT: 1.381e-23,      // J/K
+  HYDROGEN_MASS: 1.674e-27,           // kg
   
   // Time conversions
   SECONDS_PER_YEAR: 3.154e7,      // seconds
@@ -56,6 +58,12 @@ export const VALIDATION_RANGES = {
     unit: 'kg⋅m²/s'
   },
   
+  SEED: {
+    min: 0,                       // Minimum random seed
+    max: 4294967295,              // Maximum random seed (32-bit unsigned)
+    unit: ''
+  },
+  
   // Stellar mass ranges
   STELLAR_MASS: {
     min: 0.08,                    // Minimum mass for hydrogen fusion (brown dwarf limit)
@@ -111,9 +119,300 @@ export const SPECTRAL_TYPE_TEMPERATURES = {
   M: { min: 2400, max: 3700 }
 } as const;
 
-// Final state mass thresholds
+// Substellar spectral type temperature ranges (Kelvin)
+export const SUBSTELLAR_SPECTRAL_TYPE_TEMPERATURES = {
+  M: { min: 2400, max: Infinity }, // Young brown dwarfs look like late-M stars
+  L: { min: 1300, max: 2400 },     // Dusty, cloudy atmospheres
+  T: { min: 500, max: 1300 },      // Methane absorption
+  Y: { min: 0, max: 500 }          // Water clouds
+} as const;
+
+// Final state mass thresholds at solar metallicity; both scale as (Z/Z☉)^exponent
 export const FINAL_STATE_THRESHOLDS = {
   WHITE_DWARF_MAX: 8,      // Maximum initial mass for white dwarf (M☉)
   NEUTRON_STAR_MAX: 25,    // Maximum initial mass for neutron star (M☉)
   // Above this becomes black hole
+  WHITE_DWARF_MAX_METALLICITY_EXPONENT: 0.05,  // Metal-poor stars grow larger cores, so fewer end as white dwarfs
+  NEUTRON_STAR_MAX_METALLICITY_EXPONENT: 0.1,  // Weaker winds leave metal-poor cores heavy enough to form black holes
+} as const;
+
+// Metallicity dependence of main-sequence stars (Z relative to solar)
+export const METALLICITY_CONSTANTS = {
+  LUMINOSITY_EXPONENT: -0.2,   // L ∝ (Z/Z☉)^-0.2 at fixed mass: metal-poor gas is less opaque
+  RADIUS_EXPONENT: 0.08,       // R ∝ (Z/Z☉)^0.08: metal-poor stars are more compact and hotter
+  MINIMUM_METALLICITY: 1e-4,   // Floor on Z/Z☉ in the scaling relations (metal-free gas would diverge)
+} as const;
+
+// N-body integration defaults (units: AU, years, solar masses)
+export const NBODY_CONSTANTS = {
+  GRAVITATIONAL_CONSTANT: 4 * Math.PI * Math.PI, // AU³/(M☉⋅yr²)
+  TIME_STEP_FACTOR: 0.01,          // Step as fraction of the shortest pairwise dynamical time
+  MAX_STEPS_PER_UPDATE: 20000,     // Above this an update falls back to Kepler motion
+  SOFTENING_LENGTH: 1e-4,          // Gravitational softening in AU
+} as const;
+
+// Stellar wind mass-loss prescriptions
+export const MASS_LOSS_CONSTANTS = {
+  REIMERS_COEFFICIENT: 4e-13,      // M☉/yr per (L☉⋅R☉/M☉) (Reimers 1975)
+  REIMERS_ETA: 0.5,                // Reimers efficiency for red giants
+  BLOCKER_COEFFICIENT: 4.83e-9,    // AGB superwind coefficient (Blöcker 1995)
+  BLOCKER_ETA: 0.02,               // Blöcker efficiency for AGB stars
+  HOT_WIND_COEFFICIENT: 2e-14,     // M☉/yr at 1 L☉ for line-driven winds
+  HOT_WIND_LUMINOSITY_EXPONENT: 1.5,
+  HOT_WIND_METALLICITY_EXPONENT: 0.85, // Ṁ ∝ Z^0.85 (Vink et al. 2001)
+} as const;
+
+// Compact remnant properties
+export const REMNANT_CONSTANTS = {
+  CHANDRASEKHAR_MASS: 1.44,        // Maximum white dwarf mass (M☉)
+  WHITE_DWARF_RADIUS_SCALE: 0.0112, // Nauenberg mass-radius scale (R☉)
+  NEUTRON_STAR_RADIUS: 12,          // Typical neutron star radius (km)
+  NEUTRON_STAR_MIN_MASS: 1.2,       // Neutron star mass from an 8 M☉ progenitor (M☉)
+  NEUTRON_STAR_MAX_MASS: 2.2,       // Maximum neutron star mass (M☉)
+} as const;
+
+// Tidal interaction between stars and planets
+export const TIDAL_CONSTANTS = {
+  ROCHE_COEFFICIENT: 2.44,         // Fluid-body Roche limit coefficient
+  TIDAL_REACH_FACTOR: 2.0,         // Planets within this many stellar radii spiral in
+} as const;
+
+// Core-collapse supernova effects
+export const SUPERNOVA_CONSTANTS = {
+  EXPLOSION_ENERGY: 1e44,           // Kinetic energy of the ejecta (J)
+  KICK_DISPERSION: 265,             // Neutron star kick dispersion per axis (km/s, Hobbs et al. 2005)
+  KICK_REFERENCE_MASS: 1.4,         // Black hole kicks scale as 1.4 M☉ / M_BH (momentum conservation)
+  EJECTA_COUPLING_EFFICIENCY: 1e-3, // Fraction of intercepted ejecta energy deposited in a planet
+  DESTRUCTION_THRESHOLD: 1.0,       // Deposited energy / binding energy that destroys a planet
+  STRIPPING_THRESHOLD: 0.01,        // Deposited energy / binding energy that strips its envelope
+  IRRADIATION_THRESHOLD: 1e-6,      // Deposited energy / binding energy worth recording
+  STRIPPED_CORE_MASS: 10,           // Core mass left when a giant's envelope is stripped (M⊕)
+} as const;
+
+// Roche-lobe overflow and mass transfer in close binaries
+export const MASS_TRANSFER_CONSTANTS = {
+  CRITICAL_MASS_RATIO_MAIN_SEQUENCE: 3.0,  // Donor/accretor ratio above which radiative donors are unstable
+  CRITICAL_MASS_RATIO_GIANT: 0.7,          // Same for convective-envelope giants (Hjellming & Webbink 1987)
+  ACCRETION_EFFICIENCY: 1.0,               // Fraction of transferred mass the accretor keeps, within its limits
+  ACCRETOR_THERMAL_LIMIT: 10,              // Stars accrete at most this many times M/τ_KH (Hurley et al. 2002)
+  THERMAL_TIMESCALE: 3.1e7,                // Kelvin–Helmholtz timescale of the Sun (years)
+  DYNAMICAL_TIMESCALE: 5.1e-5,             // Dynamical timescale of the Sun, √(R³/GM) (years)
+  ELECTRON_SCATTERING_OPACITY: 0.034,      // Opacity of ionized hydrogen-rich gas (m²/kg)
+  ORBIT_SUBSTEPS: 20,                      // Substeps used to integrate the orbital response
+} as const;
+
+// Common-envelope evolution and stellar mergers
+export const COMMON_ENVELOPE_CONSTANTS = {
+  EFFICIENCY: 1.0,                  // α: fraction of orbital energy spent unbinding the envelope
+  ENVELOPE_STRUCTURE: 0.5,          // λ: envelope binding energy parameter (E = G M M_env / λR)
+  MERGER_MASS_LOSS: 0.1,            // Fraction of the combined mass lost in a merger
+} as const;
+
+// Accreting white dwarfs: novae and Type Ia supernovae
+export const WHITE_DWARF_ACCRETION_CONSTANTS = {
+  IGNITION_PRESSURE: 1e19,          // Pressure at the base of the accreted layer that ignites a nova (Pa)
+  STEADY_BURNING_SLOPE: 6.68e-7,    // Upper steady-burning rate per M☉ above the offset (M☉/yr, Nomoto et al. 2007)
+  STEADY_BURNING_OFFSET: 0.445,     // White dwarf mass offset of the steady-burning rate (M☉)
+  STEADY_BURNING_WIDTH: 0.5,        // Lower edge of steady burning as a fraction of the upper rate
+  NOVA_RETENTION_EFFICIENCY: 0.1,   // Fraction of the ignited layer a nova leaves on the white dwarf
+  TYPE_IA_IGNITION_MASS: 1.38,      // Mass at which carbon ignites in the core (M☉)
+} as const;
+
+// White dwarf cooling (Mestel theory with a crystallization delay)
+export const WHITE_DWARF_COOLING_CONSTANTS = {
+  MESTEL_TIMESCALE: 8.8e6,          // Cooling age of a 1 M☉ carbon white dwarf at 1 L☉ (years)
+  MINIMUM_COOLING_AGE: 1e5,         // Youngest cooling age the Mestel law is applied at (years)
+  CORE_LUMINOSITY_COEFFICIENT: 3.7e-27, // L = C M T_c^3.5 through the non-degenerate envelope (L☉ / (M☉ K^3.5))
+  CENTRAL_DENSITY_RATIO: 5.99,      // Central to mean density (n = 1.5 polytrope)
+  CRYSTALLIZATION_COEFFICIENT: 2640, // T_cryst = C ρ_c^(1/3) for a C/O plasma at Γ = 175 (K / (kg/m³)^(1/3))
+  CRYSTALLIZATION_DELAY: 1e9,       // Cooling delay from latent heat and phase separation (years)
+  CRYSTALLIZATION_CLOCK_RATE: 0.5,  // Rate of the cooling clock while the delay builds up
+} as const;
+
+// Neutron star spin, magnetic fields and cooling
+export const PULSAR_CONSTANTS = {
+  PROGENITOR_GYRATION: 0.1,          // k² = I / (M R²) of a massive main-sequence star
+  NEUTRON_STAR_GYRATION: 0.4,        // k² of a neutron star (I ≈ 10⁴⁵ g cm²)
+  MIN_CRITICAL_ROTATION: 0.05,       // Slowest progenitor rotation as a fraction of breakup
+  MAX_CRITICAL_ROTATION: 0.8,        // Fastest progenitor rotation as a fraction of breakup
+  CORE_ANGULAR_MOMENTUM_RETENTION: 3e-4, // Fraction of the progenitor's specific angular momentum kept by the collapsing core
+  MINIMUM_SPIN_PERIOD: 1e-3,         // Mass-shedding limit (s)
+  FOSSIL_FIELD: 1e12,                // Field of a neutron star born at the fossil-field period (G)
+  FOSSIL_FIELD_PERIOD: 0.02,         // Birth period of a typical-field neutron star (s)
+  DYNAMO_PERIOD: 5e-3,               // Birth period below which a convective dynamo builds a magnetar field (s)
+  DYNAMO_FIELD: 1e15,                // Dynamo field at the dynamo period (G)
+  DIPOLE_FIELD_COEFFICIENT: 3.2e19,  // B = 3.2×10¹⁹ √(P Ṗ) G for magnetic dipole braking
+  MAGNETAR_FIELD: 4.4e13,            // Quantum critical field above which a neutron star is a magnetar (G)
+  DEATH_LINE: 1.7e11,                // B / P² below which radio emission stops (G/s², Chen & Ruderman 1993)
+  NEUTRINO_COOLING_TEMPERATURE: 2.7e6, // Surface temperature one year after birth (K)
+  NEUTRINO_COOLING_EXPONENT: 1 / 12, // T_s ∝ t^(-1/12) while modified-Urca neutrinos cool the core
+  PHOTON_COOLING_AGE: 1e6,           // Age at which surface photons take over the cooling (years)
+  PHOTON_COOLING_EXPONENT: 1,        // T_s falls a further (1 + t / t_γ)^(-n) once photons dominate
+  MAGNETAR_TEMPERATURE: 5e6,         // Surface temperature of a newborn magnetar heated by field decay (K)
+  MAGNETAR_HEATING_AGE: 1e4,         // Timescale of magnetar field decay (years)
+} as const;
+
+// Pre-main-sequence contraction
+export const PRE_MAIN_SEQUENCE_CONSTANTS = {
+  CONTRACTION_TIMESCALE_FACTOR: 1.5, // Time to reach the ZAMS in units of its Kelvin–Helmholtz time
+  BIRTHLINE_RADIUS: 5,               // Radius at which a 1 M☉ star becomes visible (deuterium birthline, R☉)
+  BIRTHLINE_EXPONENT: 0.5,           // R_birth ∝ M^0.5
+  HAYASHI_TEMPERATURE: 4000,         // Effective temperature of the fully convective Hayashi track (K)
+  FULLY_CONVECTIVE_MASS: 0.35,       // Below this mass stars stay convective all the way to the ZAMS (M☉)
+  HAYASHI_FRACTION: 0.3,             // Fraction of the contraction a 1 M☉ star spends on the Hayashi track
+  HAYASHI_FRACTION_EXPONENT: 1.5,    // Hayashi fraction ∝ M^-1.5: massive stars turn radiative sooner
+  MAXIMUM_HAYASHI_FRACTION: 0.9,     // Radiative stars always finish on a Henyey track
+} as const;
+
+// Brown dwarfs and other substellar objects
+export const BROWN_DWARF_CONSTANTS = {
+  MINIMUM_FRAGMENT_MASS: 0.005,      // Opacity limit for fragmentation (M☉, about 5 Jupiter masses)
+  DEUTERIUM_BURNING_MASS: 0.012,     // Minimum mass for deuterium burning (M☉, about 13 Jupiter masses)
+  DEUTERIUM_BURNING_TIME: 1e7,       // Time a reference-mass brown dwarf burns deuterium (years)
+  DEUTERIUM_REFERENCE_MASS: 0.02,    // Reference mass for the deuterium burning time (M☉)
+  DEUTERIUM_TIME_EXPONENT: 2,        // t_D ∝ M^-2: heavier brown dwarfs burn their deuterium faster
+  COOLING_LUMINOSITY: 4e-5,          // Luminosity of a reference-mass brown dwarf at 1 Gyr (L☉)
+  COOLING_REFERENCE_MASS: 0.05,      // Reference mass for the cooling law (M☉)
+  COOLING_MASS_EXPONENT: 2.64,       // L ∝ M^2.64 (Burrows & Liebert 1993)
+  COOLING_AGE_EXPONENT: 1.3,         // L ∝ t^-1.3
+  COOLING_OPACITY_EXPONENT: 0.35,    // L ∝ κ^0.35 with the opacity κ ∝ Z
+  MINIMUM_COOLING_AGE: 3e7,          // Youngest age the cooling law is applied at (years)
+  RADIUS: 0.1,                       // Radius of an old brown dwarf, about one Jupiter radius (R☉)
+  CONTRACTION_AGE: 1e8,              // Age at which a brown dwarf is still twice its final radius (years)
+  CONTRACTION_EXPONENT: 0.5,         // Excess radius shrinks as t^-0.5
+  MIN_COMPANION_SEPARATION: 10,      // Closest orbit of a brown dwarf formed by fragmentation (AU)
+  MAX_COMPANION_SEPARATION: 1000,    // Widest orbit of a brown dwarf formed by fragmentation (AU)
+} as const;
+
+// Post-main-sequence evolution of massive stars
+export const MASSIVE_STAR_CONSTANTS = {
+  LUMINOUS_BLUE_VARIABLE_MIN_MASS: 40, // Humphreys–Davidson limit: heavier stars never become red supergiants (M☉)
+  WOLF_RAYET_MIN_MASS: 25,             // Lowest initial mass whose winds strip it to a Wolf–Rayet star at solar metallicity (M☉)
+  WOLF_RAYET_METALLICITY_EXPONENT: -0.5, // Weaker metal-poor winds push the threshold up as (Z/Z☉)^-0.5
+  // Relative time spent in each stage; a star's stages share the post-main-sequence life
+  BLUE_SUPERGIANT_DURATION: 1,
+  YELLOW_SUPERGIANT_DURATION: 0.5,     // The Hertzsprung gap is crossed quickly
+  RED_SUPERGIANT_DURATION: 8,
+  LUMINOUS_BLUE_VARIABLE_DURATION: 1,
+  WOLF_RAYET_DURATION: 4,
+  SUPERGIANT_LUMINOSITY_FACTOR: 1.5,   // Supergiant luminosity at the end of the main sequence (× ZAMS)
+  SUPERGIANT_LUMINOSITY_GROWTH: 0.5,   // Fractional brightening over the post-main-sequence life
+  BLUE_SUPERGIANT_MIN_TEMPERATURE: 10000, // Blue supergiants cool to this before crossing the gap (K)
+  YELLOW_SUPERGIANT_MIN_TEMPERATURE: 4500, // Yellow supergiants (F–G) cool to this (K)
+  RED_SUPERGIANT_TEMPERATURE: 3600,    // Red supergiants sit at the Hayashi limit (K)
+  LUMINOUS_BLUE_VARIABLE_TEMPERATURE: 20000, // Quiescent LBV temperature (K)
+  LUMINOUS_BLUE_VARIABLE_OUTBURST_TEMPERATURE: 8000, // Temperature at the peak of an S Doradus excursion (K)
+  LUMINOUS_BLUE_VARIABLE_CYCLES: 3,    // S Doradus excursions during the LBV stage
+  LUMINOUS_BLUE_VARIABLE_MASS_LOSS_RATE: 1e-4, // Mass-loss rate of an LBV (M☉/yr)
+  WOLF_RAYET_MIN_TEMPERATURE: 40000,   // Temperature of a newly stripped WN star (K)
+  WOLF_RAYET_MAX_TEMPERATURE: 100000,  // Temperature of an evolved WC/WO star (K)
+  WOLF_RAYET_LUMINOSITY_COEFFICIENT: 690, // Helium-star luminosity at 1 M☉ (L☉, Langer 1989)
+  WOLF_RAYET_LUMINOSITY_EXPONENT: 2.39,   // L ∝ M^2.39
+  WOLF_RAYET_WIND_COEFFICIENT: 2e-12,  // M☉/yr at 1 L☉ for Wolf–Rayet winds
+  WOLF_RAYET_WIND_LUMINOSITY_EXPONENT: 1.29, // Ṁ ∝ L^1.29 (Nugis & Lamers 2000)
+} as const;
+
+// Core temperatures at which each nuclear fuel ignites (K)
+export const BURNING_IGNITION_TEMPERATURES = {
+  PP_CHAIN: 4e6,
+  CNO_CYCLE: 1.5e7,                  // CNO cycle dominates above this
+  HELIUM: 1e8,                       // Triple-alpha
+  CARBON: 6e8,
+  NEON: 1.2e9,                       // Neon photodisintegration
+  OXYGEN: 1.5e9,
+  SILICON: 2.7e9,
+  IRON_PHOTODISINTEGRATION: 5e9,     // Iron breaks up and the core can no longer support itself
+} as const;
+
+// Burning stages of massive stars after core helium exhaustion
+export const ADVANCED_BURNING_CONSTANTS = {
+  REFERENCE_MASS: 15,                // Initial mass the stage durations are given for (M☉)
+  CARBON_BURNING_TIME: 2e3,          // Core carbon burning in a 15 M☉ star (years, Woosley, Heger & Weaver 2002)
+  NEON_BURNING_TIME: 0.7,            // Core neon burning (years)
+  OXYGEN_BURNING_TIME: 2.6,          // Core oxygen burning (years)
+  SILICON_BURNING_TIME: 0.05,        // Core silicon burning, about 18 days (years)
+  DURATION_MASS_EXPONENT: -3,        // t ∝ M^-3: heavier stars have hotter cores that lose more energy to neutrinos
+  FUEL_E_FOLDINGS: 5,                // Core fuel falls e^-5-fold over a burning stage
+  IRON_CORE_MASS: 1.4,               // Effective Chandrasekhar mass of the iron core at the reference mass (M☉)
+  IRON_CORE_MASS_EXPONENT: 0.3,      // Hotter, more entropic cores of heavier stars collapse at a higher mass
+  MAXIMUM_IRON_CORE_MASS: 2.0,       // Upper limit on the iron core mass at collapse (M☉)
+} as const;
+
+// Radial structure models
+export const STRUCTURE_CONSTANTS = {
+  RADIATIVE_POLYTROPIC_INDEX: 3,     // Eddington standard model of a radiative star
+  CONVECTIVE_POLYTROPIC_INDEX: 1.5,  // Adiabatic monatomic ideal gas
+  WHITE_DWARF_POLYTROPIC_INDEX: 1.5, // Non-relativistic degenerate electrons
+  NEUTRON_STAR_POLYTROPIC_INDEX: 1,  // Stiff nuclear matter
+  CONVECTIVE_FRACTION_THRESHOLD: 0.5, // Stars convective over more of their radius than this are n = 1.5 polytropes
+  LANE_EMDEN_STEP: 0.02,             // RK4 step in ξ
+  HYDROSTATIC_STEP: 0.008,           // RK4 step in units where G = ρc = Pc = 1
+  BOUNDARY_ITERATIONS: 20,           // Iterations to place a zone boundary at its fractional radius
+  BOUNDARY_TOLERANCE: 1e-6,          // Relative change in surface radius that ends the iteration
+  BOUNDARY_RESOLUTION: 0.01,         // Zone boundaries of the hydrostatic solver are rounded to this fraction of the radius
+  PROFILE_POINTS: 50,                // Shells in a radial profile
+  PP_CHAIN_TEMPERATURE_EXPONENT: 4,  // ε ∝ ρT^4
+  CNO_CYCLE_TEMPERATURE_EXPONENT: 16, // ε ∝ ρT^16
+  HELIUM_BURNING_TEMPERATURE_EXPONENT: 40, // ε ∝ ρ²T^40, taken as ρT^40 (also used for carbon burning and beyond)
+} as const;
+
+// Convection (Schwarzschild criterion and opacities, SI units)
+export const CONVECTION_CONSTANTS = {
+  ADIABATIC_GRADIENT: 0.4,               // ∇ad = d ln T / d ln P of a monatomic ideal gas
+  ELECTRON_SCATTERING_OPACITY: 0.02,     // κes = 0.02 (1 + X) m²/kg
+  FREE_FREE_OPACITY: 3.68e18,            // Kramers κff = 3.68e18 (1 - Z)(1 + X) ρ T^-3.5 m²/kg
+  BOUND_FREE_OPACITY: 4.34e21,           // Kramers κbf = 4.34e21 Z (1 + X) ρ T^-3.5 / t m²/kg
+  GUILLOTINE_FACTOR: 14,                 // t = 14 [ρ(1 + X)]^0.2 with ρ in g/cm³, calibrated so the Sun's convective envelope starts near 0.7 R☉
+  H_MINUS_OPACITY: 3.95e-32,             // κH⁻ = 3.95e-32 Z ρ^0.5 T^9 m²/kg (cool envelopes, 3000-6000 K)
+  MAX_OVERSHOOT: 1.0,                    // Largest overshoot distance (pressure scale heights)
+  MIN_RESOLVED_FRACTION: 0.5,            // Profiles must be hotter than the photosphere over this fraction of the radius
+} as const;
+
+// Dredge-up of processed material to the surface of giants
+export const DREDGE_UP_CONSTANTS = {
+  NITROGEN_FRACTION: 0.07,               // Share of the initial metals in nitrogen
+  FIRST_HELIUM: 0.025,                   // Helium mass fraction added by the first dredge-up
+  FIRST_CARBON_DEPLETION: 0.3,           // Fraction of surface carbon turned into nitrogen by the first dredge-up
+  SECOND_MIN_MASS: 4,                    // Lowest initial mass with a second dredge-up (M☉)
+  SECOND_HELIUM: 0.07,                   // Helium mass fraction added by the second dredge-up
+  SECOND_CARBON_DEPLETION: 0.2,          // Fraction of surface carbon turned into nitrogen by the second dredge-up
+  THIRD_MIN_MASS: 1.5,                   // Lowest initial mass with a third dredge-up (M☉)
+  THIRD_DREDGED_MASS: 0.01,              // Intershell material dredged up over the thermally pulsing AGB (M☉)
+  INTERSHELL_CARBON: 0.25,               // Carbon mass fraction of the intershell (the rest is helium)
+  MIN_ENVELOPE_MASS: 0.5,                // Smallest envelope dredged material mixes into (M☉); thinner ones leave the AGB
+  HOT_BOTTOM_BURNING_MASS: 4,            // Above this initial mass the envelope base burns dredged carbon to nitrogen (M☉)
+  CARBON_STAR_RATIO: 1,                  // C/O by number above which a star is a carbon star
+} as const;
+
+// Nucleosynthetic yields of stellar ejecta (mass fractions of the ejected material)
+export const YIELD_CONSTANTS = {
+  // Layers of the helium core thrown off by a core-collapse supernova; the
+  // iron is ⁵⁶Ni made in the explosion (Woosley & Weaver 1995)
+  CORE_COLLAPSE_EJECTA: {
+    helium: 0.27,
+    carbon: 0.07,
+    oxygen: 0.45,
+    neon: 0.08,
+    magnesium: 0.04,
+    silicon: 0.06,
+    iron: 0.03,
+  },
+  // Incinerated carbon–oxygen white dwarf (W7 model, Iwamoto et al. 1999)
+  TYPE_IA_EJECTA: {
+    carbon: 0.03,
+    oxygen: 0.1,
+    neon: 0.01,
+    magnesium: 0.01,
+    silicon: 0.25,
+    iron: 0.6,
+  },
+} as const;
+
+// Star formation from the cloud and from later collapses of the system's gas
+export const STAR_FORMATION_CONSTANTS = {
+  EFFICIENCY: 0.3,                 // Fraction of collapsing gas that ends up in stars
+  SOLAR_METAL_FRACTION: 0.02,      // Metal mass fraction of Z = 1 Z☉ gas in the initial compositions
+  MAX_GENERATIONS: 5,              // Generations a system can form, including the first
+  SEPARATION_FACTOR: 10,           // New generations orbit the older stars this many times their widest orbit
+  MIN_SEPARATION: 1000,            // Narrowest orbit of a new generation around the older stars (AU)
 } as const;
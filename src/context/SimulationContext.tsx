@@ -5,7 +5,7 @@
 
 import React, { createContext, useContext, useState, useCallback, ReactNode } from 'react';
 import { SimulationController } from '../simulation/SimulationController';
-import { CloudParameters, StarSystem, SimulationState } from '../types/core';
+import { CloudParameters, StarSystem, SimulationState, StructureModel } from '../types/core';
 
 interface SimulationContextType {
   controller: SimulationController;
@@ -22,6 +22,9 @@ interface SimulationContextType {
   setTimeScale: (scale: number) => void;
   jumpToTime: (time: number) => void;
   updateSimulation: (deltaTime: number) => void;
+  setStructureModel: (model: StructureModel) => void;
+  setConvectiveOvershoot: (overshoot: number) => void;
+  setMultiGenerationStarFormation: (enabled: boolean) => void;
   clearError: () => void;
 }
 
@@ -125,6 +128,26 @@ export const SimulationProvider: React.FC<SimulationProviderProps> = ({ children
     }
   }, [controller, updateState]);
 
+  const setStructureModel = useCallback((model: StructureModel) => {
+    controller.setStructureModel(model);
+    updateState();
+  }, [controller, updateState]);
+
+  const setConvectiveOvershoot = useCallback((overshoot: number) => {
+    try {
+      setError(null);
+      controller.setConvectiveOvershoot(overshoot);
+      updateState();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to set convective overshoot');
+    }
+  }, [controller, updateState]);
+
+  const setMultiGenerationStarFormation = useCallback((enabled: boolean) => {
+    controller.setMultiGenerationStarFormation(enabled);
+    updateState();
+  }, [controller, updateState]);
+
   const clearError = useCallback(() => {
     setError(null);
   }, []);
@@ -143,6 +166,9 @@ export const SimulationProvider: React.FC<SimulationProviderProps> = ({ children
     setTimeScale,
     jumpToTime,
     updateSimulation,
+    setStructureModel,
+    setConvectiveOvershoot,
+    setMultiGenerationStarFormation,
     clearError,
   };
 
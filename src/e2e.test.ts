@@ -601,7 +601,8 @@ describe('End-to-End Simulation Workflows', () => {
 
       const system = controller.initializeSimulation(cloudParams);
       expect(system).toBeDefined();
-      expect(system.stars.length).toBeGreaterThan(0);
+      // A 0.1 M☉ cloud fragments below the hydrogen-burning limit
+      expect(system.stars.length + (system.brownDwarfs?.length ?? 0)).toBeGreaterThan(0);
     });
 
     it('should handle maximum valid parameters', () => {
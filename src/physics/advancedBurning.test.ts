@@ -0,0 +1,104 @@
+/**
+ * Unit tests for advanced burning stages and iron core collapse
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  calculateBurningStageDuration,
+  calculateAdvancedBurningLifetime,
+  determineAdvancedBurningStage,
+  calculateAdvancedBurningCoreTemperature,
+  calculateEffectiveChandrasekharMass,
+  calculateIronCoreMass,
+} from './advancedBurning';
+import { NuclearReaction } from '../types/core';
+import { ADVANCED_BURNING_CONSTANTS, BURNING_IGNITION_TEMPERATURES } from '../constants/physics';
+
+describe('Advanced Burning', () => {
+  describe('calculateBurningStageDuration', () => {
+    it('should shrink from thousands of years of carbon burning to days of silicon burning', () => {
+      const carbon = calculateBurningStageDuration(NuclearReaction.CARBON_BURNING, 15);
+      const neon = calculateBurningStageDuration(NuclearReaction.NEON_BURNING, 15);
+      const oxygen = calculateBurningStageDuration(NuclearReaction.OXYGEN_BURNING, 15);
+      const silicon = calculateBurningStageDuration(NuclearReaction.SILICON_BURNING, 15);
+
+      expect(carbon).toBe(ADVANCED_BURNING_CONSTANTS.CARBON_BURNING_TIME);
+      expect(carbon).toBeGreaterThan(100 * oxygen);
+      expect(oxygen).toBeGreaterThan(neon);
+      expect(neon).toBeGreaterThan(10 * silicon);
+      expect(silicon * 365.25).toBeLessThan(30);
+    });
+
+    it('should be shorter in heavier stars', () => {
+      expect(calculateBurningStageDuration(NuclearReaction.CARBON_BURNING, 25))
+        .toBeLessThan(calculateBurningStageDuration(NuclearReaction.CARBON_BURNING, 15));
+    });
+
+    it('should be zero for reactions that are not advanced burning stages', () => {
+      expect(calculateBurningStageDuration(NuclearReaction.TRIPLE_ALPHA, 15)).toBe(0);
+    });
+  });
+
+  describe('determineAdvancedBurningStage', () => {
+    it('should burn carbon, neon, oxygen and silicon in turn', () => {
+      const durations = [
+        NuclearReaction.CARBON_BURNING,
+        NuclearReaction.NEON_BURNING,
+        NuclearReaction.OXYGEN_BURNING,
+        NuclearReaction.SILICON_BURNING,
+      ].map(reaction => calculateBurningStageDuration(reaction, 15));
+      const midpoints = durations.map((duration, i) =>
+        durations.slice(0, i).reduce((sum, d) => sum + d, 0) + duration / 2
+      );
+
+      expect(midpoints.map(time => determineAdvancedBurningStage(15, time))).toEqual([
+        { reaction: NuclearReaction.CARBON_BURNING, progress: expect.closeTo(0.5, 6) },
+        { reaction: NuclearReaction.NEON_BURNING, progress: expect.closeTo(0.5, 6) },
+        { reaction: NuclearReaction.OXYGEN_BURNING, progress: expect.closeTo(0.5, 6) },
+        { reaction: NuclearReaction.SILICON_BURNING, progress: expect.closeTo(0.5, 6) },
+      ]);
+    });
+
+    it('should leave an inert core once silicon is exhausted', () => {
+      expect(determineAdvancedBurningStage(15, calculateAdvancedBurningLifetime(15))).toEqual({
+        reaction: NuclearReaction.NONE,
+        progress: 1,
+      });
+    });
+  });
+
+  describe('calculateAdvancedBurningCoreTemperature', () => {
+    it('should heat the core from carbon ignition to iron photodisintegration', () => {
+      const lifetime = calculateAdvancedBurningLifetime(15);
+      const silicon = calculateBurningStageDuration(NuclearReaction.SILICON_BURNING, 15);
+
+      expect(calculateAdvancedBurningCoreTemperature(15, 0)).toBe(BURNING_IGNITION_TEMPERATURES.CARBON);
+      expect(calculateAdvancedBurningCoreTemperature(15, lifetime - silicon / 2))
+        .toBeGreaterThan(BURNING_IGNITION_TEMPERATURES.SILICON);
+      expect(calculateAdvancedBurningCoreTemperature(15, lifetime))
+        .toBe(BURNING_IGNITION_TEMPERATURES.IRON_PHOTODISINTEGRATION);
+    });
+  });
+
+  describe('calculateEffectiveChandrasekharMass', () => {
+    it('should rise with stellar mass up to a limit', () => {
+      expect(calculateEffectiveChandrasekharMass(15)).toBe(ADVANCED_BURNING_CONSTANTS.IRON_CORE_MASS);
+      expect(calculateEffectiveChandrasekharMass(10)).toBeLessThan(calculateEffectiveChandrasekharMass(15));
+      expect(calculateEffectiveChandrasekharMass(150)).toBe(ADVANCED_BURNING_CONSTANTS.MAXIMUM_IRON_CORE_MASS);
+    });
+  });
+
+  describe('calculateIronCoreMass', () => {
+    it('should only grow an iron core during silicon burning', () => {
+      const lifetime = calculateAdvancedBurningLifetime(15);
+      const silicon = calculateBurningStageDuration(NuclearReaction.SILICON_BURNING, 15);
+
+      expect(calculateIronCoreMass(15, lifetime - 2 * silicon)).toBe(0);
+      expect(calculateIronCoreMass(15, lifetime - silicon / 2)).toBeCloseTo(
+        calculateEffectiveChandrasekharMass(15) / 2,
+        4
+      );
+      expect(calculateIronCoreMass(15, lifetime)).toBe(calculateEffectiveChandrasekharMass(15));
+    });
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Advanced burning functions
+ * Carbon, neon, oxygen and silicon burning in the cores of massive stars
+ * after helium is exhausted, ending with an iron core that collapses
+ */
+
+import { ADVANCED_BURNING_CONSTANTS, BURNING_IGNITION_TEMPERATURES } from '../constants/physics';
+import { NuclearReaction } from '../types/core';
+
+// Core burning stages in the order they ignite
+const ADVANCED_BURNING_SEQUENCE = [
+  NuclearReaction.CARBON_BURNING,
+  NuclearReaction.NEON_BURNING,
+  NuclearReaction.OXYGEN_BURNING,
+  NuclearReaction.SILICON_BURNING,
+];
+
+/**
+ * Calculate how long a massive star burns a fuel in its core
+ * Each stage releases less energy per unit mass than the last while
+ * neutrino losses climb steeply with temperature, so the stages shrink from
+ * thousands of years of carbon burning to days of silicon burning
+ * @param reaction - Core burning stage
+ * @param mass - Initial stellar mass in solar masses
+ * @returns Stage duration in years (0 for reactions that are not advanced burning stages)
+ */
+export function calculateBurningStageDuration(reaction: NuclearReaction, mass: number): number {
+  const { REFERENCE_MASS, DURATION_MASS_EXPONENT } = ADVANCED_BURNING_CONSTANTS;
+  return getReferenceDuration(reaction) * Math.pow(mass / REFERENCE_MASS, DURATION_MASS_EXPONENT);
+}
+
+/**
+ * Calculate the time from core helium exhaustion to core collapse
+ * @param mass - Initial stellar mass in solar masses
+ * @returns Total duration of the advanced burning stages in years
+ */
+export function calculateAdvancedBurningLifetime(mass: number): number {
+  return ADVANCED_BURNING_SEQUENCE.reduce(
+    (sum, reaction) => sum + calculateBurningStageDuration(reaction, mass),
+    0
+  );
+}
+
+/**
+ * Determine which fuel a massive star burns in its core after helium exhaustion
+ * @param mass - Initial stellar mass in solar masses
+ * @param time - Time since core helium exhaustion in years
+ * @returns Current burning stage and the fraction of it elapsed (0-1);
+ *   NONE once silicon is exhausted and the iron core is inert
+ */
+export function determineAdvancedBurningStage(
+  mass: number,
+  time: number
+): { reaction: NuclearReaction; progress: number } {
+  let start = 0;
+  for (const reaction of ADVANCED_BURNING_SEQUENCE) {
+    const duration = calculateBurningStageDuration(reaction, mass);
+    if (time < start + duration) {
+      return { reaction, progress: Math.max(time - start, 0) / duration };
+    }
+    start += duration;
+  }
+  return { reaction: NuclearReaction.NONE, progress: 1 };
+}
+
+/**
+ * Calculate the core temperature of a massive star after helium exhaustion
+ * The core contracts and heats from one ignition temperature to the next
+ * during each stage, reaching iron photodisintegration as silicon runs out
+ * @param mass - Initial stellar mass in solar masses
+ * @param time - Time since core helium exhaustion in years
+ * @returns Core temperature in Kelvin
+ */
+export function calculateAdvancedBurningCoreTemperature(mass: number, time: number): number {
+  const { reaction, progress } = determineAdvancedBurningStage(mass, time);
+  if (reaction === NuclearReaction.NONE) {
+    return BURNING_IGNITION_TEMPERATURES.IRON_PHOTODISINTEGRATION;
+  }
+
+  const next = ADVANCED_BURNING_SEQUENCE[ADVANCED_BURNING_SEQUENCE.indexOf(reaction) + 1];
+  const start = getIgnitionTemperature(reaction);
+  const end = next
+    ? getIgnitionTemperature(next)
+    : BURNING_IGNITION_TEMPERATURES.IRON_PHOTODISINTEGRATION;
+  return start * Math.pow(end / start, progress);
+}
+
+/**
+ * Calculate the mass of iron core at which a massive star collapses
+ * Electron degeneracy pressure cannot hold up more than the effective
+ * Chandrasekhar mass, which rises with the core entropy of heavier stars
+ * @param mass - Initial stellar mass in solar masses
+ * @returns Iron core mass at collapse in solar masses
+ */
+export function calculateEffectiveChandrasekharMass(mass: number): number {
+  const { REFERENCE_MASS, IRON_CORE_MASS, IRON_CORE_MASS_EXPONENT, MAXIMUM_IRON_CORE_MASS } =
+    ADVANCED_BURNING_CONSTANTS;
+  return Math.min(IRON_CORE_MASS * Math.pow(mass / REFERENCE_MASS, IRON_CORE_MASS_EXPONENT), MAXIMUM_IRON_CORE_MASS);
+}
+
+/**
+ * Calculate the mass of the iron core built by silicon burning
+ * The core grows as silicon burns and reaches the effective Chandrasekhar
+ * mass when silicon is exhausted
+ * @param mass - Initial stellar mass in solar masses
+ * @param time - Time since core helium exhaustion in years
+ * @returns Iron core mass in solar masses
+ */
+export function calculateIronCoreMass(mass: number, time: number): number {
+  const { reaction, progress } = determineAdvancedBurningStage(mass, time);
+  switch (reaction) {
+    case NuclearReaction.SILICON_BURNING:
+      return calculateEffectiveChandrasekharMass(mass) * progress;
+    case NuclearReaction.NONE:
+      return calculateEffectiveChandrasekharMass(mass);
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Get the duration of a burning stage in a star of the reference mass
+ * @returns Duration in years
+ */
+function getReferenceDuration(reaction: NuclearReaction): number {
+  switch (reaction) {
+    case NuclearReaction.CARBON_BURNING:
+      return ADVANCED_BURNING_CONSTANTS.CARBON_BURNING_TIME;
+    case NuclearReaction.NEON_BURNING:
+      return ADVANCED_BURNING_CONSTANTS.NEON_BURNING_TIME;
+    case NuclearReaction.OXYGEN_BURNING:
+      return ADVANCED_BURNING_CONSTANTS.OXYGEN_BURNING_TIME;
+    case NuclearReaction.SILICON_BURNING:
+      return ADVANCED_BURNING_CONSTANTS.SILICON_BURNING_TIME;
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Get the core temperature at which a burning stage ignites
+ * @returns Temperature in Kelvin
+ */
+function getIgnitionTemperature(reaction: NuclearReaction): number {
+  switch (reaction) {
+    case NuclearReaction.CARBON_BURNING:
+      return BURNING_IGNITION_TEMPERATURES.CARBON;
+    case NuclearReaction.NEON_BURNING:
+      return BURNING_IGNITION_TEMPERATURES.NEON;
+    case NuclearReaction.OXYGEN_BURNING:
+      return BURNING_IGNITION_TEMPERATURES.OXYGEN;
+    default:
+      return BURNING_IGNITION_TEMPERATURES.SILICON;
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * Unit tests for brown dwarfs
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  isSubstellar,
+  calculateDeuteriumBurningTime,
+  calculateDeuteriumFraction,
+  calculateBrownDwarfLuminosity,
+  calculateBrownDwarfRadius,
+  determineSubstellarSpectralType,
+  calculateBrownDwarfProperties,
+} from './brownDwarfs';
+import { SubstellarSpectralType } from '../types/core';
+import { BROWN_DWARF_CONSTANTS, VALIDATION_RANGES } from '../constants/physics';
+
+describe('Brown Dwarfs', () => {
+  describe('isSubstellar', () => {
+    it('should split objects at the hydrogen-burning limit', () => {
+      expect(isSubstellar(0.05)).toBe(true);
+      expect(isSubstellar(VALIDATION_RANGES.STELLAR_MASS.min)).toBe(false);
+      expect(isSubstellar(1.0)).toBe(false);
+    });
+  });
+
+  describe('calculateDeuteriumBurningTime', () => {
+    it('should be zero below the deuterium-burning limit', () => {
+      expect(calculateDeuteriumBurningTime(BROWN_DWARF_CONSTANTS.DEUTERIUM_BURNING_MASS * 0.9)).toBe(0);
+    });
+
+    it('should be shorter for heavier brown dwarfs', () => {
+      expect(calculateDeuteriumBurningTime(0.06)).toBeLessThan(calculateDeuteriumBurningTime(0.02));
+      expect(calculateDeuteriumBurningTime(0.02)).toBe(BROWN_DWARF_CONSTANTS.DEUTERIUM_BURNING_TIME);
+    });
+  });
+
+  describe('calculateDeuteriumFraction', () => {
+    it('should burn deuterium away over time', () => {
+      expect(calculateDeuteriumFraction(0.03, 0)).toBe(1);
+      expect(calculateDeuteriumFraction(0.03, 1e6)).toBeLessThan(1);
+      expect(calculateDeuteriumFraction(0.03, 1e9)).toBeLessThan(1e-6);
+    });
+
+    it('should keep all deuterium in objects too light to burn it', () => {
+      expect(calculateDeuteriumFraction(0.008, 1e10)).toBe(1);
+    });
+  });
+
+  describe('calculateBrownDwarfLuminosity', () => {
+    it('should fade as t^-1.3 once deuterium is gone', () => {
+      const young = calculateBrownDwarfLuminosity(0.05, 1e9);
+      const old = calculateBrownDwarfLuminosity(0.05, 1e10);
+      expect(young / old).toBeCloseTo(Math.pow(10, BROWN_DWARF_CONSTANTS.COOLING_AGE_EXPONENT), 6);
+    });
+
+    it('should hold a plateau while deuterium burns', () => {
+      const burningTime = calculateDeuteriumBurningTime(0.013);
+      const plateau = calculateBrownDwarfLuminosity(0.013, 0);
+      expect(calculateBrownDwarfLuminosity(0.013, burningTime)).toBeCloseTo(plateau, 12);
+      expect(calculateBrownDwarfLuminosity(0.013, burningTime * 10)).toBeLessThan(plateau);
+    });
+
+    it('should be brighter for heavier and metal-rich brown dwarfs', () => {
+      expect(calculateBrownDwarfLuminosity(0.07, 1e9)).toBeGreaterThan(calculateBrownDwarfLuminosity(0.03, 1e9));
+      expect(calculateBrownDwarfLuminosity(0.05, 1e9, 2.0)).toBeGreaterThan(calculateBrownDwarfLuminosity(0.05, 1e9, 1.0));
+    });
+  });
+
+  describe('calculateBrownDwarfRadius', () => {
+    it('should contract towards about one Jupiter radius', () => {
+      expect(calculateBrownDwarfRadius(1e7)).toBeGreaterThan(calculateBrownDwarfRadius(1e9));
+      expect(calculateBrownDwarfRadius(1e10)).toBeGreaterThan(BROWN_DWARF_CONSTANTS.RADIUS);
+      expect(calculateBrownDwarfRadius(1e10)).toBeLessThan(BROWN_DWARF_CONSTANTS.RADIUS * 1.2);
+    });
+  });
+
+  describe('determineSubstellarSpectralType', () => {
+    it('should classify by temperature', () => {
+      expect(determineSubstellarSpectralType(2700)).toBe(SubstellarSpectralType.M);
+      expect(determineSubstellarSpectralType(1800)).toBe(SubstellarSpectralType.L);
+      expect(determineSubstellarSpectralType(900)).toBe(SubstellarSpectralType.T);
+      expect(determineSubstellarSpectralType(300)).toBe(SubstellarSpectralType.Y);
+    });
+  });
+
+  describe('calculateBrownDwarfProperties', () => {
+    it('should cool a brown dwarf through the L, T and Y classes', () => {
+      const types = [1e8, 1e9, 1e10].map(age => calculateBrownDwarfProperties(0.03, age).spectralType);
+      expect(types).toEqual([SubstellarSpectralType.L, SubstellarSpectralType.T, SubstellarSpectralType.Y]);
+    });
+
+    it('should start a young brown dwarf as a late-M object', () => {
+      const young = calculateBrownDwarfProperties(0.05, 1e6);
+      expect(young.spectralType).toBe(SubstellarSpectralType.M);
+      expect(young.deuteriumFraction).toBeLessThan(1);
+    });
+  });
+});
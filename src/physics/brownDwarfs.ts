@@ -0,0 +1,135 @@
+/**
+ * Brown dwarf functions
+ * Substellar objects below the hydrogen-burning limit: deuterium burning,
+ * cooling with age and the L/T/Y spectral sequence
+ */
+
+import {
+  VALIDATION_RANGES,
+  BROWN_DWARF_CONSTANTS,
+  SUBSTELLAR_SPECTRAL_TYPE_TEMPERATURES,
+} from '../constants/physics';
+import { BrownDwarf, SubstellarSpectralType } from '../types/core';
+import { calculateMetallicityFactor, calculateTemperature } from './stellarPhysics';
+
+/**
+ * Whether an object is too light to burn hydrogen
+ * @param mass - Mass in solar masses
+ * @returns True below the hydrogen-burning limit
+ */
+export function isSubstellar(mass: number): boolean {
+  return mass < VALIDATION_RANGES.STELLAR_MASS.min;
+}
+
+/**
+ * Calculate how long a brown dwarf burns its deuterium
+ * Objects below about 13 Jupiter masses never get hot enough
+ * @param mass - Brown dwarf mass in solar masses
+ * @returns Deuterium burning time in years (0 if it never burns)
+ */
+export function calculateDeuteriumBurningTime(mass: number): number {
+  const {
+    DEUTERIUM_BURNING_MASS,
+    DEUTERIUM_BURNING_TIME,
+    DEUTERIUM_REFERENCE_MASS,
+    DEUTERIUM_TIME_EXPONENT,
+  } = BROWN_DWARF_CONSTANTS;
+  if (mass < DEUTERIUM_BURNING_MASS) {
+    return 0;
+  }
+  return DEUTERIUM_BURNING_TIME * Math.pow(mass / DEUTERIUM_REFERENCE_MASS, -DEUTERIUM_TIME_EXPONENT);
+}
+
+/**
+ * Calculate the fraction of its deuterium a brown dwarf has left
+ * @param mass - Brown dwarf mass in solar masses
+ * @param age - Age in years
+ * @returns Remaining fraction of the initial deuterium (0-1)
+ */
+export function calculateDeuteriumFraction(mass: number, age: number): number {
+  const burningTime = calculateDeuteriumBurningTime(mass);
+  if (burningTime <= 0) {
+    return 1;
+  }
+  return Math.exp(-Math.max(age, 0) / burningTime);
+}
+
+/**
+ * Calculate the luminosity of a brown dwarf
+ * With no fusion to sustain it, a brown dwarf fades as it cools:
+ * L ∝ M^2.64 t^-1.3 κ^0.35 (Burrows & Liebert 1993). Deuterium burning
+ * holds the luminosity on a plateau until the deuterium runs out.
+ * @param mass - Brown dwarf mass in solar masses
+ * @param age - Age in years
+ * @param metallicity - Metallicity relative to solar (Z☉)
+ * @returns Luminosity in solar luminosities
+ */
+export function calculateBrownDwarfLuminosity(mass: number, age: number, metallicity: number = 1.0): number {
+  const {
+    COOLING_LUMINOSITY,
+    COOLING_REFERENCE_MASS,
+    COOLING_MASS_EXPONENT,
+    COOLING_AGE_EXPONENT,
+    COOLING_OPACITY_EXPONENT,
+    MINIMUM_COOLING_AGE,
+  } = BROWN_DWARF_CONSTANTS;
+  const coolingAge = Math.max(age, calculateDeuteriumBurningTime(mass), MINIMUM_COOLING_AGE);
+  return COOLING_LUMINOSITY *
+    Math.pow(mass / COOLING_REFERENCE_MASS, COOLING_MASS_EXPONENT) *
+    Math.pow(coolingAge / 1e9, -COOLING_AGE_EXPONENT) *
+    calculateMetallicityFactor(metallicity, COOLING_OPACITY_EXPONENT);
+}
+
+/**
+ * Calculate the radius of a brown dwarf
+ * Electron degeneracy fixes the radius near one Jupiter radius whatever
+ * the mass; young brown dwarfs are still contracting
+ * @param age - Age in years
+ * @returns Radius in solar radii
+ */
+export function calculateBrownDwarfRadius(age: number): number {
+  const { RADIUS, CONTRACTION_AGE, CONTRACTION_EXPONENT, MINIMUM_COOLING_AGE } = BROWN_DWARF_CONSTANTS;
+  const contractionAge = Math.max(age, MINIMUM_COOLING_AGE);
+  return RADIUS * (1 + Math.pow(CONTRACTION_AGE / contractionAge, CONTRACTION_EXPONENT));
+}
+
+/**
+ * Determine the spectral type of a substellar object from its temperature
+ * @param temperature - Effective temperature in Kelvin
+ * @returns M, L, T or Y
+ */
+export function determineSubstellarSpectralType(temperature: number): SubstellarSpectralType {
+  if (temperature >= SUBSTELLAR_SPECTRAL_TYPE_TEMPERATURES.M.min) {
+    return SubstellarSpectralType.M;
+  } else if (temperature >= SUBSTELLAR_SPECTRAL_TYPE_TEMPERATURES.L.min) {
+    return SubstellarSpectralType.L;
+  } else if (temperature >= SUBSTELLAR_SPECTRAL_TYPE_TEMPERATURES.T.min) {
+    return SubstellarSpectralType.T;
+  } else {
+    return SubstellarSpectralType.Y;
+  }
+}
+
+/**
+ * Calculate the properties of a brown dwarf at a given age
+ * @param mass - Brown dwarf mass in solar masses
+ * @param age - Age in years
+ * @param metallicity - Metallicity relative to solar (Z☉)
+ * @returns Luminosity, radius, temperature, spectral type and remaining deuterium
+ */
+export function calculateBrownDwarfProperties(
+  mass: number,
+  age: number,
+  metallicity: number = 1.0
+): Pick<BrownDwarf, 'luminosity' | 'radius' | 'temperature' | 'spectralType' | 'deuteriumFraction'> {
+  const luminosity = calculateBrownDwarfLuminosity(mass, age, metallicity);
+  const radius = calculateBrownDwarfRadius(age);
+  const temperature = calculateTemperature(luminosity, radius);
+  return {
+    luminosity,
+    radius,
+    temperature,
+    spectralType: determineSubstellarSpectralType(temperature),
+    deuteriumFraction: calculateDeuteriumFraction(mass, age),
+  };
+}
@@ -0,0 +1,98 @@
+/**
+ * Unit tests for common-envelope evolution and mergers
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  calculateEnvelopeBindingEnergy,
+  calculateOrbitalEnergy,
+  calculatePostCommonEnvelopeSeparation,
+  determineCommonEnvelopeOutcome,
+  calculateMergerMass,
+  mixCoreCompositions,
+} from './commonEnvelope';
+import { CommonEnvelopeOutcome, CoreComposition } from '../types/core';
+
+describe('Common Envelope', () => {
+  describe('calculateEnvelopeBindingEnergy', () => {
+    it('should be about 1.5e40 J for a 1 M☉ envelope of a 2 M☉, 100 R☉ giant', () => {
+      // G (2 M☉)(1 M☉) / (0.5 × 100 R☉)
+      expect(calculateEnvelopeBindingEnergy(2, 1, 100)).toBeCloseTo(1.52e40, -38);
+    });
+
+    it('should be more tightly bound for a smaller λ', () => {
+      expect(calculateEnvelopeBindingEnergy(2, 1, 100, 0.1)).toBeCloseTo(
+        calculateEnvelopeBindingEnergy(2, 1, 100, 0.5) * 5, -35
+      );
+    });
+  });
+
+  describe('calculateOrbitalEnergy', () => {
+    it('should be negative and halve when the separation doubles', () => {
+      const energy = calculateOrbitalEnergy(1, 1, 100);
+      expect(energy).toBeLessThan(0);
+      expect(calculateOrbitalEnergy(1, 1, 200)).toBeCloseTo(energy / 2, -30);
+    });
+  });
+
+  describe('calculatePostCommonEnvelopeSeparation', () => {
+    it('should shrink the orbit by orders of magnitude', () => {
+      const separation = calculatePostCommonEnvelopeSeparation(200, 2.0, 0.6, 1.0, 100);
+      expect(separation).toBeGreaterThan(1);
+      expect(separation).toBeLessThan(20);
+    });
+
+    it('should leave a wider orbit for a more efficient ejection', () => {
+      expect(calculatePostCommonEnvelopeSeparation(200, 2.0, 0.6, 1.0, 100, 2.0)).toBeGreaterThan(
+        calculatePostCommonEnvelopeSeparation(200, 2.0, 0.6, 1.0, 100, 0.5)
+      );
+    });
+
+    it('should return 0 without a core', () => {
+      expect(calculatePostCommonEnvelopeSeparation(200, 2.0, 0, 1.0, 100)).toBe(0);
+    });
+  });
+
+  describe('determineCommonEnvelopeOutcome', () => {
+    it('should eject the envelope when both stars fit in the final orbit', () => {
+      expect(determineCommonEnvelopeOutcome(5, 0.6, 0.013, 1.0, 1.0)).toBe(CommonEnvelopeOutcome.EJECTED);
+    });
+
+    it('should merge when the companion overfills its Roche lobe', () => {
+      expect(determineCommonEnvelopeOutcome(1, 0.6, 0.013, 1.0, 1.0)).toBe(CommonEnvelopeOutcome.MERGED);
+    });
+
+    it('should merge when there is no core or no final orbit', () => {
+      expect(determineCommonEnvelopeOutcome(5, 0, 0, 1.0, 1.0)).toBe(CommonEnvelopeOutcome.MERGED);
+      expect(determineCommonEnvelopeOutcome(0, 0.6, 0.013, 1.0, 1.0)).toBe(CommonEnvelopeOutcome.MERGED);
+    });
+  });
+
+  describe('calculateMergerMass', () => {
+    it('should lose a tenth of the combined mass', () => {
+      expect(calculateMergerMass(1.2, 0.8)).toBeCloseTo(1.8, 12);
+    });
+  });
+
+  describe('mixCoreCompositions', () => {
+    const burned: CoreComposition = {
+      hydrogen: 0.2, helium: 0.78, carbon: 0, oxygen: 0.01, neon: 0, magnesium: 0, silicon: 0, iron: 0.01,
+    };
+    const fresh: CoreComposition = {
+      hydrogen: 0.7, helium: 0.28, carbon: 0, oxygen: 0.01, neon: 0, magnesium: 0, silicon: 0, iron: 0.01,
+    };
+
+    it('should weight each element by mass', () => {
+      const mixed = mixCoreCompositions(burned, 3, fresh, 1);
+      expect(mixed.hydrogen).toBeCloseTo(0.325, 12);
+      expect(mixed.helium).toBeCloseTo(0.655, 12);
+      expect(mixed.iron).toBeCloseTo(0.01, 12);
+    });
+
+    it('should keep the mass fractions normalized', () => {
+      const mixed = mixCoreCompositions(burned, 1.3, fresh, 0.4);
+      const total = Object.values(mixed).reduce((sum, fraction) => sum + fraction, 0);
+      expect(total).toBeCloseTo(1, 12);
+    });
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Common-envelope functions
+ * Energy budget of a companion spiralling into a donor's envelope
+ * (α formalism), the separation left once the envelope is ejected and the
+ * products of stellar mergers
+ */
+
+import {
+  PHYSICS_CONSTANTS,
+  COMMON_ENVELOPE_CONSTANTS,
+} from '../constants/physics';
+import { CommonEnvelopeOutcome, CoreComposition } from '../types/core';
+import { calculateRocheLobeRadius } from './massTransfer';
+
+/**
+ * Calculate the gravitational binding energy of a stellar envelope
+ * E_bind = G M M_env / (λ R)
+ * @param mass - Total stellar mass in solar masses
+ * @param envelopeMass - Envelope mass in solar masses
+ * @param radius - Stellar radius in solar radii
+ * @param lambda - Envelope structure parameter λ
+ * @returns Binding energy in joules
+ */
+export function calculateEnvelopeBindingEnergy(
+  mass: number,
+  envelopeMass: number,
+  radius: number,
+  lambda: number = COMMON_ENVELOPE_CONSTANTS.ENVELOPE_STRUCTURE
+): number {
+  if (radius <= 0 || lambda <= 0) {
+    return Infinity;
+  }
+  const { GRAVITATIONAL_CONSTANT: G, SOLAR_MASS, SOLAR_RADIUS } = PHYSICS_CONSTANTS;
+  return G * mass * envelopeMass * SOLAR_MASS * SOLAR_MASS / (lambda * radius * SOLAR_RADIUS);
+}
+
+/**
+ * Calculate the orbital energy of a binary
+ * E_orb = −G M₁ M₂ / (2a)
+ * @param mass1 - Mass of the first star in solar masses
+ * @param mass2 - Mass of the second star in solar masses
+ * @param separation - Semi-major axis in solar radii
+ * @returns Orbital energy in joules (negative for a bound orbit)
+ */
+export function calculateOrbitalEnergy(mass1: number, mass2: number, separation: number): number {
+  const { GRAVITATIONAL_CONSTANT: G, SOLAR_MASS, SOLAR_RADIUS } = PHYSICS_CONSTANTS;
+  return -G * mass1 * mass2 * SOLAR_MASS * SOLAR_MASS / (2 * separation * SOLAR_RADIUS);
+}
+
+/**
+ * Calculate the separation of the donor's core and the companion after the
+ * envelope has been ejected
+ * The companion spirals in until the orbital energy it released unbinds
+ * the envelope: α (E_orb,i − E_orb,f) = E_bind, where the final orbit is
+ * that of the bare core and the companion
+ * @param separation - Separation at the onset in solar radii
+ * @param donorMass - Donor mass in solar masses
+ * @param coreMass - Donor core mass in solar masses
+ * @param companionMass - Companion mass in solar masses
+ * @param donorRadius - Donor radius in solar radii
+ * @param efficiency - Common-envelope efficiency α
+ * @param lambda - Envelope structure parameter λ
+ * @returns Final separation in solar radii (0 if no core is left)
+ */
+export function calculatePostCommonEnvelopeSeparation(
+  separation: number,
+  donorMass: number,
+  coreMass: number,
+  companionMass: number,
+  donorRadius: number,
+  efficiency: number = COMMON_ENVELOPE_CONSTANTS.EFFICIENCY,
+  lambda: number = COMMON_ENVELOPE_CONSTANTS.ENVELOPE_STRUCTURE
+): number {
+  if (coreMass <= 0 || companionMass <= 0 || efficiency <= 0) {
+    return 0;
+  }
+
+  const bindingEnergy = calculateEnvelopeBindingEnergy(donorMass, donorMass - coreMass, donorRadius, lambda);
+  const finalEnergy = calculateOrbitalEnergy(donorMass, companionMass, separation) - bindingEnergy / efficiency;
+  const { GRAVITATIONAL_CONSTANT: G, SOLAR_MASS, SOLAR_RADIUS } = PHYSICS_CONSTANTS;
+  return -G * coreMass * companionMass * SOLAR_MASS * SOLAR_MASS / (2 * finalEnergy * SOLAR_RADIUS);
+}
+
+/**
+ * Determine whether a common envelope is ejected or ends in a merger
+ * The binary survives only if, at the final separation, neither the core
+ * nor the companion fills its Roche lobe
+ * @param finalSeparation - Separation after the spiral-in in solar radii
+ * @param coreMass - Donor core mass in solar masses
+ * @param coreRadius - Radius of the exposed core in solar radii
+ * @param companionMass - Companion mass in solar masses
+ * @param companionRadius - Companion radius in solar radii
+ * @returns EJECTED or MERGED
+ */
+export function determineCommonEnvelopeOutcome(
+  finalSeparation: number,
+  coreMass: number,
+  coreRadius: number,
+  companionMass: number,
+  companionRadius: number
+): CommonEnvelopeOutcome {
+  if (finalSeparation <= 0 || coreMass <= 0) {
+    return CommonEnvelopeOutcome.MERGED;
+  }
+
+  const coreLobe = calculateRocheLobeRadius(finalSeparation, coreMass / companionMass);
+  const companionLobe = calculateRocheLobeRadius(finalSeparation, companionMass / coreMass);
+  return coreRadius > coreLobe || companionRadius > companionLobe
+    ? CommonEnvelopeOutcome.MERGED
+    : CommonEnvelopeOutcome.EJECTED;
+}
+
+/**
+ * Calculate the mass of a merger product
+ * Part of the combined mass is expelled during the coalescence
+ * @param mass1 - Mass of the first star in solar masses
+ * @param mass2 - Mass of the second star in solar masses
+ * @returns Mass of the merged star in solar masses
+ */
+export function calculateMergerMass(mass1: number, mass2: number): number {
+  return (mass1 + mass2) * (1 - COMMON_ENVELOPE_CONSTANTS.MERGER_MASS_LOSS);
+}
+
+/**
+ * Mix the core compositions of two stars by mass
+ * @param composition1 - Composition of the first star
+ * @param mass1 - Mass of the first star in solar masses
+ * @param composition2 - Composition of the second star
+ * @param mass2 - Mass of the second star in solar masses
+ * @returns Mass-weighted composition
+ */
+export function mixCoreCompositions(
+  composition1: CoreComposition,
+  mass1: number,
+  composition2: CoreComposition,
+  mass2: number
+): CoreComposition {
+  const total = mass1 + mass2;
+  if (total <= 0) {
+    return { ...composition1 };
+  }
+
+  const mixed = { ...composition1 };
+  for (const element of Object.keys(mixed) as (keyof CoreComposition)[]) {
+    mixed[element] = (composition1[element] * mass1 + composition2[element] * mass2) / total;
+  }
+  return mixed;
+}
@@ -0,0 +1,126 @@
+/**
+ * Unit tests for convective and radiative zones
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  calculateOpacity,
+  calculateRadiativeGradient,
+  calculatePressureScaleHeight,
+  determineConvectiveZones,
+} from './convection';
+import { calculateInternalStructure, calculateInitialCoreComposition } from './internalStructure';
+import { calculateRadialProfile } from './stellarStructure';
+import { EvolutionPhase, RadialProfile, StructureModel, StructureZone, ZoneType } from '../types/core';
+import { CONVECTION_CONSTANTS } from '../constants/physics';
+
+/**
+ * Polytrope profile of a main sequence star with its estimated zones
+ */
+function mainSequenceProfile(mass: number, radius: number, luminosity: number, temperature: number): RadialProfile {
+  const structure = calculateInternalStructure(mass, radius, luminosity, EvolutionPhase.MAIN_SEQUENCE, 0.5, 1.0);
+  return calculateRadialProfile(
+    StructureModel.POLYTROPE, mass, radius, luminosity, temperature, EvolutionPhase.MAIN_SEQUENCE, 1.0, structure
+  )!;
+}
+
+/**
+ * Check that zones alternate in type and cover the star without gaps
+ */
+function expectContiguous(zones: StructureZone[]): void {
+  expect(zones[0].innerRadius).toBe(0);
+  expect(zones[zones.length - 1].outerRadius).toBe(1);
+  for (let i = 1; i < zones.length; i++) {
+    expect(zones[i].innerRadius).toBe(zones[i - 1].outerRadius);
+    expect(zones[i].type).not.toBe(zones[i - 1].type);
+  }
+}
+
+const solarComposition = calculateInitialCoreComposition(1.0);
+
+describe('Convection', () => {
+  describe('calculateOpacity', () => {
+    it('should fall with temperature through a hot interior', () => {
+      expect(calculateOpacity(1000, 1e6, solarComposition))
+        .toBeGreaterThan(calculateOpacity(1000, 1e7, solarComposition));
+    });
+
+    it('should approach electron scattering when the gas is fully ionized', () => {
+      const floor = CONVECTION_CONSTANTS.ELECTRON_SCATTERING_OPACITY * (1 + solarComposition.hydrogen);
+
+      expect(calculateOpacity(1, 1e9, solarComposition)).toBeCloseTo(floor, 4);
+    });
+
+    it('should drop steeply in cool, H⁻ dominated layers', () => {
+      expect(calculateOpacity(1e-4, 4000, solarComposition))
+        .toBeLessThan(calculateOpacity(1e-4, 6000, solarComposition));
+    });
+  });
+
+  describe('calculateRadiativeGradient', () => {
+    it('should scale with opacity and luminosity and vanish at the centre', () => {
+      const gradient = calculateRadiativeGradient(0.1, 1e26, 1e15, 1e30, 1e7);
+
+      expect(calculateRadiativeGradient(0.2, 1e26, 1e15, 1e30, 1e7)).toBeCloseTo(2 * gradient, 10);
+      expect(calculateRadiativeGradient(0.1, 2e26, 1e15, 1e30, 1e7)).toBeCloseTo(2 * gradient, 10);
+      expect(calculateRadiativeGradient(0.1, 1e26, 1e15, 0, 1e7)).toBe(0);
+    });
+  });
+
+  describe('calculatePressureScaleHeight', () => {
+    it('should be infinite at the centre and grow with pressure', () => {
+      expect(calculatePressureScaleHeight(1e16, 1e5, 0, 0)).toBe(Infinity);
+      expect(calculatePressureScaleHeight(2e14, 1e3, 1e30, 5e8))
+        .toBeGreaterThan(calculatePressureScaleHeight(1e14, 1e3, 1e30, 5e8));
+    });
+  });
+
+  describe('determineConvectiveZones', () => {
+    it('should give a Sun-like star a radiative interior and a convective envelope', () => {
+      const zones = determineConvectiveZones(mainSequenceProfile(1.0, 1.0, 1.0, 5778))!;
+      const envelope = zones[zones.length - 1];
+
+      expectContiguous(zones);
+      expect(envelope.type).toBe(ZoneType.CONVECTIVE);
+      expect(envelope.innerRadius).toBeGreaterThan(0.5);
+      expect(envelope.innerRadius).toBeLessThan(0.85);
+      expect(zones[zones.length - 2].type).toBe(ZoneType.RADIATIVE);
+    });
+
+    it('should make a low mass red dwarf fully convective', () => {
+      const zones = determineConvectiveZones(mainSequenceProfile(0.3, 0.3, 0.012, 3400))!;
+
+      expect(zones).toEqual([{ type: ZoneType.CONVECTIVE, innerRadius: 0, outerRadius: 1 }]);
+    });
+
+    it('should give a massive star a convective core inside a radiative zone', () => {
+      const zones = determineConvectiveZones(mainSequenceProfile(5.0, 2.6, 600, 17000))!;
+
+      expectContiguous(zones);
+      expect(zones[0].type).toBe(ZoneType.CONVECTIVE);
+      expect(zones[0].outerRadius).toBeLessThan(0.4);
+      expect(zones[1].type).toBe(ZoneType.RADIATIVE);
+      expect(zones[1].outerRadius).toBeGreaterThan(0.9);
+    });
+
+    it('should widen convective zones with overshoot', () => {
+      const profile = mainSequenceProfile(5.0, 2.6, 600, 17000);
+      const plain = determineConvectiveZones(profile)!;
+      const overshot = determineConvectiveZones(profile, 0.3)!;
+
+      expectContiguous(overshot);
+      expect(overshot[0].outerRadius).toBeGreaterThan(plain[0].outerRadius);
+    });
+
+    it('should leave profiles held at the photospheric temperature unresolved', () => {
+      const profile = mainSequenceProfile(1.0, 1.0, 1.0, 5778);
+      const surface = profile.points[profile.points.length - 1];
+      const cool: RadialProfile = {
+        ...profile,
+        points: profile.points.map((point, i) => i > 2 ? { ...point, temperature: surface.temperature } : point),
+      };
+
+      expect(determineConvectiveZones(cool)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * Convection functions
+ * Radiative and convective zones from the Schwarzschild criterion applied
+ * to a star's radial profile, with optional convective overshoot
+ */
+
+import { CONVECTION_CONSTANTS, PHYSICS_CONSTANTS } from '../constants/physics';
+import { CoreComposition, RadialProfile, RadialProfilePoint, StructureZone, ZoneType } from '../types/core';
+
+/**
+ * Calculate the Rosseland mean opacity of stellar gas
+ * Electron scattering and Kramers free-free and bound-free absorption
+ * (with the guillotine correction) dominate hot interiors; the H⁻ ion,
+ * whose opacity climbs steeply with temperature, dominates cool envelopes
+ * and takes over where it is lower
+ * @param density - Density in kg/m³
+ * @param temperature - Temperature in Kelvin
+ * @param composition - Mass fractions of the gas
+ * @returns Opacity in m²/kg
+ */
+export function calculateOpacity(density: number, temperature: number, composition: CoreComposition): number {
+  const { ELECTRON_SCATTERING_OPACITY, FREE_FREE_OPACITY, BOUND_FREE_OPACITY, GUILLOTINE_FACTOR, H_MINUS_OPACITY } =
+    CONVECTION_CONSTANTS;
+  const hydrogen = composition.hydrogen;
+  const metals = Math.max(1 - composition.hydrogen - composition.helium, 0);
+
+  // Bound-free absorption is cut by the guillotine factor, as electrons in
+  // dense gas are stripped from the ions that would absorb
+  const guillotine = GUILLOTINE_FACTOR * Math.pow(density / 1000 * (1 + hydrogen), 0.2);
+  const kramers = (FREE_FREE_OPACITY * (1 - metals) + BOUND_FREE_OPACITY * metals / guillotine) *
+    (1 + hydrogen) * density * Math.pow(temperature, -3.5);
+  const interior = ELECTRON_SCATTERING_OPACITY * (1 + hydrogen) + kramers;
+  const hMinus = H_MINUS_OPACITY * metals * Math.sqrt(density) * Math.pow(temperature, 9);
+  return hMinus > 0 ? 1 / (1 / hMinus + 1 / interior) : interior;
+}
+
+/**
+ * Calculate the temperature gradient needed to carry a star's luminosity by radiation
+ * ∇rad = 3κLP / (64πσGmT⁴)
+ * @param opacity - Opacity in m²/kg
+ * @param luminosity - Luminosity through the shell in watts
+ * @param pressure - Pressure in Pa
+ * @param enclosedMass - Mass inside the shell in kg
+ * @param temperature - Temperature in Kelvin
+ * @returns Radiative gradient d ln T / d ln P
+ */
+export function calculateRadiativeGradient(
+  opacity: number,
+  luminosity: number,
+  pressure: number,
+  enclosedMass: number,
+  temperature: number
+): number {
+  if (enclosedMass <= 0 || temperature <= 0) {
+    return 0;
+  }
+  const { STEFAN_BOLTZMANN, GRAVITATIONAL_CONSTANT } = PHYSICS_CONSTANTS;
+  return 3 * opacity * luminosity * pressure /
+    (64 * Math.PI * STEFAN_BOLTZMANN * GRAVITATIONAL_CONSTANT * enclosedMass * Math.pow(temperature, 4));
+}
+
+/**
+ * Calculate the distance over which pressure falls by a factor e
+ * H_P = P r² / (ρGm)
+ * @param pressure - Pressure in Pa
+ * @param density - Density in kg/m³
+ * @param enclosedMass - Mass inside the shell in kg
+ * @param radius - Radius of the shell in meters
+ * @returns Pressure scale height in meters (Infinity at the centre)
+ */
+export function calculatePressureScaleHeight(
+  pressure: number,
+  density: number,
+  enclosedMass: number,
+  radius: number
+): number {
+  if (density <= 0 || enclosedMass <= 0) {
+    return Infinity;
+  }
+  return pressure * radius * radius / (density * PHYSICS_CONSTANTS.GRAVITATIONAL_CONSTANT * enclosedMass);
+}
+
+/**
+ * Find a star's radiative and convective zones from its radial profile
+ * Gas convects where carrying the luminosity by radiation would need a
+ * steeper temperature gradient than the adiabatic one (∇rad > ∇ad, the
+ * Schwarzschild criterion). Boundaries are placed where ∇rad - ∇ad
+ * changes sign; overshoot then carries each convective zone a fraction of a
+ * pressure scale height into its radiative neighbours.
+ * @param profile - Radial profile from the centre to the surface
+ * @param overshoot - Overshoot distance in pressure scale heights (0 for none)
+ * @returns Zones from the centre to the surface, covering the whole star, or
+ *   undefined when most of the profile sits at the photospheric temperature
+ *   (a single polytrope cannot resolve the envelope of a giant)
+ */
+export function determineConvectiveZones(
+  profile: RadialProfile,
+  overshoot: number = 0
+): StructureZone[] | undefined {
+  const { points } = profile;
+  const last = points.length - 1;
+  const surfaceRadius = points[last].radius;
+
+  // Layers held at the photospheric temperature take the criterion of the
+  // first layer below them
+  let photosphere = last;
+  while (photosphere > 1 && points[photosphere - 1].temperature <= points[last].temperature) {
+    photosphere--;
+  }
+  if (photosphere < last * CONVECTION_CONSTANTS.MIN_RESOLVED_FRACTION) {
+    return undefined;
+  }
+
+  // The centre has no mass, so it takes the luminosity-to-mass ratio just outside it
+  const excess = points.slice(0, photosphere).map((point, i) => {
+    const shell = points[Math.max(i, 1)];
+    const opacity = calculateOpacity(point.density, point.temperature, point.composition);
+    const gradient = calculateRadiativeGradient(
+      opacity,
+      shell.luminosity * PHYSICS_CONSTANTS.SOLAR_LUMINOSITY,
+      point.pressure,
+      shell.enclosedMass * PHYSICS_CONSTANTS.SOLAR_MASS,
+      point.temperature
+    );
+    return gradient - CONVECTION_CONSTANTS.ADIABATIC_GRADIENT;
+  });
+  while (excess.length < points.length) {
+    excess.push(excess[photosphere - 1]);
+  }
+
+  // Zones between sign changes of the excess gradient
+  const typeAt = (i: number) => excess[i] > 0 ? ZoneType.CONVECTIVE : ZoneType.RADIATIVE;
+  const zones: StructureZone[] = [{ type: typeAt(0), innerRadius: 0, outerRadius: 1 }];
+  for (let i = 1; i <= last; i++) {
+    const type = typeAt(i);
+    const current = zones[zones.length - 1];
+    if (type === current.type) {
+      continue;
+    }
+    const crossing = excess[i - 1] / (excess[i - 1] - excess[i]);
+    const boundary = (points[i - 1].radius + crossing * (points[i].radius - points[i - 1].radius)) / surfaceRadius;
+    current.outerRadius = boundary;
+    zones.push({ type, innerRadius: boundary, outerRadius: 1 });
+  }
+
+  return overshoot > 0 ? applyOvershoot(zones, points, overshoot) : zones;
+}
+
+/**
+ * Carry each convective boundary into the neighbouring radiative zone
+ * Radiative zones narrower than the overshoot on both sides disappear and
+ * the convective zones around them join
+ */
+function applyOvershoot(
+  zones: StructureZone[],
+  points: RadialProfilePoint[],
+  overshoot: number
+): StructureZone[] {
+  const last = points.length - 1;
+  const surfaceRadius = points[last].radius;
+  const scaleHeightAt = (fraction: number): number => {
+    const point = points[Math.min(Math.max(Math.round(fraction * last), 1), last - 1)];
+    const height = calculatePressureScaleHeight(
+      point.pressure,
+      point.density,
+      point.enclosedMass * PHYSICS_CONSTANTS.SOLAR_MASS,
+      point.radius * PHYSICS_CONSTANTS.SOLAR_RADIUS
+    );
+    return height / (surfaceRadius * PHYSICS_CONSTANTS.SOLAR_RADIUS);
+  };
+
+  // Move every boundary away from its convective side
+  const shifted = zones.map(zone => ({ ...zone }));
+  for (let i = 0; i < shifted.length - 1; i++) {
+    const boundary = zones[i].outerRadius;
+    const distance = overshoot * scaleHeightAt(boundary);
+    const moved = zones[i].type === ZoneType.CONVECTIVE
+      ? Math.min(boundary + distance, 1)
+      : Math.max(boundary - distance, 0);
+    shifted[i].outerRadius = moved;
+    shifted[i + 1].innerRadius = moved;
+  }
+
+  // Drop swallowed zones and join the neighbours they separated
+  const merged: StructureZone[] = [];
+  for (const zone of shifted) {
+    if (zone.outerRadius <= zone.innerRadius) {
+      continue;
+    }
+    const previous = merged[merged.length - 1];
+    if (previous && previous.type === zone.type) {
+      previous.outerRadius = zone.outerRadius;
+    } else {
+      merged.push({ ...zone, innerRadius: previous ? previous.outerRadius : 0 });
+    }
+  }
+  merged[merged.length - 1].outerRadius = 1;
+  return merged;
+}
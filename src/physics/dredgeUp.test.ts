@@ -0,0 +1,107 @@
+/**
+ * Unit tests for surface abundances and dredge-up
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  calculateInitialSurfaceComposition,
+  applyFirstDredgeUp,
+  applySecondDredgeUp,
+  applyThirdDredgeUp,
+  calculateCarbonToOxygenRatio,
+  calculateNitrogenToCarbonRatio,
+  isCarbonStar,
+} from './dredgeUp';
+import { SurfaceComposition } from '../types/core';
+import { DREDGE_UP_CONSTANTS } from '../constants/physics';
+
+const total = (composition: SurfaceComposition): number =>
+  Object.values(composition).reduce((sum, fraction) => sum + fraction, 0);
+
+const solar = calculateInitialSurfaceComposition(1.0);
+
+describe('Dredge-Up', () => {
+  describe('calculateInitialSurfaceComposition', () => {
+    it('should sum to one with an oxygen-rich solar C/O ratio', () => {
+      expect(total(solar)).toBeCloseTo(1, 10);
+      expect(calculateCarbonToOxygenRatio(solar)).toBeLessThan(1);
+      expect(solar.nitrogen).toBeCloseTo(0.02 * DREDGE_UP_CONSTANTS.NITROGEN_FRACTION, 10);
+    });
+
+    it('should scale the metals with metallicity', () => {
+      const metalPoor = calculateInitialSurfaceComposition(0.1);
+
+      expect(metalPoor.oxygen).toBeCloseTo(solar.oxygen * 0.1, 10);
+      expect(metalPoor.hydrogen).toBeGreaterThan(solar.hydrogen);
+    });
+  });
+
+  describe('applyFirstDredgeUp', () => {
+    it('should add helium and turn carbon into nitrogen, leaving oxygen alone', () => {
+      const dredged = applyFirstDredgeUp(solar);
+
+      expect(total(dredged)).toBeCloseTo(1, 10);
+      expect(dredged.helium).toBeCloseTo(solar.helium + DREDGE_UP_CONSTANTS.FIRST_HELIUM, 10);
+      expect(dredged.carbon).toBeLessThan(solar.carbon);
+      expect(dredged.nitrogen).toBeGreaterThan(solar.nitrogen);
+      expect(dredged.oxygen).toBe(solar.oxygen);
+      expect(calculateNitrogenToCarbonRatio(dredged)).toBeGreaterThan(calculateNitrogenToCarbonRatio(solar));
+    });
+  });
+
+  describe('applySecondDredgeUp', () => {
+    it('should bring up more helium than the first dredge-up', () => {
+      const first = applyFirstDredgeUp(solar);
+      const second = applySecondDredgeUp(first);
+
+      expect(total(second)).toBeCloseTo(1, 10);
+      expect(second.helium - first.helium).toBeGreaterThan(first.helium - solar.helium);
+      expect(second.nitrogen).toBeGreaterThan(first.nitrogen);
+    });
+  });
+
+  describe('applyThirdDredgeUp', () => {
+    const giant = applyFirstDredgeUp(solar);
+
+    it('should make a carbon star once enough carbon is dredged up', () => {
+      const dredged = applyThirdDredgeUp(giant, 0.01, 0.5);
+
+      expect(total(dredged)).toBeCloseTo(1, 10);
+      expect(isCarbonStar(giant)).toBe(false);
+      expect(isCarbonStar(dredged)).toBe(true);
+    });
+
+    it('should change the surface more as the envelope thins', () => {
+      const thick = applyThirdDredgeUp(giant, 0.002, 2.0);
+      const thin = applyThirdDredgeUp(giant, 0.002, 0.6);
+
+      expect(calculateCarbonToOxygenRatio(thin)).toBeGreaterThan(calculateCarbonToOxygenRatio(thick));
+      expect(applyThirdDredgeUp(giant, 0.002, 0)).toEqual(
+        applyThirdDredgeUp(giant, 0.002, DREDGE_UP_CONSTANTS.MIN_ENVELOPE_MASS)
+      );
+    });
+
+    it('should deliver nitrogen instead of carbon with hot bottom burning', () => {
+      const dredged = applyThirdDredgeUp(giant, 0.01, 0.5, true);
+
+      expect(dredged.carbon).toBeLessThan(giant.carbon);
+      expect(dredged.nitrogen).toBeGreaterThan(giant.nitrogen);
+      expect(isCarbonStar(dredged)).toBe(false);
+    });
+
+    it('should leave the surface unchanged when nothing is dredged', () => {
+      expect(applyThirdDredgeUp(giant, 0, 0.5)).toEqual(giant);
+    });
+  });
+
+  describe('abundance ratios', () => {
+    it('should count atoms rather than mass', () => {
+      const composition: SurfaceComposition = {
+        hydrogen: 0.7, helium: 0.28, carbon: 0.012, nitrogen: 0.0014, oxygen: 0.0066, heavier: 0,
+      };
+
+      expect(calculateCarbonToOxygenRatio(composition)).toBeCloseTo((0.012 / 12) / (0.0066 / 16), 10);
+      expect(calculateNitrogenToCarbonRatio(composition)).toBeCloseTo((0.0014 / 14) / (0.012 / 12), 10);
+    });
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Dredge-up functions
+ * Surface abundances of stars and the episodes in which deepening
+ * convective envelopes carry processed material up from the interior:
+ * CN-cycled helium and nitrogen in the first and second dredge-ups and
+ * helium-shell carbon in the third, which can make a carbon star
+ */
+
+import { DREDGE_UP_CONSTANTS } from '../constants/physics';
+import { SurfaceComposition } from '../types/core';
+import { calculateInitialCoreComposition } from './internalStructure';
+
+// Mass numbers of the CNO elements, for ratios by number
+const MASS_NUMBERS = { carbon: 12, nitrogen: 14, oxygen: 16 } as const;
+
+/**
+ * Calculate the surface composition a star is born with
+ * Carbon and oxygen match the initial core; nitrogen takes a share of the
+ * remaining metals
+ * @param metallicity - Metallicity relative to solar (Z☉)
+ * @returns Photospheric mass fractions
+ */
+export function calculateInitialSurfaceComposition(metallicity: number): SurfaceComposition {
+  const initial = calculateInitialCoreComposition(metallicity);
+  const metals = 1 - initial.hydrogen - initial.helium;
+  const nitrogen = metals * DREDGE_UP_CONSTANTS.NITROGEN_FRACTION;
+
+  return {
+    hydrogen: initial.hydrogen,
+    helium: initial.helium,
+    carbon: initial.carbon,
+    nitrogen,
+    oxygen: initial.oxygen,
+    heavier: Math.max(metals - initial.carbon - initial.oxygen - nitrogen, 0),
+  };
+}
+
+/**
+ * Mix CN-cycled material into the envelope
+ * Hydrogen burned to helium raises the helium fraction, and the CN cycle
+ * leaves a share of the carbon as nitrogen (each ¹²C captures two protons
+ * to become ¹⁴N)
+ */
+function mixCNCycledMaterial(
+  composition: SurfaceComposition,
+  helium: number,
+  carbonDepletion: number
+): SurfaceComposition {
+  const burnedCarbon = composition.carbon * carbonDepletion;
+  const capturedHydrogen = burnedCarbon * (MASS_NUMBERS.nitrogen - MASS_NUMBERS.carbon) / MASS_NUMBERS.carbon;
+  const addedHelium = Math.min(helium, Math.max(composition.hydrogen - capturedHydrogen, 0));
+
+  return {
+    ...composition,
+    hydrogen: composition.hydrogen - addedHelium - capturedHydrogen,
+    helium: composition.helium + addedHelium,
+    carbon: composition.carbon - burnedCarbon,
+    nitrogen: composition.nitrogen + burnedCarbon + capturedHydrogen,
+  };
+}
+
+/**
+ * Apply the first dredge-up
+ * The convective envelope of a new red giant reaches down into layers
+ * partly processed by the CN cycle on the main sequence: surface helium
+ * and nitrogen rise and carbon falls, while oxygen is untouched
+ * @param composition - Surface composition before the dredge-up
+ * @returns Surface composition after the dredge-up
+ */
+export function applyFirstDredgeUp(composition: SurfaceComposition): SurfaceComposition {
+  return mixCNCycledMaterial(
+    composition,
+    DREDGE_UP_CONSTANTS.FIRST_HELIUM,
+    DREDGE_UP_CONSTANTS.FIRST_CARBON_DEPLETION
+  );
+}
+
+/**
+ * Apply the second dredge-up
+ * In stars of intermediate mass the envelope sinks into the helium core
+ * left by hydrogen burning at the start of the AGB, bringing up much more
+ * helium and further nitrogen
+ * @param composition - Surface composition before the dredge-up
+ * @returns Surface composition after the dredge-up
+ */
+export function applySecondDredgeUp(composition: SurfaceComposition): SurfaceComposition {
+  return mixCNCycledMaterial(
+    composition,
+    DREDGE_UP_CONSTANTS.SECOND_HELIUM,
+    DREDGE_UP_CONSTANTS.SECOND_CARBON_DEPLETION
+  );
+}
+
+/**
+ * Apply third dredge-up
+ * After each helium-shell flash on the thermally pulsing AGB the envelope
+ * reaches into the intershell, mixing in helium and freshly made carbon.
+ * The same dredged mass changes the surface more as winds thin the
+ * envelope, down to the smallest envelope an AGB star keeps. In
+ * hot-bottom-burning stars the base of the envelope burns the carbon to
+ * nitrogen before it reaches the surface.
+ * @param composition - Surface composition before the dredge-up
+ * @param dredgedMass - Intershell mass mixed into the envelope in solar masses
+ * @param envelopeMass - Envelope mass before the dredge-up in solar masses
+ * @param hotBottomBurning - Whether the envelope base burns carbon to nitrogen
+ * @returns Surface composition after the dredge-up
+ */
+export function applyThirdDredgeUp(
+  composition: SurfaceComposition,
+  dredgedMass: number,
+  envelopeMass: number,
+  hotBottomBurning: boolean = false
+): SurfaceComposition {
+  if (dredgedMass <= 0) {
+    return composition;
+  }
+
+  const mixingMass = Math.max(envelopeMass, DREDGE_UP_CONSTANTS.MIN_ENVELOPE_MASS);
+  const fraction = dredgedMass / (mixingMass + dredgedMass);
+  const carbon = DREDGE_UP_CONSTANTS.INTERSHELL_CARBON;
+  const intershell: SurfaceComposition = {
+    hydrogen: 0,
+    helium: 1 - carbon,
+    carbon: hotBottomBurning ? 0 : carbon,
+    nitrogen: hotBottomBurning ? carbon : 0,
+    oxygen: 0,
+    heavier: 0,
+  };
+
+  const mixed = { ...composition };
+  for (const element of Object.keys(mixed) as (keyof SurfaceComposition)[]) {
+    mixed[element] = composition[element] * (1 - fraction) + intershell[element] * fraction;
+  }
+  return mixed;
+}
+
+/**
+ * Calculate the ratio of carbon to oxygen atoms at the surface
+ * @param composition - Surface composition
+ * @returns C/O by number
+ */
+export function calculateCarbonToOxygenRatio(composition: SurfaceComposition): number {
+  if (composition.oxygen <= 0) {
+    return Infinity;
+  }
+  return (composition.carbon / MASS_NUMBERS.carbon) / (composition.oxygen / MASS_NUMBERS.oxygen);
+}
+
+/**
+ * Calculate the ratio of nitrogen to carbon atoms at the surface
+ * @param composition - Surface composition
+ * @returns N/C by number
+ */
+export function calculateNitrogenToCarbonRatio(composition: SurfaceComposition): number {
+  if (composition.carbon <= 0) {
+    return Infinity;
+  }
+  return (composition.nitrogen / MASS_NUMBERS.nitrogen) / (composition.carbon / MASS_NUMBERS.carbon);
+}
+
+/**
+ * Whether dredged-up carbon outnumbers oxygen at the surface
+ * Once C/O exceeds 1, carbon molecules rather than oxides dominate the
+ * atmosphere and the star is classed as a carbon star
+ * @param composition - Surface composition
+ * @returns True for a carbon star
+ */
+export function isCarbonStar(composition: SurfaceComposition): boolean {
+  return calculateCarbonToOxygenRatio(composition) > DREDGE_UP_CONSTANTS.CARBON_STAR_RATIO;
+}
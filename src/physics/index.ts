@@ -9,11 +9,82 @@ export {
   calculateRadius,
   calculateMainSequenceLifetime,
   calculateTemperature,
+  calculateRadiusFromTemperature,
   calculateColorTemperature,
   determineSpectralType,
   calculateInitialStellarProperties,
+  calculateMetallicityFactor,
 } from './stellarPhysics';
 
+// Pre-main-sequence contraction
+export {
+  calculateKelvinHelmholtzTimescale,
+  calculatePreMainSequenceLifetime,
+  calculateBirthlineRadius,
+  calculateHayashiTemperature,
+  calculateHayashiFraction,
+  calculatePreMainSequenceProperties,
+  calculatePreMainSequenceTrack,
+} from './preMainSequence';
+
+// Massive stars after the main sequence
+export {
+  calculateWolfRayetMinimumMass,
+  calculateMassiveStarPath,
+  determineMassiveStarPhase,
+  calculateMassiveStarProperties,
+} from './massiveStars';
+
+// Advanced burning stages and iron core collapse
+export {
+  calculateBurningStageDuration,
+  calculateAdvancedBurningLifetime,
+  determineAdvancedBurningStage,
+  calculateAdvancedBurningCoreTemperature,
+  calculateEffectiveChandrasekharMass,
+  calculateIronCoreMass,
+} from './advancedBurning';
+
+// Radial stellar structure
+export {
+  solveLaneEmden,
+  determinePolytropicIndex,
+  calculateRadialProfile,
+} from './stellarStructure';
+
+// Convection
+export {
+  calculateOpacity,
+  calculateRadiativeGradient,
+  calculatePressureScaleHeight,
+  determineConvectiveZones,
+} from './convection';
+
+// Surface abundances and dredge-up
+export {
+  calculateInitialSurfaceComposition,
+  applyFirstDredgeUp,
+  applySecondDredgeUp,
+  applyThirdDredgeUp,
+  calculateCarbonToOxygenRatio,
+  calculateNitrogenToCarbonRatio,
+  isCarbonStar,
+} from './dredgeUp';
+
+// Nucleosynthetic yields
+export {
+  createEmptyYields,
+  addYields,
+  scaleYields,
+  calculateYieldMass,
+  calculateGasComposition,
+  calculateGasMetallicity,
+  calculateEnvelopeYields,
+  calculateHeliumCoreYields,
+  calculateCoreCollapseYields,
+  calculateTypeIaYields,
+} from './yields';
+
 // Orbital mechanics
 export {
   calculateOrbitalPeriod,
@@ -22,11 +93,134 @@ export {
   solveKeplerEquation,
   calculateTrueAnomaly,
   calculateOrbitalPosition,
+  calculateOrbitalVelocity,
+  calculateOrbitalElementsFromState,
   calculateOrbitalParametersFromAngularMomentum,
   checkSystemStability,
   calculateHillSphereRadius,
 } from './orbitalMechanics';
 
+// N-body dynamics
+export {
+  calculateAccelerations,
+  calculateTotalEnergy,
+  calculateTotalAngularMomentum,
+  calculateMinimumDynamicalTime,
+  estimateNBodySteps,
+  leapfrogStep,
+  integrateNBody,
+  calculateOsculatingElements,
+} from './nbody';
+
+// Stellar mass loss
+export {
+  calculateReimersMassLossRate,
+  calculateAGBMassLossRate,
+  calculateHotStarWindRate,
+  calculateWolfRayetWindRate,
+  calculateMassLossRate,
+  calculateCoreMass,
+  calculateAdiabaticSemiMajorAxis,
+} from './massLoss';
+
+// Stellar remnants
+export {
+  calculateWhiteDwarfMass,
+  calculateHeliumCoreMass,
+  calculateNeutronStarMass,
+  calculateBlackHoleMass,
+  calculateWhiteDwarfRadius,
+  calculateNeutronStarRadius,
+  calculateSchwarzschildRadius,
+  calculateRemnantProperties,
+  calculateFinalStateThresholds,
+} from './remnants';
+
+// Brown dwarfs
+export {
+  isSubstellar,
+  calculateDeuteriumBurningTime,
+  calculateDeuteriumFraction,
+  calculateBrownDwarfLuminosity,
+  calculateBrownDwarfRadius,
+  determineSubstellarSpectralType,
+  calculateBrownDwarfProperties,
+} from './brownDwarfs';
+
+// Star-planet tides
+export {
+  calculateRocheLimit,
+  calculateTidalReach,
+  determinePlanetFate,
+  calculateOrbitalAngularMomentum,
+} from './tides';
+
+// Close binary mass transfer
+export {
+  calculateRocheLobeRadius,
+  calculateCriticalMassRatio,
+  determineMassTransferStability,
+  calculateThermalTimescale,
+  calculateDynamicalTimescale,
+  calculateMassTransferRate,
+  calculateEddingtonAccretionRate,
+  calculateMaximumAccretionRate,
+  calculateSeparationAfterTransfer,
+} from './massTransfer';
+
+// Common envelopes and mergers
+export {
+  calculateEnvelopeBindingEnergy,
+  calculateOrbitalEnergy,
+  calculatePostCommonEnvelopeSeparation,
+  determineCommonEnvelopeOutcome,
+  calculateMergerMass,
+  mixCoreCompositions,
+} from './commonEnvelope';
+
+// Accreting white dwarfs
+export {
+  calculateNovaIgnitionMass,
+  calculateSteadyBurningRates,
+  determineAccretionRegime,
+  calculateNovaEjectedMass,
+  reachesTypeIaIgnition,
+} from './whiteDwarfAccretion';
+
+// White dwarf cooling
+export {
+  calculateMestelLuminosity,
+  calculateMestelCoolingAge,
+  calculateWhiteDwarfCoreTemperature,
+  calculateCrystallizationTemperature,
+  calculateCrystallizationOnsetAge,
+  calculateWhiteDwarfCooling,
+} from './whiteDwarfCooling';
+
+// Pulsars and magnetars
+export {
+  drawProgenitorRotation,
+  calculateInitialSpinPeriod,
+  calculateBirthMagneticField,
+  calculateSpinPeriod,
+  calculatePeriodDerivative,
+  calculateCharacteristicAge,
+  calculateSpinDownLuminosity,
+  isBeyondDeathLine,
+  isMagnetar,
+  calculateNeutronStarSurfaceTemperature,
+  calculateNeutronStarLuminosity,
+} from './pulsars';
+
+// Supernovae
+export {
+  kmPerSecondToAUPerYear,
+  auPerYearToKmPerSecond,
+  drawNatalKick,
+  calculateEjectaEnergyRatio,
+  determineEjectaEffect,
+} from './supernova';
+
 // Planetary formation
 export {
   calculateDiskMass,
@@ -40,3 +234,13 @@ export {
   canFormPlanets,
   calculatePlanetRadius,
 } from './planetaryFormation';
+
+// Random number generation
+export {
+  createSeededRandom,
+  createRandomSource,
+  generateRandomId,
+  deriveSeed,
+  drawGaussian,
+  type RandomSource,
+} from './random';
@@ -10,9 +10,12 @@ import {
   determineActiveReactions,
   determineShellBurning,
   calculateLayerStructure,
+  evolveCoreComposition,
   calculateInternalStructure,
 } from './internalStructure';
-import { EvolutionPhase, NuclearReaction } from '../types/core';
+import { calculateWhiteDwarfCooling } from './whiteDwarfCooling';
+import { calculateBurningStageDuration, calculateAdvancedBurningLifetime } from './advancedBurning';
+import { EvolutionPhase, NuclearReaction, ZoneType } from '../types/core';
 
 describe('Internal Structure Physics Module', () => {
   describe('calculateInitialCoreComposition', () => {
@@ -53,6 +56,14 @@ describe('Internal Structure Physics Module', () => {
       
       expect(hbTemp).toBeGreaterThan(1e8); // > 100 million K for helium burning
     });
+
+    it('should cool white dwarf cores with their cooling age', () => {
+      const young = calculateCoreTemperature(0.6, EvolutionPhase.WHITE_DWARF, 1.0, 1e7);
+      const old = calculateCoreTemperature(0.6, EvolutionPhase.WHITE_DWARF, 1.0, 5e9);
+
+      expect(old).toBeLessThan(young);
+      expect(old).toBeCloseTo(calculateWhiteDwarfCooling(0.6, 5e9).coreTemperature, 6);
+    });
   });
 
   describe('calculateCorePressure', () => {
@@ -99,6 +110,46 @@ describe('Internal Structure Physics Module', () => {
       
       expect(reaction).toBe(NuclearReaction.TRIPLE_ALPHA);
     });
+
+    it('should burn heavier fuels as a supergiant core heats up', () => {
+      const composition = { hydrogen: 0, helium: 0, carbon: 0.2, oxygen: 0.6, neon: 0.1, magnesium: 0.05, silicon: 0.05, iron: 0 };
+      const reactions = [8e8, 1.3e9, 2e9, 3e9, 6e9].map(temperature =>
+        determineActiveReactions(temperature, composition, EvolutionPhase.RED_SUPERGIANT, 15)
+      );
+
+      expect(reactions).toEqual([
+        NuclearReaction.CARBON_BURNING,
+        NuclearReaction.NEON_BURNING,
+        NuclearReaction.OXYGEN_BURNING,
+        NuclearReaction.SILICON_BURNING,
+        NuclearReaction.NONE,
+      ]);
+    });
+  });
+
+  describe('evolveCoreComposition', () => {
+    const shellBurning = { hydrogenShell: false, heliumShell: false, carbonShell: false };
+
+    it('should burn oxygen to silicon and silicon to iron within each stage', () => {
+      const composition = { hydrogen: 0, helium: 0, carbon: 0, oxygen: 0.8, neon: 0, magnesium: 0.1, silicon: 0.1, iron: 0 };
+      const oxygenStage = calculateBurningStageDuration(NuclearReaction.OXYGEN_BURNING, 15);
+      const afterOxygen = evolveCoreComposition(composition, NuclearReaction.OXYGEN_BURNING, shellBurning, oxygenStage, 15);
+      const siliconStage = calculateBurningStageDuration(NuclearReaction.SILICON_BURNING, 15);
+      const afterSilicon = evolveCoreComposition(afterOxygen, NuclearReaction.SILICON_BURNING, shellBurning, siliconStage, 15);
+
+      expect(afterOxygen.oxygen).toBeLessThan(0.01);
+      expect(afterOxygen.silicon).toBeGreaterThan(0.8);
+      expect(afterSilicon.iron).toBeGreaterThan(0.95);
+    });
+
+    it('should burn neon to oxygen and magnesium', () => {
+      const composition = { hydrogen: 0, helium: 0, carbon: 0, oxygen: 0.5, neon: 0.4, magnesium: 0.1, silicon: 0, iron: 0 };
+      const evolved = evolveCoreComposition(composition, NuclearReaction.NEON_BURNING, shellBurning, 0.1, 15);
+
+      expect(evolved.neon).toBeLessThan(composition.neon);
+      expect(evolved.oxygen).toBeGreaterThan(composition.oxygen);
+      expect(evolved.magnesium).toBeGreaterThan(composition.magnesium);
+    });
   });
 
   describe('determineShellBurning', () => {
@@ -130,15 +181,25 @@ describe('Internal Structure Physics Module', () => {
       const layers = calculateLayerStructure(1.0, EvolutionPhase.MAIN_SEQUENCE, 0.5);
       
       expect(layers.coreRadius).toBeGreaterThan(0);
-      expect(layers.radiativeZoneRadius).toBeGreaterThan(layers.coreRadius);
-      expect(layers.convectiveZoneRadius).toBe(1.0); // Extends to surface
+      expect(layers.zones.map(zone => zone.type)).toEqual([ZoneType.RADIATIVE, ZoneType.CONVECTIVE]);
+      expect(layers.zones[0].outerRadius).toBeGreaterThan(layers.coreRadius);
+      expect(layers.zones[1].outerRadius).toBe(1.0); // Extends to surface
+    });
+
+    it('should have convective core and radiative envelope in massive star', () => {
+      const layers = calculateLayerStructure(5.0, EvolutionPhase.MAIN_SEQUENCE, 0.5);
+
+      expect(layers.zones.map(zone => zone.type)).toEqual([ZoneType.CONVECTIVE, ZoneType.RADIATIVE]);
+      expect(layers.zones[0].outerRadius).toBe(layers.zones[1].innerRadius);
     });
 
     it('should have small core in red giant', () => {
       const layers = calculateLayerStructure(1.0, EvolutionPhase.RED_GIANT, 0.92);
       
       expect(layers.coreRadius).toBeLessThan(0.05); // Very small inert core
-      expect(layers.convectiveZoneRadius).toBe(1.0); // Large convective envelope
+      const envelope = layers.zones[layers.zones.length - 1];
+      expect(envelope.type).toBe(ZoneType.CONVECTIVE); // Large convective envelope
+      expect(envelope.outerRadius - envelope.innerRadius).toBeGreaterThan(0.5);
     });
 
     it('should have fully degenerate structure in white dwarf', () => {
@@ -173,5 +234,23 @@ describe('Internal Structure Physics Module', () => {
       expect(structure.activeReactions.energyProductionRate).toBeGreaterThan(0);
       expect(structure.activeReactions.energyProductionRate).toBeLessThanOrEqual(luminosity);
     });
+
+    it('should track the iron core of a massive star after helium exhaustion', () => {
+      const lifetime = calculateAdvancedBurningLifetime(15);
+      const carbonBurning = calculateInternalStructure(15, 800, 5e4, EvolutionPhase.RED_SUPERGIANT, 0.95, 1.0, undefined, undefined, undefined, 0);
+      const siliconBurning = calculateInternalStructure(15, 800, 5e4, EvolutionPhase.RED_SUPERGIANT, 0.95, 1.0, undefined, undefined, undefined, lifetime * 0.99999);
+
+      expect(carbonBurning.activeReactions.coreReaction).toBe(NuclearReaction.CARBON_BURNING);
+      expect(carbonBurning.ironCoreMass).toBe(0);
+      expect(siliconBurning.activeReactions.coreReaction).toBe(NuclearReaction.SILICON_BURNING);
+      expect(siliconBurning.ironCoreMass).toBeGreaterThan(0);
+    });
+
+    it('should not track an iron core before helium exhaustion', () => {
+      const structure = calculateInternalStructure(15, 800, 5e4, EvolutionPhase.RED_SUPERGIANT, 0.92, 1.0);
+
+      expect(structure.ironCoreMass).toBeUndefined();
+      expect(structure.coreTemperature).toBeLessThan(6e8);
+    });
   });
 });
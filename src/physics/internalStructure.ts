@@ -11,8 +11,22 @@ import {
   LayerStructure,
   NuclearReaction,
   EvolutionPhase,
+  StructureZone,
+  ZoneType,
 } from '../types/core';
-import { PHYSICS_CONSTANTS } from '../constants/physics';
+import {
+  PHYSICS_CONSTANTS,
+  BURNING_IGNITION_TEMPERATURES,
+  ADVANCED_BURNING_CONSTANTS,
+  STAR_FORMATION_CONSTANTS,
+} from '../constants/physics';
+import { calculateWhiteDwarfCooling } from './whiteDwarfCooling';
+import { calculateRadius } from './stellarPhysics';
+import {
+  calculateBurningStageDuration,
+  calculateAdvancedBurningCoreTemperature,
+  calculateIronCoreMass,
+} from './advancedBurning';
 
 /**
  * Calculate initial core composition for a newly formed star
@@ -21,7 +35,7 @@ import { PHYSICS_CONSTANTS } from '../constants/physics';
  */
 export function calculateInitialCoreComposition(metallicity: number): CoreComposition {
   // Initial composition is primarily hydrogen with some helium and trace metals
-  const metals = metallicity * 0.02; // Metals (everything heavier than He)
+  const metals = metallicity * STAR_FORMATION_CONSTANTS.SOLAR_METAL_FRACTION; // Metals (everything heavier than He)
   const helium = 0.25; // Primordial helium abundance (~25%)
   const hydrogen = 1.0 - helium - metals;
   
@@ -42,12 +56,14 @@ export function calculateInitialCoreComposition(metallicity: number): CoreCompos
  * @param mass - Stellar mass in solar masses
  * @param phase - Current evolution phase
  * @param ageRatio - Age relative to main sequence lifetime (0-1+)
+ * @param coolingAge - Time since a white dwarf formed in years
  * @returns Core temperature in Kelvin
  */
 export function calculateCoreTemperature(
   mass: number,
   phase: EvolutionPhase,
-  ageRatio: number
+  ageRatio: number,
+  coolingAge: number = 0
 ): number {
   // Base core temperature scales with mass
   const baseCoreTemp = 1.5e7 * Math.pow(mass, 0.5); // ~15 million K for Sun
@@ -70,13 +86,21 @@ export function calculateCoreTemperature(
       // Helium burning core, very hot
       return baseCoreTemp * 5.0;
       
+    case EvolutionPhase.BLUE_SUPERGIANT:
+    case EvolutionPhase.YELLOW_SUPERGIANT:
+    case EvolutionPhase.RED_SUPERGIANT:
+    case EvolutionPhase.LUMINOUS_BLUE_VARIABLE:
+    case EvolutionPhase.WOLF_RAYET:
+      // Helium burning core, kept below carbon ignition until the helium is gone
+      return Math.min(baseCoreTemp * 5.0, BURNING_IGNITION_TEMPERATURES.CARBON / 2);
+      
     case EvolutionPhase.PLANETARY_NEBULA:
       // Exposed hot core
       return baseCoreTemp * 10.0;
       
     case EvolutionPhase.WHITE_DWARF:
-      // Cooling degenerate core
-      return 1e7 * Math.exp(-ageRatio);
+      // Cooling degenerate core (mass is the white dwarf mass)
+      return calculateWhiteDwarfCooling(mass, coolingAge).coreTemperature;
       
     case EvolutionPhase.NEUTRON_STAR:
       return 1e9; // Extremely hot
@@ -123,6 +147,11 @@ export function calculateCorePressure(
       return basePressure * 100;
       
     case EvolutionPhase.HORIZONTAL_BRANCH:
+    case EvolutionPhase.BLUE_SUPERGIANT:
+    case EvolutionPhase.YELLOW_SUPERGIANT:
+    case EvolutionPhase.RED_SUPERGIANT:
+    case EvolutionPhase.LUMINOUS_BLUE_VARIABLE:
+    case EvolutionPhase.WOLF_RAYET:
       return basePressure * 50;
       
     case EvolutionPhase.WHITE_DWARF:
@@ -152,13 +181,16 @@ export function determineActiveReactions(
   mass: number
 ): NuclearReaction {
   // Temperature thresholds for different reactions
-  const T_PP = 4e6;       // PP chain starts
-  const T_CNO = 1.5e7;    // CNO cycle dominates
-  const T_He = 1e8;       // Helium burning (triple-alpha)
-  const T_C = 6e8;        // Carbon burning
-  // const T_Ne = 1.2e9;     // Neon burning
-  // const T_O = 1.5e9;      // Oxygen burning
-  // const T_Si = 2.7e9;     // Silicon burning
+  const {
+    PP_CHAIN: T_PP,
+    CNO_CYCLE: T_CNO,
+    HELIUM: T_He,
+    CARBON: T_C,
+    NEON: T_Ne,
+    OXYGEN: T_O,
+    SILICON: T_Si,
+    IRON_PHOTODISINTEGRATION: T_Fe,
+  } = BURNING_IGNITION_TEMPERATURES;
   
   // Check phase and temperature
   switch (phase) {
@@ -185,6 +217,25 @@ export function determineActiveReactions(
       return NuclearReaction.NONE; // Inert core
       
     case EvolutionPhase.HORIZONTAL_BRANCH:
+    case EvolutionPhase.BLUE_SUPERGIANT:
+    case EvolutionPhase.YELLOW_SUPERGIANT:
+    case EvolutionPhase.RED_SUPERGIANT:
+    case EvolutionPhase.LUMINOUS_BLUE_VARIABLE:
+    case EvolutionPhase.WOLF_RAYET:
+      // After helium exhaustion the contracting core of a massive star
+      // ignites ever heavier fuels; the core temperature follows the
+      // burning timeline, so it alone picks the stage
+      if (coreTemp >= T_Fe) {
+        return NuclearReaction.NONE; // Inert iron core
+      } else if (coreTemp >= T_Si) {
+        return NuclearReaction.SILICON_BURNING;
+      } else if (coreTemp >= T_O) {
+        return NuclearReaction.OXYGEN_BURNING;
+      } else if (coreTemp >= T_Ne) {
+        return NuclearReaction.NEON_BURNING;
+      } else if (coreTemp >= T_C) {
+        return NuclearReaction.CARBON_BURNING;
+      }
       // Helium burning in core
       if (composition.helium > 0.01) {
         if (composition.carbon > 0.01 && coreTemp >= T_He) {
@@ -234,6 +285,10 @@ export function determineShellBurning(
       };
       
     case EvolutionPhase.HORIZONTAL_BRANCH:
+    case EvolutionPhase.BLUE_SUPERGIANT:
+    case EvolutionPhase.YELLOW_SUPERGIANT:
+    case EvolutionPhase.RED_SUPERGIANT:
+    case EvolutionPhase.LUMINOUS_BLUE_VARIABLE:
       // Helium core burning, hydrogen shell burning
       return {
         hydrogenShell: true,
@@ -241,6 +296,14 @@ export function determineShellBurning(
         carbonShell: false,
       };
       
+    case EvolutionPhase.WOLF_RAYET:
+      // Helium core burning with no hydrogen left to burn
+      return {
+        hydrogenShell: false,
+        heliumShell: false,
+        carbonShell: false,
+      };
+      
     case EvolutionPhase.ASYMPTOTIC_GIANT:
       // Both hydrogen and helium shell burning
       return {
@@ -259,7 +322,10 @@ export function determineShellBurning(
 }
 
 /**
- * Calculate layer structure (radii as fractions of total radius)
+ * Estimate layer structure (radii as fractions of total radius)
+ * Zone boundaries follow mass and phase rules; stellar evolution replaces
+ * them with zones from the Schwarzschild criterion once a radial profile
+ * is available (see determineConvectiveZones)
  * @param mass - Stellar mass in solar masses
  * @param phase - Current evolution phase
  * @param ageRatio - Age relative to main sequence lifetime
@@ -273,71 +339,76 @@ export function calculateLayerStructure(
   switch (phase) {
     case EvolutionPhase.PROTOSTAR:
       // Mostly convective
-      return {
-        coreRadius: 0.1,
-        radiativeZoneRadius: 0.3,
-        convectiveZoneRadius: 1.0,
-      };
+      return { coreRadius: 0.1, zones: createRadiativeInterior(0.3) };
       
     case EvolutionPhase.MAIN_SEQUENCE:
       // Structure depends on mass
       if (mass < 0.5) {
         // Fully convective low-mass stars
-        return {
-          coreRadius: 0.2,
-          radiativeZoneRadius: 0.2,
-          convectiveZoneRadius: 1.0,
-        };
+        return { coreRadius: 0.2, zones: [createZone(ZoneType.CONVECTIVE, 0, 1)] };
       } else if (mass < 1.5) {
         // Sun-like: radiative core, convective envelope
-        return {
-          coreRadius: 0.25,
-          radiativeZoneRadius: 0.7,
-          convectiveZoneRadius: 1.0,
-        };
+        return { coreRadius: 0.25, zones: createRadiativeInterior(0.7) };
       } else {
         // Massive: convective core, radiative envelope
-        return {
-          coreRadius: 0.3,
-          radiativeZoneRadius: 1.0,
-          convectiveZoneRadius: 0.3,
-        };
+        return { coreRadius: 0.3, zones: createConvectiveCore(0.3) };
       }
       
     case EvolutionPhase.RED_GIANT:
     case EvolutionPhase.ASYMPTOTIC_GIANT:
+    case EvolutionPhase.RED_SUPERGIANT:
       // Small inert core, large convective envelope
-      return {
-        coreRadius: 0.01 + ageRatio * 0.02,
-        radiativeZoneRadius: 0.1,
-        convectiveZoneRadius: 1.0,
-      };
+      return { coreRadius: 0.01 + ageRatio * 0.02, zones: createRadiativeInterior(0.1) };
       
     case EvolutionPhase.HORIZONTAL_BRANCH:
       // Helium-burning core
-      return {
-        coreRadius: 0.15,
-        radiativeZoneRadius: 0.6,
-        convectiveZoneRadius: 1.0,
-      };
+      return { coreRadius: 0.15, zones: createRadiativeInterior(0.6) };
+      
+    case EvolutionPhase.BLUE_SUPERGIANT:
+    case EvolutionPhase.LUMINOUS_BLUE_VARIABLE:
+      // Tiny convective core inside an extended radiative envelope
+      return { coreRadius: 0.02, zones: createConvectiveCore(0.02) };
+      
+    case EvolutionPhase.YELLOW_SUPERGIANT:
+      // Convection reaching in from the cooling surface
+      return { coreRadius: 0.02, zones: createRadiativeInterior(0.5) };
+      
+    case EvolutionPhase.WOLF_RAYET:
+      // Compact helium star: large convective core, radiative mantle
+      return { coreRadius: 0.4, zones: createConvectiveCore(0.4) };
       
     case EvolutionPhase.WHITE_DWARF:
       // Degenerate core (essentially all core)
-      return {
-        coreRadius: 0.99,
-        radiativeZoneRadius: 1.0,
-        convectiveZoneRadius: 1.0,
-      };
+      return { coreRadius: 0.99, zones: [createZone(ZoneType.RADIATIVE, 0, 1)] };
       
     default:
-      return {
-        coreRadius: 0.25,
-        radiativeZoneRadius: 0.7,
-        convectiveZoneRadius: 1.0,
-      };
+      return { coreRadius: 0.25, zones: createRadiativeInterior(0.7) };
   }
 }
 
+/**
+ * Create a zone between two fractional radii
+ */
+function createZone(type: ZoneType, innerRadius: number, outerRadius: number): StructureZone {
+  return { type, innerRadius, outerRadius };
+}
+
+/**
+ * Create a radiative interior below a convective envelope
+ * @param boundary - Base of the convective envelope as fraction of radius
+ */
+function createRadiativeInterior(boundary: number): StructureZone[] {
+  return [createZone(ZoneType.RADIATIVE, 0, boundary), createZone(ZoneType.CONVECTIVE, boundary, 1)];
+}
+
+/**
+ * Create a convective core inside a radiative envelope
+ * @param boundary - Edge of the convective core as fraction of radius
+ */
+function createConvectiveCore(boundary: number): StructureZone[] {
+  return [createZone(ZoneType.CONVECTIVE, 0, boundary), createZone(ZoneType.RADIATIVE, boundary, 1)];
+}
+
 /**
  * Calculate energy production rate from nuclear reactions
  * @param reaction - Active nuclear reaction
@@ -399,6 +470,12 @@ export function evolveCoreComposition(
   const reactionRate = mass * 1e-10; // Fraction per year (very approximate)
   const deltaFraction = reactionRate * deltaTime;
   
+  // Advanced stages use up their fuel within the stage duration
+  const stageDuration = calculateBurningStageDuration(coreReaction, mass);
+  const stageFraction = stageDuration > 0
+    ? 1 - Math.exp(-ADVANCED_BURNING_CONSTANTS.FUEL_E_FOLDINGS * deltaTime / stageDuration)
+    : 0;
+  
   // Process core reactions
   switch (coreReaction) {
     case NuclearReaction.PP_CHAIN:
@@ -427,11 +504,35 @@ export function evolveCoreComposition(
       
     case NuclearReaction.CARBON_BURNING:
       // Carbon → Neon, Magnesium
-      const carbonBurned = Math.min(newComposition.carbon, deltaFraction * 2);
+      const carbonBurned = newComposition.carbon * stageFraction;
       newComposition.carbon -= carbonBurned;
       newComposition.neon += carbonBurned * 0.5;
       newComposition.magnesium += carbonBurned * 0.4;
       break;
+      
+    case NuclearReaction.NEON_BURNING:
+      // Neon → Oxygen, Magnesium (photodisintegration and alpha capture)
+      const neonBurned = newComposition.neon * stageFraction;
+      newComposition.neon -= neonBurned;
+      newComposition.oxygen += neonBurned * 0.5;
+      newComposition.magnesium += neonBurned * 0.5;
+      break;
+      
+    case NuclearReaction.OXYGEN_BURNING:
+      // Oxygen → Silicon (with sulfur, counted as silicon)
+      const oxygenBurned = newComposition.oxygen * stageFraction;
+      newComposition.oxygen -= oxygenBurned;
+      newComposition.silicon += oxygenBurned * 0.95;
+      break;
+      
+    case NuclearReaction.SILICON_BURNING:
+      // Silicon and Magnesium → Iron-group elements
+      const siliconBurned = newComposition.silicon * stageFraction;
+      const magnesiumBurned = newComposition.magnesium * stageFraction;
+      newComposition.silicon -= siliconBurned;
+      newComposition.magnesium -= magnesiumBurned;
+      newComposition.iron += (siliconBurned + magnesiumBurned) * 0.99;
+      break;
   }
   
   // Normalize to ensure sum = 1
@@ -455,6 +556,8 @@ export function evolveCoreComposition(
  * @param metallicity - Metallicity relative to solar
  * @param previousStructure - Previous internal structure (for composition evolution)
  * @param deltaTime - Time step since last update in years
+ * @param coolingAge - Time since a white dwarf formed in years
+ * @param advancedBurningAge - Time since core helium exhaustion in years (massive stars heading for collapse)
  * @returns Complete internal structure
  */
 export function calculateInternalStructure(
@@ -465,10 +568,22 @@ export function calculateInternalStructure(
   ageRatio: number,
   metallicity: number,
   previousStructure?: InternalStructure,
-  deltaTime?: number
+  deltaTime?: number,
+  coolingAge?: number,
+  advancedBurningAge?: number
 ): InternalStructure {
-  // Calculate core conditions
-  const coreTemperature = calculateCoreTemperature(mass, phase, ageRatio);
+  // Calculate core conditions; a contracting protostar heats its core as
+  // it shrinks (virial theorem, T_c ∝ M / R), and a massive star's core
+  // heats through the advanced burning stages
+  let coreTemperature: number;
+  if (phase === EvolutionPhase.PROTOSTAR) {
+    coreTemperature = calculateCoreTemperature(mass, EvolutionPhase.MAIN_SEQUENCE, 0) *
+      Math.min(calculateRadius(mass, metallicity) / radius, 1);
+  } else if (advancedBurningAge !== undefined) {
+    coreTemperature = calculateAdvancedBurningCoreTemperature(mass, advancedBurningAge);
+  } else {
+    coreTemperature = calculateCoreTemperature(mass, phase, ageRatio, coolingAge);
+  }
   const corePressure = calculateCorePressure(mass, radius, phase);
   
   // Get composition (evolve from previous or calculate initial)
@@ -528,5 +643,8 @@ export function calculateInternalStructure(
     activeReactions,
     shellBurning,
     layerStructure,
+    ...(advancedBurningAge !== undefined && {
+      ironCoreMass: calculateIronCoreMass(mass, advancedBurningAge),
+    }),
   };
 }
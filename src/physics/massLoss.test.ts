@@ -0,0 +1,111 @@
+/**
+ * Unit tests for stellar mass-loss functions
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  calculateReimersMassLossRate,
+  calculateAGBMassLossRate,
+  calculateHotStarWindRate,
+  calculateWolfRayetWindRate,
+  calculateMassLossRate,
+  calculateCoreMass,
+  calculateAdiabaticSemiMajorAxis,
+} from './massLoss';
+import { EvolutionPhase } from '../types/core';
+
+describe('Mass Loss', () => {
+  describe('calculateReimersMassLossRate', () => {
+    it('should match the Reimers formula for a red giant', () => {
+      // 4e-13 × 0.5 × 1000 × 100 / 1
+      expect(calculateReimersMassLossRate(1000, 100, 1)).toBeCloseTo(2e-8, 12);
+    });
+
+    it('should scale with the efficiency', () => {
+      const weak = calculateReimersMassLossRate(1000, 100, 1, 0.1);
+      const strong = calculateReimersMassLossRate(1000, 100, 1, 1.0);
+      expect(strong / weak).toBeCloseTo(10, 6);
+    });
+  });
+
+  describe('calculateAGBMassLossRate', () => {
+    it('should exceed the Reimers rate for luminous AGB stars', () => {
+      const agb = calculateAGBMassLossRate(1e4, 300, 1.5);
+      const reimers = calculateReimersMassLossRate(1e4, 300, 1.5);
+      expect(agb).toBeGreaterThan(reimers);
+    });
+  });
+
+  describe('calculateHotStarWindRate', () => {
+    it('should be negligible for the Sun', () => {
+      expect(calculateHotStarWindRate(1, 1)).toBeLessThan(1e-13);
+    });
+
+    it('should be weaker at low metallicity', () => {
+      expect(calculateHotStarWindRate(1e5, 0.1)).toBeLessThan(calculateHotStarWindRate(1e5, 1));
+    });
+  });
+
+  describe('calculateWolfRayetWindRate', () => {
+    it('should be about 10⁻⁵ M☉/yr for a typical Wolf–Rayet star', () => {
+      const rate = calculateWolfRayetWindRate(2e5, 1);
+      expect(rate).toBeGreaterThan(3e-6);
+      expect(rate).toBeLessThan(1e-4);
+    });
+
+    it('should be weaker at low metallicity', () => {
+      expect(calculateWolfRayetWindRate(2e5, 0.1)).toBeLessThan(calculateWolfRayetWindRate(2e5, 1));
+    });
+  });
+
+  describe('calculateMassLossRate', () => {
+    it('should be stronger on the AGB than on the red giant branch', () => {
+      const redGiant = calculateMassLossRate(EvolutionPhase.RED_GIANT, 1.5, 1e4, 300, 1);
+      const agb = calculateMassLossRate(EvolutionPhase.ASYMPTOTIC_GIANT, 1.5, 1e4, 300, 1);
+      expect(agb).toBeGreaterThan(redGiant);
+    });
+
+    it('should be stronger for massive main sequence stars', () => {
+      const sun = calculateMassLossRate(EvolutionPhase.MAIN_SEQUENCE, 1, 1, 1, 1);
+      const oStar = calculateMassLossRate(EvolutionPhase.MAIN_SEQUENCE, 20, 4e4, 5.5, 1);
+      expect(oStar).toBeGreaterThan(sun * 1e6);
+    });
+
+    it('should blow off luminous blue variables faster than supergiants', () => {
+      const blueSupergiant = calculateMassLossRate(EvolutionPhase.BLUE_SUPERGIANT, 50, 1e6, 80, 1);
+      const lbv = calculateMassLossRate(EvolutionPhase.LUMINOUS_BLUE_VARIABLE, 50, 1e6, 80, 1);
+      expect(lbv).toBeGreaterThan(blueSupergiant);
+    });
+
+    it('should use the Wolf–Rayet wind for Wolf–Rayet stars', () => {
+      expect(calculateMassLossRate(EvolutionPhase.WOLF_RAYET, 12, 2e5, 3, 1)).toBe(calculateWolfRayetWindRate(2e5, 1));
+    });
+
+    it('should be zero for remnants', () => {
+      expect(calculateMassLossRate(EvolutionPhase.WHITE_DWARF, 0.6, 0.01, 0.01, 1)).toBe(0);
+      expect(calculateMassLossRate(EvolutionPhase.NEUTRON_STAR, 1.4, 1e-4, 1e-5, 1)).toBe(0);
+      expect(calculateMassLossRate(EvolutionPhase.BLACK_HOLE, 10, 0, 1e-5, 1)).toBe(0);
+    });
+  });
+
+  describe('calculateCoreMass', () => {
+    it('should give white dwarf core masses for Sun-like stars', () => {
+      expect(calculateCoreMass(1)).toBeCloseTo(0.569, 3);
+      expect(calculateCoreMass(3)).toBeGreaterThan(calculateCoreMass(1));
+    });
+
+    it('should never exceed the initial mass', () => {
+      expect(calculateCoreMass(0.3)).toBe(0.3);
+    });
+  });
+
+  describe('calculateAdiabaticSemiMajorAxis', () => {
+    it('should keep a⋅M constant', () => {
+      expect(calculateAdiabaticSemiMajorAxis(1, 1, 0.5)).toBeCloseTo(2, 10);
+    });
+
+    it('should leave the orbit unchanged without mass loss', () => {
+      expect(calculateAdiabaticSemiMajorAxis(5.2, 1, 1)).toBe(5.2);
+    });
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Stellar mass-loss functions
+ * Wind prescriptions per evolution phase and the adiabatic response of orbits
+ */
+
+import { MASS_LOSS_CONSTANTS, MASSIVE_STAR_CONSTANTS } from '../constants/physics';
+import { EvolutionPhase } from '../types/core';
+import {
+  calculateWhiteDwarfMass,
+  calculateHeliumCoreMass,
+  calculateFinalStateThresholds,
+} from './remnants';
+import { calculateMetallicityFactor } from './stellarPhysics';
+
+/**
+ * Calculate the Reimers mass-loss rate for cool giants
+ * Ṁ = 4×10⁻¹³ η L R / M
+ * @param luminosity - Luminosity in solar luminosities
+ * @param radius - Radius in solar radii
+ * @param mass - Current mass in solar masses
+ * @param eta - Reimers efficiency (default: 0.5)
+ * @returns Mass-loss rate in M☉/year
+ */
+export function calculateReimersMassLossRate(
+  luminosity: number,
+  radius: number,
+  mass: number,
+  eta: number = MASS_LOSS_CONSTANTS.REIMERS_ETA
+): number {
+  if (mass <= 0) {
+    return 0;
+  }
+  return MASS_LOSS_CONSTANTS.REIMERS_COEFFICIENT * eta * luminosity * radius / mass;
+}
+
+/**
+ * Calculate the Blöcker superwind rate for AGB stars
+ * Ṁ = 4.83×10⁻⁹ M^-2.1 L^2.7 × Ṁ_Reimers(η_B)
+ * @param luminosity - Luminosity in solar luminosities
+ * @param radius - Radius in solar radii
+ * @param mass - Current mass in solar masses
+ * @returns Mass-loss rate in M☉/year
+ */
+export function calculateAGBMassLossRate(
+  luminosity: number,
+  radius: number,
+  mass: number
+): number {
+  if (mass <= 0) {
+    return 0;
+  }
+  const reimers = calculateReimersMassLossRate(
+    luminosity,
+    radius,
+    mass,
+    MASS_LOSS_CONSTANTS.BLOCKER_ETA
+  );
+  return MASS_LOSS_CONSTANTS.BLOCKER_COEFFICIENT *
+    Math.pow(mass, -2.1) * Math.pow(luminosity, 2.7) * reimers;
+}
+
+/**
+ * Calculate the line-driven wind rate of hot stars
+ * Ṁ ∝ L^1.5 Z^0.85, negligible for the Sun and strong for O stars
+ * @param luminosity - Luminosity in solar luminosities
+ * @param metallicity - Metallicity relative to solar (Z☉)
+ * @returns Mass-loss rate in M☉/year
+ */
+export function calculateHotStarWindRate(luminosity: number, metallicity: number): number {
+  return MASS_LOSS_CONSTANTS.HOT_WIND_COEFFICIENT *
+    Math.pow(luminosity, MASS_LOSS_CONSTANTS.HOT_WIND_LUMINOSITY_EXPONENT) *
+    Math.pow(metallicity, MASS_LOSS_CONSTANTS.HOT_WIND_METALLICITY_EXPONENT);
+}
+
+/**
+ * Calculate the wind rate of a Wolf–Rayet star
+ * Ṁ ∝ L^1.29 Z^0.85: optically thick winds driven off a bare helium star
+ * @param luminosity - Luminosity in solar luminosities
+ * @param metallicity - Metallicity relative to solar (Z☉)
+ * @returns Mass-loss rate in M☉/year
+ */
+export function calculateWolfRayetWindRate(luminosity: number, metallicity: number): number {
+  return MASSIVE_STAR_CONSTANTS.WOLF_RAYET_WIND_COEFFICIENT *
+    Math.pow(luminosity, MASSIVE_STAR_CONSTANTS.WOLF_RAYET_WIND_LUMINOSITY_EXPONENT) *
+    calculateMetallicityFactor(metallicity, MASS_LOSS_CONSTANTS.HOT_WIND_METALLICITY_EXPONENT);
+}
+
+/**
+ * Calculate the wind mass-loss rate for an evolution phase
+ * Main sequence stars lose mass through line-driven winds, giants through
+ * Reimers winds and AGB stars through a much stronger superwind. Luminous
+ * blue variables shed mass in eruptions and Wolf–Rayet stars through dense
+ * helium winds. Remnants have no wind.
+ * @param phase - Current evolution phase
+ * @param mass - Current mass in solar masses
+ * @param luminosity - Luminosity in solar luminosities
+ * @param radius - Radius in solar radii
+ * @param metallicity - Metallicity relative to solar (Z☉)
+ * @returns Mass-loss rate in M☉/year
+ */
+export function calculateMassLossRate(
+  phase: EvolutionPhase,
+  mass: number,
+  luminosity: number,
+  radius: number,
+  metallicity: number
+): number {
+  const hotWind = calculateHotStarWindRate(luminosity, metallicity);
+
+  switch (phase) {
+    case EvolutionPhase.PROTOSTAR:
+    case EvolutionPhase.MAIN_SEQUENCE:
+      return hotWind;
+
+    case EvolutionPhase.RED_GIANT:
+    case EvolutionPhase.HORIZONTAL_BRANCH:
+    case EvolutionPhase.BLUE_SUPERGIANT:
+    case EvolutionPhase.YELLOW_SUPERGIANT:
+    case EvolutionPhase.RED_SUPERGIANT:
+      // Supergiants can still drive a strong line-driven wind
+      return Math.max(calculateReimersMassLossRate(luminosity, radius, mass), hotWind);
+
+    case EvolutionPhase.LUMINOUS_BLUE_VARIABLE:
+      return Math.max(MASSIVE_STAR_CONSTANTS.LUMINOUS_BLUE_VARIABLE_MASS_LOSS_RATE, hotWind);
+
+    case EvolutionPhase.WOLF_RAYET:
+      return calculateWolfRayetWindRate(luminosity, metallicity);
+
+    case EvolutionPhase.ASYMPTOTIC_GIANT:
+      return Math.max(
+        calculateAGBMassLossRate(luminosity, radius, mass),
+        calculateReimersMassLossRate(luminosity, radius, mass)
+      );
+
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Estimate the core mass a star keeps once its envelope is gone
+ * Stars that become white dwarfs keep the core given by the initial–final
+ * mass relation; more massive stars keep their helium core. Winds cannot
+ * strip a star below this mass.
+ * @param initialMass - Initial stellar mass in solar masses
+ * @param metallicity - Metallicity relative to solar (Z☉)
+ * @returns Core mass in solar masses (never more than the initial mass)
+ */
+export function calculateCoreMass(initialMass: number, metallicity: number = 1.0): number {
+  return initialMass < calculateFinalStateThresholds(metallicity).whiteDwarfMax
+    ? calculateWhiteDwarfMass(initialMass)
+    : calculateHeliumCoreMass(initialMass);
+}
+
+/**
+ * Calculate the semi-major axis after slow mass loss
+ * When mass is lost over many orbits, a⋅M is conserved, so orbits widen
+ * as the central mass drops
+ * @param semiMajorAxis - Semi-major axis before the mass loss in AU
+ * @param previousMass - Total orbiting mass before the mass loss in solar masses
+ * @param currentMass - Total orbiting mass after the mass loss in solar masses
+ * @returns Semi-major axis after the mass loss in AU
+ */
+export function calculateAdiabaticSemiMajorAxis(
+  semiMajorAxis: number,
+  previousMass: number,
+  currentMass: number
+): number {
+  if (currentMass <= 0 || previousMass <= 0) {
+    return semiMajorAxis;
+  }
+  return semiMajorAxis * previousMass / currentMass;
+}
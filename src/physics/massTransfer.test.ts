@@ -0,0 +1,91 @@
+/**
+ * Unit tests for close binary mass transfer
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  calculateRocheLobeRadius,
+  calculateCriticalMassRatio,
+  determineMassTransferStability,
+  calculateThermalTimescale,
+  calculateDynamicalTimescale,
+  calculateMassTransferRate,
+  calculateEddingtonAccretionRate,
+  calculateMaximumAccretionRate,
+  calculateSeparationAfterTransfer,
+} from './massTransfer';
+import { EvolutionPhase, MassTransferStability } from '../types/core';
+
+describe('Mass Transfer', () => {
+  describe('calculateRocheLobeRadius', () => {
+    it('should give 0.38 of the separation for equal masses', () => {
+      expect(calculateRocheLobeRadius(1, 1)).toBeCloseTo(0.379, 3);
+    });
+
+    it('should be larger for the heavier star', () => {
+      expect(calculateRocheLobeRadius(10, 2)).toBeGreaterThan(calculateRocheLobeRadius(10, 0.5));
+    });
+
+    it('should scale with separation', () => {
+      expect(calculateRocheLobeRadius(20, 0.7)).toBeCloseTo(calculateRocheLobeRadius(10, 0.7) * 2, 12);
+    });
+  });
+
+  describe('determineMassTransferStability', () => {
+    it('should allow main-sequence donors to be heavier than giants', () => {
+      expect(calculateCriticalMassRatio(EvolutionPhase.MAIN_SEQUENCE))
+        .toBeGreaterThan(calculateCriticalMassRatio(EvolutionPhase.RED_GIANT));
+    });
+
+    it('should be stable from a lighter donor and unstable from a much heavier giant', () => {
+      expect(determineMassTransferStability(1, 2, EvolutionPhase.RED_GIANT)).toBe(MassTransferStability.STABLE);
+      expect(determineMassTransferStability(3, 1, EvolutionPhase.RED_GIANT)).toBe(MassTransferStability.UNSTABLE);
+      expect(determineMassTransferStability(2, 1, EvolutionPhase.MAIN_SEQUENCE)).toBe(MassTransferStability.STABLE);
+    });
+  });
+
+  describe('timescales', () => {
+    it('should give the solar thermal and dynamical timescales', () => {
+      expect(calculateThermalTimescale(1, 1, 1)).toBeCloseTo(3.1e7, -5);
+      expect(calculateDynamicalTimescale(1, 1) * 3.156e7 / 60).toBeCloseTo(27, 0); // minutes
+    });
+
+    it('should transfer much faster when unstable', () => {
+      expect(calculateMassTransferRate(MassTransferStability.UNSTABLE, 1, 100, 1000))
+        .toBeGreaterThan(calculateMassTransferRate(MassTransferStability.STABLE, 1, 100, 1000) * 1e3);
+    });
+  });
+
+  describe('accretion limits', () => {
+    it('should give about 2×10⁻⁸ M☉/yr for a neutron star', () => {
+      const neutronStarRadius = 12e3 / 6.96e8;
+      expect(calculateEddingtonAccretionRate(neutronStarRadius)).toBeCloseTo(2e-8, 8);
+      expect(calculateMaximumAccretionRate(EvolutionPhase.NEUTRON_STAR, 1.4, neutronStarRadius, 1e-4))
+        .toBe(calculateEddingtonAccretionRate(neutronStarRadius));
+    });
+
+    it('should limit stars by their thermal timescale', () => {
+      expect(calculateMaximumAccretionRate(EvolutionPhase.MAIN_SEQUENCE, 1, 1, 1)).toBeCloseTo(10 / 3.1e7, 12);
+    });
+  });
+
+  describe('calculateSeparationAfterTransfer', () => {
+    it('should follow a ∝ (M_d M_a)⁻² for conservative transfer', () => {
+      // 2 + 1 → 1 + 2: the product is unchanged, so the separation returns
+      expect(calculateSeparationAfterTransfer(1, 2, 1, 1, 1)).toBeCloseTo(1, 10);
+      expect(calculateSeparationAfterTransfer(1, 2, 1, 0.5, 0.5)).toBeCloseTo(Math.pow(2 / 2.25, 2), 10);
+    });
+
+    it('should shrink the orbit while the donor is the heavier star', () => {
+      expect(calculateSeparationAfterTransfer(1, 3, 1, 0.5, 0.5)).toBeLessThan(1);
+    });
+
+    it('should widen the orbit when mass is lost from a light donor', () => {
+      expect(calculateSeparationAfterTransfer(1, 1, 2, 0.5, 0)).toBeGreaterThan(1);
+    });
+
+    it('should leave the orbit unchanged without transfer', () => {
+      expect(calculateSeparationAfterTransfer(3, 1, 1, 0, 0)).toBe(3);
+    });
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * Close binary mass transfer functions
+ * Roche-lobe radii, stability of Roche-lobe overflow, transfer rates and
+ * the orbital response to mass exchanged between the stars
+ */
+
+import {
+  PHYSICS_CONSTANTS,
+  MASS_TRANSFER_CONSTANTS,
+} from '../constants/physics';
+import { EvolutionPhase, MassTransferStability } from '../types/core';
+
+/**
+ * Calculate the Roche-lobe radius of a star in a binary
+ * Eggleton (1983): r_L/a = 0.49 q^(2/3) / (0.6 q^(2/3) + ln(1 + q^(1/3)))
+ * @param separation - Orbital separation (any length unit)
+ * @param massRatio - Mass of the star divided by the mass of its companion
+ * @returns Radius of a sphere with the volume of the Roche lobe (same unit as separation)
+ */
+export function calculateRocheLobeRadius(separation: number, massRatio: number): number {
+  if (massRatio <= 0) {
+    return 0;
+  }
+  const q23 = Math.pow(massRatio, 2 / 3);
+  return separation * 0.49 * q23 / (0.6 * q23 + Math.log(1 + Math.cbrt(massRatio)));
+}
+
+/**
+ * Calculate the donor/accretor mass ratio above which overflow runs away
+ * Radiative main-sequence donors shrink as they lose mass and stay stable
+ * up to large ratios; giants with convective envelopes expand and become
+ * unstable once they are somewhat heavier than the accretor
+ * @param donorPhase - Evolution phase of the donor
+ * @returns Critical mass ratio
+ */
+export function calculateCriticalMassRatio(donorPhase: EvolutionPhase): number {
+  return donorPhase === EvolutionPhase.PROTOSTAR || donorPhase === EvolutionPhase.MAIN_SEQUENCE
+    ? MASS_TRANSFER_CONSTANTS.CRITICAL_MASS_RATIO_MAIN_SEQUENCE
+    : MASS_TRANSFER_CONSTANTS.CRITICAL_MASS_RATIO_GIANT;
+}
+
+/**
+ * Determine whether Roche-lobe overflow is stable
+ * @param donorMass - Donor mass in solar masses
+ * @param accretorMass - Accretor mass in solar masses
+ * @param donorPhase - Evolution phase of the donor
+ * @returns STABLE (thermal timescale) or UNSTABLE (dynamical timescale)
+ */
+export function determineMassTransferStability(
+  donorMass: number,
+  accretorMass: number,
+  donorPhase: EvolutionPhase
+): MassTransferStability {
+  return donorMass / accretorMass > calculateCriticalMassRatio(donorPhase)
+    ? MassTransferStability.UNSTABLE
+    : MassTransferStability.STABLE;
+}
+
+/**
+ * Calculate the Kelvin–Helmholtz (thermal) timescale of a star
+ * τ_KH ≈ 3.1×10⁷ yr (M/M☉)² / ((R/R☉)(L/L☉))
+ * @param mass - Mass in solar masses
+ * @param radius - Radius in solar radii
+ * @param luminosity - Luminosity in solar luminosities
+ * @returns Thermal timescale in years
+ */
+export function calculateThermalTimescale(mass: number, radius: number, luminosity: number): number {
+  if (radius <= 0 || luminosity <= 0) {
+    return Infinity;
+  }
+  return MASS_TRANSFER_CONSTANTS.THERMAL_TIMESCALE * mass * mass / (radius * luminosity);
+}
+
+/**
+ * Calculate the dynamical timescale of a star
+ * τ_dyn = √(R³/GM), about half an hour for the Sun
+ * @param mass - Mass in solar masses
+ * @param radius - Radius in solar radii
+ * @returns Dynamical timescale in years
+ */
+export function calculateDynamicalTimescale(mass: number, radius: number): number {
+  if (mass <= 0) {
+    return Infinity;
+  }
+  return MASS_TRANSFER_CONSTANTS.DYNAMICAL_TIMESCALE * Math.sqrt(Math.pow(radius, 3) / mass);
+}
+
+/**
+ * Calculate the rate at which a Roche-lobe filling donor loses mass
+ * Stable overflow proceeds on the donor's thermal timescale, unstable
+ * overflow on its dynamical timescale
+ * @param stability - Stability of the transfer
+ * @param mass - Donor mass in solar masses
+ * @param radius - Donor radius in solar radii
+ * @param luminosity - Donor luminosity in solar luminosities
+ * @returns Transfer rate in M☉/year
+ */
+export function calculateMassTransferRate(
+  stability: MassTransferStability,
+  mass: number,
+  radius: number,
+  luminosity: number
+): number {
+  const timescale = stability === MassTransferStability.UNSTABLE
+    ? calculateDynamicalTimescale(mass, radius)
+    : calculateThermalTimescale(mass, radius, luminosity);
+  return mass / timescale;
+}
+
+/**
+ * Calculate the Eddington-limited accretion rate of a star
+ * Ṁ_Edd = L_Edd R / (G M) = 4π c R / κ
+ * @param radius - Accretor radius in solar radii
+ * @returns Maximum accretion rate in M☉/year
+ */
+export function calculateEddingtonAccretionRate(radius: number): number {
+  const { SPEED_OF_LIGHT, SOLAR_RADIUS, SOLAR_MASS, SECONDS_PER_YEAR } = PHYSICS_CONSTANTS;
+  const rate = 4 * Math.PI * SPEED_OF_LIGHT * radius * SOLAR_RADIUS /
+    MASS_TRANSFER_CONSTANTS.ELECTRON_SCATTERING_OPACITY;
+  return rate * SECONDS_PER_YEAR / SOLAR_MASS;
+}
+
+/**
+ * Calculate the fastest rate at which a star can accrete
+ * Compact remnants are limited by the Eddington rate; stars also cannot
+ * swallow mass much faster than their thermal timescale allows, so most
+ * of the mass offered by unstable overflow is lost from the system
+ * @param phase - Evolution phase of the accretor
+ * @param mass - Accretor mass in solar masses
+ * @param radius - Accretor radius in solar radii
+ * @param luminosity - Accretor luminosity in solar luminosities
+ * @returns Maximum accretion rate in M☉/year
+ */
+export function calculateMaximumAccretionRate(
+  phase: EvolutionPhase,
+  mass: number,
+  radius: number,
+  luminosity: number
+): number {
+  const eddingtonRate = calculateEddingtonAccretionRate(radius);
+  if (
+    phase === EvolutionPhase.WHITE_DWARF ||
+    phase === EvolutionPhase.NEUTRON_STAR ||
+    phase === EvolutionPhase.BLACK_HOLE
+  ) {
+    return eddingtonRate;
+  }
+  const thermalRate = MASS_TRANSFER_CONSTANTS.ACCRETOR_THERMAL_LIMIT * mass /
+    calculateThermalTimescale(mass, radius, luminosity);
+  return Math.min(eddingtonRate, thermalRate);
+}
+
+/**
+ * Calculate the separation after mass moves from the donor to the accretor
+ * Orbital angular momentum J = M_d M_a √(G a / M) is conserved except for
+ * mass that is not accreted, which leaves with the specific orbital angular
+ * momentum of the accretor (isotropic re-emission). Fully conservative
+ * transfer gives a ∝ (M_d M_a)⁻².
+ * @param separation - Separation before the transfer (any length unit)
+ * @param donorMass - Donor mass before the transfer in solar masses
+ * @param accretorMass - Accretor mass before the transfer in solar masses
+ * @param transferredMass - Mass lost by the donor in solar masses
+ * @param accretedMass - Mass gained by the accretor in solar masses
+ * @returns Separation after the transfer (same unit)
+ */
+export function calculateSeparationAfterTransfer(
+  separation: number,
+  donorMass: number,
+  accretorMass: number,
+  transferredMass: number,
+  accretedMass: number
+): number {
+  if (transferredMass <= 0) {
+    return separation;
+  }
+
+  const steps = MASS_TRANSFER_CONSTANTS.ORBIT_SUBSTEPS;
+  const lostFraction = 1 - accretedMass / transferredMass;
+  let md = donorMass;
+  let ma = accretorMass;
+  let a = separation;
+
+  for (let i = 0; i < steps; i++) {
+    const dm = transferredMass / steps;
+    const total = md + ma;
+    // J ∝ md ma √(a / M); mass lost near the accretor removes dJ/J = dm_lost md / (ma M)
+    const logJ = Math.log(md * ma) + 0.5 * Math.log(a / total) - lostFraction * dm * md / (ma * total);
+    md -= dm;
+    ma += dm * (1 - lostFraction);
+    const newTotal = md + ma;
+    // Solve J = md ma √(a / M) for the new separation
+    a = Math.exp(2 * (logJ - Math.log(md * ma))) * newTotal;
+  }
+
+  return a;
+}
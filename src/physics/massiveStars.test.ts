@@ -0,0 +1,116 @@
+/**
+ * Unit tests for massive star evolution after the main sequence
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  calculateWolfRayetMinimumMass,
+  calculateMassiveStarPath,
+  determineMassiveStarPhase,
+  calculateMassiveStarProperties,
+} from './massiveStars';
+import { calculateLuminosity } from './stellarPhysics';
+import { EvolutionPhase } from '../types/core';
+import { MASSIVE_STAR_CONSTANTS } from '../constants/physics';
+
+describe('Massive Stars', () => {
+  describe('calculateWolfRayetMinimumMass', () => {
+    it('should be 25 M☉ at solar metallicity and higher for metal-poor stars', () => {
+      expect(calculateWolfRayetMinimumMass(1.0)).toBe(MASSIVE_STAR_CONSTANTS.WOLF_RAYET_MIN_MASS);
+      expect(calculateWolfRayetMinimumMass(0.1)).toBeGreaterThan(calculateWolfRayetMinimumMass(1.0));
+    });
+  });
+
+  describe('calculateMassiveStarPath', () => {
+    it('should take a 15 M☉ star from blue to red supergiant', () => {
+      expect(calculateMassiveStarPath(15)).toEqual([
+        EvolutionPhase.BLUE_SUPERGIANT,
+        EvolutionPhase.YELLOW_SUPERGIANT,
+        EvolutionPhase.RED_SUPERGIANT,
+      ]);
+    });
+
+    it('should strip a 30 M☉ star to a Wolf–Rayet star after the red supergiant stage', () => {
+      expect(calculateMassiveStarPath(30)).toEqual([
+        EvolutionPhase.BLUE_SUPERGIANT,
+        EvolutionPhase.YELLOW_SUPERGIANT,
+        EvolutionPhase.RED_SUPERGIANT,
+        EvolutionPhase.WOLF_RAYET,
+      ]);
+    });
+
+    it('should send stars above the Humphreys–Davidson limit through an LBV stage', () => {
+      expect(calculateMassiveStarPath(60)).toEqual([
+        EvolutionPhase.BLUE_SUPERGIANT,
+        EvolutionPhase.LUMINOUS_BLUE_VARIABLE,
+        EvolutionPhase.WOLF_RAYET,
+      ]);
+    });
+
+    it('should keep metal-poor stars from becoming Wolf–Rayet stars', () => {
+      expect(calculateMassiveStarPath(30, 0.1)).not.toContain(EvolutionPhase.WOLF_RAYET);
+      expect(calculateMassiveStarPath(60, 0.01)).not.toContain(EvolutionPhase.WOLF_RAYET);
+    });
+  });
+
+  describe('determineMassiveStarPhase', () => {
+    it('should run through the path in order', () => {
+      const phases = [0, 0.08, 0.12, 0.5, 0.99].map(progress => determineMassiveStarPhase(30, 1.0, progress).phase);
+      expect(phases).toEqual([
+        EvolutionPhase.BLUE_SUPERGIANT,
+        EvolutionPhase.YELLOW_SUPERGIANT,
+        EvolutionPhase.RED_SUPERGIANT,
+        EvolutionPhase.RED_SUPERGIANT,
+        EvolutionPhase.WOLF_RAYET,
+      ]);
+    });
+
+    it('should report the progress through the current stage', () => {
+      const start = determineMassiveStarPhase(15, 1.0, 0);
+      const end = determineMassiveStarPhase(15, 1.0, 1);
+
+      expect(start.progress).toBe(0);
+      expect(end.phase).toBe(EvolutionPhase.RED_SUPERGIANT);
+      expect(end.progress).toBe(1);
+    });
+  });
+
+  describe('calculateMassiveStarProperties', () => {
+    it('should cool a blue supergiant across the Hertzsprung gap at nearly constant luminosity', () => {
+      const early = calculateMassiveStarProperties(EvolutionPhase.BLUE_SUPERGIANT, 15, 15, 1.0, 0.01);
+      const late = calculateMassiveStarProperties(EvolutionPhase.BLUE_SUPERGIANT, 15, 15, 1.0, 0.09);
+
+      expect(late.temperature).toBeLessThan(early.temperature);
+      expect(late.radius).toBeGreaterThan(early.radius);
+      expect(late.luminosity / early.luminosity).toBeLessThan(1.1);
+    });
+
+    it('should swell a red supergiant to hundreds of solar radii', () => {
+      const supergiant = calculateMassiveStarProperties(EvolutionPhase.RED_SUPERGIANT, 15, 15, 1.0, 0.5);
+
+      expect(supergiant.temperature).toBe(MASSIVE_STAR_CONSTANTS.RED_SUPERGIANT_TEMPERATURE);
+      expect(supergiant.radius).toBeGreaterThan(200);
+      expect(supergiant.luminosity).toBeGreaterThan(calculateLuminosity(15));
+    });
+
+    it('should swing a luminous blue variable through S Doradus outbursts', () => {
+      const temperatures = Array.from({ length: 21 }, (_, i) =>
+        calculateMassiveStarProperties(EvolutionPhase.LUMINOUS_BLUE_VARIABLE, 50, 50, 1.0, 0.15 + i * 0.005).temperature
+      );
+
+      expect(Math.max(...temperatures)).toBeGreaterThan(15000);
+      expect(Math.min(...temperatures)).toBeLessThan(10000);
+    });
+
+    it('should make a Wolf–Rayet star a hot compact helium star', () => {
+      const wolfRayet = calculateMassiveStarProperties(EvolutionPhase.WOLF_RAYET, 30, 12, 1.0, 0.9);
+
+      expect(wolfRayet.temperature).toBeGreaterThan(MASSIVE_STAR_CONSTANTS.WOLF_RAYET_MIN_TEMPERATURE);
+      expect(wolfRayet.radius).toBeLessThan(10);
+      expect(wolfRayet.luminosity).toBeCloseTo(
+        MASSIVE_STAR_CONSTANTS.WOLF_RAYET_LUMINOSITY_COEFFICIENT * Math.pow(12, MASSIVE_STAR_CONSTANTS.WOLF_RAYET_LUMINOSITY_EXPONENT),
+        6
+      );
+    });
+  });
+});
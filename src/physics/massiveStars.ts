@@ -0,0 +1,203 @@
+/**
+ * Massive star functions
+ * Post-main-sequence stages of stars that end in core collapse: blue,
+ * yellow and red supergiants, luminous blue variables and Wolf–Rayet stars
+ */
+
+import { MASSIVE_STAR_CONSTANTS } from '../constants/physics';
+import { EvolutionPhase } from '../types/core';
+import {
+  calculateLuminosity,
+  calculateRadius,
+  calculateTemperature,
+  calculateMetallicityFactor,
+  calculateRadiusFromTemperature,
+} from './stellarPhysics';
+
+/**
+ * Calculate the lowest initial mass that ends its life as a Wolf–Rayet star
+ * Stars above it lose their hydrogen envelope to winds before collapse;
+ * metal-poor winds are weaker, so the threshold rises at low metallicity
+ * @param metallicity - Metallicity relative to solar (Z☉)
+ * @returns Minimum initial mass in solar masses
+ */
+export function calculateWolfRayetMinimumMass(metallicity: number = 1.0): number {
+  const { WOLF_RAYET_MIN_MASS, WOLF_RAYET_METALLICITY_EXPONENT } = MASSIVE_STAR_CONSTANTS;
+  return WOLF_RAYET_MIN_MASS * calculateMetallicityFactor(metallicity, WOLF_RAYET_METALLICITY_EXPONENT);
+}
+
+/**
+ * Determine the stages a massive star passes through after the main sequence
+ * Stars below the Humphreys–Davidson limit cross the Hertzsprung gap as
+ * blue and yellow supergiants to become red supergiants; heavier stars
+ * never cool that far and become luminous blue variables instead. Stars
+ * whose winds strip their envelope finish as Wolf–Rayet stars (the Conti
+ * scenario).
+ * @param mass - Initial stellar mass in solar masses
+ * @param metallicity - Metallicity relative to solar (Z☉)
+ * @returns Post-main-sequence stages in order
+ */
+export function calculateMassiveStarPath(mass: number, metallicity: number = 1.0): EvolutionPhase[] {
+  const path = mass >= MASSIVE_STAR_CONSTANTS.LUMINOUS_BLUE_VARIABLE_MIN_MASS
+    ? [EvolutionPhase.BLUE_SUPERGIANT, EvolutionPhase.LUMINOUS_BLUE_VARIABLE]
+    : [EvolutionPhase.BLUE_SUPERGIANT, EvolutionPhase.YELLOW_SUPERGIANT, EvolutionPhase.RED_SUPERGIANT];
+  if (mass >= calculateWolfRayetMinimumMass(metallicity)) {
+    path.push(EvolutionPhase.WOLF_RAYET);
+  }
+  return path;
+}
+
+/**
+ * Determine a massive star's stage partway through its post-main-sequence life
+ * Stages share the time between the end of the main sequence and core
+ * collapse in proportion to their relative durations
+ * @param mass - Initial stellar mass in solar masses
+ * @param metallicity - Metallicity relative to solar (Z☉)
+ * @param progress - Fraction of the post-main-sequence life elapsed (0-1)
+ * @returns Current stage and the fraction of it elapsed (0-1)
+ */
+export function determineMassiveStarPhase(
+  mass: number,
+  metallicity: number,
+  progress: number
+): { phase: EvolutionPhase; progress: number } {
+  const path = calculateMassiveStarPath(mass, metallicity);
+  const total = path.reduce((sum, phase) => sum + getStageDuration(phase), 0);
+  const clamped = Math.min(Math.max(progress, 0), 1);
+
+  let start = 0;
+  for (const phase of path) {
+    const end = start + getStageDuration(phase) / total;
+    if (clamped < end || phase === path[path.length - 1]) {
+      return { phase, progress: Math.min((clamped - start) / (end - start), 1) };
+    }
+    start = end;
+  }
+  return { phase: path[path.length - 1], progress: 1 };
+}
+
+/**
+ * Calculate the luminosity, radius and temperature of a massive star after the main sequence
+ * Supergiants and luminous blue variables brighten slowly at nearly
+ * constant luminosity while their surface temperature sets the radius:
+ * blue supergiants cool across the Hertzsprung gap, yellow supergiants cross
+ * it quickly and red supergiants swell to hundreds of solar radii at the
+ * Hayashi limit. Luminous blue variables swing between hot quiescence and
+ * cool S Doradus outbursts. Wolf–Rayet stars are bare helium stars whose
+ * luminosity follows their mass and who heat up as the wind strips them.
+ * @param phase - Post-main-sequence stage
+ * @param initialMass - Initial stellar mass in solar masses
+ * @param mass - Current mass in solar masses (the helium-star mass for Wolf–Rayet stars)
+ * @param metallicity - Metallicity relative to solar (Z☉)
+ * @param progress - Fraction of the post-main-sequence life elapsed (0-1)
+ * @returns Luminosity, radius and effective temperature
+ */
+export function calculateMassiveStarProperties(
+  phase: EvolutionPhase,
+  initialMass: number,
+  mass: number,
+  metallicity: number,
+  progress: number
+): { luminosity: number; radius: number; temperature: number } {
+  const {
+    SUPERGIANT_LUMINOSITY_FACTOR,
+    SUPERGIANT_LUMINOSITY_GROWTH,
+    BLUE_SUPERGIANT_MIN_TEMPERATURE,
+    YELLOW_SUPERGIANT_MIN_TEMPERATURE,
+    RED_SUPERGIANT_TEMPERATURE,
+    LUMINOUS_BLUE_VARIABLE_TEMPERATURE,
+    LUMINOUS_BLUE_VARIABLE_OUTBURST_TEMPERATURE,
+    LUMINOUS_BLUE_VARIABLE_CYCLES,
+    WOLF_RAYET_MIN_TEMPERATURE,
+    WOLF_RAYET_MAX_TEMPERATURE,
+    WOLF_RAYET_LUMINOSITY_COEFFICIENT,
+    WOLF_RAYET_LUMINOSITY_EXPONENT,
+  } = MASSIVE_STAR_CONSTANTS;
+  const zamsLuminosity = calculateLuminosity(initialMass, metallicity);
+  const path = calculateMassiveStarPath(initialMass, metallicity);
+  const stage = determineMassiveStarPhase(initialMass, metallicity, progress);
+  // A star stripped to a Wolf–Rayet star ahead of schedule starts the stage afresh
+  const stageProgress = stage.phase === phase ? stage.progress : 0;
+
+  let luminosity = zamsLuminosity * SUPERGIANT_LUMINOSITY_FACTOR *
+    (1 + SUPERGIANT_LUMINOSITY_GROWTH * Math.min(Math.max(progress, 0), 1));
+  let temperature: number;
+
+  switch (phase) {
+    case EvolutionPhase.BLUE_SUPERGIANT: {
+      // Cool from the main-sequence temperature towards the next stage
+      const zamsTemperature = calculateTemperature(zamsLuminosity, calculateRadius(initialMass, metallicity));
+      const endTemperature = path.includes(EvolutionPhase.LUMINOUS_BLUE_VARIABLE)
+        ? LUMINOUS_BLUE_VARIABLE_TEMPERATURE
+        : BLUE_SUPERGIANT_MIN_TEMPERATURE;
+      temperature = interpolateLogarithmically(zamsTemperature, endTemperature, stageProgress);
+      break;
+    }
+
+    case EvolutionPhase.YELLOW_SUPERGIANT:
+      temperature = interpolateLogarithmically(
+        BLUE_SUPERGIANT_MIN_TEMPERATURE,
+        YELLOW_SUPERGIANT_MIN_TEMPERATURE,
+        stageProgress
+      );
+      break;
+
+    case EvolutionPhase.RED_SUPERGIANT:
+      temperature = RED_SUPERGIANT_TEMPERATURE;
+      break;
+
+    case EvolutionPhase.LUMINOUS_BLUE_VARIABLE: {
+      // S Doradus cycles: the star swells and cools at constant luminosity
+      const excursion = (1 - Math.cos(2 * Math.PI * LUMINOUS_BLUE_VARIABLE_CYCLES * stageProgress)) / 2;
+      temperature = interpolateLogarithmically(
+        LUMINOUS_BLUE_VARIABLE_TEMPERATURE,
+        LUMINOUS_BLUE_VARIABLE_OUTBURST_TEMPERATURE,
+        excursion
+      );
+      break;
+    }
+
+    case EvolutionPhase.WOLF_RAYET:
+      luminosity = WOLF_RAYET_LUMINOSITY_COEFFICIENT * Math.pow(mass, WOLF_RAYET_LUMINOSITY_EXPONENT);
+      temperature = interpolateLogarithmically(WOLF_RAYET_MIN_TEMPERATURE, WOLF_RAYET_MAX_TEMPERATURE, stageProgress);
+      break;
+
+    default:
+      temperature = calculateTemperature(zamsLuminosity, calculateRadius(initialMass, metallicity));
+  }
+
+  return {
+    luminosity,
+    radius: calculateRadiusFromTemperature(luminosity, temperature),
+    temperature,
+  };
+}
+
+/**
+ * Get the relative time a star spends in a post-main-sequence stage
+ * @returns Relative duration (dimensionless)
+ */
+function getStageDuration(phase: EvolutionPhase): number {
+  switch (phase) {
+    case EvolutionPhase.BLUE_SUPERGIANT:
+      return MASSIVE_STAR_CONSTANTS.BLUE_SUPERGIANT_DURATION;
+    case EvolutionPhase.YELLOW_SUPERGIANT:
+      return MASSIVE_STAR_CONSTANTS.YELLOW_SUPERGIANT_DURATION;
+    case EvolutionPhase.RED_SUPERGIANT:
+      return MASSIVE_STAR_CONSTANTS.RED_SUPERGIANT_DURATION;
+    case EvolutionPhase.LUMINOUS_BLUE_VARIABLE:
+      return MASSIVE_STAR_CONSTANTS.LUMINOUS_BLUE_VARIABLE_DURATION;
+    case EvolutionPhase.WOLF_RAYET:
+      return MASSIVE_STAR_CONSTANTS.WOLF_RAYET_DURATION;
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Interpolate between two positive values evenly in their logarithm
+ * @returns Value a fraction of the way from start to end
+ */
+function interpolateLogarithmically(start: number, end: number, fraction: number): number {
+  return start * Math.pow(end / start, fraction);
+}
@@ -0,0 +1,176 @@
+/**
+ * Unit tests for N-body dynamics
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  calculateAccelerations,
+  calculateTotalEnergy,
+  calculateTotalAngularMomentum,
+  estimateNBodySteps,
+  integrateNBody,
+  calculateOsculatingElements,
+} from './nbody';
+import { NBodyBody } from '../types/core';
+
+/**
+ * Sun and an Earth-mass planet on a circular 1 AU orbit about their barycenter
+ */
+function createSunEarth(): NBodyBody[] {
+  const planetMass = 3e-6;
+  const totalMass = 1 + planetMass;
+  const speed = 2 * Math.PI * Math.sqrt(totalMass); // Circular relative speed in AU/yr
+
+  return [
+    {
+      id: 'sun',
+      mass: 1,
+      position: { x: -planetMass / totalMass, y: 0, z: 0 },
+      velocity: { x: 0, y: -speed * planetMass / totalMass, z: 0 },
+    },
+    {
+      id: 'earth',
+      mass: planetMass,
+      position: { x: 1 / totalMass, y: 0, z: 0 },
+      velocity: { x: 0, y: speed / totalMass, z: 0 },
+    },
+  ];
+}
+
+/**
+ * Sun and an Earth-mass planet on a 1 AU orbit with eccentricity 0.6, starting at periastron
+ */
+function createEccentricSunEarth(): NBodyBody[] {
+  const planetMass = 3e-6;
+  const totalMass = 1 + planetMass;
+  const eccentricity = 0.6;
+  const periastron = 1 - eccentricity;
+  const speed = 2 * Math.PI * Math.sqrt(totalMass * (1 + eccentricity) / periastron);
+
+  return [
+    {
+      id: 'sun',
+      mass: 1,
+      position: { x: -periastron * planetMass / totalMass, y: 0, z: 0 },
+      velocity: { x: 0, y: -speed * planetMass / totalMass, z: 0 },
+    },
+    {
+      id: 'earth',
+      mass: planetMass,
+      position: { x: periastron / totalMass, y: 0, z: 0 },
+      velocity: { x: 0, y: speed / totalMass, z: 0 },
+    },
+  ];
+}
+
+describe('N-body', () => {
+  describe('calculateAccelerations', () => {
+    it('should give equal and opposite forces', () => {
+      const bodies = createSunEarth();
+      const [sun, earth] = calculateAccelerations(bodies, 0);
+
+      expect(sun.x * bodies[0].mass).toBeCloseTo(-earth.x * bodies[1].mass, 12);
+      // Earth's acceleration is GM/r² = 4π² at 1 AU
+      expect(Math.abs(earth.x)).toBeCloseTo(4 * Math.PI * Math.PI, 3);
+    });
+  });
+
+  describe('integrateNBody', () => {
+    it('should return to the starting point after one orbit', () => {
+      const bodies = createSunEarth();
+      const { bodies: result } = integrateNBody(bodies, 1, 0.001, 100000, 0);
+
+      expect(result[1].position.x).toBeCloseTo(bodies[1].position.x, 2);
+      expect(result[1].position.y).toBeCloseTo(0, 2);
+    });
+
+    it('should conserve energy and angular momentum over many orbits', () => {
+      const bodies = createSunEarth();
+      const initialEnergy = calculateTotalEnergy(bodies, 0);
+      const initialMomentum = calculateTotalAngularMomentum(bodies).z;
+
+      const { bodies: result, steps } = integrateNBody(bodies, 20, 0.01, 100000, 0);
+
+      const energyDrift = Math.abs((calculateTotalEnergy(result, 0) - initialEnergy) / initialEnergy);
+      const momentumDrift = Math.abs(
+        (calculateTotalAngularMomentum(result).z - initialMomentum) / initialMomentum
+      );
+
+      expect(steps).toBeGreaterThan(0);
+      expect(energyDrift).toBeLessThan(1e-4);
+      expect(momentumDrift).toBeLessThan(1e-10);
+    });
+
+    it('should not let the energy error of an eccentric orbit drift', () => {
+      const bodies = createEccentricSunEarth();
+      const initialEnergy = calculateTotalEnergy(bodies, 0);
+      const energyError = (orbits: number): number => {
+        const { bodies: result } = integrateNBody(bodies, orbits, 0.05, 1e6, 0);
+        return Math.abs((calculateTotalEnergy(result, 0) - initialEnergy) / initialEnergy);
+      };
+
+      // Ten times as many orbits, about the same error
+      const early = energyError(50);
+      const late = energyError(500);
+      expect(late).toBeLessThan(2 * early);
+      expect(late).toBeLessThan(5e-3);
+    });
+
+    it('should respect the step limit', () => {
+      const { steps } = integrateNBody(createSunEarth(), 100, 0.01, 50, 0);
+      expect(steps).toBeLessThanOrEqual(50);
+    });
+  });
+
+  describe('estimateNBodySteps', () => {
+    it('should scale with duration', () => {
+      const bodies = createSunEarth();
+      const oneYear = estimateNBodySteps(bodies, 1);
+      const tenYears = estimateNBodySteps(bodies, 10);
+
+      expect(oneYear).toBeGreaterThan(0);
+      expect(tenYears).toBeGreaterThanOrEqual(oneYear * 9);
+    });
+
+    it('should need no steps for a single body', () => {
+      expect(estimateNBodySteps([createSunEarth()[0]], 1e6)).toBe(0);
+    });
+  });
+
+  describe('calculateOsculatingElements', () => {
+    it('should recover a circular orbit', () => {
+      const elements = calculateOsculatingElements(
+        { x: 1, y: 0, z: 0 },
+        { x: 0, y: 2 * Math.PI, z: 0 },
+        1
+      );
+
+      expect(elements.semiMajorAxis).toBeCloseTo(1, 6);
+      expect(elements.eccentricity).toBeCloseTo(0, 6);
+    });
+
+    it('should recover an eccentric orbit at periastron', () => {
+      // Periastron of a = 2, e = 0.5: r = 1, v = sqrt(μ(1 + e)/r)
+      const speed = Math.sqrt(4 * Math.PI * Math.PI * 1.5);
+      const elements = calculateOsculatingElements(
+        { x: 1, y: 0, z: 0 },
+        { x: 0, y: speed, z: 0 },
+        1
+      );
+
+      expect(elements.semiMajorAxis).toBeCloseTo(2, 6);
+      expect(elements.eccentricity).toBeCloseTo(0.5, 6);
+    });
+
+    it('should give a negative semi-major axis for unbound motion', () => {
+      const elements = calculateOsculatingElements(
+        { x: 1, y: 0, z: 0 },
+        { x: 0, y: 20, z: 0 },
+        1
+      );
+
+      expect(elements.semiMajorAxis).toBeLessThan(0);
+      expect(elements.eccentricity).toBeGreaterThan(1);
+    });
+  });
+});
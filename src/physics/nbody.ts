@@ -0,0 +1,265 @@
+/**
+ * N-body dynamics functions
+ * Direct-summation gravity with a kick-drift-kick leapfrog integrator
+ * Units: AU, years and solar masses (G = 4π²)
+ */
+
+import { NBODY_CONSTANTS } from '../constants/physics';
+import { Vector3, NBodyBody } from '../types/core';
+
+const G = NBODY_CONSTANTS.GRAVITATIONAL_CONSTANT;
+
+/**
+ * Calculate gravitational acceleration on every body
+ * Uses Plummer softening to avoid singular forces in close encounters
+ * @param bodies - Bodies in the system
+ * @param softening - Softening length in AU
+ * @returns Acceleration of each body in AU/year²
+ */
+export function calculateAccelerations(
+  bodies: NBodyBody[],
+  softening: number = NBODY_CONSTANTS.SOFTENING_LENGTH
+): Vector3[] {
+  const accelerations = bodies.map(() => ({ x: 0, y: 0, z: 0 }));
+  const softeningSquared = softening * softening;
+
+  for (let i = 0; i < bodies.length; i++) {
+    for (let j = i + 1; j < bodies.length; j++) {
+      const dx = bodies[j].position.x - bodies[i].position.x;
+      const dy = bodies[j].position.y - bodies[i].position.y;
+      const dz = bodies[j].position.z - bodies[i].position.z;
+      const distanceSquared = dx * dx + dy * dy + dz * dz + softeningSquared;
+      const inverseCube = 1 / (distanceSquared * Math.sqrt(distanceSquared));
+
+      // Equal and opposite pull, scaled by the other body's mass
+      const scaleI = G * bodies[j].mass * inverseCube;
+      const scaleJ = G * bodies[i].mass * inverseCube;
+
+      accelerations[i].x += dx * scaleI;
+      accelerations[i].y += dy * scaleI;
+      accelerations[i].z += dz * scaleI;
+      accelerations[j].x -= dx * scaleJ;
+      accelerations[j].y -= dy * scaleJ;
+      accelerations[j].z -= dz * scaleJ;
+    }
+  }
+
+  return accelerations;
+}
+
+/**
+ * Calculate total kinetic plus potential energy
+ * @param bodies - Bodies in the system
+ * @param softening - Softening length in AU (must match the integration)
+ * @returns Total energy in M☉⋅AU²/yr²
+ */
+export function calculateTotalEnergy(
+  bodies: NBodyBody[],
+  softening: number = NBODY_CONSTANTS.SOFTENING_LENGTH
+): number {
+  let kinetic = 0;
+  let potential = 0;
+
+  for (let i = 0; i < bodies.length; i++) {
+    const v = bodies[i].velocity;
+    kinetic += 0.5 * bodies[i].mass * (v.x * v.x + v.y * v.y + v.z * v.z);
+
+    for (let j = i + 1; j < bodies.length; j++) {
+      const dx = bodies[j].position.x - bodies[i].position.x;
+      const dy = bodies[j].position.y - bodies[i].position.y;
+      const dz = bodies[j].position.z - bodies[i].position.z;
+      const distance = Math.sqrt(dx * dx + dy * dy + dz * dz + softening * softening);
+      potential -= G * bodies[i].mass * bodies[j].mass / distance;
+    }
+  }
+
+  return kinetic + potential;
+}
+
+/**
+ * Calculate total angular momentum about the origin
+ * @param bodies - Bodies in the system
+ * @returns Angular momentum vector in M☉⋅AU²/yr
+ */
+export function calculateTotalAngularMomentum(bodies: NBodyBody[]): Vector3 {
+  return bodies.reduce(
+    (total, body) => {
+      const r = body.position;
+      const v = body.velocity;
+      return {
+        x: total.x + body.mass * (r.y * v.z - r.z * v.y),
+        y: total.y + body.mass * (r.z * v.x - r.x * v.z),
+        z: total.z + body.mass * (r.x * v.y - r.y * v.x),
+      };
+    },
+    { x: 0, y: 0, z: 0 }
+  );
+}
+
+/**
+ * Find the shortest pairwise dynamical time
+ * t_dyn = sqrt(r³ / (G(m₁ + m₂))) for the tightest pair sets the step size
+ * @param bodies - Bodies in the system
+ * @returns Shortest dynamical time in years (Infinity for fewer than 2 bodies)
+ */
+export function calculateMinimumDynamicalTime(bodies: NBodyBody[]): number {
+  let minimum = Infinity;
+
+  for (let i = 0; i < bodies.length; i++) {
+    for (let j = i + 1; j < bodies.length; j++) {
+      const totalMass = bodies[i].mass + bodies[j].mass;
+      if (totalMass <= 0) {
+        continue;
+      }
+
+      const dx = bodies[j].position.x - bodies[i].position.x;
+      const dy = bodies[j].position.y - bodies[i].position.y;
+      const dz = bodies[j].position.z - bodies[i].position.z;
+      const distance = Math.sqrt(dx * dx + dy * dy + dz * dz);
+
+      minimum = Math.min(minimum, Math.sqrt(Math.pow(distance, 3) / (G * totalMass)));
+    }
+  }
+
+  return minimum;
+}
+
+/**
+ * Estimate how many steps an integration would take
+ * @param bodies - Bodies in the system
+ * @param duration - Integration time in years
+ * @param timeStepFactor - Step as fraction of the shortest dynamical time
+ * @returns Estimated step count
+ */
+export function estimateNBodySteps(
+  bodies: NBodyBody[],
+  duration: number,
+  timeStepFactor: number = NBODY_CONSTANTS.TIME_STEP_FACTOR
+): number {
+  const dynamicalTime = calculateMinimumDynamicalTime(bodies);
+  if (dynamicalTime === Infinity) {
+    return 0; // Nothing to integrate
+  }
+  if (dynamicalTime <= 0) {
+    return Infinity; // Coincident bodies
+  }
+  return Math.ceil(duration / (timeStepFactor * dynamicalTime));
+}
+
+/**
+ * Advance bodies by one kick-drift-kick leapfrog step
+ * The scheme is symplectic, so at a fixed step energy errors stay bounded
+ * over long runs
+ * @param bodies - Bodies in the system
+ * @param timeStep - Step in years
+ * @param softening - Softening length in AU
+ * @returns Bodies after the step
+ */
+export function leapfrogStep(
+  bodies: NBodyBody[],
+  timeStep: number,
+  softening: number = NBODY_CONSTANTS.SOFTENING_LENGTH
+): NBodyBody[] {
+  const halfStep = timeStep / 2;
+
+  // Half kick, full drift
+  const initialAccelerations = calculateAccelerations(bodies, softening);
+  const drifted = bodies.map((body, i) => {
+    const velocity = {
+      x: body.velocity.x + initialAccelerations[i].x * halfStep,
+      y: body.velocity.y + initialAccelerations[i].y * halfStep,
+      z: body.velocity.z + initialAccelerations[i].z * halfStep,
+    };
+    return {
+      ...body,
+      velocity,
+      position: {
+        x: body.position.x + velocity.x * timeStep,
+        y: body.position.y + velocity.y * timeStep,
+        z: body.position.z + velocity.z * timeStep,
+      },
+    };
+  });
+
+  // Second half kick with the new accelerations
+  const finalAccelerations = calculateAccelerations(drifted, softening);
+  return drifted.map((body, i) => ({
+    ...body,
+    velocity: {
+      x: body.velocity.x + finalAccelerations[i].x * halfStep,
+      y: body.velocity.y + finalAccelerations[i].y * halfStep,
+      z: body.velocity.z + finalAccelerations[i].z * halfStep,
+    },
+  }));
+}
+
+/**
+ * Integrate bodies forward in time
+ * The step is a fraction of the shortest dynamical time at the start, but
+ * never smaller than duration / maxSteps, so the cost of one call is
+ * bounded. It stays fixed for the whole call so that the leapfrog remains
+ * symplectic; calls started from different states may use different steps.
+ * @param bodies - Bodies in the system
+ * @param duration - Integration time in years
+ * @param timeStepFactor - Step as fraction of the shortest dynamical time
+ * @param maxSteps - Upper bound on the number of steps
+ * @param softening - Softening length in AU
+ * @returns Bodies after the integration and the number of steps taken
+ */
+export function integrateNBody(
+  bodies: NBodyBody[],
+  duration: number,
+  timeStepFactor: number = NBODY_CONSTANTS.TIME_STEP_FACTOR,
+  maxSteps: number = NBODY_CONSTANTS.MAX_STEPS_PER_UPDATE,
+  softening: number = NBODY_CONSTANTS.SOFTENING_LENGTH
+): { bodies: NBodyBody[]; steps: number } {
+  if (!(duration > 0)) {
+    return { bodies, steps: 0 };
+  }
+
+  // Whole steps of equal length that cover the duration
+  const preferredStep = timeStepFactor * calculateMinimumDynamicalTime(bodies);
+  const steps = Math.min(Math.max(Math.ceil(duration / preferredStep), 1), maxSteps);
+  const timeStep = duration / steps;
+
+  let current = bodies;
+  for (let i = 0; i < steps; i++) {
+    current = leapfrogStep(current, timeStep, softening);
+  }
+
+  return { bodies: current, steps };
+}
+
+/**
+ * Calculate osculating semi-major axis and eccentricity of a two-body orbit
+ * @param relativePosition - Position relative to the central body in AU
+ * @param relativeVelocity - Velocity relative to the central body in AU/year
+ * @param totalMass - Combined mass in solar masses
+ * @returns Semi-major axis in AU (negative when unbound) and eccentricity
+ */
+export function calculateOsculatingElements(
+  relativePosition: Vector3,
+  relativeVelocity: Vector3,
+  totalMass: number
+): { semiMajorAxis: number; eccentricity: number } {
+  const mu = G * totalMass;
+  const r = relativePosition;
+  const v = relativeVelocity;
+  const distance = Math.sqrt(r.x * r.x + r.y * r.y + r.z * r.z);
+  const speedSquared = v.x * v.x + v.y * v.y + v.z * v.z;
+
+  // Vis-viva: 1/a = 2/r - v²/μ
+  const semiMajorAxis = 1 / (2 / distance - speedSquared / mu);
+
+  // Eccentricity vector: e = ((v² - μ/r) r - (r·v) v) / μ
+  const radialTerm = speedSquared - mu / distance;
+  const rDotV = r.x * v.x + r.y * v.y + r.z * v.z;
+  const ex = (radialTerm * r.x - rDotV * v.x) / mu;
+  const ey = (radialTerm * r.y - rDotV * v.y) / mu;
+  const ez = (radialTerm * r.z - rDotV * v.z) / mu;
+
+  return {
+    semiMajorAxis,
+    eccentricity: Math.sqrt(ex * ex + ey * ey + ez * ez),
+  };
+}
@@ -10,7 +10,11 @@ import {
   solveKeplerEquation,
   calculateTrueAnomaly,
   calculateHillSphereRadius,
+  calculateOrbitalPosition,
+  calculateOrbitalVelocity,
+  calculateOrbitalElementsFromState,
 } from './orbitalMechanics';
+import { OrbitalParameters } from '../types/core';
 
 describe('Orbital Mechanics', () => {
   describe('Kepler\'s Third Law', () => {
@@ -93,6 +97,99 @@ describe('Orbital Mechanics', () => {
     });
   });
 
+  describe('calculateOrbitalPosition and calculateOrbitalVelocity', () => {
+    const circular: OrbitalParameters = {
+      semiMajorAxis: 1.0,
+      eccentricity: 0,
+      inclination: 0,
+      longitudeOfAscendingNode: 0,
+      argumentOfPeriapsis: 0,
+      meanAnomalyAtEpoch: 0,
+    };
+
+    it('should give circular speed of 2π AU/year at 1 AU around 1 M☉', () => {
+      const v = calculateOrbitalVelocity(circular, 0.3, 1.0);
+      const speed = Math.sqrt(v.x * v.x + v.y * v.y + v.z * v.z);
+      expect(speed).toBeCloseTo(2 * Math.PI, 3);
+    });
+
+    it('should keep velocity perpendicular to position on a circular orbit', () => {
+      const r = calculateOrbitalPosition(circular, 0.3, 1.0);
+      const v = calculateOrbitalVelocity(circular, 0.3, 1.0);
+      expect(r.x * v.x + r.y * v.y + r.z * v.z).toBeCloseTo(0, 6);
+    });
+
+    it('should start from the mean anomaly at epoch', () => {
+      const shifted = { ...circular, meanAnomalyAtEpoch: Math.PI / 2 };
+      const r = calculateOrbitalPosition(shifted, 0, 1.0);
+      expect(r.x).toBeCloseTo(0, 6);
+      expect(r.y).toBeCloseTo(1, 6);
+    });
+
+    it('should be fastest at periapsis on an eccentric orbit', () => {
+      const eccentric = { ...circular, eccentricity: 0.5 };
+      const speedAt = (t: number) => {
+        const v = calculateOrbitalVelocity(eccentric, t, 1.0);
+        return Math.sqrt(v.x * v.x + v.y * v.y + v.z * v.z);
+      };
+      // Vis-viva: v² = GM(2/r - 1/a), r = a(1 - e) at periapsis
+      expect(speedAt(0)).toBeCloseTo(2 * Math.PI * Math.sqrt(3), 3);
+      expect(speedAt(0)).toBeGreaterThan(speedAt(0.5));
+    });
+  });
+
+  describe('calculateOrbitalElementsFromState', () => {
+    const reproduces = (params: OrbitalParameters, time: number, totalMass: number) => {
+      const period = calculateOrbitalPeriod(params.semiMajorAxis, totalMass);
+      const r = calculateOrbitalPosition(params, time, period);
+      const v = calculateOrbitalVelocity(params, time, period);
+      const elements = calculateOrbitalElementsFromState(r, v, totalMass, time)!;
+      
+      expect(elements.semiMajorAxis).toBeCloseTo(params.semiMajorAxis, 6);
+      expect(elements.eccentricity).toBeCloseTo(params.eccentricity, 6);
+      
+      // Same state at the same time, and the same motion afterwards
+      for (const t of [time, time + period * 0.37]) {
+        const expected = calculateOrbitalPosition(params, t, period);
+        const actual = calculateOrbitalPosition(elements, t, period);
+        expect(actual.x).toBeCloseTo(expected.x, 5);
+        expect(actual.y).toBeCloseTo(expected.y, 5);
+        expect(actual.z).toBeCloseTo(expected.z, 5);
+      }
+    };
+
+    it('should recover an inclined eccentric orbit', () => {
+      reproduces({
+        semiMajorAxis: 2.5,
+        eccentricity: 0.4,
+        inclination: 0.3,
+        longitudeOfAscendingNode: 1.2,
+        argumentOfPeriapsis: 2.0,
+        meanAnomalyAtEpoch: 0.7,
+      }, 12.3, 1.5);
+    });
+
+    it('should recover circular and equatorial orbits', () => {
+      reproduces({
+        semiMajorAxis: 1.0,
+        eccentricity: 0,
+        inclination: 0,
+        longitudeOfAscendingNode: 0,
+        argumentOfPeriapsis: 0,
+        meanAnomalyAtEpoch: 0,
+      }, 0.3, 1.0);
+    });
+
+    it('should return null for an unbound state', () => {
+      expect(calculateOrbitalElementsFromState(
+        { x: 1, y: 0, z: 0 },
+        { x: 0, y: 20, z: 0 },
+        1.0,
+        0
+      )).toBeNull();
+    });
+  });
+
   describe('calculateHillSphereRadius', () => {
     it('should calculate Hill sphere for Earth', () => {
       // Earth at 1 AU around Sun
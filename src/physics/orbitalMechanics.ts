@@ -5,6 +5,7 @@
 
 import { PHYSICS_CONSTANTS } from '../constants/physics';
 import { Vector3, OrbitalParameters } from '../types/core';
+import { RandomSource } from './random';
 
 /**
  * Calculate orbital period using Kepler's third law
@@ -127,10 +128,60 @@ export function calculateTrueAnomaly(
   return 2 * Math.atan(tanHalfNu);
 }
 
+/**
+ * Rotate a vector from the orbital plane into the reference frame
+ * Applies argument of periapsis, inclination and longitude of ascending node
+ * @param xOrbital - Component along periapsis direction
+ * @param yOrbital - Component perpendicular to periapsis in the orbital plane
+ * @param params - Orbital parameters providing the orientation
+ * @returns Vector in the reference frame
+ */
+function rotateToReferenceFrame(
+  xOrbital: number,
+  yOrbital: number,
+  params: OrbitalParameters
+): Vector3 {
+  const cosOmega = Math.cos(params.longitudeOfAscendingNode);
+  const sinOmega = Math.sin(params.longitudeOfAscendingNode);
+  const cosW = Math.cos(params.argumentOfPeriapsis);
+  const sinW = Math.sin(params.argumentOfPeriapsis);
+  const cosI = Math.cos(params.inclination);
+  const sinI = Math.sin(params.inclination);
+  
+  // Apply rotation matrices
+  const x = (cosOmega * cosW - sinOmega * sinW * cosI) * xOrbital +
+            (-cosOmega * sinW - sinOmega * cosW * cosI) * yOrbital;
+  
+  const y = (sinOmega * cosW + cosOmega * sinW * cosI) * xOrbital +
+            (-sinOmega * sinW + cosOmega * cosW * cosI) * yOrbital;
+  
+  const z = (sinW * sinI) * xOrbital + (cosW * sinI) * yOrbital;
+  
+  return { x, y, z };
+}
+
+/**
+ * Calculate eccentric anomaly at a given time
+ * Includes the mean anomaly at epoch so orbits can start at any phase
+ * @param params - Orbital parameters
+ * @param time - Time since epoch in years
+ * @param period - Orbital period in years
+ * @returns Eccentric anomaly in radians
+ */
+function calculateEccentricAnomalyAtTime(
+  params: OrbitalParameters,
+  time: number,
+  period: number
+): number {
+  const M = (calculateMeanAnomaly(time, period) + params.meanAnomalyAtEpoch) % (2 * Math.PI);
+  return solveKeplerEquation(M, params.eccentricity);
+}
+
 /**
  * Calculate orbital position in 3D space
  * @param params - Orbital parameters
  * @param time - Time since epoch in years
+ * @param period - Orbital period in years
  * @returns Position vector in AU
  */
 export function calculateOrbitalPosition(
@@ -138,11 +189,8 @@ export function calculateOrbitalPosition(
   time: number,
   period: number
 ): Vector3 {
-  // Calculate mean anomaly
-  const M = calculateMeanAnomaly(time, period);
-  
   // Solve for eccentric anomaly
-  const E = solveKeplerEquation(M, params.eccentricity);
+  const E = calculateEccentricAnomalyAtTime(params, time, period);
   
   // Calculate true anomaly
   const nu = calculateTrueAnomaly(E, params.eccentricity);
@@ -154,24 +202,140 @@ export function calculateOrbitalPosition(
   const xOrbital = r * Math.cos(nu);
   const yOrbital = r * Math.sin(nu);
   
-  // Rotate to 3D space using orbital elements
-  const cosOmega = Math.cos(params.longitudeOfAscendingNode);
-  const sinOmega = Math.sin(params.longitudeOfAscendingNode);
-  const cosW = Math.cos(params.argumentOfPeriapsis);
-  const sinW = Math.sin(params.argumentOfPeriapsis);
-  const cosI = Math.cos(params.inclination);
-  const sinI = Math.sin(params.inclination);
+  return rotateToReferenceFrame(xOrbital, yOrbital, params);
+}
+
+/**
+ * Calculate orbital velocity in 3D space
+ * v = n*a/sqrt(1-e²) * (-sin ν, e + cos ν) in the orbital plane
+ * @param params - Orbital parameters
+ * @param time - Time since epoch in years
+ * @param period - Orbital period in years
+ * @returns Velocity vector in AU/year
+ */
+export function calculateOrbitalVelocity(
+  params: OrbitalParameters,
+  time: number,
+  period: number
+): Vector3 {
+  const E = calculateEccentricAnomalyAtTime(params, time, period);
+  const nu = calculateTrueAnomaly(E, params.eccentricity);
   
-  // Apply rotation matrices
-  const x = (cosOmega * cosW - sinOmega * sinW * cosI) * xOrbital +
-            (-cosOmega * sinW - sinOmega * cosW * cosI) * yOrbital;
+  // Mean motion times semi-major axis, scaled by the semi-latus rectum factor
+  const meanMotion = (2 * Math.PI) / period;
+  const speedScale = meanMotion * params.semiMajorAxis /
+    Math.sqrt(1 - params.eccentricity * params.eccentricity);
   
-  const y = (sinOmega * cosW + cosOmega * sinW * cosI) * xOrbital +
-            (-sinOmega * sinW + cosOmega * cosW * cosI) * yOrbital;
+  const vxOrbital = -speedScale * Math.sin(nu);
+  const vyOrbital = speedScale * (params.eccentricity + Math.cos(nu));
   
-  const z = (sinW * sinI) * xOrbital + (cosW * sinI) * yOrbital;
+  return rotateToReferenceFrame(vxOrbital, vyOrbital, params);
+}
+
+/**
+ * Calculate orbital elements from a relative position and velocity
+ * Inverse of calculateOrbitalPosition and calculateOrbitalVelocity: the
+ * returned elements reproduce the given state at the given time. Circular
+ * orbits measure periapsis from the current position, and equatorial
+ * orbits measure it from the x axis.
+ * @param relativePosition - Position relative to the central body in AU
+ * @param relativeVelocity - Velocity relative to the central body in AU/year
+ * @param totalMass - Combined mass in solar masses
+ * @param time - Simulation time of the state in years
+ * @returns Orbital parameters, or null if the orbit is unbound
+ */
+export function calculateOrbitalElementsFromState(
+  relativePosition: Vector3,
+  relativeVelocity: Vector3,
+  totalMass: number,
+  time: number
+): OrbitalParameters | null {
+  const r = relativePosition;
+  const v = relativeVelocity;
+  const distance = Math.sqrt(r.x * r.x + r.y * r.y + r.z * r.z);
+  const speedSquared = v.x * v.x + v.y * v.y + v.z * v.z;
   
-  return { x, y, z };
+  // Gravitational parameter consistent with calculateOrbitalPeriod (AU³/yr²)
+  const unitPeriod = calculateOrbitalPeriod(1, totalMass);
+  const mu = (4 * Math.PI * Math.PI) / (unitPeriod * unitPeriod);
+  
+  // Vis-viva: 1/a = 2/r - v²/μ
+  const inverseSemiMajorAxis = 2 / distance - speedSquared / mu;
+  if (!(inverseSemiMajorAxis > 0) || distance === 0) {
+    return null;
+  }
+  const semiMajorAxis = 1 / inverseSemiMajorAxis;
+  
+  // Specific angular momentum h = r × v and its unit vector
+  const h = {
+    x: r.y * v.z - r.z * v.y,
+    y: r.z * v.x - r.x * v.z,
+    z: r.x * v.y - r.y * v.x,
+  };
+  const hMagnitude = Math.sqrt(h.x * h.x + h.y * h.y + h.z * h.z);
+  if (hMagnitude === 0) {
+    return null; // Radial orbit
+  }
+  const w = { x: h.x / hMagnitude, y: h.y / hMagnitude, z: h.z / hMagnitude };
+  
+  // Eccentricity vector e = ((v² - μ/r) r - (r·v) v) / μ
+  const radialTerm = speedSquared - mu / distance;
+  const rDotV = r.x * v.x + r.y * v.y + r.z * v.z;
+  const e = {
+    x: (radialTerm * r.x - rDotV * v.x) / mu,
+    y: (radialTerm * r.y - rDotV * v.y) / mu,
+    z: (radialTerm * r.z - rDotV * v.z) / mu,
+  };
+  const eccentricity = Math.sqrt(e.x * e.x + e.y * e.y + e.z * e.z);
+  if (eccentricity >= 1) {
+    return null;
+  }
+  
+  // Perifocal basis: P towards periapsis (current position if circular), Q = W × P
+  const p = eccentricity > 1e-10
+    ? { x: e.x / eccentricity, y: e.y / eccentricity, z: e.z / eccentricity }
+    : { x: r.x / distance, y: r.y / distance, z: r.z / distance };
+  const q = {
+    x: w.y * p.z - w.z * p.y,
+    y: w.z * p.x - w.x * p.z,
+    z: w.x * p.y - w.y * p.x,
+  };
+  
+  // Orientation angles from the rotation matrix used by rotateToReferenceFrame
+  const inclination = Math.acos(Math.max(-1, Math.min(1, w.z)));
+  let longitudeOfAscendingNode: number;
+  let argumentOfPeriapsis: number;
+  if (Math.sin(inclination) > 1e-10) {
+    longitudeOfAscendingNode = Math.atan2(w.x, -w.y);
+    argumentOfPeriapsis = Math.atan2(p.z, q.z);
+  } else {
+    longitudeOfAscendingNode = 0;
+    argumentOfPeriapsis = Math.atan2(p.y * w.z, p.x);
+  }
+  
+  // True anomaly → eccentric anomaly → mean anomaly now, then back to epoch
+  const trueAnomaly = Math.atan2(
+    r.x * q.x + r.y * q.y + r.z * q.z,
+    r.x * p.x + r.y * p.y + r.z * p.z
+  );
+  const eccentricAnomaly = Math.atan2(
+    Math.sqrt(1 - eccentricity * eccentricity) * Math.sin(trueAnomaly),
+    eccentricity + Math.cos(trueAnomaly)
+  );
+  const meanAnomaly = eccentricAnomaly - eccentricity * Math.sin(eccentricAnomaly);
+  const period = calculateOrbitalPeriod(semiMajorAxis, totalMass);
+  const twoPi = 2 * Math.PI;
+  const meanAnomalyAtEpoch =
+    (((meanAnomaly - calculateMeanAnomaly(time, period)) % twoPi) + twoPi) % twoPi;
+  
+  return {
+    semiMajorAxis,
+    eccentricity,
+    inclination,
+    longitudeOfAscendingNode,
+    argumentOfPeriapsis,
+    meanAnomalyAtEpoch,
+  };
 }
 
 /**
@@ -180,13 +344,15 @@ export function calculateOrbitalPosition(
  * @param mass1 - Mass of first body in solar masses
  * @param mass2 - Mass of second body in solar masses
  * @param eccentricity - Desired eccentricity (default: 0 for circular)
+ * @param random - Random source for the orbital angles (default: Math.random)
  * @returns Orbital parameters
  */
 export function calculateOrbitalParametersFromAngularMomentum(
   angularMomentum: number,
   mass1: number,
   mass2: number,
-  eccentricity: number = 0
+  eccentricity: number = 0,
+  random: RandomSource = Math.random
 ): OrbitalParameters {
   const totalMass = mass1 + mass2;
   const reducedMass = (mass1 * mass2) / totalMass;
@@ -203,10 +369,10 @@ export function calculateOrbitalParametersFromAngularMomentum(
   const semiMajorAxis = semiMajorAxisMeters / PHYSICS_CONSTANTS.AU;
   
   // Random orbital angles for variety
-  const inclination = Math.random() * Math.PI / 6; // 0-30 degrees
-  const longitudeOfAscendingNode = Math.random() * 2 * Math.PI;
-  const argumentOfPeriapsis = Math.random() * 2 * Math.PI;
-  const meanAnomalyAtEpoch = Math.random() * 2 * Math.PI;
+  const inclination = random() * Math.PI / 6; // 0-30 degrees
+  const longitudeOfAscendingNode = random() * 2 * Math.PI;
+  const argumentOfPeriapsis = random() * 2 * Math.PI;
+  const meanAnomalyAtEpoch = random() * 2 * Math.PI;
   
   return {
     semiMajorAxis,
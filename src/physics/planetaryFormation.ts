@@ -5,6 +5,7 @@
 
 import { PLANET_FORMATION } from '../constants/physics';
 import { ProtoplanetaryDisk, PlanetComposition } from '../types/core';
+import { RandomSource } from './random';
 
 /**
  * Calculate protoplanetary disk mass from stellar mass
@@ -122,12 +123,14 @@ export function determinePlanetComposition(
  * @param composition - Planet composition type
  * @param diskMass - Total disk mass in solar masses
  * @param metallicity - System metallicity relative to solar
+ * @param random - Random source for mass scatter (default: Math.random)
  * @returns Planet mass in Earth masses
  */
 export function calculatePlanetMass(
   composition: PlanetComposition,
   diskMass: number,
-  metallicity: number
+  metallicity: number,
+  random: RandomSource = Math.random
 ): number {
   // Convert disk mass to Earth masses (1 solar mass ≈ 333,000 Earth masses)
   const diskMassEarth = diskMass * 333000;
@@ -138,19 +141,19 @@ export function calculatePlanetMass(
   switch (composition) {
     case PlanetComposition.ROCKY:
       // Rocky planets: 0.1 to 10 Earth masses
-      baseMass = 0.5 + Math.random() * 5;
+      baseMass = 0.5 + random() * 5;
       // Metallicity increases rocky planet mass
       baseMass *= (0.5 + metallicity * 0.5);
       break;
       
     case PlanetComposition.ICE_GIANT:
       // Ice giants: 10 to 20 Earth masses
-      baseMass = 10 + Math.random() * 10;
+      baseMass = 10 + random() * 10;
       break;
       
     case PlanetComposition.GAS_GIANT:
       // Gas giants: 50 to 500 Earth masses
-      baseMass = 50 + Math.random() * 450;
+      baseMass = 50 + random() * 450;
       // More massive disks can form more massive planets
       baseMass *= Math.min(diskMass / 0.01, 2.0);
       break;
@@ -167,12 +170,14 @@ export function calculatePlanetMass(
  * @param innerDistance - Distance of inner planet in AU
  * @param stellarMass - Mass of the host star in solar masses
  * @param planetMass - Mass of the planet in Earth masses
+ * @param random - Random source for spacing scatter (default: Math.random)
  * @returns Distance to next planet in AU
  */
 export function calculatePlanetSpacing(
   innerDistance: number,
   stellarMass: number,
-  planetMass: number
+  planetMass: number,
+  random: RandomSource = Math.random
 ): number {
   // Convert planet mass to solar masses
   const planetMassSolar = planetMass / 333000;
@@ -181,7 +186,7 @@ export function calculatePlanetSpacing(
   const hillRadius = innerDistance * Math.pow(planetMassSolar / (3 * stellarMass), 1/3);
   
   // Spacing is typically 10-20 Hill radii
-  const hillRadiiSpacing = 10 + Math.random() * 10;
+  const hillRadiiSpacing = 10 + random() * 10;
   
   return hillRadius * hillRadiiSpacing;
 }
@@ -192,13 +197,15 @@ export function calculatePlanetSpacing(
  * @param diskOuterRadius - Outer radius of disk in AU
  * @param stellarMass - Mass of the host star in solar masses
  * @param maxPlanets - Maximum number of planets to generate
+ * @param random - Random source for spacing scatter (default: Math.random)
  * @returns Array of orbital distances in AU
  */
 export function generatePlanetOrbitalDistances(
   diskInnerRadius: number,
   diskOuterRadius: number,
   stellarMass: number,
-  maxPlanets: number = 10
+  maxPlanets: number = 10,
+  random: RandomSource = Math.random
 ): number[] {
   const distances: number[] = [];
   
@@ -210,10 +217,10 @@ export function generatePlanetOrbitalDistances(
     
     // Estimate planet mass for spacing calculation (use average)
     const estimatedMass = 5; // Earth masses (rough average)
-    const spacing = calculatePlanetSpacing(currentDistance, stellarMass, estimatedMass);
+    const spacing = calculatePlanetSpacing(currentDistance, stellarMass, estimatedMass, random);
     
     // Add spacing with some randomness
-    currentDistance += spacing * (0.8 + Math.random() * 0.4);
+    currentDistance += spacing * (0.8 + random() * 0.4);
   }
   
   return distances;
@@ -0,0 +1,124 @@
+/**
+ * Unit tests for pre-main-sequence contraction
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  calculateKelvinHelmholtzTimescale,
+  calculatePreMainSequenceLifetime,
+  calculateBirthlineRadius,
+  calculateHayashiTemperature,
+  calculateHayashiFraction,
+  calculatePreMainSequenceProperties,
+  calculatePreMainSequenceTrack,
+} from './preMainSequence';
+import { calculateLuminosity, calculateRadius } from './stellarPhysics';
+import { PRE_MAIN_SEQUENCE_CONSTANTS } from '../constants/physics';
+
+describe('Pre-Main Sequence', () => {
+  describe('calculateKelvinHelmholtzTimescale', () => {
+    it('should be about 30 million years for the Sun', () => {
+      const timescale = calculateKelvinHelmholtzTimescale(1.0, 1.0, 1.0);
+      expect(timescale).toBeGreaterThan(2.5e7);
+      expect(timescale).toBeLessThan(3.5e7);
+    });
+  });
+
+  describe('calculatePreMainSequenceLifetime', () => {
+    it('should take a solar-mass star tens of millions of years', () => {
+      const lifetime = calculatePreMainSequenceLifetime(1.0);
+      expect(lifetime).toBeGreaterThan(2e7);
+      expect(lifetime).toBeLessThan(1e8);
+    });
+
+    it('should be much shorter for massive stars and longer for low-mass stars', () => {
+      expect(calculatePreMainSequenceLifetime(10)).toBeLessThan(1e6);
+      expect(calculatePreMainSequenceLifetime(0.2)).toBeGreaterThan(1e8);
+    });
+  });
+
+  describe('calculateBirthlineRadius', () => {
+    it('should start a solar-mass star several times its main-sequence size', () => {
+      expect(calculateBirthlineRadius(1.0)).toBe(PRE_MAIN_SEQUENCE_CONSTANTS.BIRTHLINE_RADIUS);
+    });
+
+    it('should never be smaller than the main-sequence radius', () => {
+      expect(calculateBirthlineRadius(100)).toBeGreaterThanOrEqual(calculateRadius(100));
+    });
+  });
+
+  describe('calculateHayashiTemperature', () => {
+    it('should be about 4000 K for a solar-mass star', () => {
+      expect(calculateHayashiTemperature(1.0)).toBe(PRE_MAIN_SEQUENCE_CONSTANTS.HAYASHI_TEMPERATURE);
+    });
+  });
+
+  describe('calculateHayashiFraction', () => {
+    it('should keep fully convective stars on the Hayashi track', () => {
+      expect(calculateHayashiFraction(0.2)).toBe(1);
+    });
+
+    it('should move massive stars onto the Henyey track sooner', () => {
+      expect(calculateHayashiFraction(3)).toBeLessThan(calculateHayashiFraction(1));
+      expect(calculateHayashiFraction(1)).toBeLessThan(1);
+    });
+  });
+
+  describe('calculatePreMainSequenceProperties', () => {
+    it('should start on the birthline', () => {
+      expect(calculatePreMainSequenceProperties(1.0, 0).radius).toBeCloseTo(calculateBirthlineRadius(1.0), 10);
+    });
+
+    it('should descend the Hayashi track at constant temperature', () => {
+      const lifetime = calculatePreMainSequenceLifetime(1.0);
+      const early = calculatePreMainSequenceProperties(1.0, lifetime * 0.01);
+      const later = calculatePreMainSequenceProperties(1.0, lifetime * 0.2);
+
+      expect(later.radius).toBeLessThan(early.radius);
+      expect(later.luminosity).toBeLessThan(early.luminosity);
+      expect(later.temperature).toBeCloseTo(early.temperature, 6);
+    });
+
+    it('should cross the Henyey track at constant luminosity while heating up', () => {
+      const lifetime = calculatePreMainSequenceLifetime(1.0);
+      const early = calculatePreMainSequenceProperties(1.0, lifetime * 0.5);
+      const later = calculatePreMainSequenceProperties(1.0, lifetime * 0.9);
+
+      expect(later.luminosity).toBeCloseTo(early.luminosity, 10);
+      expect(later.temperature).toBeGreaterThan(early.temperature);
+    });
+
+    it('should arrive at the zero-age main sequence', () => {
+      for (const mass of [0.2, 1.0, 5.0, 30.0]) {
+        const zams = calculatePreMainSequenceProperties(mass, calculatePreMainSequenceLifetime(mass));
+        expect(zams.luminosity).toBeCloseTo(calculateLuminosity(mass), 6);
+        expect(zams.radius).toBeCloseTo(calculateRadius(mass), 6);
+      }
+    });
+
+    it('should change continuously where the Hayashi and Henyey tracks meet', () => {
+      const lifetime = calculatePreMainSequenceLifetime(1.0);
+      const turn = calculateHayashiFraction(1.0) * lifetime;
+      const before = calculatePreMainSequenceProperties(1.0, turn * (1 - 1e-9));
+      const after = calculatePreMainSequenceProperties(1.0, turn * (1 + 1e-9));
+
+      expect(after.radius).toBeCloseTo(before.radius, 5);
+      expect(after.luminosity).toBeCloseTo(before.luminosity, 5);
+    });
+  });
+
+  describe('calculatePreMainSequenceTrack', () => {
+    it('should run from birth to the zero-age main sequence', () => {
+      const track = calculatePreMainSequenceTrack(1.0, 1.0, 20);
+
+      expect(track).toHaveLength(20);
+      expect(track[0].age).toBe(0);
+      expect(track[19].age).toBeCloseTo(calculatePreMainSequenceLifetime(1.0), 0);
+      expect(track[19].radius).toBeCloseTo(calculateRadius(1.0), 6);
+      for (let i = 1; i < track.length; i++) {
+        expect(track[i].age).toBeGreaterThan(track[i - 1].age);
+        expect(track[i].radius).toBeLessThanOrEqual(track[i - 1].radius);
+      }
+    });
+  });
+});
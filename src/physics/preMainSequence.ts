@@ -0,0 +1,174 @@
+/**
+ * Pre-main-sequence functions
+ * Kelvin–Helmholtz contraction of a young star from the birthline down the
+ * convective Hayashi track and along the radiative Henyey track to the
+ * zero-age main sequence (ZAMS)
+ */
+
+import {
+  PHYSICS_CONSTANTS,
+  PRE_MAIN_SEQUENCE_CONSTANTS,
+} from '../constants/physics';
+import { EvolutionaryTrackPoint } from '../types/core';
+import {
+  calculateLuminosity,
+  calculateRadius,
+  calculateTemperature,
+} from './stellarPhysics';
+
+/**
+ * Calculate the Kelvin–Helmholtz timescale of a star
+ * t_KH = G M² / (R L), the time it can shine on its gravitational energy
+ * @param mass - Stellar mass in solar masses
+ * @param radius - Stellar radius in solar radii
+ * @param luminosity - Luminosity in solar luminosities
+ * @returns Kelvin–Helmholtz timescale in years
+ */
+export function calculateKelvinHelmholtzTimescale(mass: number, radius: number, luminosity: number): number {
+  if (radius <= 0 || luminosity <= 0) {
+    return Infinity;
+  }
+  const { GRAVITATIONAL_CONSTANT: G, SOLAR_MASS, SOLAR_RADIUS, SOLAR_LUMINOSITY, SECONDS_PER_YEAR } =
+    PHYSICS_CONSTANTS;
+  const massSI = mass * SOLAR_MASS;
+  return G * massSI * massSI / (radius * SOLAR_RADIUS * luminosity * SOLAR_LUMINOSITY) / SECONDS_PER_YEAR;
+}
+
+/**
+ * Calculate the time a star takes to contract to the zero-age main sequence
+ * Set by the Kelvin–Helmholtz time of the ZAMS star: about 50 Myr for the
+ * Sun, a few hundred thousand years for a 10 M☉ star
+ * @param mass - Stellar mass in solar masses
+ * @param metallicity - Metallicity relative to solar (Z☉)
+ * @returns Pre-main-sequence lifetime in years
+ */
+export function calculatePreMainSequenceLifetime(mass: number, metallicity: number = 1.0): number {
+  return PRE_MAIN_SEQUENCE_CONSTANTS.CONTRACTION_TIMESCALE_FACTOR * calculateKelvinHelmholtzTimescale(
+    mass,
+    calculateRadius(mass, metallicity),
+    calculateLuminosity(mass, metallicity)
+  );
+}
+
+/**
+ * Calculate the radius at which a young star first becomes visible
+ * Accreting protostars settle onto the deuterium birthline; massive stars
+ * are born close to the main sequence
+ * @param mass - Stellar mass in solar masses
+ * @param metallicity - Metallicity relative to solar (Z☉)
+ * @returns Birth radius in solar radii
+ */
+export function calculateBirthlineRadius(mass: number, metallicity: number = 1.0): number {
+  const { BIRTHLINE_RADIUS, BIRTHLINE_EXPONENT } = PRE_MAIN_SEQUENCE_CONSTANTS;
+  return Math.max(BIRTHLINE_RADIUS * Math.pow(mass, BIRTHLINE_EXPONENT), calculateRadius(mass, metallicity));
+}
+
+/**
+ * Calculate the effective temperature of a star's Hayashi track
+ * A fully convective star cannot be cooler than about 4000 K; the lowest
+ * mass stars stay on their (cooler) track all the way to the ZAMS
+ * @param mass - Stellar mass in solar masses
+ * @param metallicity - Metallicity relative to solar (Z☉)
+ * @returns Hayashi-track temperature in Kelvin
+ */
+export function calculateHayashiTemperature(mass: number, metallicity: number = 1.0): number {
+  const zamsTemperature = calculateTemperature(calculateLuminosity(mass, metallicity), calculateRadius(mass, metallicity));
+  if (mass < PRE_MAIN_SEQUENCE_CONSTANTS.FULLY_CONVECTIVE_MASS) {
+    return zamsTemperature;
+  }
+  return Math.min(PRE_MAIN_SEQUENCE_CONSTANTS.HAYASHI_TEMPERATURE, zamsTemperature);
+}
+
+/**
+ * Calculate the fraction of the contraction a star spends on its Hayashi track
+ * Massive stars develop a radiative core early and move onto the Henyey
+ * track sooner; stars born inside their Henyey track skip the Hayashi track
+ * @param mass - Stellar mass in solar masses
+ * @param metallicity - Metallicity relative to solar (Z☉)
+ * @returns Fraction of the pre-main-sequence lifetime (0-1)
+ */
+export function calculateHayashiFraction(mass: number, metallicity: number = 1.0): number {
+  const { FULLY_CONVECTIVE_MASS, HAYASHI_FRACTION, HAYASHI_FRACTION_EXPONENT, MAXIMUM_HAYASHI_FRACTION } =
+    PRE_MAIN_SEQUENCE_CONSTANTS;
+  if (mass < FULLY_CONVECTIVE_MASS) {
+    return 1;
+  }
+  if (calculateBirthlineRadius(mass, metallicity) <= calculateHayashiEndRadius(mass, metallicity)) {
+    return 0;
+  }
+  return Math.min(HAYASHI_FRACTION * Math.pow(mass, -HAYASHI_FRACTION_EXPONENT), MAXIMUM_HAYASHI_FRACTION);
+}
+
+/**
+ * Calculate the luminosity, radius and temperature of a contracting star
+ * On the Hayashi track the star contracts at constant temperature,
+ * radiating its gravitational energy with L ∝ R², so R ∝ (1 + t/t₀)^(-1/3).
+ * On the Henyey track its radiative interior keeps the luminosity at the
+ * ZAMS value while it shrinks and heats up. Properties are continuous and
+ * reach the ZAMS values at the end of the pre-main-sequence lifetime.
+ * @param mass - Stellar mass in solar masses
+ * @param age - Age in years
+ * @param metallicity - Metallicity relative to solar (Z☉)
+ * @returns Luminosity, radius and effective temperature
+ */
+export function calculatePreMainSequenceProperties(
+  mass: number,
+  age: number,
+  metallicity: number = 1.0
+): { luminosity: number; radius: number; temperature: number } {
+  const zamsLuminosity = calculateLuminosity(mass, metallicity);
+  const zamsRadius = calculateRadius(mass, metallicity);
+  const birthRadius = calculateBirthlineRadius(mass, metallicity);
+  const hayashiEndRadius = calculateHayashiEndRadius(mass, metallicity);
+  const hayashiFraction = calculateHayashiFraction(mass, metallicity);
+  const lifetime = calculatePreMainSequenceLifetime(mass, metallicity);
+  const progress = lifetime > 0 ? Math.min(Math.max(age / lifetime, 0), 1) : 1;
+
+  if (progress < hayashiFraction) {
+    // Contraction time over which the radius drops by 2^(1/3), in units of the lifetime
+    const contraction = hayashiFraction / (Math.pow(birthRadius / hayashiEndRadius, 3) - 1);
+    const radius = birthRadius * Math.pow(1 + progress / contraction, -1 / 3);
+    const luminosity = zamsLuminosity * Math.pow(radius / hayashiEndRadius, 2);
+    return { luminosity, radius, temperature: calculateTemperature(luminosity, radius) };
+  }
+
+  const henyeyStartRadius = Math.min(birthRadius, hayashiEndRadius);
+  const henyeyProgress = hayashiFraction < 1 ? (progress - hayashiFraction) / (1 - hayashiFraction) : 1;
+  const radius = henyeyStartRadius * Math.pow(zamsRadius / henyeyStartRadius, henyeyProgress);
+  return { luminosity: zamsLuminosity, radius, temperature: calculateTemperature(zamsLuminosity, radius) };
+}
+
+/**
+ * Calculate a star's pre-main-sequence track for plotting
+ * Ages are spaced logarithmically, since a star moves fastest when it is young
+ * @param mass - Stellar mass in solar masses
+ * @param metallicity - Metallicity relative to solar (Z☉)
+ * @param points - Number of points, including birth and the ZAMS
+ * @returns Track from the birthline to the zero-age main sequence
+ */
+export function calculatePreMainSequenceTrack(
+  mass: number,
+  metallicity: number = 1.0,
+  points: number = 50
+): EvolutionaryTrackPoint[] {
+  const lifetime = calculatePreMainSequenceLifetime(mass, metallicity);
+  const count = Math.max(Math.floor(points), 2);
+  const track: EvolutionaryTrackPoint[] = [];
+  for (let i = 0; i < count; i++) {
+    // First point at birth, the rest from 0.1% of the lifetime to the ZAMS
+    const age = i === 0 ? 0 : lifetime * Math.pow(10, -3 * (count - 1 - i) / Math.max(count - 2, 1));
+    track.push({ age, ...calculatePreMainSequenceProperties(mass, age, metallicity) });
+  }
+  return track;
+}
+
+/**
+ * Calculate the radius at which the Hayashi track meets the Henyey track
+ * The point on the Hayashi track with the ZAMS luminosity
+ * @returns Radius in solar radii
+ */
+function calculateHayashiEndRadius(mass: number, metallicity: number): number {
+  const zamsRadius = calculateRadius(mass, metallicity);
+  const zamsTemperature = calculateTemperature(calculateLuminosity(mass, metallicity), zamsRadius);
+  return zamsRadius * Math.pow(zamsTemperature / calculateHayashiTemperature(mass, metallicity), 2);
+}
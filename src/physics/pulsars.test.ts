@@ -0,0 +1,142 @@
+/**
+ * Unit tests for pulsar spin-down, magnetars and neutron star cooling
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  drawProgenitorRotation,
+  calculateInitialSpinPeriod,
+  calculateBirthMagneticField,
+  calculateSpinPeriod,
+  calculatePeriodDerivative,
+  calculateCharacteristicAge,
+  calculateSpinDownLuminosity,
+  isBeyondDeathLine,
+  isMagnetar,
+  calculateNeutronStarSurfaceTemperature,
+  calculateNeutronStarLuminosity,
+} from './pulsars';
+import { calculateRadius } from './stellarPhysics';
+import { createSeededRandom } from './random';
+import { PULSAR_CONSTANTS } from '../constants/physics';
+
+describe('Pulsars', () => {
+  describe('drawProgenitorRotation', () => {
+    it('should stay within the configured fraction of breakup', () => {
+      const random = createSeededRandom(7);
+      for (let i = 0; i < 50; i++) {
+        const rotation = drawProgenitorRotation(random);
+        expect(rotation).toBeGreaterThanOrEqual(PULSAR_CONSTANTS.MIN_CRITICAL_ROTATION);
+        expect(rotation).toBeLessThanOrEqual(PULSAR_CONSTANTS.MAX_CRITICAL_ROTATION);
+      }
+    });
+  });
+
+  describe('calculateInitialSpinPeriod', () => {
+    it('should give tens of milliseconds for a typical 15 M☉ progenitor', () => {
+      const period = calculateInitialSpinPeriod(15, calculateRadius(15), 0.3);
+      expect(period).toBeGreaterThan(0.005);
+      expect(period).toBeLessThan(0.05);
+    });
+
+    it('should spin faster for faster-rotating progenitors', () => {
+      const slow = calculateInitialSpinPeriod(15, calculateRadius(15), 0.1);
+      const fast = calculateInitialSpinPeriod(15, calculateRadius(15), 0.6);
+      expect(slow / fast).toBeCloseTo(6, 6);
+    });
+
+    it('should never spin beyond mass shedding', () => {
+      expect(calculateInitialSpinPeriod(15, calculateRadius(15), 1e3)).toBe(PULSAR_CONSTANTS.MINIMUM_SPIN_PERIOD);
+    });
+
+    it('should not spin without progenitor rotation', () => {
+      expect(calculateInitialSpinPeriod(15, calculateRadius(15), 0)).toBe(Infinity);
+    });
+  });
+
+  describe('calculateBirthMagneticField', () => {
+    it('should give ordinary pulsars about 10¹² G', () => {
+      const field = calculateBirthMagneticField(0.02);
+      expect(field).toBeCloseTo(1e12, -9);
+      expect(isMagnetar(field)).toBe(false);
+    });
+
+    it('should make magnetars from the fastest rotators', () => {
+      expect(isMagnetar(calculateBirthMagneticField(0.002))).toBe(true);
+    });
+  });
+
+  describe('spin-down', () => {
+    // Crab pulsar: B ≈ 3.8×10¹² G, born at ≈ 19 ms, observed 970 years later
+    const crabField = 3.8e12;
+    const crabPeriod = calculateSpinPeriod(0.019, crabField, 970);
+
+    it('should spin the Crab pulsar down to about 33 ms', () => {
+      expect(crabPeriod).toBeGreaterThan(0.03);
+      expect(crabPeriod).toBeLessThan(0.04);
+    });
+
+    it('should keep P Ṗ constant under dipole braking', () => {
+      const later = calculateSpinPeriod(0.019, crabField, 1e6);
+      expect(later * calculatePeriodDerivative(later, crabField))
+        .toBeCloseTo(crabPeriod * calculatePeriodDerivative(crabPeriod, crabField), 25);
+    });
+
+    it('should give the Crab Ṗ ≈ 4×10⁻¹³ and a characteristic age near its true age', () => {
+      const periodDerivative = calculatePeriodDerivative(crabPeriod, crabField);
+      expect(periodDerivative).toBeGreaterThan(2e-13);
+      expect(periodDerivative).toBeLessThan(8e-13);
+
+      const age = calculateCharacteristicAge(crabPeriod, periodDerivative);
+      expect(age).toBeGreaterThan(970);
+      expect(age).toBeLessThan(3000);
+    });
+
+    it('should give the Crab a spin-down luminosity of about 10⁵ L☉', () => {
+      const periodDerivative = calculatePeriodDerivative(crabPeriod, crabField);
+      const luminosity = calculateSpinDownLuminosity(crabPeriod, periodDerivative, 1.4);
+      expect(luminosity).toBeGreaterThan(3e4);
+      expect(luminosity).toBeLessThan(1e6);
+    });
+
+    it('should have an infinite characteristic age without spin-down', () => {
+      expect(calculateCharacteristicAge(1, 0)).toBe(Infinity);
+    });
+  });
+
+  describe('isBeyondDeathLine', () => {
+    it('should keep young pulsars active and silence slow, weak-field ones', () => {
+      expect(isBeyondDeathLine(0.033, 3.8e12)).toBe(false);
+      expect(isBeyondDeathLine(10, 1e12)).toBe(true);
+    });
+  });
+
+  describe('calculateNeutronStarSurfaceTemperature', () => {
+    it('should stay near a million K for the first 10⁵ years', () => {
+      const temperature = calculateNeutronStarSurfaceTemperature(1e5);
+      expect(temperature).toBeGreaterThan(5e5);
+      expect(temperature).toBeLessThan(2e6);
+    });
+
+    it('should cool much faster once photon cooling takes over', () => {
+      const neutrinoDrop = calculateNeutronStarSurfaceTemperature(1e3) / calculateNeutronStarSurfaceTemperature(1e5);
+      const photonDrop = calculateNeutronStarSurfaceTemperature(1e6) / calculateNeutronStarSurfaceTemperature(1e8);
+      expect(photonDrop).toBeGreaterThan(10 * neutrinoDrop);
+    });
+
+    it('should keep young magnetars hotter', () => {
+      expect(calculateNeutronStarSurfaceTemperature(1e3, 1e15))
+        .toBeGreaterThan(calculateNeutronStarSurfaceTemperature(1e3, 1e12));
+      expect(calculateNeutronStarSurfaceTemperature(1e8, 1e15))
+        .toBeCloseTo(calculateNeutronStarSurfaceTemperature(1e8, 1e12), -2);
+    });
+  });
+
+  describe('calculateNeutronStarLuminosity', () => {
+    it('should radiate about a tenth of a solar luminosity at 10⁶ K', () => {
+      const luminosity = calculateNeutronStarLuminosity(1e6);
+      expect(luminosity).toBeGreaterThan(0.05);
+      expect(luminosity).toBeLessThan(0.5);
+    });
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * Pulsar functions
+ * Birth spin and magnetic field of neutron stars, magnetic dipole
+ * spin-down, the pulsar death line and neutron star cooling
+ */
+
+import {
+  PHYSICS_CONSTANTS,
+  PULSAR_CONSTANTS,
+} from '../constants/physics';
+import { RandomSource } from './random';
+import { calculateNeutronStarRadius } from './remnants';
+
+/**
+ * Draw the rotation of a massive main-sequence star
+ * @param random - Random source (default: Math.random)
+ * @returns Angular velocity as a fraction of breakup
+ */
+export function drawProgenitorRotation(random: RandomSource = Math.random): number {
+  const { MIN_CRITICAL_ROTATION, MAX_CRITICAL_ROTATION } = PULSAR_CONSTANTS;
+  return MIN_CRITICAL_ROTATION + (MAX_CRITICAL_ROTATION - MIN_CRITICAL_ROTATION) * random();
+}
+
+/**
+ * Calculate the spin period of a newborn neutron star
+ * The progenitor's specific angular momentum, j = k² R² Ω with
+ * Ω a fraction of breakup √(G M / R³), is largely drained from the core by
+ * magnetic coupling to the envelope; the remainder spins up the collapsed
+ * core to 2π k_NS² R_NS² / j_core, but never beyond mass shedding.
+ * @param progenitorMass - Progenitor main-sequence mass in solar masses
+ * @param progenitorRadius - Progenitor main-sequence radius in solar radii
+ * @param criticalRotation - Progenitor angular velocity as a fraction of breakup
+ * @returns Birth spin period in seconds
+ */
+export function calculateInitialSpinPeriod(
+  progenitorMass: number,
+  progenitorRadius: number,
+  criticalRotation: number
+): number {
+  const { GRAVITATIONAL_CONSTANT: G, SOLAR_MASS, SOLAR_RADIUS } = PHYSICS_CONSTANTS;
+  const {
+    PROGENITOR_GYRATION,
+    NEUTRON_STAR_GYRATION,
+    CORE_ANGULAR_MOMENTUM_RETENTION,
+    MINIMUM_SPIN_PERIOD,
+  } = PULSAR_CONSTANTS;
+
+  const radius = progenitorRadius * SOLAR_RADIUS;
+  const breakup = Math.sqrt(G * progenitorMass * SOLAR_MASS / Math.pow(radius, 3));
+  const specificAngularMomentum = PROGENITOR_GYRATION * radius * radius * breakup * criticalRotation;
+  if (specificAngularMomentum <= 0) {
+    return Infinity;
+  }
+
+  const neutronStarRadius = calculateNeutronStarRadius() * SOLAR_RADIUS;
+  const period = 2 * Math.PI * NEUTRON_STAR_GYRATION * neutronStarRadius * neutronStarRadius /
+    (CORE_ANGULAR_MOMENTUM_RETENTION * specificAngularMomentum);
+  return Math.max(period, MINIMUM_SPIN_PERIOD);
+}
+
+/**
+ * Calculate the magnetic field of a newborn neutron star
+ * Collapse amplifies the progenitor's fossil field, more so in fast
+ * rotators (B ∝ 1/P₀). Below the dynamo period the proto-neutron star's
+ * convection drives an efficient dynamo that builds a magnetar field.
+ * @param initialPeriod - Birth spin period in seconds
+ * @returns Surface dipole field in gauss
+ */
+export function calculateBirthMagneticField(initialPeriod: number): number {
+  const { FOSSIL_FIELD, FOSSIL_FIELD_PERIOD, DYNAMO_PERIOD, DYNAMO_FIELD } = PULSAR_CONSTANTS;
+  if (initialPeriod < DYNAMO_PERIOD) {
+    return DYNAMO_FIELD * DYNAMO_PERIOD / initialPeriod;
+  }
+  return FOSSIL_FIELD * FOSSIL_FIELD_PERIOD / initialPeriod;
+}
+
+/**
+ * Calculate the spin period of a pulsar after magnetic dipole braking
+ * P Ṗ = (B / 3.2×10¹⁹ G)² is constant, so P² = P₀² + 2 (B / 3.2×10¹⁹)² t
+ * @param initialPeriod - Birth spin period in seconds
+ * @param magneticField - Surface dipole field in gauss
+ * @param age - Time since birth in years
+ * @returns Spin period in seconds
+ */
+export function calculateSpinPeriod(initialPeriod: number, magneticField: number, age: number): number {
+  const brakingRate = Math.pow(magneticField / PULSAR_CONSTANTS.DIPOLE_FIELD_COEFFICIENT, 2);
+  const seconds = Math.max(age, 0) * PHYSICS_CONSTANTS.SECONDS_PER_YEAR;
+  return Math.sqrt(initialPeriod * initialPeriod + 2 * brakingRate * seconds);
+}
+
+/**
+ * Calculate the period derivative of a pulsar spun down by dipole braking
+ * @param period - Spin period in seconds
+ * @param magneticField - Surface dipole field in gauss
+ * @returns Ṗ in seconds per second
+ */
+export function calculatePeriodDerivative(period: number, magneticField: number): number {
+  return Math.pow(magneticField / PULSAR_CONSTANTS.DIPOLE_FIELD_COEFFICIENT, 2) / period;
+}
+
+/**
+ * Calculate the characteristic (spin-down) age of a pulsar
+ * τ = P / (2Ṗ), the true age if the pulsar was born spinning much faster
+ * @param period - Spin period in seconds
+ * @param periodDerivative - Ṗ in seconds per second
+ * @returns Characteristic age in years
+ */
+export function calculateCharacteristicAge(period: number, periodDerivative: number): number {
+  if (periodDerivative <= 0) {
+    return Infinity;
+  }
+  return period / (2 * periodDerivative) / PHYSICS_CONSTANTS.SECONDS_PER_YEAR;
+}
+
+/**
+ * Calculate the rotational energy a pulsar loses as it spins down
+ * Ė = 4π² I Ṗ / P³ with I = k² M R²
+ * @param period - Spin period in seconds
+ * @param periodDerivative - Ṗ in seconds per second
+ * @param mass - Neutron star mass in solar masses
+ * @returns Spin-down luminosity in solar luminosities
+ */
+export function calculateSpinDownLuminosity(period: number, periodDerivative: number, mass: number): number {
+  const { SOLAR_MASS, SOLAR_RADIUS, SOLAR_LUMINOSITY } = PHYSICS_CONSTANTS;
+  const radius = calculateNeutronStarRadius() * SOLAR_RADIUS;
+  const momentOfInertia = PULSAR_CONSTANTS.NEUTRON_STAR_GYRATION * mass * SOLAR_MASS * radius * radius;
+  return 4 * Math.PI * Math.PI * momentOfInertia * periodDerivative / Math.pow(period, 3) / SOLAR_LUMINOSITY;
+}
+
+/**
+ * Whether a pulsar has crossed the death line
+ * Once B / P² drops below the threshold the polar gap can no longer
+ * create electron–positron pairs and the radio beam switches off
+ * @param period - Spin period in seconds
+ * @param magneticField - Surface dipole field in gauss
+ * @returns True if the pulsar is radio-quiet
+ */
+export function isBeyondDeathLine(period: number, magneticField: number): boolean {
+  return magneticField / (period * period) < PULSAR_CONSTANTS.DEATH_LINE;
+}
+
+/**
+ * Whether a neutron star's field makes it a magnetar
+ * @param magneticField - Surface dipole field in gauss
+ * @returns True above the quantum critical field
+ */
+export function isMagnetar(magneticField: number): boolean {
+  return magneticField >= PULSAR_CONSTANTS.MAGNETAR_FIELD;
+}
+
+/**
+ * Calculate the surface temperature of a cooling neutron star
+ * Neutrinos from the core (modified Urca) cool it slowly, T ∝ t^(-1/12),
+ * until photons from the surface take over after about a million years
+ * and it fades much faster. Decay of a magnetar's field heats the crust
+ * and keeps the surface hotter for its first tens of thousands of years.
+ * @param age - Time since the neutron star formed in years
+ * @param magneticField - Surface dipole field in gauss
+ * @returns Surface temperature in Kelvin
+ */
+export function calculateNeutronStarSurfaceTemperature(age: number, magneticField: number = 0): number {
+  const {
+    NEUTRINO_COOLING_TEMPERATURE,
+    NEUTRINO_COOLING_EXPONENT,
+    PHOTON_COOLING_AGE,
+    PHOTON_COOLING_EXPONENT,
+    MAGNETAR_TEMPERATURE,
+    MAGNETAR_HEATING_AGE,
+  } = PULSAR_CONSTANTS;
+
+  const years = Math.max(age, 1);
+  const cooling = NEUTRINO_COOLING_TEMPERATURE * Math.pow(years, -NEUTRINO_COOLING_EXPONENT) *
+    Math.pow(1 + years / PHOTON_COOLING_AGE, -PHOTON_COOLING_EXPONENT);
+  if (!isMagnetar(magneticField)) {
+    return cooling;
+  }
+
+  // Heating power decays with the field, L ∝ e^(-t/τ), and T ∝ L^(1/4)
+  const heating = MAGNETAR_TEMPERATURE * Math.exp(-Math.max(age, 0) / (4 * MAGNETAR_HEATING_AGE));
+  return Math.max(cooling, heating);
+}
+
+/**
+ * Calculate the thermal luminosity of a neutron star
+ * L = 4π R² σ T⁴ with the neutron star radius
+ * @param temperature - Surface temperature in Kelvin
+ * @returns Luminosity in solar luminosities
+ */
+export function calculateNeutronStarLuminosity(temperature: number): number {
+  const { SOLAR_RADIUS, STEFAN_BOLTZMANN, SOLAR_LUMINOSITY } = PHYSICS_CONSTANTS;
+  const radius = calculateNeutronStarRadius() * SOLAR_RADIUS;
+  return 4 * Math.PI * radius * radius * STEFAN_BOLTZMANN * Math.pow(temperature, 4) / SOLAR_LUMINOSITY;
+}
@@ -0,0 +1,88 @@
+/**
+ * Unit tests for seeded random number generation
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createSeededRandom,
+  createRandomSource,
+  generateRandomId,
+  deriveSeed,
+  drawGaussian,
+} from './random';
+
+describe('Random', () => {
+  describe('createSeededRandom', () => {
+    it('should produce the same sequence for the same seed', () => {
+      const a = createSeededRandom(42);
+      const b = createSeededRandom(42);
+
+      for (let i = 0; i < 20; i++) {
+        expect(a()).toBe(b());
+      }
+    });
+
+    it('should produce different sequences for different seeds', () => {
+      const a = createSeededRandom(1);
+      const b = createSeededRandom(2);
+
+      const sequenceA = Array.from({ length: 5 }, () => a());
+      const sequenceB = Array.from({ length: 5 }, () => b());
+      expect(sequenceA).not.toEqual(sequenceB);
+    });
+
+    it('should produce values in [0, 1)', () => {
+      const random = createSeededRandom(12345);
+
+      for (let i = 0; i < 1000; i++) {
+        const value = random();
+        expect(value).toBeGreaterThanOrEqual(0);
+        expect(value).toBeLessThan(1);
+      }
+    });
+  });
+
+  describe('createRandomSource', () => {
+    it('should fall back to Math.random without a seed', () => {
+      expect(createRandomSource()).toBe(Math.random);
+    });
+
+    it('should return a seeded source when a seed is given', () => {
+      const a = createRandomSource(7);
+      const b = createSeededRandom(7);
+      expect(a()).toBe(b());
+    });
+  });
+
+  describe('generateRandomId', () => {
+    it('should prefix the identifier', () => {
+      expect(generateRandomId('star', createSeededRandom(1))).toMatch(/^star-[0-9a-z]{7,}$/);
+    });
+
+    it('should be reproducible from a seeded source', () => {
+      const idA = generateRandomId('planet', createSeededRandom(99));
+      const idB = generateRandomId('planet', createSeededRandom(99));
+      expect(idA).toBe(idB);
+    });
+  });
+
+  describe('deriveSeed', () => {
+    it('should give the same unsigned seed for the same text', () => {
+      expect(deriveSeed('star-abc')).toBe(deriveSeed('star-abc'));
+      expect(deriveSeed('star-abc')).toBeGreaterThanOrEqual(0);
+      expect(deriveSeed('star-abc')).not.toBe(deriveSeed('star-abd'));
+    });
+  });
+
+  describe('drawGaussian', () => {
+    it('should have zero mean and unit variance', () => {
+      const random = createSeededRandom(3);
+      const samples = Array.from({ length: 5000 }, () => drawGaussian(random));
+      const mean = samples.reduce((sum, x) => sum + x, 0) / samples.length;
+      const variance = samples.reduce((sum, x) => sum + (x - mean) ** 2, 0) / samples.length;
+
+      expect(mean).toBeCloseTo(0, 1);
+      expect(variance).toBeCloseTo(1, 1);
+    });
+  });
+});
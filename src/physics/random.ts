@@ -0,0 +1,77 @@
+/**
+ * Random number generation
+ * Provides a seedable pseudo-random source shared by every stochastic step
+ * of system generation, so a seed and a parameter set reproduce a system exactly
+ */
+
+/**
+ * Source of uniformly distributed numbers in [0, 1), interchangeable with Math.random
+ */
+export type RandomSource = () => number;
+
+/**
+ * Create a seeded pseudo-random number generator
+ * Uses the mulberry32 algorithm: small, fast and well distributed for simulation use
+ * @param seed - Integer seed (only the lower 32 bits are used)
+ * @returns Random source producing a deterministic sequence for the seed
+ */
+export function createSeededRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Create the random source for a simulation run
+ * @param seed - Optional seed; when omitted the run is not reproducible
+ * @returns Seeded random source, or Math.random if no seed is given
+ */
+export function createRandomSource(seed?: number): RandomSource {
+  return seed === undefined ? Math.random : createSeededRandom(seed);
+}
+
+/**
+ * Generate an identifier drawn from a random source
+ * IDs drawn from a seeded source are reproducible across runs
+ * @param prefix - Identifier prefix (e.g. 'star', 'planet')
+ * @param random - Random source to draw from
+ * @returns Identifier of the form `${prefix}-xxxxxxx`
+ */
+export function generateRandomId(prefix: string, random: RandomSource = Math.random): string {
+  const value = Math.floor(random() * 0x100000000);
+  return `${prefix}-${value.toString(36).padStart(7, '0')}`;
+}
+
+/**
+ * Derive a 32-bit seed from a string
+ * Uses FNV-1a hashing, so the same identifier always gives the same seed;
+ * this keeps draws tied to a body reproducible when a run is replayed
+ * @param text - String to hash (e.g. a star ID)
+ * @returns Unsigned 32-bit seed
+ */
+export function deriveSeed(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Draw a standard normal deviate
+ * Uses the Box–Muller transform on two uniform draws
+ * @param random - Random source to draw from
+ * @returns Normally distributed number with mean 0 and variance 1
+ */
+export function drawGaussian(random: RandomSource = Math.random): number {
+  const u = 1 - random(); // (0, 1] so the logarithm is finite
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
@@ -0,0 +1,128 @@
+/**
+ * Unit tests for stellar remnant functions
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  calculateWhiteDwarfMass,
+  calculateNeutronStarMass,
+  calculateBlackHoleMass,
+  calculateWhiteDwarfRadius,
+  calculateNeutronStarRadius,
+  calculateSchwarzschildRadius,
+  calculateRemnantProperties,
+  calculateFinalStateThresholds,
+} from './remnants';
+import { EvolutionPhase } from '../types/core';
+import { PHYSICS_CONSTANTS, REMNANT_CONSTANTS, FINAL_STATE_THRESHOLDS } from '../constants/physics';
+
+const KM_PER_SOLAR_RADIUS = PHYSICS_CONSTANTS.SOLAR_RADIUS / 1000;
+
+describe('Remnants', () => {
+  describe('calculateWhiteDwarfMass', () => {
+    it('should give about 0.57 M☉ for a Sun-like star', () => {
+      expect(calculateWhiteDwarfMass(1.0)).toBeCloseTo(0.569, 3);
+    });
+
+    it('should increase with initial mass and stay below the Chandrasekhar mass', () => {
+      const masses = [1, 2, 3, 4, 6, 7.9].map(calculateWhiteDwarfMass);
+      for (let i = 1; i < masses.length; i++) {
+        expect(masses[i]).toBeGreaterThan(masses[i - 1]);
+      }
+      expect(masses[masses.length - 1]).toBeLessThan(REMNANT_CONSTANTS.CHANDRASEKHAR_MASS);
+    });
+
+    it('should keep the full mass of very low mass stars', () => {
+      expect(calculateWhiteDwarfMass(0.3)).toBe(0.3);
+    });
+  });
+
+  describe('calculateNeutronStarMass', () => {
+    it('should stay within the neutron star mass range', () => {
+      expect(calculateNeutronStarMass(8)).toBeCloseTo(REMNANT_CONSTANTS.NEUTRON_STAR_MIN_MASS, 6);
+      expect(calculateNeutronStarMass(15)).toBeGreaterThan(1.2);
+      expect(calculateNeutronStarMass(15)).toBeLessThan(2.2);
+    });
+  });
+
+  describe('calculateBlackHoleMass', () => {
+    it('should exceed the maximum neutron star mass and grow with initial mass', () => {
+      expect(calculateBlackHoleMass(30)).toBeGreaterThan(REMNANT_CONSTANTS.NEUTRON_STAR_MAX_MASS);
+      expect(calculateBlackHoleMass(60)).toBeGreaterThan(calculateBlackHoleMass(30));
+      expect(calculateBlackHoleMass(30)).toBeLessThan(30);
+    });
+  });
+
+  describe('calculateWhiteDwarfRadius', () => {
+    it('should be about Earth-sized for a typical white dwarf', () => {
+      const radiusKm = calculateWhiteDwarfRadius(0.6) * KM_PER_SOLAR_RADIUS;
+      expect(radiusKm).toBeGreaterThan(7000);
+      expect(radiusKm).toBeLessThan(10000);
+    });
+
+    it('should shrink as mass increases', () => {
+      expect(calculateWhiteDwarfRadius(1.2)).toBeLessThan(calculateWhiteDwarfRadius(0.6));
+    });
+
+    it('should vanish at the Chandrasekhar mass', () => {
+      expect(calculateWhiteDwarfRadius(REMNANT_CONSTANTS.CHANDRASEKHAR_MASS)).toBe(0);
+    });
+  });
+
+  describe('calculateNeutronStarRadius', () => {
+    it('should be about 12 km', () => {
+      expect(calculateNeutronStarRadius() * KM_PER_SOLAR_RADIUS).toBeCloseTo(12, 6);
+    });
+  });
+
+  describe('calculateSchwarzschildRadius', () => {
+    it('should be about 2.95 km per solar mass', () => {
+      expect(calculateSchwarzschildRadius(1) * KM_PER_SOLAR_RADIUS).toBeCloseTo(2.95, 2);
+    });
+
+    it('should scale linearly with mass', () => {
+      expect(calculateSchwarzschildRadius(10)).toBeCloseTo(calculateSchwarzschildRadius(1) * 10, 12);
+    });
+  });
+
+  describe('calculateRemnantProperties', () => {
+    it('should give a white dwarf for intermediate mass stars', () => {
+      const remnant = calculateRemnantProperties(3);
+      expect(remnant.phase).toBe(EvolutionPhase.WHITE_DWARF);
+      expect(remnant.radius).toBeCloseTo(calculateWhiteDwarfRadius(remnant.mass), 12);
+    });
+
+    it('should give a neutron star for stars between 8 and 25 M☉', () => {
+      const remnant = calculateRemnantProperties(15);
+      expect(remnant.phase).toBe(EvolutionPhase.NEUTRON_STAR);
+      expect(remnant.radius).toBe(calculateNeutronStarRadius());
+    });
+
+    it('should give a black hole with its event horizon for massive stars', () => {
+      const remnant = calculateRemnantProperties(40);
+      expect(remnant.phase).toBe(EvolutionPhase.BLACK_HOLE);
+      expect(remnant.radius).toBeCloseTo(calculateSchwarzschildRadius(remnant.mass), 12);
+    });
+
+    it('should let metal-poor stars collapse to black holes from lower masses', () => {
+      expect(calculateRemnantProperties(22, 1.0).phase).toBe(EvolutionPhase.NEUTRON_STAR);
+      expect(calculateRemnantProperties(22, 0.01).phase).toBe(EvolutionPhase.BLACK_HOLE);
+    });
+  });
+
+  describe('calculateFinalStateThresholds', () => {
+    it('should match FINAL_STATE_THRESHOLDS at solar metallicity', () => {
+      expect(calculateFinalStateThresholds(1.0)).toEqual({
+        whiteDwarfMax: FINAL_STATE_THRESHOLDS.WHITE_DWARF_MAX,
+        neutronStarMax: FINAL_STATE_THRESHOLDS.NEUTRON_STAR_MAX,
+      });
+    });
+
+    it('should lower both thresholds for metal-poor stars', () => {
+      const metalPoor = calculateFinalStateThresholds(0.01);
+      expect(metalPoor.whiteDwarfMax).toBeLessThan(FINAL_STATE_THRESHOLDS.WHITE_DWARF_MAX);
+      expect(metalPoor.neutronStarMax).toBeLessThan(FINAL_STATE_THRESHOLDS.NEUTRON_STAR_MAX);
+      expect(metalPoor.neutronStarMax).toBeGreaterThan(metalPoor.whiteDwarfMax);
+    });
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Stellar remnant functions
+ * Initial–final mass relation and mass–radius relations for white dwarfs,
+ * neutron stars and black holes
+ */
+
+import {
+  PHYSICS_CONSTANTS,
+  FINAL_STATE_THRESHOLDS,
+  REMNANT_CONSTANTS,
+} from '../constants/physics';
+import { EvolutionPhase, RemnantProperties } from '../types/core';
+import { calculateMetallicityFactor } from './stellarPhysics';
+
+/**
+ * Calculate the initial masses that separate the final states
+ * Metal-poor stars lose less mass and grow heavier cores, so both
+ * thresholds move to lower initial masses
+ * @param metallicity - Metallicity relative to solar (Z☉)
+ * @returns Maximum initial masses for white dwarfs and neutron stars in solar masses
+ */
+export function calculateFinalStateThresholds(
+  metallicity: number = 1.0
+): { whiteDwarfMax: number; neutronStarMax: number } {
+  const {
+    WHITE_DWARF_MAX,
+    NEUTRON_STAR_MAX,
+    WHITE_DWARF_MAX_METALLICITY_EXPONENT,
+    NEUTRON_STAR_MAX_METALLICITY_EXPONENT,
+  } = FINAL_STATE_THRESHOLDS;
+  return {
+    whiteDwarfMax: WHITE_DWARF_MAX * calculateMetallicityFactor(metallicity, WHITE_DWARF_MAX_METALLICITY_EXPONENT),
+    neutronStarMax: NEUTRON_STAR_MAX * calculateMetallicityFactor(metallicity, NEUTRON_STAR_MAX_METALLICITY_EXPONENT),
+  };
+}
+
+/**
+ * Calculate the white dwarf mass left by a low or intermediate mass star
+ * Piecewise-linear initial–final mass relation (Cummings et al. 2018).
+ * Stars below 0.5 M☉ never reach the giant branch and keep their full mass.
+ * @param initialMass - Initial stellar mass in solar masses
+ * @returns White dwarf mass in solar masses
+ */
+export function calculateWhiteDwarfMass(initialMass: number): number {
+  let finalMass: number;
+  if (initialMass < 2.85) {
+    finalMass = 0.080 * initialMass + 0.489;
+  } else if (initialMass < 3.60) {
+    finalMass = 0.187 * initialMass + 0.184;
+  } else {
+    finalMass = 0.107 * initialMass + 0.471;
+  }
+  return Math.min(finalMass, initialMass, REMNANT_CONSTANTS.CHANDRASEKHAR_MASS);
+}
+
+/**
+ * Calculate the helium core mass of a massive star
+ * M_He ≈ 0.1 M^1.4
+ * @param initialMass - Initial stellar mass in solar masses
+ * @returns Helium core mass in solar masses
+ */
+export function calculateHeliumCoreMass(initialMass: number): number {
+  return Math.min(0.1 * Math.pow(initialMass, 1.4), initialMass);
+}
+
+/**
+ * Calculate the neutron star mass left by a core-collapse supernova
+ * Rises linearly from the minimum at the white dwarf limit to the
+ * maximum at the black hole limit
+ * @param initialMass - Initial stellar mass in solar masses
+ * @param metallicity - Metallicity relative to solar (Z☉)
+ * @returns Neutron star mass in solar masses
+ */
+export function calculateNeutronStarMass(initialMass: number, metallicity: number = 1.0): number {
+  const { NEUTRON_STAR_MIN_MASS, NEUTRON_STAR_MAX_MASS } = REMNANT_CONSTANTS;
+  const { whiteDwarfMax, neutronStarMax } = calculateFinalStateThresholds(metallicity);
+  const fraction = (initialMass - whiteDwarfMax) / (neutronStarMax - whiteDwarfMax);
+  const clamped = Math.min(Math.max(fraction, 0), 1);
+  return NEUTRON_STAR_MIN_MASS + clamped * (NEUTRON_STAR_MAX_MASS - NEUTRON_STAR_MIN_MASS);
+}
+
+/**
+ * Calculate the black hole mass left by direct collapse
+ * The helium core collapses; the hydrogen envelope has been lost or ejected
+ * @param initialMass - Initial stellar mass in solar masses
+ * @returns Black hole mass in solar masses
+ */
+export function calculateBlackHoleMass(initialMass: number): number {
+  return Math.max(calculateHeliumCoreMass(initialMass), REMNANT_CONSTANTS.NEUTRON_STAR_MAX_MASS);
+}
+
+/**
+ * Calculate white dwarf radius from mass
+ * Nauenberg (1972): R = 0.0112 R☉ × [(M_Ch/M)^(2/3) − (M/M_Ch)^(2/3)]^(1/2),
+ * so heavier white dwarfs are smaller and the radius vanishes at M_Ch
+ * @param mass - White dwarf mass in solar masses
+ * @returns Radius in solar radii
+ */
+export function calculateWhiteDwarfRadius(mass: number): number {
+  const ratio = mass / REMNANT_CONSTANTS.CHANDRASEKHAR_MASS;
+  if (ratio <= 0) {
+    return 0;
+  }
+  const term = Math.pow(ratio, -2 / 3) - Math.pow(ratio, 2 / 3);
+  return REMNANT_CONSTANTS.WHITE_DWARF_RADIUS_SCALE * Math.sqrt(Math.max(term, 0));
+}
+
+/**
+ * Calculate neutron star radius
+ * Radii are nearly independent of mass (~12 km) for realistic equations of state
+ * @returns Radius in solar radii
+ */
+export function calculateNeutronStarRadius(): number {
+  return REMNANT_CONSTANTS.NEUTRON_STAR_RADIUS * 1000 / PHYSICS_CONSTANTS.SOLAR_RADIUS;
+}
+
+/**
+ * Calculate the Schwarzschild radius of a black hole
+ * R_s = 2GM/c² (about 2.95 km per solar mass)
+ * @param mass - Black hole mass in solar masses
+ * @returns Event horizon radius in solar radii
+ */
+export function calculateSchwarzschildRadius(mass: number): number {
+  const { GRAVITATIONAL_CONSTANT, SOLAR_MASS, SPEED_OF_LIGHT, SOLAR_RADIUS } = PHYSICS_CONSTANTS;
+  const radiusMeters = 2 * GRAVITATIONAL_CONSTANT * mass * SOLAR_MASS / (SPEED_OF_LIGHT * SPEED_OF_LIGHT);
+  return radiusMeters / SOLAR_RADIUS;
+}
+
+/**
+ * Calculate the remnant a star leaves at the end of its life
+ * The remnant type follows the initial-mass thresholds; its mass follows
+ * the initial–final mass relation and its radius the matching mass–radius
+ * relation
+ * @param initialMass - Initial stellar mass in solar masses
+ * @param metallicity - Metallicity relative to solar (Z☉)
+ * @returns Remnant type, mass and radius
+ */
+export function calculateRemnantProperties(initialMass: number, metallicity: number = 1.0): RemnantProperties {
+  const { whiteDwarfMax, neutronStarMax } = calculateFinalStateThresholds(metallicity);
+  if (initialMass < whiteDwarfMax) {
+    const mass = calculateWhiteDwarfMass(initialMass);
+    return {
+      phase: EvolutionPhase.WHITE_DWARF,
+      mass,
+      radius: calculateWhiteDwarfRadius(mass),
+    };
+  }
+
+  if (initialMass < neutronStarMax) {
+    return {
+      phase: EvolutionPhase.NEUTRON_STAR,
+      mass: calculateNeutronStarMass(initialMass, metallicity),
+      radius: calculateNeutronStarRadius(),
+    };
+  }
+
+  const mass = calculateBlackHoleMass(initialMass);
+  return {
+    phase: EvolutionPhase.BLACK_HOLE,
+    mass,
+    radius: calculateSchwarzschildRadius(mass),
+  };
+}
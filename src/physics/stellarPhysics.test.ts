@@ -9,7 +9,9 @@ import {
   calculateMainSequenceLifetime,
   calculateTemperature,
   determineSpectralType,
+  calculateMetallicityFactor,
 } from './stellarPhysics';
+import { METALLICITY_CONSTANTS } from '../constants/physics';
 import { SpectralType } from '../types/core';
 
 describe('Stellar Physics', () => {
@@ -35,6 +37,11 @@ describe('Stellar Physics', () => {
       expect(luminosity).toBeGreaterThan(0);
       expect(luminosity).toBeLessThan(1e6);
     });
+
+    it('should make metal-poor stars brighter at the same mass', () => {
+      expect(calculateLuminosity(1.0, 0.01)).toBeGreaterThan(calculateLuminosity(1.0, 1.0));
+      expect(calculateLuminosity(1.0, 2.0)).toBeLessThan(calculateLuminosity(1.0, 1.0));
+    });
   });
 
   describe('calculateRadius', () => {
@@ -53,6 +60,13 @@ describe('Stellar Physics', () => {
       const radius = calculateRadius(10);
       expect(radius).toBeGreaterThan(1.0);
     });
+
+    it('should make metal-poor stars smaller and hotter', () => {
+      const metalPoor = calculateRadius(1.0, 0.01);
+      expect(metalPoor).toBeLessThan(calculateRadius(1.0, 1.0));
+      expect(calculateTemperature(calculateLuminosity(1.0, 0.01), metalPoor))
+        .toBeGreaterThan(calculateTemperature(calculateLuminosity(1.0, 1.0), calculateRadius(1.0, 1.0)));
+    });
   });
 
   describe('calculateMainSequenceLifetime', () => {
@@ -72,6 +86,21 @@ describe('Stellar Physics', () => {
       const lifetimeSolar = calculateMainSequenceLifetime(1.0);
       expect(lifetimeHigh).toBeLessThan(lifetimeSolar);
     });
+
+    it('should give Population II stars shorter lives than Population I stars', () => {
+      expect(calculateMainSequenceLifetime(1.0, 0.01)).toBeLessThan(calculateMainSequenceLifetime(1.0, 1.0));
+    });
+  });
+
+  describe('calculateMetallicityFactor', () => {
+    it('should be 1 at solar metallicity', () => {
+      expect(calculateMetallicityFactor(1.0, 0.3)).toBe(1);
+    });
+
+    it('should stay finite for metal-free gas', () => {
+      expect(calculateMetallicityFactor(0, -0.2))
+        .toBeCloseTo(Math.pow(METALLICITY_CONSTANTS.MINIMUM_METALLICITY, -0.2), 12);
+    });
   });
 
   describe('calculateTemperature', () => {
@@ -8,55 +8,73 @@ import {
   MASS_LUMINOSITY_EXPONENTS,
   LIFETIME_CONSTANTS,
   SPECTRAL_TYPE_TEMPERATURES,
+  METALLICITY_CONSTANTS,
 } from '../constants/physics';
 import { SpectralType } from '../types/core';
 
+/**
+ * Scale a solar-metallicity relation to another metallicity
+ * @param metallicity - Metallicity relative to solar (Z☉)
+ * @param exponent - Power of Z/Z☉ the quantity scales with
+ * @returns Factor to multiply the solar-metallicity value by
+ */
+export function calculateMetallicityFactor(metallicity: number, exponent: number): number {
+  return Math.pow(Math.max(metallicity, METALLICITY_CONSTANTS.MINIMUM_METALLICITY), exponent);
+}
+
 /**
  * Calculate stellar luminosity from mass using mass-luminosity relation
- * Uses different exponents for different mass ranges
+ * Uses different exponents for different mass ranges. Metal-poor stars
+ * are less opaque and shine brighter at the same mass.
  * @param mass - Stellar mass in solar masses
+ * @param metallicity - Metallicity relative to solar (Z☉)
  * @returns Luminosity in solar luminosities
  */
-export function calculateLuminosity(mass: number): number {
+export function calculateLuminosity(mass: number, metallicity: number = 1.0): number {
+  const metallicityFactor = calculateMetallicityFactor(metallicity, METALLICITY_CONSTANTS.LUMINOSITY_EXPONENT);
   if (mass < 0.43) {
     // Low mass stars: L ∝ M^2.3
-    return Math.pow(mass, MASS_LUMINOSITY_EXPONENTS.LOW_MASS);
+    return Math.pow(mass, MASS_LUMINOSITY_EXPONENTS.LOW_MASS) * metallicityFactor;
   } else if (mass < 2) {
     // Mid mass stars: L ∝ M^4.0
-    return Math.pow(mass, MASS_LUMINOSITY_EXPONENTS.MID_MASS);
+    return Math.pow(mass, MASS_LUMINOSITY_EXPONENTS.MID_MASS) * metallicityFactor;
   } else if (mass < 55) {
     // High mass stars: L ∝ M^3.5
-    return Math.pow(mass, MASS_LUMINOSITY_EXPONENTS.HIGH_MASS);
+    return Math.pow(mass, MASS_LUMINOSITY_EXPONENTS.HIGH_MASS) * metallicityFactor;
   } else {
     // Very high mass stars: L ∝ M^1.0
-    return Math.pow(mass, MASS_LUMINOSITY_EXPONENTS.VERY_HIGH_MASS);
+    return Math.pow(mass, MASS_LUMINOSITY_EXPONENTS.VERY_HIGH_MASS) * metallicityFactor;
   }
 }
 
 /**
  * Calculate stellar radius from mass for main sequence stars
- * Uses empirical mass-radius relation
+ * Uses empirical mass-radius relation; metal-poor stars are more compact
  * @param mass - Stellar mass in solar masses
+ * @param metallicity - Metallicity relative to solar (Z☉)
  * @returns Radius in solar radii
  */
-export function calculateRadius(mass: number): number {
+export function calculateRadius(mass: number, metallicity: number = 1.0): number {
+  const metallicityFactor = calculateMetallicityFactor(metallicity, METALLICITY_CONSTANTS.RADIUS_EXPONENT);
   if (mass < 1) {
     // Low mass stars: R ∝ M^0.8
-    return Math.pow(mass, 0.8);
+    return Math.pow(mass, 0.8) * metallicityFactor;
   } else {
     // Higher mass stars: R ∝ M^0.57
-    return Math.pow(mass, 0.57);
+    return Math.pow(mass, 0.57) * metallicityFactor;
   }
 }
 
 /**
  * Calculate main sequence lifetime from mass
- * Lifetime ∝ M / L ∝ M^-2.5 (approximately)
+ * Lifetime ∝ M / L ∝ M^-2.5 (approximately), so brighter metal-poor stars
+ * burn through their hydrogen sooner
  * @param mass - Stellar mass in solar masses
+ * @param metallicity - Metallicity relative to solar (Z☉)
  * @returns Main sequence lifetime in years
  */
-export function calculateMainSequenceLifetime(mass: number): number {
-  const luminosity = calculateLuminosity(mass);
+export function calculateMainSequenceLifetime(mass: number, metallicity: number = 1.0): number {
+  const luminosity = calculateLuminosity(mass, metallicity);
   // Lifetime = (mass / luminosity) * base_lifetime
   // For solar mass star: lifetime ≈ 10 billion years
   return (mass / luminosity) * LIFETIME_CONSTANTS.MAIN_SEQUENCE_COEFFICIENT;
@@ -83,6 +101,21 @@ export function calculateTemperature(luminosity: number, radius: number): number
   return Math.pow(temperature4, 0.25);
 }
 
+/**
+ * Calculate stellar radius from luminosity and effective temperature
+ * Inverts the Stefan-Boltzmann law: R = √(L / 4πσT⁴)
+ * @param luminosity - Luminosity in solar luminosities
+ * @param temperature - Effective temperature in Kelvin
+ * @returns Radius in solar radii
+ */
+export function calculateRadiusFromTemperature(luminosity: number, temperature: number): number {
+  const luminositySI = luminosity * PHYSICS_CONSTANTS.SOLAR_LUMINOSITY;
+  const radiusSI = Math.sqrt(
+    luminositySI / (4 * Math.PI * PHYSICS_CONSTANTS.STEFAN_BOLTZMANN * Math.pow(temperature, 4))
+  );
+  return radiusSI / PHYSICS_CONSTANTS.SOLAR_RADIUS;
+}
+
 /**
  * Calculate color temperature from luminosity and radius
  * Alternative method using Wien's displacement law
@@ -122,14 +155,15 @@ export function determineSpectralType(temperature: number): SpectralType {
  * Calculate all initial stellar properties from mass
  * Convenience function that calculates luminosity, radius, temperature, and spectral type
  * @param mass - Stellar mass in solar masses
+ * @param metallicity - Metallicity relative to solar (Z☉)
  * @returns Object containing all calculated properties
  */
-export function calculateInitialStellarProperties(mass: number) {
-  const luminosity = calculateLuminosity(mass);
-  const radius = calculateRadius(mass);
+export function calculateInitialStellarProperties(mass: number, metallicity: number = 1.0) {
+  const luminosity = calculateLuminosity(mass, metallicity);
+  const radius = calculateRadius(mass, metallicity);
   const temperature = calculateTemperature(luminosity, radius);
   const spectralType = determineSpectralType(temperature);
-  const lifetime = calculateMainSequenceLifetime(mass);
+  const lifetime = calculateMainSequenceLifetime(mass, metallicity);
   
   return {
     luminosity,
@@ -0,0 +1,174 @@
+/**
+ * Unit tests for radial stellar structure
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  solveLaneEmden,
+  determinePolytropicIndex,
+  calculateRadialProfile,
+} from './stellarStructure';
+import { calculateInternalStructure } from './internalStructure';
+import { EvolutionPhase, InternalStructure, StructureModel, ZoneType } from '../types/core';
+import { STRUCTURE_CONSTANTS } from '../constants/physics';
+
+// Sun-like main sequence structure: radiative interior, convective envelope
+// and a core that has burned half its hydrogen
+const zeroAgeStructure = calculateInternalStructure(1.0, 1.0, 1.0, EvolutionPhase.MAIN_SEQUENCE, 0.45, 1.0);
+const sunStructure: InternalStructure = {
+  ...zeroAgeStructure,
+  coreComposition: { ...zeroAgeStructure.coreComposition, hydrogen: 0.35, helium: 0.63 },
+  layerStructure: {
+    coreRadius: 0.25,
+    zones: [
+      { type: ZoneType.RADIATIVE, innerRadius: 0, outerRadius: 0.7 },
+      { type: ZoneType.CONVECTIVE, innerRadius: 0.7, outerRadius: 1.0 },
+    ],
+  },
+};
+
+describe('Stellar Structure', () => {
+  describe('solveLaneEmden', () => {
+    it('should find the analytic surfaces of the n = 0 and n = 1 polytropes', () => {
+      expect(solveLaneEmden(0).surfaceXi).toBeCloseTo(Math.sqrt(6), 3);
+      expect(solveLaneEmden(1).surfaceXi).toBeCloseTo(Math.PI, 3);
+    });
+
+    it('should match the tabulated n = 3 surface and mass', () => {
+      const solution = solveLaneEmden(3);
+      const last = solution.xi.length - 1;
+
+      expect(solution.surfaceXi).toBeCloseTo(6.8968, 2);
+      expect(-(solution.xi[last] ** 2) * solution.dThetaDXi[last]).toBeCloseTo(2.0182, 2);
+    });
+
+    it('should follow θ = sin ξ / ξ for n = 1', () => {
+      const solution = solveLaneEmden(1);
+      const i = Math.floor(solution.xi.length / 2);
+
+      expect(solution.theta[i]).toBeCloseTo(Math.sin(solution.xi[i]) / solution.xi[i], 5);
+    });
+  });
+
+  describe('determinePolytropicIndex', () => {
+    it('should use n = 3 for a mostly radiative star and n = 1.5 for a convective one', () => {
+      expect(determinePolytropicIndex(EvolutionPhase.MAIN_SEQUENCE, sunStructure.layerStructure))
+        .toBe(STRUCTURE_CONSTANTS.RADIATIVE_POLYTROPIC_INDEX);
+      expect(determinePolytropicIndex(EvolutionPhase.MAIN_SEQUENCE, {
+        coreRadius: 0.3,
+        zones: [
+          { type: ZoneType.RADIATIVE, innerRadius: 0, outerRadius: 0.1 },
+          { type: ZoneType.CONVECTIVE, innerRadius: 0.1, outerRadius: 1.0 },
+        ],
+      })).toBe(STRUCTURE_CONSTANTS.CONVECTIVE_POLYTROPIC_INDEX);
+    });
+
+    it('should use degenerate polytropes for remnants', () => {
+      expect(determinePolytropicIndex(EvolutionPhase.WHITE_DWARF, sunStructure.layerStructure))
+        .toBe(STRUCTURE_CONSTANTS.WHITE_DWARF_POLYTROPIC_INDEX);
+      expect(determinePolytropicIndex(EvolutionPhase.NEUTRON_STAR, sunStructure.layerStructure))
+        .toBe(STRUCTURE_CONSTANTS.NEUTRON_STAR_POLYTROPIC_INDEX);
+    });
+  });
+
+  describe('calculateRadialProfile', () => {
+    const polytrope = calculateRadialProfile(
+      StructureModel.POLYTROPE, 1.0, 1.0, 1.0, 5778, EvolutionPhase.MAIN_SEQUENCE, 1.0, sunStructure
+    )!;
+    const hydrostatic = calculateRadialProfile(
+      StructureModel.HYDROSTATIC, 1.0, 1.0, 1.0, 5778, EvolutionPhase.MAIN_SEQUENCE, 1.0, sunStructure
+    )!;
+
+    it('should run from the centre to the stellar surface', () => {
+      const surface = polytrope.points[polytrope.points.length - 1];
+
+      expect(polytrope.points).toHaveLength(STRUCTURE_CONSTANTS.PROFILE_POINTS);
+      expect(polytrope.points[0].radius).toBe(0);
+      expect(surface.radius).toBeCloseTo(1.0, 6);
+      expect(surface.enclosedMass).toBeCloseTo(1.0, 6);
+      expect(surface.luminosity).toBeCloseTo(1.0, 6);
+      expect(surface.temperature).toBe(5778);
+    });
+
+    it('should have the n = 3 central density and a Sun-like central temperature', () => {
+      const meanDensity = 1.989e30 / (4 / 3 * Math.PI * Math.pow(6.957e8, 3));
+
+      expect(polytrope.polytropicIndex).toBe(3);
+      expect(polytrope.points[0].density / meanDensity).toBeCloseTo(54.18, 0);
+      expect(polytrope.points[0].temperature).toBeGreaterThan(1e7);
+      expect(polytrope.points[0].temperature).toBeLessThan(3e7);
+    });
+
+    it('should decrease pressure and density and increase enclosed mass outward', () => {
+      for (const profile of [polytrope, hydrostatic]) {
+        for (let i = 1; i < profile.points.length; i++) {
+          expect(profile.points[i].pressure).toBeLessThanOrEqual(profile.points[i - 1].pressure);
+          expect(profile.points[i].density).toBeLessThanOrEqual(profile.points[i - 1].density);
+          expect(profile.points[i].enclosedMass).toBeGreaterThanOrEqual(profile.points[i - 1].enclosedMass);
+        }
+      }
+    });
+
+    it('should carry core composition inside the core and envelope composition outside', () => {
+      expect(polytrope.points[0].composition).toEqual(sunStructure.coreComposition);
+      expect(polytrope.points[polytrope.points.length - 1].composition.hydrogen)
+        .toBeGreaterThan(polytrope.points[0].composition.hydrogen);
+    });
+
+    it('should give a different but mass-conserving profile from the hydrostatic solver', () => {
+      const surface = hydrostatic.points[hydrostatic.points.length - 1];
+
+      expect(hydrostatic.model).toBe(StructureModel.HYDROSTATIC);
+      expect(surface.enclosedMass).toBeCloseTo(1.0, 6);
+      expect(hydrostatic.points[0].density).not.toBeCloseTo(polytrope.points[0].density, -3);
+    });
+
+    it('should reduce to the n = 3 polytrope when the star has a single radiative zone', () => {
+      const radiative: InternalStructure = {
+        ...sunStructure,
+        layerStructure: { coreRadius: 0.25, zones: [{ type: ZoneType.RADIATIVE, innerRadius: 0, outerRadius: 1.0 }] },
+      };
+      const single = calculateRadialProfile(
+        StructureModel.HYDROSTATIC, 1.0, 1.0, 1.0, 5778, EvolutionPhase.MAIN_SEQUENCE, 1.0, radiative
+      )!;
+
+      expect(single.points[0].density / polytrope.points[0].density).toBeCloseTo(1, 1);
+    });
+
+    it('should join pressure across every zone of a three-zone star', () => {
+      const threeZone: InternalStructure = {
+        ...sunStructure,
+        layerStructure: {
+          coreRadius: 0.1,
+          zones: [
+            { type: ZoneType.CONVECTIVE, innerRadius: 0, outerRadius: 0.1 },
+            { type: ZoneType.RADIATIVE, innerRadius: 0.1, outerRadius: 0.8 },
+            { type: ZoneType.CONVECTIVE, innerRadius: 0.8, outerRadius: 1.0 },
+          ],
+        },
+      };
+      const profile = calculateRadialProfile(
+        StructureModel.HYDROSTATIC, 2.0, 1.6, 12, 9000, EvolutionPhase.MAIN_SEQUENCE, 1.0, threeZone
+      )!;
+      const surface = profile.points[profile.points.length - 1];
+
+      expect(profile.polytropicIndex).toBe(STRUCTURE_CONSTANTS.CONVECTIVE_POLYTROPIC_INDEX);
+      expect(surface.enclosedMass).toBeCloseTo(2.0, 6);
+      for (let i = 1; i < profile.points.length; i++) {
+        expect(profile.points[i].pressure).toBeLessThanOrEqual(profile.points[i - 1].pressure);
+      }
+    });
+
+    it('should keep degenerate remnants isothermal and give black holes no profile', () => {
+      const whiteDwarf = calculateRadialProfile(
+        StructureModel.POLYTROPE, 0.6, 0.012, 0.01, 10000, EvolutionPhase.WHITE_DWARF, 1.0, sunStructure
+      )!;
+      const blackHole = calculateRadialProfile(
+        StructureModel.POLYTROPE, 10, 0, 0, 0, EvolutionPhase.BLACK_HOLE, 1.0, sunStructure
+      );
+
+      expect(whiteDwarf.points[0].temperature).toBe(whiteDwarf.points[10].temperature);
+      expect(blackHole).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,409 @@
+/**
+ * Stellar structure functions
+ * Radial profiles of temperature, density, pressure, enclosed mass,
+ * luminosity and composition from Lane–Emden polytropes or a simple
+ * hydrostatic solver
+ */
+
+import { PHYSICS_CONSTANTS, STRUCTURE_CONSTANTS } from '../constants/physics';
+import {
+  CoreComposition,
+  EvolutionPhase,
+  InternalStructure,
+  LaneEmdenSolution,
+  LayerStructure,
+  NuclearReaction,
+  RadialProfile,
+  RadialProfilePoint,
+  StructureModel,
+  ZoneType,
+} from '../types/core';
+import { calculateInitialCoreComposition } from './internalStructure';
+
+// Structure from the centre to the surface in units where G = ρc = Pc = 1
+interface DimensionlessStructure {
+  radius: number[];
+  mass: number[];
+  pressure: number[];
+  density: number[];
+}
+
+// Solutions depend only on the indices and zone boundary, so each is solved once
+const laneEmdenSolutions = new Map<number, LaneEmdenSolution>();
+const hydrostaticStructures = new Map<string, DimensionlessStructure>();
+
+// Structures that never reach a surface (Lane–Emden n ≥ 5) are cut off here
+const MAX_DIMENSIONLESS_RADIUS = 1000;
+
+/**
+ * Solve the Lane–Emden equation for a polytrope
+ * Integrates (1/ξ²) d/dξ (ξ² dθ/dξ) = -θⁿ outwards from θ(0) = 1 with a
+ * fourth-order Runge–Kutta scheme until θ falls to zero at the surface
+ * @param polytropicIndex - Polytropic index n (0 ≤ n < 5)
+ * @returns θ and dθ/dξ from the centre to the surface ξ₁
+ */
+export function solveLaneEmden(polytropicIndex: number): LaneEmdenSolution {
+  const cached = laneEmdenSolutions.get(polytropicIndex);
+  if (cached) {
+    return cached;
+  }
+
+  const n = polytropicIndex;
+  const h = STRUCTURE_CONSTANTS.LANE_EMDEN_STEP;
+  const derivatives = (x: number, t: number, d: number): [number, number] =>
+    [d, -Math.pow(Math.max(t, 0), n) - 2 * d / x];
+
+  // Start one step out with the series expansion, which avoids the singular centre
+  let xi = h;
+  let theta = 1 - xi * xi / 6 + n * Math.pow(xi, 4) / 120;
+  let dTheta = -xi / 3 + n * Math.pow(xi, 3) / 30;
+  const solution: LaneEmdenSolution = {
+    polytropicIndex,
+    xi: [0, xi],
+    theta: [1, theta],
+    dThetaDXi: [0, dTheta],
+    surfaceXi: MAX_DIMENSIONLESS_RADIUS,
+  };
+
+  while (theta > 0 && xi < MAX_DIMENSIONLESS_RADIUS) {
+    const [k1t, k1d] = derivatives(xi, theta, dTheta);
+    const [k2t, k2d] = derivatives(xi + h / 2, theta + h * k1t / 2, dTheta + h * k1d / 2);
+    const [k3t, k3d] = derivatives(xi + h / 2, theta + h * k2t / 2, dTheta + h * k2d / 2);
+    const [k4t, k4d] = derivatives(xi + h, theta + h * k3t, dTheta + h * k3d);
+    const nextTheta = theta + h * (k1t + 2 * k2t + 2 * k3t + k4t) / 6;
+    const nextDTheta = dTheta + h * (k1d + 2 * k2d + 2 * k3d + k4d) / 6;
+
+    if (nextTheta <= 0) {
+      // Place the surface where θ crosses zero
+      const fraction = theta / (theta - nextTheta);
+      solution.surfaceXi = xi + fraction * h;
+      solution.xi.push(solution.surfaceXi);
+      solution.theta.push(0);
+      solution.dThetaDXi.push(dTheta + fraction * (nextDTheta - dTheta));
+      break;
+    }
+
+    xi += h;
+    theta = nextTheta;
+    dTheta = nextDTheta;
+    solution.xi.push(xi);
+    solution.theta.push(theta);
+    solution.dThetaDXi.push(dTheta);
+  }
+
+  laneEmdenSolutions.set(polytropicIndex, solution);
+  return solution;
+}
+
+/**
+ * Choose the polytropic index that best describes a star
+ * Mostly convective stars are n = 1.5 polytropes and mostly radiative stars
+ * n = 3 (Eddington's standard model); degenerate remnants follow their
+ * equation of state
+ * @param phase - Current evolution phase
+ * @param layerStructure - Radiative and convective zones
+ * @returns Polytropic index n
+ */
+export function determinePolytropicIndex(phase: EvolutionPhase, layerStructure: LayerStructure): number {
+  switch (phase) {
+    case EvolutionPhase.WHITE_DWARF:
+      return STRUCTURE_CONSTANTS.WHITE_DWARF_POLYTROPIC_INDEX;
+    case EvolutionPhase.NEUTRON_STAR:
+      return STRUCTURE_CONSTANTS.NEUTRON_STAR_POLYTROPIC_INDEX;
+    default: {
+      const convectiveFraction = layerStructure.zones
+        .filter(zone => zone.type === ZoneType.CONVECTIVE)
+        .reduce((sum, zone) => sum + zone.outerRadius - zone.innerRadius, 0);
+      return convectiveFraction > STRUCTURE_CONSTANTS.CONVECTIVE_FRACTION_THRESHOLD
+        ? STRUCTURE_CONSTANTS.CONVECTIVE_POLYTROPIC_INDEX
+        : STRUCTURE_CONSTANTS.RADIATIVE_POLYTROPIC_INDEX;
+    }
+  }
+}
+
+/**
+ * Calculate a star's radial profile from centre to surface
+ * The polytrope model scales a single Lane–Emden solution to the star's mass
+ * and radius. The hydrostatic model integrates hydrostatic equilibrium and
+ * mass continuity through each of the star's convective (n = 1.5) and
+ * radiative (n = 3) zones, joining them with continuous pressure and density.
+ * Degenerate remnants always use their polytrope. Temperature follows from
+ * the ideal-gas law (isothermal for degenerate cores) with the photosphere
+ * as a floor; luminosity is released where the core reaction's ρTᵛ rate
+ * peaks, in the hydrogen-burning shell around an inert core, or in
+ * proportion to mass when nothing burns.
+ * @param model - Structure model
+ * @param mass - Stellar mass in solar masses
+ * @param radius - Stellar radius in solar radii
+ * @param luminosity - Luminosity in solar luminosities
+ * @param temperature - Effective temperature in Kelvin
+ * @param phase - Current evolution phase
+ * @param metallicity - Metallicity relative to solar (Z☉)
+ * @param internalStructure - Core composition, reactions and layer structure
+ * @returns Radial profile, or undefined for black holes
+ */
+export function calculateRadialProfile(
+  model: StructureModel,
+  mass: number,
+  radius: number,
+  luminosity: number,
+  temperature: number,
+  phase: EvolutionPhase,
+  metallicity: number,
+  internalStructure: InternalStructure
+): RadialProfile | undefined {
+  if (phase === EvolutionPhase.BLACK_HOLE) {
+    return undefined;
+  }
+
+  const { layerStructure, coreComposition, coreTemperature, activeReactions, shellBurning } = internalStructure;
+  const degenerate = phase === EvolutionPhase.WHITE_DWARF || phase === EvolutionPhase.NEUTRON_STAR;
+  let polytropicIndex: number;
+  let structure: DimensionlessStructure;
+  if (model === StructureModel.HYDROSTATIC && !degenerate) {
+    const zones = determineStructureZones(layerStructure);
+    polytropicIndex = zones.indices[0];
+    structure = integrateHydrostaticStructure(zones.indices, zones.boundaryFractions);
+  } else {
+    polytropicIndex = determinePolytropicIndex(phase, layerStructure);
+    structure = convertLaneEmdenSolution(solveLaneEmden(polytropicIndex));
+  }
+
+  // Scale to the star's mass and radius
+  const last = structure.radius.length - 1;
+  const massSI = mass * PHYSICS_CONSTANTS.SOLAR_MASS;
+  const lengthUnit = radius * PHYSICS_CONSTANTS.SOLAR_RADIUS / structure.radius[last];
+  const densityUnit = massSI / (structure.mass[last] * Math.pow(lengthUnit, 3));
+  const pressureUnit = PHYSICS_CONSTANTS.GRAVITATIONAL_CONSTANT * Math.pow(densityUnit * lengthUnit, 2);
+
+  const envelopeComposition = calculateInitialCoreComposition(metallicity);
+  const compositionAt = (fraction: number): CoreComposition =>
+    fraction <= layerStructure.coreRadius ? coreComposition : envelopeComposition;
+
+  const fractions = structure.radius.map(r => r / structure.radius[last]);
+  const densities = structure.density.map(rho => rho * densityUnit);
+  const pressures = structure.pressure.map(p => p * pressureUnit);
+  const temperatures = fractions.map((fraction, i) => {
+    if (degenerate) {
+      return i === last ? temperature : coreTemperature;
+    }
+    const gasTemperature = densities[i] > 0
+      ? pressures[i] * calculateMeanMolecularWeight(compositionAt(fraction)) * PHYSICS_CONSTANTS.HYDROGEN_MASS /
+        (densities[i] * PHYSICS_CONSTANTS.BOLTZMANN_CONSTANT)
+      : 0;
+    return Math.max(gasTemperature, temperature);
+  });
+
+  // Energy release per unit mass, relative to the centre
+  const exponent = getTemperatureExponent(activeReactions.coreReaction);
+  const hasShell = shellBurning.hydrogenShell || shellBurning.heliumShell || shellBurning.carbonShell;
+  let generation = fractions.map((fraction, i) => {
+    if (exponent > 0) {
+      return fraction <= layerStructure.coreRadius
+        ? structure.density[i] * Math.pow(temperatures[i] / temperatures[0], exponent)
+        : 0;
+    }
+    if (hasShell) {
+      return fraction > layerStructure.coreRadius && fraction <= 2 * layerStructure.coreRadius ? 1 : 0;
+    }
+    return 1;
+  });
+  if (!generation.some(rate => rate > 0)) {
+    // The burning region falls between grid points; release energy evenly instead
+    generation = fractions.map(() => 1);
+  }
+  const cumulative = [0];
+  for (let i = 1; i <= last; i++) {
+    const massStep = structure.mass[i] - structure.mass[i - 1];
+    cumulative.push(cumulative[i - 1] + (generation[i] + generation[i - 1]) / 2 * massStep);
+  }
+
+  // Sample evenly spaced shells
+  const points: RadialProfilePoint[] = [];
+  const count = STRUCTURE_CONSTANTS.PROFILE_POINTS;
+  let j = 0;
+  for (let k = 0; k < count; k++) {
+    const fraction = k / (count - 1);
+    while (j < last - 1 && fractions[j + 1] < fraction) {
+      j++;
+    }
+    const weight = Math.min(Math.max((fraction - fractions[j]) / (fractions[j + 1] - fractions[j]), 0), 1);
+    const interpolate = (values: number[]) => values[j] + weight * (values[j + 1] - values[j]);
+    points.push({
+      radius: fraction * radius,
+      temperature: interpolate(temperatures),
+      density: interpolate(densities),
+      pressure: interpolate(pressures),
+      enclosedMass: interpolate(structure.mass) / structure.mass[last] * mass,
+      luminosity: interpolate(cumulative) / cumulative[last] * luminosity,
+      composition: compositionAt(fraction),
+    });
+  }
+
+  return { model, polytropicIndex, points };
+}
+
+/**
+ * Describe a star's zones as polytropes
+ * Neighbouring zones of the same type are joined
+ * @returns Polytropic index of each zone from the centre outwards and the
+ *   boundaries between them as fractions of the radius
+ */
+function determineStructureZones(
+  layerStructure: LayerStructure
+): { indices: number[]; boundaryFractions: number[] } {
+  const indices: number[] = [];
+  const boundaryFractions: number[] = [];
+  for (const zone of layerStructure.zones) {
+    const index = zone.type === ZoneType.CONVECTIVE
+      ? STRUCTURE_CONSTANTS.CONVECTIVE_POLYTROPIC_INDEX
+      : STRUCTURE_CONSTANTS.RADIATIVE_POLYTROPIC_INDEX;
+    if (indices.length > 0 && indices[indices.length - 1] === index) {
+      continue;
+    }
+    if (indices.length > 0) {
+      // Boundaries are rounded so that stars share cached solutions
+      const resolution = STRUCTURE_CONSTANTS.BOUNDARY_RESOLUTION;
+      boundaryFractions.push(Math.round(zone.innerRadius / resolution) * resolution);
+    }
+    indices.push(index);
+  }
+  return { indices, boundaryFractions };
+}
+
+/**
+ * Express a Lane–Emden solution in units where G = ρc = Pc = 1
+ * With K = 1 the radius unit is α = √((n+1)/4π)
+ */
+function convertLaneEmdenSolution(solution: LaneEmdenSolution): DimensionlessStructure {
+  const n = solution.polytropicIndex;
+  const alpha = Math.sqrt((n + 1) / (4 * Math.PI));
+  return {
+    radius: solution.xi.map(xi => alpha * xi),
+    mass: solution.xi.map((xi, i) => -4 * Math.PI * Math.pow(alpha, 3) * xi * xi * solution.dThetaDXi[i]),
+    pressure: solution.theta.map(theta => Math.pow(theta, n + 1)),
+    density: solution.theta.map(theta => Math.pow(theta, n)),
+  };
+}
+
+/**
+ * Solve hydrostatic equilibrium for a star made of polytropic zones
+ * Zone boundaries sit at fixed fractions of the surface radius, which is
+ * only known after integrating, so the integration is repeated until the
+ * surface stops moving
+ */
+function integrateHydrostaticStructure(
+  indices: number[],
+  boundaryFractions: number[]
+): DimensionlessStructure {
+  const key = `${indices.join(',')}:${boundaryFractions.join(',')}`;
+  const cached = hydrostaticStructures.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  const surfaceOf = (structure: DimensionlessStructure) => structure.radius[structure.radius.length - 1];
+  let structure = convertLaneEmdenSolution(solveLaneEmden(indices[0]));
+  for (let i = 0; i < STRUCTURE_CONSTANTS.BOUNDARY_ITERATIONS; i++) {
+    const surface = surfaceOf(structure);
+    const next = integrateZones(indices, boundaryFractions.map(fraction => fraction * surface));
+    const change = Math.abs(surfaceOf(next) - surface) / surface;
+    structure = next;
+    if (change < STRUCTURE_CONSTANTS.BOUNDARY_TOLERANCE) {
+      break;
+    }
+  }
+
+  hydrostaticStructures.set(key, structure);
+  return structure;
+}
+
+/**
+ * Integrate dm/dr = 4πr²ρ and dP/dr = -Gmρ/r² outwards until the pressure vanishes
+ * Each zone obeys P = Kρ^(1+1/n); K = 1 in the innermost zone and is fixed
+ * in each later zone by continuity of pressure and density at its base
+ */
+function integrateZones(indices: number[], boundaryRadii: number[]): DimensionlessStructure {
+  const h = STRUCTURE_CONSTANTS.HYDROSTATIC_STEP;
+  let zone = 0;
+  let index = indices[0];
+  let k = 1;
+  const densityOf = (pressure: number) => pressure > 0 ? Math.pow(pressure / k, index / (index + 1)) : 0;
+  const derivatives = (r: number, m: number, p: number): [number, number] => {
+    const rho = densityOf(p);
+    return [4 * Math.PI * r * r * rho, -m * rho / (r * r)];
+  };
+
+  // Start one step out with the uniform-density series
+  let r = h;
+  let m = 4 * Math.PI * Math.pow(h, 3) / 3;
+  let p = 1 - 2 * Math.PI * h * h / 3;
+  const structure: DimensionlessStructure = {
+    radius: [0, r],
+    mass: [0, m],
+    pressure: [1, p],
+    density: [1, densityOf(p)],
+  };
+
+  while (p > 0 && r < MAX_DIMENSIONLESS_RADIUS) {
+    while (zone < boundaryRadii.length && r >= boundaryRadii[zone]) {
+      const rho = densityOf(p);
+      zone++;
+      index = indices[zone];
+      k = p / Math.pow(rho, 1 + 1 / index);
+    }
+
+    const [k1m, k1p] = derivatives(r, m, p);
+    const [k2m, k2p] = derivatives(r + h / 2, m + h * k1m / 2, p + h * k1p / 2);
+    const [k3m, k3p] = derivatives(r + h / 2, m + h * k2m / 2, p + h * k2p / 2);
+    const [k4m, k4p] = derivatives(r + h, m + h * k3m, p + h * k3p);
+    const nextM = m + h * (k1m + 2 * k2m + 2 * k3m + k4m) / 6;
+    const nextP = p + h * (k1p + 2 * k2p + 2 * k3p + k4p) / 6;
+
+    if (nextP <= 0) {
+      // Place the surface where the pressure vanishes
+      const fraction = p / (p - nextP);
+      structure.radius.push(r + fraction * h);
+      structure.mass.push(m + fraction * (nextM - m));
+      structure.pressure.push(0);
+      structure.density.push(0);
+      break;
+    }
+
+    r += h;
+    m = nextM;
+    p = nextP;
+    structure.radius.push(r);
+    structure.mass.push(m);
+    structure.pressure.push(p);
+    structure.density.push(densityOf(p));
+  }
+
+  return structure;
+}
+
+/**
+ * Calculate the mean molecular weight of fully ionized gas
+ * 1/μ = 2X + 3Y/4 + Z/2
+ */
+function calculateMeanMolecularWeight(composition: CoreComposition): number {
+  const metals = Math.max(1 - composition.hydrogen - composition.helium, 0);
+  return 1 / (2 * composition.hydrogen + 0.75 * composition.helium + 0.5 * metals);
+}
+
+/**
+ * Get how steeply a core reaction's energy release rises with temperature
+ * @returns Exponent ν in ε ∝ ρTᵛ (0 when nothing burns in the core)
+ */
+function getTemperatureExponent(reaction: NuclearReaction): number {
+  switch (reaction) {
+    case NuclearReaction.PP_CHAIN:
+      return STRUCTURE_CONSTANTS.PP_CHAIN_TEMPERATURE_EXPONENT;
+    case NuclearReaction.CNO_CYCLE:
+      return STRUCTURE_CONSTANTS.CNO_CYCLE_TEMPERATURE_EXPONENT;
+    case NuclearReaction.NONE:
+      return 0;
+    default:
+      return STRUCTURE_CONSTANTS.HELIUM_BURNING_TEMPERATURE_EXPONENT;
+  }
+}
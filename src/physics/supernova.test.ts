@@ -0,0 +1,77 @@
+/**
+ * Unit tests for supernova kicks and ejecta
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  kmPerSecondToAUPerYear,
+  auPerYearToKmPerSecond,
+  drawNatalKick,
+  calculateEjectaEnergyRatio,
+  determineEjectaEffect,
+} from './supernova';
+import { createSeededRandom } from './random';
+import { EjectaEffect, EvolutionPhase, Vector3 } from '../types/core';
+
+function speed(v: Vector3): number {
+  return Math.sqrt(v.x * v.x + v.y * v.y + v.z * v.z);
+}
+
+describe('Supernova', () => {
+  describe('speed conversions', () => {
+    it('should convert Earth\'s orbital speed to about 2π AU/yr', () => {
+      expect(kmPerSecondToAUPerYear(29.78)).toBeCloseTo(2 * Math.PI, 1);
+    });
+
+    it('should round-trip', () => {
+      expect(auPerYearToKmPerSecond(kmPerSecondToAUPerYear(265))).toBeCloseTo(265, 10);
+    });
+  });
+
+  describe('drawNatalKick', () => {
+    it('should give neutron stars kicks of a few hundred km/s on average', () => {
+      const random = createSeededRandom(11);
+      const kicks = Array.from({ length: 2000 }, () =>
+        auPerYearToKmPerSecond(speed(drawNatalKick(EvolutionPhase.NEUTRON_STAR, 1.4, random)))
+      );
+      const mean = kicks.reduce((sum, v) => sum + v, 0) / kicks.length;
+
+      // Maxwellian mean speed is 2σ√(2/π) ≈ 423 km/s
+      expect(mean).toBeGreaterThan(380);
+      expect(mean).toBeLessThan(460);
+    });
+
+    it('should scale black hole kicks down by momentum conservation', () => {
+      const neutronStar = drawNatalKick(EvolutionPhase.NEUTRON_STAR, 1.4, createSeededRandom(5));
+      const blackHole = drawNatalKick(EvolutionPhase.BLACK_HOLE, 14, createSeededRandom(5));
+      expect(speed(blackHole)).toBeCloseTo(speed(neutronStar) / 10, 10);
+    });
+
+    it('should not kick white dwarfs', () => {
+      expect(drawNatalKick(EvolutionPhase.WHITE_DWARF, 0.6)).toEqual({ x: 0, y: 0, z: 0 });
+    });
+  });
+
+  describe('calculateEjectaEnergyRatio', () => {
+    it('should fall off with the square of distance', () => {
+      expect(calculateEjectaEnergyRatio(1, 1, 2)).toBeCloseTo(calculateEjectaEnergyRatio(1, 1, 1) / 4, 12);
+    });
+
+    it('should affect loosely bound giants less than their size suggests', () => {
+      // Jupiter absorbs ~120× Earth's share but is ~9000× more tightly bound
+      expect(calculateEjectaEnergyRatio(318, 11.2, 1)).toBeLessThan(calculateEjectaEnergyRatio(1, 1, 1));
+    });
+  });
+
+  describe('determineEjectaEffect', () => {
+    it('should destroy an Earth-like planet very close to the explosion', () => {
+      expect(determineEjectaEffect(calculateEjectaEnergyRatio(1, 1, 0.1))).toBe(EjectaEffect.DESTROYED);
+    });
+
+    it('should strip, irradiate or spare planets with increasing distance', () => {
+      expect(determineEjectaEffect(calculateEjectaEnergyRatio(318, 11.2, 0.1))).toBe(EjectaEffect.STRIPPED);
+      expect(determineEjectaEffect(calculateEjectaEnergyRatio(318, 11.2, 5))).toBe(EjectaEffect.IRRADIATED);
+      expect(determineEjectaEffect(calculateEjectaEnergyRatio(318, 11.2, 5000))).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Core-collapse supernova functions
+ * Natal kicks of compact remnants and the effect of the ejecta on planets
+ */
+
+import {
+  PHYSICS_CONSTANTS,
+  SUPERNOVA_CONSTANTS,
+} from '../constants/physics';
+import { EjectaEffect, EvolutionPhase, Vector3 } from '../types/core';
+import { RandomSource, drawGaussian } from './random';
+
+// 1 km/s expressed in AU/year
+const AU_PER_YEAR_PER_KM_PER_S = 1000 * PHYSICS_CONSTANTS.SECONDS_PER_YEAR / PHYSICS_CONSTANTS.AU;
+
+/**
+ * Convert a speed from km/s to AU/year
+ * @param speed - Speed in km/s
+ * @returns Speed in AU/year
+ */
+export function kmPerSecondToAUPerYear(speed: number): number {
+  return speed * AU_PER_YEAR_PER_KM_PER_S;
+}
+
+/**
+ * Convert a speed from AU/year to km/s
+ * @param speed - Speed in AU/year
+ * @returns Speed in km/s
+ */
+export function auPerYearToKmPerSecond(speed: number): number {
+  return speed / AU_PER_YEAR_PER_KM_PER_S;
+}
+
+/**
+ * Draw the natal kick of a newborn compact remnant
+ * Each component is Gaussian with the neutron star dispersion, giving a
+ * Maxwellian speed distribution (mean ≈ 420 km/s). Black hole kicks carry
+ * the same momentum, so their speed scales as 1.4 M☉ / M_BH.
+ * @param remnantPhase - NEUTRON_STAR or BLACK_HOLE (other phases get no kick)
+ * @param remnantMass - Remnant mass in solar masses
+ * @param random - Random source (default: Math.random)
+ * @returns Kick velocity in AU/year
+ */
+export function drawNatalKick(
+  remnantPhase: EvolutionPhase,
+  remnantMass: number,
+  random: RandomSource = Math.random
+): Vector3 {
+  if (remnantPhase !== EvolutionPhase.NEUTRON_STAR && remnantPhase !== EvolutionPhase.BLACK_HOLE) {
+    return { x: 0, y: 0, z: 0 };
+  }
+
+  const momentumScale = remnantPhase === EvolutionPhase.BLACK_HOLE
+    ? Math.min(1, SUPERNOVA_CONSTANTS.KICK_REFERENCE_MASS / remnantMass)
+    : 1;
+  const sigma = kmPerSecondToAUPerYear(SUPERNOVA_CONSTANTS.KICK_DISPERSION) * momentumScale;
+
+  return {
+    x: sigma * drawGaussian(random),
+    y: sigma * drawGaussian(random),
+    z: sigma * drawGaussian(random),
+  };
+}
+
+/**
+ * Calculate the ejecta energy a planet absorbs relative to its binding energy
+ * The planet intercepts a fraction πR²/(4πd²) of the explosion energy, of
+ * which a small fraction couples to it; its gravitational binding energy
+ * is 3GM²/(5R) for a uniform sphere
+ * @param planetMass - Planet mass in Earth masses
+ * @param planetRadius - Planet radius in Earth radii
+ * @param distance - Distance from the exploding star in AU
+ * @returns Deposited energy divided by binding energy
+ */
+export function calculateEjectaEnergyRatio(
+  planetMass: number,
+  planetRadius: number,
+  distance: number
+): number {
+  if (planetMass <= 0 || planetRadius <= 0) {
+    return 0;
+  }
+  if (distance <= 0) {
+    return Infinity;
+  }
+
+  const { GRAVITATIONAL_CONSTANT: G, EARTH_MASS, EARTH_RADIUS, AU } = PHYSICS_CONSTANTS;
+  const radius = planetRadius * EARTH_RADIUS;
+  const mass = planetMass * EARTH_MASS;
+  const separation = distance * AU;
+
+  const deposited = SUPERNOVA_CONSTANTS.EJECTA_COUPLING_EFFICIENCY *
+    SUPERNOVA_CONSTANTS.EXPLOSION_ENERGY * radius * radius / (4 * separation * separation);
+  const bindingEnergy = 3 * G * mass * mass / (5 * radius);
+
+  return deposited / bindingEnergy;
+}
+
+/**
+ * Classify how supernova ejecta affect a planet
+ * @param energyRatio - Deposited energy divided by binding energy
+ * @returns Effect on the planet, or null if negligible
+ */
+export function determineEjectaEffect(energyRatio: number): EjectaEffect | null {
+  if (energyRatio >= SUPERNOVA_CONSTANTS.DESTRUCTION_THRESHOLD) {
+    return EjectaEffect.DESTROYED;
+  }
+  if (energyRatio >= SUPERNOVA_CONSTANTS.STRIPPING_THRESHOLD) {
+    return EjectaEffect.STRIPPED;
+  }
+  if (energyRatio >= SUPERNOVA_CONSTANTS.IRRADIATION_THRESHOLD) {
+    return EjectaEffect.IRRADIATED;
+  }
+  return null;
+}
@@ -0,0 +1,69 @@
+/**
+ * Unit tests for star-planet tidal interaction
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  calculateRocheLimit,
+  calculateTidalReach,
+  determinePlanetFate,
+  calculateOrbitalAngularMomentum,
+} from './tides';
+import { PlanetFate } from '../types/core';
+import { PHYSICS_CONSTANTS } from '../constants/physics';
+
+const AU_PER_SOLAR_RADIUS = PHYSICS_CONSTANTS.SOLAR_RADIUS / PHYSICS_CONSTANTS.AU;
+
+describe('Tides', () => {
+  describe('calculateRocheLimit', () => {
+    it('should put Jupiter\'s Roche limit a few solar radii from the Sun', () => {
+      const limit = calculateRocheLimit(11.2, 318, 1.0) / AU_PER_SOLAR_RADIUS;
+      expect(limit).toBeGreaterThan(2);
+      expect(limit).toBeLessThan(3);
+    });
+
+    it('should be larger around more massive stars', () => {
+      expect(calculateRocheLimit(1, 1, 8)).toBeCloseTo(calculateRocheLimit(1, 1, 1) * 2, 10);
+    });
+  });
+
+  describe('calculateTidalReach', () => {
+    it('should extend beyond the stellar surface', () => {
+      expect(calculateTidalReach(100)).toBeGreaterThan(100 * AU_PER_SOLAR_RADIUS);
+    });
+  });
+
+  describe('determinePlanetFate', () => {
+    it('should let distant planets survive', () => {
+      expect(determinePlanetFate(1.0, 1, 1, 1, 1)).toBeNull();
+    });
+
+    it('should engulf planets inside the stellar radius', () => {
+      // A 250 R☉ giant reaches past 1 AU
+      expect(determinePlanetFate(1.0, 1, 1, 250, 1)).toBe(PlanetFate.ENGULFED);
+    });
+
+    it('should engulf planets within the tidal reach of a giant', () => {
+      // 150 R☉ ≈ 0.7 AU, tidal reach ≈ 1.4 AU
+      expect(determinePlanetFate(1.0, 1, 1, 150, 1)).toBe(PlanetFate.ENGULFED);
+    });
+
+    it('should tidally disrupt planets approaching a compact star', () => {
+      // White dwarf radius is far inside the Roche limit
+      expect(determinePlanetFate(0.003, 1, 1, 0.0125, 0.6)).toBe(PlanetFate.TIDALLY_DISRUPTED);
+    });
+  });
+
+  describe('calculateOrbitalAngularMomentum', () => {
+    it('should equal m × 2π for an Earth-like orbit in solar units', () => {
+      const planetMass = 3e-6;
+      const momentum = calculateOrbitalAngularMomentum(planetMass, 1, 1, 0);
+      expect(momentum / planetMass).toBeCloseTo(2 * Math.PI, 4);
+    });
+
+    it('should decrease with eccentricity', () => {
+      expect(calculateOrbitalAngularMomentum(1e-3, 1, 5, 0.5))
+        .toBeLessThan(calculateOrbitalAngularMomentum(1e-3, 1, 5, 0));
+    });
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Star-planet tidal interaction functions
+ * Roche limits, tidal reach of expanding stars and planet engulfment
+ */
+
+import {
+  PHYSICS_CONSTANTS,
+  TIDAL_CONSTANTS,
+  NBODY_CONSTANTS,
+} from '../constants/physics';
+import { PlanetFate } from '../types/core';
+
+/**
+ * Calculate the distance at which a star tears a planet apart
+ * Fluid-body Roche limit: d = 2.44 R_p (M_* / M_p)^(1/3)
+ * @param planetRadius - Planet radius in Earth radii
+ * @param planetMass - Planet mass in Earth masses
+ * @param starMass - Star mass in solar masses
+ * @returns Roche limit in AU
+ */
+export function calculateRocheLimit(
+  planetRadius: number,
+  planetMass: number,
+  starMass: number
+): number {
+  if (planetMass <= 0) {
+    return 0;
+  }
+  const { EARTH_RADIUS, EARTH_MASS, SOLAR_MASS, AU } = PHYSICS_CONSTANTS;
+  const massRatio = (starMass * SOLAR_MASS) / (planetMass * EARTH_MASS);
+  return TIDAL_CONSTANTS.ROCHE_COEFFICIENT * planetRadius * EARTH_RADIUS *
+    Math.cbrt(massRatio) / AU;
+}
+
+/**
+ * Calculate how far tides of a star drag planets inwards
+ * Tidal torques from an extended envelope shrink orbits within a few
+ * stellar radii until the planet is swallowed
+ * @param stellarRadius - Star radius in solar radii
+ * @returns Tidal reach in AU
+ */
+export function calculateTidalReach(stellarRadius: number): number {
+  return TIDAL_CONSTANTS.TIDAL_REACH_FACTOR * stellarRadius *
+    PHYSICS_CONSTANTS.SOLAR_RADIUS / PHYSICS_CONSTANTS.AU;
+}
+
+/**
+ * Determine whether a planet survives its host star
+ * @param periastron - Closest approach to the star in AU
+ * @param planetRadius - Planet radius in Earth radii
+ * @param planetMass - Planet mass in Earth masses
+ * @param starRadius - Star radius in solar radii
+ * @param starMass - Star mass in solar masses
+ * @returns How the planet is destroyed, or null if it survives
+ */
+export function determinePlanetFate(
+  periastron: number,
+  planetRadius: number,
+  planetMass: number,
+  starRadius: number,
+  starMass: number
+): PlanetFate | null {
+  const stellarRadiusAU = starRadius * PHYSICS_CONSTANTS.SOLAR_RADIUS / PHYSICS_CONSTANTS.AU;
+
+  if (periastron <= stellarRadiusAU) {
+    return PlanetFate.ENGULFED;
+  }
+  if (periastron <= calculateRocheLimit(planetRadius, planetMass, starMass)) {
+    return PlanetFate.TIDALLY_DISRUPTED;
+  }
+  if (periastron <= calculateTidalReach(starRadius)) {
+    return PlanetFate.ENGULFED;
+  }
+  return null;
+}
+
+/**
+ * Calculate the orbital angular momentum of a planet
+ * L = m √(G M a (1 − e²))
+ * @param planetMass - Planet mass in solar masses
+ * @param starMass - Star mass in solar masses
+ * @param semiMajorAxis - Semi-major axis in AU
+ * @param eccentricity - Orbital eccentricity
+ * @returns Angular momentum in M☉⋅AU²/yr
+ */
+export function calculateOrbitalAngularMomentum(
+  planetMass: number,
+  starMass: number,
+  semiMajorAxis: number,
+  eccentricity: number
+): number {
+  const G = NBODY_CONSTANTS.GRAVITATIONAL_CONSTANT;
+  const semiLatusRectum = semiMajorAxis * Math.max(1 - eccentricity * eccentricity, 0);
+  return planetMass * Math.sqrt(G * (starMass + planetMass) * semiLatusRectum);
+}
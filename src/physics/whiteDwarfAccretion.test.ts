@@ -0,0 +1,59 @@
+/**
+ * Unit tests for accreting white dwarfs
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  calculateNovaIgnitionMass,
+  calculateSteadyBurningRates,
+  determineAccretionRegime,
+  calculateNovaEjectedMass,
+  reachesTypeIaIgnition,
+} from './whiteDwarfAccretion';
+import { calculateWhiteDwarfRadius } from './remnants';
+import { WhiteDwarfAccretionRegime } from '../types/core';
+
+describe('White Dwarf Accretion', () => {
+  describe('calculateNovaIgnitionMass', () => {
+    it('should need about 10⁻⁴ M☉ of hydrogen on a 1 M☉ white dwarf', () => {
+      const ignitionMass = calculateNovaIgnitionMass(1.0, calculateWhiteDwarfRadius(1.0));
+      expect(ignitionMass).toBeGreaterThan(1e-5);
+      expect(ignitionMass).toBeLessThan(1e-3);
+    });
+
+    it('should ignite smaller layers on heavier, more compact white dwarfs', () => {
+      expect(calculateNovaIgnitionMass(1.3, calculateWhiteDwarfRadius(1.3))).toBeLessThan(
+        calculateNovaIgnitionMass(0.7, calculateWhiteDwarfRadius(0.7)) / 10
+      );
+    });
+  });
+
+  describe('calculateSteadyBurningRates', () => {
+    it('should give a window of a few 10⁻⁷ M☉/yr for a 1 M☉ white dwarf', () => {
+      const { lower, upper } = calculateSteadyBurningRates(1.0);
+      expect(upper).toBeCloseTo(3.7e-7, 8);
+      expect(lower).toBeCloseTo(upper / 2, 12);
+    });
+  });
+
+  describe('determineAccretionRegime', () => {
+    it('should classify rates below, inside and above the steady-burning window', () => {
+      expect(determineAccretionRegime(1e-9, 1.0)).toBe(WhiteDwarfAccretionRegime.NOVA);
+      expect(determineAccretionRegime(3e-7, 1.0)).toBe(WhiteDwarfAccretionRegime.STEADY);
+      expect(determineAccretionRegime(1e-5, 1.0)).toBe(WhiteDwarfAccretionRegime.WIND);
+    });
+  });
+
+  describe('calculateNovaEjectedMass', () => {
+    it('should blow off most of the ignited layer', () => {
+      expect(calculateNovaEjectedMass(1e-4)).toBeCloseTo(0.9e-4, 12);
+    });
+  });
+
+  describe('reachesTypeIaIgnition', () => {
+    it('should ignite just below the Chandrasekhar mass', () => {
+      expect(reachesTypeIaIgnition(1.37)).toBe(false);
+      expect(reachesTypeIaIgnition(1.38)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Unit tests for white dwarf cooling
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  calculateMestelLuminosity,
+  calculateMestelCoolingAge,
+  calculateWhiteDwarfCoreTemperature,
+  calculateCrystallizationTemperature,
+  calculateCrystallizationOnsetAge,
+  calculateWhiteDwarfCooling,
+} from './whiteDwarfCooling';
+
+describe('White Dwarf Cooling', () => {
+  describe('calculateMestelLuminosity', () => {
+    it('should fade as t^(-7/5)', () => {
+      const young = calculateMestelLuminosity(0.6, 1e8);
+      const old = calculateMestelLuminosity(0.6, 1e9);
+      expect(young / old).toBeCloseTo(Math.pow(10, 1.4), 6);
+    });
+
+    it('should reach about 10⁻³ L☉ after a billion years', () => {
+      const luminosity = calculateMestelLuminosity(0.6, 1e9);
+      expect(luminosity).toBeGreaterThan(3e-4);
+      expect(luminosity).toBeLessThan(3e-3);
+    });
+
+    it('should stay finite at formation', () => {
+      expect(Number.isFinite(calculateMestelLuminosity(0.6, 0))).toBe(true);
+      expect(calculateMestelLuminosity(0.6, 0)).toBeGreaterThan(calculateMestelLuminosity(0.6, 1e6));
+    });
+  });
+
+  describe('calculateMestelCoolingAge', () => {
+    it('should invert the Mestel luminosity', () => {
+      const luminosity = calculateMestelLuminosity(0.8, 2e9);
+      expect(calculateMestelCoolingAge(0.8, luminosity)).toBeCloseTo(2e9, -3);
+    });
+  });
+
+  describe('calculateWhiteDwarfCoreTemperature', () => {
+    it('should give cores of a few million K at 10⁻⁴ L☉', () => {
+      const coreTemperature = calculateWhiteDwarfCoreTemperature(0.6, 1e-4);
+      expect(coreTemperature).toBeGreaterThan(2e6);
+      expect(coreTemperature).toBeLessThan(5e6);
+    });
+
+    it('should be zero for a dark white dwarf', () => {
+      expect(calculateWhiteDwarfCoreTemperature(0.6, 0)).toBe(0);
+    });
+  });
+
+  describe('crystallization', () => {
+    it('should start at a few million K in a 0.6 M☉ white dwarf', () => {
+      const temperature = calculateCrystallizationTemperature(0.6);
+      expect(temperature).toBeGreaterThan(2e6);
+      expect(temperature).toBeLessThan(6e6);
+    });
+
+    it('should start earlier and hotter in denser, more massive white dwarfs', () => {
+      expect(calculateCrystallizationTemperature(1.0)).toBeGreaterThan(calculateCrystallizationTemperature(0.6));
+      expect(calculateCrystallizationOnsetAge(1.0)).toBeLessThan(calculateCrystallizationOnsetAge(0.6));
+    });
+  });
+
+  describe('calculateWhiteDwarfCooling', () => {
+    it('should cool from a hot blue remnant to a cool dim one over Gyr', () => {
+      const young = calculateWhiteDwarfCooling(0.6, 1e6);
+      const old = calculateWhiteDwarfCooling(0.6, 1e10);
+
+      expect(young.temperature).toBeGreaterThan(50000);
+      expect(old.temperature).toBeGreaterThan(3000);
+      expect(old.temperature).toBeLessThan(6000);
+      expect(old.luminosity).toBeLessThan(young.luminosity);
+    });
+
+    it('should tie the core temperature to the luminosity', () => {
+      const state = calculateWhiteDwarfCooling(0.6, 1e9);
+      expect(state.coreTemperature).toBeCloseTo(calculateWhiteDwarfCoreTemperature(0.6, state.luminosity), 6);
+    });
+
+    it('should flag crystallization once the core is cool enough', () => {
+      const onset = calculateCrystallizationOnsetAge(0.6);
+      expect(calculateWhiteDwarfCooling(0.6, onset * 0.9).crystallized).toBe(false);
+      expect(calculateWhiteDwarfCooling(0.6, onset * 1.1).crystallized).toBe(true);
+    });
+
+    it('should keep a crystallizing white dwarf brighter than pure Mestel cooling', () => {
+      const age = calculateCrystallizationOnsetAge(0.6) + 2e9;
+      const delayed = calculateWhiteDwarfCooling(0.6, age);
+      const undelayed = calculateWhiteDwarfCooling(0.6, age, false);
+
+      expect(delayed.luminosity).toBeGreaterThan(undelayed.luminosity);
+      expect(undelayed.luminosity).toBeCloseTo(calculateMestelLuminosity(0.6, age), 12);
+    });
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * White dwarf cooling functions
+ * Mestel cooling of a degenerate core through its thin envelope, the core
+ * temperature that goes with it and the delay when the core crystallizes
+ */
+
+import {
+  PHYSICS_CONSTANTS,
+  WHITE_DWARF_COOLING_CONSTANTS,
+} from '../constants/physics';
+import { WhiteDwarfCooling } from '../types/core';
+import { calculateWhiteDwarfRadius } from './remnants';
+import { calculateTemperature } from './stellarPhysics';
+
+/**
+ * Calculate the luminosity of a white dwarf from its cooling age
+ * Mestel theory: t_cool = τ M^(5/7) L^(-5/7), so L = M (τ / t)^(7/5)
+ * @param mass - White dwarf mass in solar masses
+ * @param coolingAge - Time since the white dwarf formed in years
+ * @returns Luminosity in solar luminosities
+ */
+export function calculateMestelLuminosity(mass: number, coolingAge: number): number {
+  const { MESTEL_TIMESCALE, MINIMUM_COOLING_AGE } = WHITE_DWARF_COOLING_CONSTANTS;
+  const age = Math.max(coolingAge, MINIMUM_COOLING_AGE);
+  return mass * Math.pow(MESTEL_TIMESCALE / age, 7 / 5);
+}
+
+/**
+ * Calculate the time a white dwarf takes to cool to a given luminosity
+ * Inverse of the Mestel law
+ * @param mass - White dwarf mass in solar masses
+ * @param luminosity - Luminosity in solar luminosities
+ * @returns Cooling age in years
+ */
+export function calculateMestelCoolingAge(mass: number, luminosity: number): number {
+  if (luminosity <= 0) {
+    return Infinity;
+  }
+  return WHITE_DWARF_COOLING_CONSTANTS.MESTEL_TIMESCALE * Math.pow(mass / luminosity, 5 / 7);
+}
+
+/**
+ * Calculate the core temperature of a white dwarf from its luminosity
+ * Heat leaks from the isothermal core through a radiative envelope:
+ * L = C M T_c^(7/2)
+ * @param mass - White dwarf mass in solar masses
+ * @param luminosity - Luminosity in solar luminosities
+ * @returns Core temperature in Kelvin
+ */
+export function calculateWhiteDwarfCoreTemperature(mass: number, luminosity: number): number {
+  if (mass <= 0 || luminosity <= 0) {
+    return 0;
+  }
+  return Math.pow(luminosity / (WHITE_DWARF_COOLING_CONSTANTS.CORE_LUMINOSITY_COEFFICIENT * mass), 2 / 7);
+}
+
+/**
+ * Calculate the core temperature at which a white dwarf starts to crystallize
+ * The carbon–oxygen ions freeze once their Coulomb energy is 175 times
+ * their thermal energy, which happens at T ∝ ρ_c^(1/3)
+ * @param mass - White dwarf mass in solar masses
+ * @returns Crystallization temperature in Kelvin
+ */
+export function calculateCrystallizationTemperature(mass: number): number {
+  const { SOLAR_MASS, SOLAR_RADIUS } = PHYSICS_CONSTANTS;
+  const { CENTRAL_DENSITY_RATIO, CRYSTALLIZATION_COEFFICIENT } = WHITE_DWARF_COOLING_CONSTANTS;
+  const radius = calculateWhiteDwarfRadius(mass) * SOLAR_RADIUS;
+  const meanDensity = mass * SOLAR_MASS / (4 / 3 * Math.PI * Math.pow(radius, 3));
+  return CRYSTALLIZATION_COEFFICIENT * Math.cbrt(CENTRAL_DENSITY_RATIO * meanDensity);
+}
+
+/**
+ * Calculate the cooling age at which a white dwarf's core starts to crystallize
+ * @param mass - White dwarf mass in solar masses
+ * @returns Cooling age at the onset of crystallization in years
+ */
+export function calculateCrystallizationOnsetAge(mass: number): number {
+  const coreTemperature = calculateCrystallizationTemperature(mass);
+  const luminosity = WHITE_DWARF_COOLING_CONSTANTS.CORE_LUMINOSITY_COEFFICIENT * mass *
+    Math.pow(coreTemperature, 7 / 2);
+  return calculateMestelCoolingAge(mass, luminosity);
+}
+
+/**
+ * Calculate the state of a white dwarf after it has cooled for some time
+ * Once the core starts to crystallize, latent heat and the settling of
+ * oxygen slow the cooling: the Mestel clock runs at a reduced rate until
+ * the crystallization delay has built up. Massive white dwarfs are denser
+ * and crystallize earlier and hotter.
+ * @param mass - White dwarf mass in solar masses
+ * @param coolingAge - Time since the white dwarf formed in years
+ * @param crystallization - Whether to include the crystallization delay
+ * @returns Luminosity, effective and core temperature, and whether the core is crystallizing
+ */
+export function calculateWhiteDwarfCooling(
+  mass: number,
+  coolingAge: number,
+  crystallization: boolean = true
+): WhiteDwarfCooling {
+  const { CRYSTALLIZATION_DELAY, CRYSTALLIZATION_CLOCK_RATE } = WHITE_DWARF_COOLING_CONSTANTS;
+  const onsetAge = calculateCrystallizationOnsetAge(mass);
+  const crystallized = coolingAge >= onsetAge;
+
+  let effectiveAge = coolingAge;
+  if (crystallization && crystallized) {
+    effectiveAge -= Math.min((coolingAge - onsetAge) * (1 - CRYSTALLIZATION_CLOCK_RATE), CRYSTALLIZATION_DELAY);
+  }
+
+  const luminosity = calculateMestelLuminosity(mass, effectiveAge);
+  return {
+    luminosity,
+    temperature: calculateTemperature(luminosity, calculateWhiteDwarfRadius(mass)),
+    coreTemperature: calculateWhiteDwarfCoreTemperature(mass, luminosity),
+    crystallized,
+  };
+}
@@ -0,0 +1,111 @@
+/**
+ * Unit tests for nucleosynthetic yields
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createEmptyYields,
+  addYields,
+  scaleYields,
+  calculateYieldMass,
+  calculateGasComposition,
+  calculateGasMetallicity,
+  calculateEnvelopeYields,
+  calculateHeliumCoreYields,
+  calculateCoreCollapseYields,
+  calculateTypeIaYields,
+} from './yields';
+import { calculateInitialSurfaceComposition } from './dredgeUp';
+
+const solar = calculateInitialSurfaceComposition(1.0);
+
+describe('Yields', () => {
+  describe('addYields', () => {
+    it('should add element by element', () => {
+      const envelope = calculateEnvelopeYields(1.0, solar);
+      const sum = addYields(envelope, envelope);
+
+      expect(sum.hydrogen).toBeCloseTo(2 * envelope.hydrogen, 10);
+      expect(sum.iron).toBeCloseTo(2 * envelope.iron, 10);
+      expect(addYields(envelope, createEmptyYields())).toEqual(envelope);
+      expect(calculateYieldMass(createEmptyYields())).toBe(0);
+    });
+  });
+
+  describe('gas composition', () => {
+    it('should give back the composition and metallicity the gas was made with', () => {
+      const metalPoor = calculateInitialSurfaceComposition(0.1);
+      const gas = calculateEnvelopeYields(5.0, metalPoor);
+      const composition = calculateGasComposition(gas);
+
+      expect(calculateGasMetallicity(gas)).toBeCloseTo(0.1, 10);
+      expect(composition.hydrogen).toBeCloseTo(metalPoor.hydrogen, 10);
+      expect(composition.oxygen).toBeCloseTo(metalPoor.oxygen, 10);
+      expect(composition.heavier).toBeCloseTo(metalPoor.heavier, 10);
+      expect(calculateGasMetallicity(scaleYields(gas, 0.5))).toBeCloseTo(0.1, 10);
+    });
+
+    it('should grow richer in metals as supernova ejecta mix in', () => {
+      const gas = addYields(calculateEnvelopeYields(30.0, solar), calculateCoreCollapseYields(3.0));
+
+      expect(calculateGasMetallicity(gas)).toBeGreaterThan(1.0);
+      expect(calculateGasComposition(gas).oxygen).toBeGreaterThan(solar.oxygen);
+    });
+
+    it('should describe no gas as metal-free and empty', () => {
+      expect(calculateGasMetallicity(createEmptyYields())).toBe(0);
+      expect(calculateYieldMass(scaleYields(calculateEnvelopeYields(1.0, solar), 0))).toBe(0);
+    });
+  });
+
+  describe('calculateEnvelopeYields', () => {
+    it('should carry the surface composition', () => {
+      const yields = calculateEnvelopeYields(2.0, solar);
+
+      expect(calculateYieldMass(yields)).toBeCloseTo(2.0, 10);
+      expect(yields.hydrogen).toBeCloseTo(2.0 * solar.hydrogen, 10);
+      expect(yields.oxygen).toBeCloseTo(2.0 * solar.oxygen, 10);
+      expect(yields.neon + yields.magnesium + yields.silicon + yields.iron).toBeCloseTo(2.0 * solar.heavier, 10);
+    });
+
+    it('should return nothing when no mass is lost', () => {
+      expect(calculateEnvelopeYields(0, solar)).toEqual(createEmptyYields());
+    });
+  });
+
+  describe('calculateHeliumCoreYields', () => {
+    it('should hold CNO-processed helium without hydrogen, carbon or oxygen', () => {
+      const yields = calculateHeliumCoreYields(1.0, solar);
+
+      expect(calculateYieldMass(yields)).toBeCloseTo(1.0, 10);
+      expect(yields.hydrogen).toBe(0);
+      expect(yields.carbon).toBe(0);
+      expect(yields.oxygen).toBe(0);
+      expect(yields.nitrogen).toBeCloseTo(solar.carbon + solar.nitrogen + solar.oxygen, 10);
+    });
+  });
+
+  describe('explosive yields', () => {
+    it('should make core-collapse ejecta oxygen-rich', () => {
+      const yields = calculateCoreCollapseYields(3.0);
+
+      expect(calculateYieldMass(yields)).toBeCloseTo(3.0, 10);
+      expect(yields.hydrogen).toBe(0);
+      expect(yields.oxygen).toBeGreaterThan(yields.iron);
+    });
+
+    it('should turn most of a Type Ia white dwarf into iron', () => {
+      const yields = calculateTypeIaYields(1.4);
+
+      expect(calculateYieldMass(yields)).toBeCloseTo(1.4, 10);
+      expect(yields.hydrogen).toBe(0);
+      expect(yields.iron).toBeGreaterThan(yields.oxygen);
+      expect(yields.iron / 1.4).toBeGreaterThan(calculateCoreCollapseYields(1.4).iron / 1.4);
+    });
+
+    it('should return nothing for no ejected mass', () => {
+      expect(calculateCoreCollapseYields(0)).toEqual(createEmptyYields());
+      expect(calculateTypeIaYields(-1)).toEqual(createEmptyYields());
+    });
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * Nucleosynthetic yield functions
+ * Element masses in the material stars return to the interstellar medium:
+ * envelopes shed by winds and planetary nebulae, helium-core material
+ * peeled off Wolf–Rayet stars and the processed layers thrown out by
+ * supernovae
+ */
+
+import { YIELD_CONSTANTS, STAR_FORMATION_CONSTANTS } from '../constants/physics';
+import { ElementYields, SurfaceComposition } from '../types/core';
+import { calculateInitialCoreComposition } from './internalStructure';
+
+/**
+ * Create a yield record with no mass in any element
+ * @returns Zero yields
+ */
+export function createEmptyYields(): ElementYields {
+  return {
+    hydrogen: 0,
+    helium: 0,
+    carbon: 0,
+    nitrogen: 0,
+    oxygen: 0,
+    neon: 0,
+    magnesium: 0,
+    silicon: 0,
+    iron: 0,
+  };
+}
+
+/**
+ * Add two yield records element by element
+ * @param yields1 - First yields
+ * @param yields2 - Second yields
+ * @returns Summed yields
+ */
+export function addYields(yields1: ElementYields, yields2: ElementYields): ElementYields {
+  const sum = { ...yields1 };
+  for (const element of Object.keys(sum) as (keyof ElementYields)[]) {
+    sum[element] = yields1[element] + yields2[element];
+  }
+  return sum;
+}
+
+/**
+ * Scale every element of a yield record by the same factor
+ * @param yields - Element yields
+ * @param factor - Scale factor
+ * @returns Scaled yields
+ */
+export function scaleYields(yields: ElementYields, factor: number): ElementYields {
+  const scaled = { ...yields };
+  for (const element of Object.keys(scaled) as (keyof ElementYields)[]) {
+    scaled[element] = yields[element] * factor;
+  }
+  return scaled;
+}
+
+/**
+ * Calculate the total mass of a yield record
+ * @param yields - Element yields
+ * @returns Mass in solar masses
+ */
+export function calculateYieldMass(yields: ElementYields): number {
+  return Object.values(yields).reduce((sum, mass) => sum + mass, 0);
+}
+
+/**
+ * Calculate the mass fractions of a parcel of gas
+ * Neon and heavier elements are lumped together as in a surface composition,
+ * so stars formed from the gas can start with it at their surface
+ * @param gas - Element masses of the gas
+ * @returns Mass fractions (all zero for no gas)
+ */
+export function calculateGasComposition(gas: ElementYields): SurfaceComposition {
+  const mass = calculateYieldMass(gas);
+  if (mass <= 0) {
+    return { hydrogen: 0, helium: 0, carbon: 0, nitrogen: 0, oxygen: 0, heavier: 0 };
+  }
+  return {
+    hydrogen: gas.hydrogen / mass,
+    helium: gas.helium / mass,
+    carbon: gas.carbon / mass,
+    nitrogen: gas.nitrogen / mass,
+    oxygen: gas.oxygen / mass,
+    heavier: (gas.neon + gas.magnesium + gas.silicon + gas.iron) / mass,
+  };
+}
+
+/**
+ * Calculate the metallicity of a parcel of gas
+ * Everything heavier than helium counts as metals, relative to the metal
+ * fraction of solar gas in the initial compositions
+ * @param gas - Element masses of the gas
+ * @returns Metallicity relative to solar (Z☉), 0 for no gas
+ */
+export function calculateGasMetallicity(gas: ElementYields): number {
+  const mass = calculateYieldMass(gas);
+  if (mass <= 0) {
+    return 0;
+  }
+  const metals = mass - gas.hydrogen - gas.helium;
+  return metals / mass / STAR_FORMATION_CONSTANTS.SOLAR_METAL_FRACTION;
+}
+
+/**
+ * Split neon and heavier elements in their initial proportions
+ * Dredge-ups leave them untouched, so they keep the star's birth ratios
+ */
+function splitHeavierElements(heavier: number): Pick<ElementYields, 'neon' | 'magnesium' | 'silicon' | 'iron'> {
+  const { neon, magnesium, silicon, iron } = calculateInitialCoreComposition(1.0);
+  const total = neon + magnesium + silicon + iron;
+  return {
+    neon: heavier * neon / total,
+    magnesium: heavier * magnesium / total,
+    silicon: heavier * silicon / total,
+    iron: heavier * iron / total,
+  };
+}
+
+/**
+ * Calculate the yields of envelope material
+ * Winds, planetary nebulae and the outer layers of supernova progenitors
+ * carry the star's surface composition
+ * @param mass - Ejected envelope mass in solar masses
+ * @param composition - Surface composition of the star
+ * @returns Element yields
+ */
+export function calculateEnvelopeYields(mass: number, composition: SurfaceComposition): ElementYields {
+  if (mass <= 0) {
+    return createEmptyYields();
+  }
+  return {
+    hydrogen: mass * composition.hydrogen,
+    helium: mass * composition.helium,
+    carbon: mass * composition.carbon,
+    nitrogen: mass * composition.nitrogen,
+    oxygen: mass * composition.oxygen,
+    ...splitHeavierElements(mass * composition.heavier),
+  };
+}
+
+/**
+ * Calculate the yields of helium-core material lost to winds
+ * Hydrogen burning has turned the core's hydrogen into helium and, in the
+ * CNO cycle, nearly all its carbon and oxygen into nitrogen, which is what
+ * the winds of nitrogen-rich Wolf–Rayet stars show
+ * @param mass - Ejected core mass in solar masses
+ * @param composition - Surface composition the core material started with
+ * @returns Element yields
+ */
+export function calculateHeliumCoreYields(mass: number, composition: SurfaceComposition): ElementYields {
+  if (mass <= 0) {
+    return createEmptyYields();
+  }
+  return {
+    hydrogen: 0,
+    helium: mass * (composition.hydrogen + composition.helium),
+    carbon: 0,
+    nitrogen: mass * (composition.carbon + composition.nitrogen + composition.oxygen),
+    oxygen: 0,
+    ...splitHeavierElements(mass * composition.heavier),
+  };
+}
+
+/**
+ * Calculate the yields of core material thrown out by a core-collapse supernova
+ * The ejected layers of the helium core are dominated by oxygen, with the
+ * iron coming from ⁵⁶Ni made in the explosion
+ * @param mass - Ejected core mass (helium core minus remnant) in solar masses
+ * @returns Element yields
+ */
+export function calculateCoreCollapseYields(mass: number): ElementYields {
+  if (mass <= 0) {
+    return createEmptyYields();
+  }
+  return { ...createEmptyYields(), ...scaleFractions(YIELD_CONSTANTS.CORE_COLLAPSE_EJECTA, mass) };
+}
+
+/**
+ * Calculate the yields of a Type Ia supernova
+ * The white dwarf is incinerated: most of it becomes iron-peak elements
+ * and intermediate-mass elements such as silicon, and a little carbon and
+ * oxygen escape unburned
+ * @param mass - White dwarf mass in solar masses
+ * @returns Element yields
+ */
+export function calculateTypeIaYields(mass: number): ElementYields {
+  if (mass <= 0) {
+    return createEmptyYields();
+  }
+  return { ...createEmptyYields(), ...scaleFractions(YIELD_CONSTANTS.TYPE_IA_EJECTA, mass) };
+}
+
+/**
+ * Turn mass fractions into element masses
+ */
+function scaleFractions(fractions: Partial<ElementYields>, mass: number): Partial<ElementYields> {
+  const masses: Partial<ElementYields> = {};
+  for (const element of Object.keys(fractions) as (keyof ElementYields)[]) {
+    masses[element] = (fractions[element] ?? 0) * mass;
+  }
+  return masses;
+}
@@ -7,13 +7,20 @@ import {
   exportStellarPropertiesToCSV,
   exportOrbitalParametersToCSV,
   exportTimeSeriesDataToCSV,
+  exportPlanetHistoryToCSV,
+  exportEventsToCSV,
   exportSystemToCSV,
+  exportBrownDwarfsToCSV,
+  exportInterstellarMediumToCSV,
+  exportStellarGenerationsToCSV,
+  exportRadialProfilesToCSV,
+  exportPreMainSequenceTracksToCSV,
   generateFilename,
   createCSVBlob,
   createJSONBlob,
   ExportFormat,
 } from './dataExport';
-import { StarSystem, Star, Planet, EvolutionPhase, SpectralType, PlanetComposition, NuclearReaction } from '../types/core';
+import { StarSystem, Star, Planet, EvolutionPhase, SpectralType, PlanetComposition, NuclearReaction, HistorySnapshot, SimulationEventType, BrownDwarf, SubstellarSpectralType, StructureModel, ZoneType, DredgeUp } from '../types/core';
 
 describe('Data Export Service', () => {
   // Create a mock star system for testing
@@ -21,6 +28,7 @@ describe('Data Export Service', () => {
     id: 'star-1',
     name: 'Test Star',
     mass: 1.0,
+    initialMass: 1.0,
     radius: 1.0,
     luminosity: 1.0,
     temperature: 5778,
@@ -56,8 +64,10 @@ describe('Data Export Service', () => {
       },
       layerStructure: {
         coreRadius: 0.25,
-        radiativeZoneRadius: 0.7,
-        convectiveZoneRadius: 1.0,
+        zones: [
+          { type: ZoneType.RADIATIVE, innerRadius: 0, outerRadius: 0.7 },
+          { type: ZoneType.CONVECTIVE, innerRadius: 0.7, outerRadius: 1.0 },
+        ],
       },
     },
   };
@@ -122,6 +132,29 @@ describe('Data Export Service', () => {
       expect(dataRow).toContain('star-1');
       expect(dataRow).toContain('main_sequence');
     });
+
+    it('should export surface abundances and dredge-ups', () => {
+      const giant: Star = {
+        ...mockStar,
+        evolutionPhase: EvolutionPhase.ASYMPTOTIC_GIANT,
+        surfaceComposition: {
+          hydrogen: 0.69,
+          helium: 0.29,
+          carbon: 0.012,
+          nitrogen: 0.002,
+          oxygen: 0.006,
+          heavier: 0,
+        },
+        dredgeUps: [DredgeUp.FIRST, DredgeUp.THIRD],
+      };
+      const lines = exportStellarPropertiesToCSV({ ...mockSystem, stars: [giant, mockStar] }, false).split('\n');
+
+      expect(lines[0]).toContain('Surface C/O');
+      expect(lines[0]).toContain('Dredge-Ups');
+      expect(lines[1]).toContain('2.667');
+      expect(lines[1]).toContain('first third');
+      expect(lines[2]).toMatch(/,,,,,,,$/);
+    });
   });
 
   describe('exportOrbitalParametersToCSV', () => {
@@ -177,6 +210,53 @@ describe('Data Export Service', () => {
       
       expect(csv).toContain('4.6000e+9'); // System age in scientific notation
     });
+
+    it('should export one row per star per selected history snapshot', () => {
+      const history: HistorySnapshot[] = [0, 5e5, 1e6, 2e6, 2.5e6].map(time => ({
+        time,
+        stars: [{
+          time,
+          starId: 'star-1',
+          mass: 1.0,
+          radius: 1.0,
+          luminosity: 1.0,
+          temperature: 5778,
+          evolutionPhase: EvolutionPhase.MAIN_SEQUENCE,
+          coreComposition: mockStar.internalStructure.coreComposition,
+          coreTemperature: 1.5e7,
+        }],
+        planets: [{ time, planetId: 'planet-1', position: { x: 1, y: 0, z: 0 } }],
+      }));
+      
+      const rows = exportTimeSeriesDataToCSV(mockSystem, 1e6, false, history)
+        .split('\n')
+        .slice(1);
+      
+      // 0, 1e6 and 2e6 are spaced by the interval; the latest sample is always kept
+      expect(rows.map(row => row.split(',')[0])).toEqual([
+        '0.0000e+0', '1.0000e+6', '2.0000e+6', '2.5000e+6',
+      ]);
+      expect(rows[0]).toContain('star-1,Test Star');
+      
+      const planetCSV = exportPlanetHistoryToCSV(mockSystem, history, 1e6, false);
+      expect(planetCSV).toContain('Planet ID');
+      expect(planetCSV).toContain('2.5000e+6,planet-1,Test Planet,1.0000,0.0000,0.0000');
+    });
+  });
+
+  describe('exportEventsToCSV', () => {
+    it('should export one row per event with a description', () => {
+      const csv = exportEventsToCSV(mockSystem, [{
+        type: SimulationEventType.PHASE_CHANGE,
+        time: 1e10,
+        starId: 'star-1',
+        previousPhase: EvolutionPhase.MAIN_SEQUENCE,
+        newPhase: EvolutionPhase.RED_GIANT,
+      }], false);
+      
+      expect(csv).toContain('Time (years),Event Type,Body ID,Description');
+      expect(csv).toContain('1.0000e+10,phase_change,star-1,"Test Star enters red giant phase"');
+    });
   });
 
   describe('exportSystemToCSV', () => {
@@ -217,6 +297,161 @@ describe('Data Export Service', () => {
     });
   });
 
+  describe('exportBrownDwarfsToCSV', () => {
+    const mockBrownDwarf: BrownDwarf = {
+      id: 'browndwarf-1',
+      name: 'Brown Dwarf 1',
+      mass: 0.05,
+      radius: 0.11,
+      luminosity: 4e-5,
+      temperature: 1200,
+      age: 1e9,
+      metallicity: 1.0,
+      spectralType: SubstellarSpectralType.T,
+      deuteriumFraction: 0,
+      hostId: 'star-1',
+      semiMajorAxis: 50,
+      eccentricity: 0.2,
+      orbitalPeriod: 350,
+      position: { x: 50, y: 0, z: 0 },
+    };
+    const systemWithBrownDwarf: StarSystem = { ...mockSystem, brownDwarfs: [mockBrownDwarf] };
+
+    it('should export brown dwarf properties', () => {
+      const csv = exportBrownDwarfsToCSV(systemWithBrownDwarf, false);
+      const lines = csv.split('\n');
+
+      expect(lines[0]).toContain('Spectral Type');
+      expect(lines[1]).toContain('browndwarf-1');
+      expect(lines[1]).toContain(',T,');
+    });
+
+    it('should add brown dwarfs to the complete system export', () => {
+      const options = { format: ExportFormat.CSV, includeMetadata: true, includeTimeSeries: false };
+
+      expect(exportSystemToCSV(systemWithBrownDwarf, options)).toContain('# BROWN DWARFS');
+      expect(exportSystemToCSV(mockSystem, options)).not.toContain('# BROWN DWARFS');
+    });
+
+    it('should list brown dwarf orbits with the orbital parameters', () => {
+      const csv = exportOrbitalParametersToCSV(systemWithBrownDwarf, false);
+
+      expect(csv).toContain('browndwarf-1,Brown Dwarf 1,Brown Dwarf');
+    });
+  });
+
+  describe('exportStellarGenerationsToCSV', () => {
+    const composition = {
+      hydrogen: 0.73, helium: 0.25, carbon: 0.006, nitrogen: 0.0014, oxygen: 0.01, heavier: 0.0026,
+    };
+    const systemWithGenerations: StarSystem = {
+      ...mockSystem,
+      stars: [{ ...mockStar, generation: 2 }],
+      generations: [
+        { generation: 1, time: 0, metallicity: 1.0, composition, gasMass: 10, starIds: ['star-0'], stellarMass: 3 },
+        { generation: 2, time: 1e9, metallicity: 1.2, composition, gasMass: 7.5, starIds: ['star-1'], stellarMass: 2.2 },
+      ],
+      gasReservoir: {
+        hydrogen: 3.6, helium: 1.5, carbon: 0.03, nitrogen: 0.01, oxygen: 0.06,
+        neon: 0.01, magnesium: 0.005, silicon: 0.004, iron: 0.001,
+      },
+    };
+
+    it('should list each generation and the remaining gas', () => {
+      const lines = exportStellarGenerationsToCSV(systemWithGenerations, false).split('\n');
+
+      expect(lines[0]).toContain('Gas C/O');
+      expect(lines[2]).toMatch(/^2,1\.0000e\+9,1\.2000,7\.5000,1,2\.2000,/);
+      expect(lines[3]).toMatch(/^reservoir,4\.6000e\+9,/);
+    });
+
+    it('should tag stars with their generation and add the section to the complete export', () => {
+      const options = { format: ExportFormat.CSV, includeMetadata: true, includeTimeSeries: false };
+      const stellar = exportStellarPropertiesToCSV(systemWithGenerations, false).split('\n');
+
+      expect(stellar[0].endsWith(',Generation')).toBe(true);
+      expect(stellar[1].endsWith(',2')).toBe(true);
+      expect(exportSystemToCSV(systemWithGenerations, options)).toContain('# STELLAR GENERATIONS');
+      expect(exportSystemToCSV(mockSystem, options)).not.toContain('# STELLAR GENERATIONS');
+    });
+  });
+
+  describe('exportInterstellarMediumToCSV', () => {
+    const ejecta = {
+      hydrogen: 0.5, helium: 0.3, carbon: 0.05, nitrogen: 0.01, oxygen: 0.1,
+      neon: 0.02, magnesium: 0.01, silicon: 0.005, iron: 0.005,
+    };
+    const enrichedSystem: StarSystem = {
+      ...mockSystem,
+      stars: [{ ...mockStar, ejecta }],
+      interstellarMedium: ejecta,
+    };
+
+    it('should list each element for the system and each star', () => {
+      const lines = exportInterstellarMediumToCSV(enrichedSystem, false).split('\n');
+
+      expect(lines[0]).toBe('Element,Interstellar Medium (M☉),Test Star Ejecta (M☉)');
+      expect(lines[1]).toBe('hydrogen,5.0000e-1,5.0000e-1');
+      expect(lines[lines.length - 1]).toBe('total,1.0000e+0,1.0000e+0');
+    });
+
+    it('should add the interstellar medium to the complete system export', () => {
+      const options = { format: ExportFormat.CSV, includeMetadata: true, includeTimeSeries: false };
+
+      expect(exportSystemToCSV(enrichedSystem, options)).toContain('# INTERSTELLAR MEDIUM');
+      expect(exportSystemToCSV(mockSystem, options)).not.toContain('# INTERSTELLAR MEDIUM');
+    });
+  });
+
+  describe('exportRadialProfilesToCSV', () => {
+    const composition = mockStar.internalStructure.coreComposition;
+    const starWithProfile: Star = {
+      ...mockStar,
+      radialProfile: {
+        model: StructureModel.POLYTROPE,
+        polytropicIndex: 3,
+        points: [
+          { radius: 0, temperature: 1.5e7, density: 1.5e5, pressure: 2.4e16, enclosedMass: 0, luminosity: 0, composition },
+          { radius: 1, temperature: 5778, density: 0, pressure: 0, enclosedMass: 1, luminosity: 1, composition },
+        ],
+      },
+    };
+    const systemWithProfile: StarSystem = { ...mockSystem, stars: [starWithProfile] };
+
+    it('should export one row per profile point', () => {
+      const lines = exportRadialProfilesToCSV(systemWithProfile, false).split('\n');
+
+      expect(lines[0]).toContain('Enclosed Mass (M☉)');
+      expect(lines).toHaveLength(3);
+      expect(lines[1]).toContain('star-1,Test Star,polytrope,');
+    });
+
+    it('should add radial profiles to the complete system export', () => {
+      const options = { format: ExportFormat.CSV, includeMetadata: true, includeTimeSeries: false };
+
+      expect(exportSystemToCSV(systemWithProfile, options)).toContain('# RADIAL PROFILES');
+      expect(exportSystemToCSV(mockSystem, options)).not.toContain('# RADIAL PROFILES');
+    });
+  });
+
+  describe('exportPreMainSequenceTracksToCSV', () => {
+    it('should export the track from birth to the main sequence', () => {
+      const lines = exportPreMainSequenceTracksToCSV(mockSystem, false).split('\n');
+
+      expect(lines[0]).toBe('Star ID,Star Name,Age (years),Luminosity (L☉),Radius (R☉),Temperature (K)');
+      expect(lines).toHaveLength(51);
+      expect(lines[1]).toMatch(/^star-1,Test Star,0\.0000e\+0,/);
+      // Stars contract towards the main sequence
+      expect(Number(lines[50].split(',')[4])).toBeLessThan(Number(lines[1].split(',')[4]));
+    });
+
+    it('should add the tracks to the complete system export', () => {
+      const options = { format: ExportFormat.CSV, includeMetadata: true, includeTimeSeries: false };
+
+      expect(exportSystemToCSV(mockSystem, options)).toContain('# PRE-MAIN-SEQUENCE TRACKS');
+    });
+  });
+
   describe('generateFilename', () => {
     it('should generate filename with timestamp', () => {
       const filename = generateFilename('test_export', 'csv');
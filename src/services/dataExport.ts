@@ -3,7 +3,11 @@
  * Handles exporting simulation data to various formats (CSV, JSON)
  */
 
-import { StarSystem, Star } from '../types/core';
+import { StarSystem, Star, HistorySnapshot, StarHistorySample, SimulationEvent, SurfaceComposition, ElementYields } from '../types/core';
+import { describeSimulationEvent } from '../simulation/SimulationEvents';
+import { calculateCarbonToOxygenRatio, calculateNitrogenToCarbonRatio } from '../physics/dredgeUp';
+import { createEmptyYields, calculateYieldMass, calculateGasComposition, calculateGasMetallicity } from '../physics/yields';
+import { calculatePreMainSequenceTrack } from '../physics/preMainSequence';
 
 /**
  * Export format options
@@ -21,8 +25,40 @@ export interface ExportOptions {
   includeTimeSeries?: boolean;
   timeSeriesInterval?: number; // Years between data points
   includeMetadata?: boolean;
+  history?: HistorySnapshot[]; // Recorded simulation history for time-series exports
+  events?: SimulationEvent[];  // Events emitted during the simulation
 }
 
+/**
+ * Convert a surface composition to CSV cells (H, He, C, N, O, C/O and N/C)
+ * Stars without a recorded surface composition get empty cells
+ */
+function surfaceCompositionToCSVCells(composition: SurfaceComposition | undefined): string[] {
+  if (!composition) {
+    return ['', '', '', '', '', '', ''];
+  }
+  return [
+    composition.hydrogen.toFixed(4),
+    composition.helium.toFixed(4),
+    composition.carbon.toExponential(4),
+    composition.nitrogen.toExponential(4),
+    composition.oxygen.toExponential(4),
+    calculateCarbonToOxygenRatio(composition).toFixed(3),
+    calculateNitrogenToCarbonRatio(composition).toFixed(3),
+  ];
+}
+
+// Header cells matching surfaceCompositionToCSVCells
+const SURFACE_COMPOSITION_HEADERS = [
+  'Surface H',
+  'Surface He',
+  'Surface C',
+  'Surface N',
+  'Surface O',
+  'Surface C/O',
+  'Surface N/C',
+];
+
 /**
  * Convert a star to CSV row format
  */
@@ -31,6 +67,7 @@ function starToCSVRow(star: Star): string {
     star.id,
     star.name,
     star.mass.toFixed(4),
+    star.initialMass.toFixed(4),
     star.radius.toFixed(4),
     star.luminosity.toFixed(4),
     star.temperature.toFixed(2),
@@ -42,6 +79,9 @@ function starToCSVRow(star: Star): string {
     star.position.x.toFixed(4),
     star.position.y.toFixed(4),
     star.position.z.toFixed(4),
+    ...surfaceCompositionToCSVCells(star.surfaceComposition),
+    (star.dredgeUps ?? []).join(' '),
+    star.generation ?? '',
   ].join(',');
 }
 
@@ -57,6 +97,9 @@ function generateMetadataCSV(system: StarSystem): string {
   metadata.push(`# Initial Cloud Mass: ${system.initialCloudParameters.mass.toFixed(4)} M☉`);
   metadata.push(`# Initial Metallicity: ${system.initialCloudParameters.metallicity.toFixed(4)} Z☉`);
   metadata.push(`# Initial Angular Momentum: ${system.initialCloudParameters.angularMomentum.toExponential(4)} kg⋅m²/s`);
+  if (system.initialCloudParameters.seed !== undefined) {
+    metadata.push(`# Random Seed: ${system.initialCloudParameters.seed}`);
+  }
   metadata.push('');
   return metadata.join('\n');
 }
@@ -83,6 +126,7 @@ export function exportStellarPropertiesToCSV(
     'ID',
     'Name',
     'Mass (M☉)',
+    'Initial Mass (M☉)',
     'Radius (R☉)',
     'Luminosity (L☉)',
     'Temperature (K)',
@@ -94,6 +138,9 @@ export function exportStellarPropertiesToCSV(
     'Position X (AU)',
     'Position Y (AU)',
     'Position Z (AU)',
+    ...SURFACE_COMPOSITION_HEADERS,
+    'Dredge-Ups',
+    'Generation',
   ].join(','));
   
   // Add data rows
@@ -151,22 +198,344 @@ export function exportOrbitalParametersToCSV(
     ].join(','));
   }
   
+  // Add brown dwarf data rows
+  for (const brownDwarf of system.brownDwarfs ?? []) {
+    lines.push([
+      brownDwarf.id,
+      brownDwarf.name,
+      'Brown Dwarf',
+      brownDwarf.semiMajorAxis.toFixed(4),
+      brownDwarf.eccentricity.toFixed(4),
+      brownDwarf.orbitalPeriod.toFixed(4),
+      brownDwarf.hostId ?? '',
+      brownDwarf.position.x.toFixed(4),
+      brownDwarf.position.y.toFixed(4),
+      brownDwarf.position.z.toFixed(4),
+    ].join(','));
+  }
+  
+  return lines.join('\n');
+}
+
+/**
+ * Export brown dwarf properties to CSV format
+ * @param system - Star system to export
+ * @param includeMetadata - Whether to include metadata header
+ * @returns CSV string with brown dwarf data
+ */
+export function exportBrownDwarfsToCSV(
+  system: StarSystem,
+  includeMetadata: boolean = true
+): string {
+  const lines: string[] = [];
+  
+  if (includeMetadata) {
+    lines.push(generateMetadataCSV(system));
+  }
+  
+  lines.push([
+    'ID',
+    'Name',
+    'Mass (M☉)',
+    'Radius (R☉)',
+    'Luminosity (L☉)',
+    'Temperature (K)',
+    'Age (years)',
+    'Metallicity (Z☉)',
+    'Spectral Type',
+    'Deuterium Remaining',
+  ].join(','));
+  
+  for (const brownDwarf of system.brownDwarfs ?? []) {
+    lines.push([
+      brownDwarf.id,
+      brownDwarf.name,
+      brownDwarf.mass.toFixed(4),
+      brownDwarf.radius.toFixed(4),
+      brownDwarf.luminosity.toExponential(4),
+      brownDwarf.temperature.toFixed(2),
+      brownDwarf.age.toExponential(4),
+      brownDwarf.metallicity.toFixed(4),
+      brownDwarf.spectralType,
+      brownDwarf.deuteriumFraction.toFixed(4),
+    ].join(','));
+  }
+  
+  return lines.join('\n');
+}
+
+/**
+ * Export the system's star-formation generations to CSV format
+ * One row per generation with the composition of the gas it formed from,
+ * followed by the gas still in the reservoir
+ * @param system - Star system to export
+ * @param includeMetadata - Whether to include metadata header
+ * @returns CSV string with generation data
+ */
+export function exportStellarGenerationsToCSV(
+  system: StarSystem,
+  includeMetadata: boolean = true
+): string {
+  const lines: string[] = [];
+  
+  if (includeMetadata) {
+    lines.push(generateMetadataCSV(system));
+  }
+  
+  lines.push([
+    'Generation',
+    'Time (years)',
+    'Metallicity (Z☉)',
+    'Gas Mass (M☉)',
+    'Stars',
+    'Stellar Mass (M☉)',
+    ...SURFACE_COMPOSITION_HEADERS.map(header => header.replace('Surface', 'Gas')),
+  ].join(','));
+  
+  for (const generation of system.generations ?? []) {
+    lines.push([
+      generation.generation,
+      generation.time.toExponential(4),
+      generation.metallicity.toFixed(4),
+      generation.gasMass.toFixed(4),
+      generation.starIds.length,
+      generation.stellarMass.toFixed(4),
+      ...surfaceCompositionToCSVCells(generation.composition),
+    ].join(','));
+  }
+  
+  if (system.gasReservoir) {
+    lines.push([
+      'reservoir',
+      system.age.toExponential(4),
+      calculateGasMetallicity(system.gasReservoir).toFixed(4),
+      calculateYieldMass(system.gasReservoir).toFixed(4),
+      '',
+      '',
+      ...surfaceCompositionToCSVCells(calculateGasComposition(system.gasReservoir)),
+    ].join(','));
+  }
+  
+  return lines.join('\n');
+}
+
+/**
+ * Export the elements returned to the interstellar medium to CSV format
+ * One row per element: the system total followed by each star's ejecta
+ * @param system - Star system to export
+ * @param includeMetadata - Whether to include metadata header
+ * @returns CSV string with element masses
+ */
+export function exportInterstellarMediumToCSV(
+  system: StarSystem,
+  includeMetadata: boolean = true
+): string {
+  const lines: string[] = [];
+  
+  if (includeMetadata) {
+    lines.push(generateMetadataCSV(system));
+  }
+  
+  const ejectors = system.stars.filter(star => star.ejecta);
+  lines.push([
+    'Element',
+    'Interstellar Medium (M☉)',
+    ...ejectors.map(star => `${star.name} Ejecta (M☉)`),
+  ].join(','));
+  
+  const ledger = system.interstellarMedium ?? createEmptyYields();
+  for (const element of Object.keys(ledger) as (keyof ElementYields)[]) {
+    lines.push([
+      element,
+      ledger[element].toExponential(4),
+      ...ejectors.map(star => star.ejecta![element].toExponential(4)),
+    ].join(','));
+  }
+  lines.push([
+    'total',
+    calculateYieldMass(ledger).toExponential(4),
+    ...ejectors.map(star => calculateYieldMass(star.ejecta!).toExponential(4)),
+  ].join(','));
+  
+  return lines.join('\n');
+}
+
+/**
+ * Export the radial profile of every star to CSV format
+ * One row per shell, from the centre to the surface; black holes have no profile
+ * @param system - Star system to export
+ * @param includeMetadata - Whether to include metadata header
+ * @returns CSV string with radial profiles
+ */
+export function exportRadialProfilesToCSV(
+  system: StarSystem,
+  includeMetadata: boolean = true
+): string {
+  const lines: string[] = [];
+  
+  if (includeMetadata) {
+    lines.push(generateMetadataCSV(system));
+  }
+  
+  lines.push([
+    'Star ID',
+    'Star Name',
+    'Model',
+    'Radius (R☉)',
+    'Temperature (K)',
+    'Density (kg/m³)',
+    'Pressure (Pa)',
+    'Enclosed Mass (M☉)',
+    'Luminosity (L☉)',
+    'H',
+    'He',
+    'C',
+    'O',
+    'Ne',
+    'Mg',
+    'Si',
+    'Fe',
+  ].join(','));
+  
+  for (const star of system.stars) {
+    if (!star.radialProfile) continue;
+    for (const point of star.radialProfile.points) {
+      const composition = point.composition;
+      lines.push([
+        star.id,
+        star.name,
+        star.radialProfile.model,
+        point.radius.toExponential(4),
+        point.temperature.toExponential(4),
+        point.density.toExponential(4),
+        point.pressure.toExponential(4),
+        point.enclosedMass.toFixed(4),
+        point.luminosity.toExponential(4),
+        composition.hydrogen.toFixed(4),
+        composition.helium.toFixed(4),
+        composition.carbon.toFixed(4),
+        composition.oxygen.toFixed(4),
+        composition.neon.toFixed(4),
+        composition.magnesium.toFixed(4),
+        composition.silicon.toFixed(4),
+        composition.iron.toFixed(4),
+      ].join(','));
+    }
+  }
+  
+  return lines.join('\n');
+}
+
+/**
+ * Export the pre-main-sequence track of every star to CSV format
+ * One row per track point along the Hayashi and Henyey tracks, from the
+ * birthline to the zero-age main sequence of the star's initial mass
+ * @param system - Star system to export
+ * @param includeMetadata - Whether to include metadata header
+ * @returns CSV string with pre-main-sequence tracks
+ */
+export function exportPreMainSequenceTracksToCSV(
+  system: StarSystem,
+  includeMetadata: boolean = true
+): string {
+  const lines: string[] = [];
+  
+  if (includeMetadata) {
+    lines.push(generateMetadataCSV(system));
+  }
+  
+  lines.push([
+    'Star ID',
+    'Star Name',
+    'Age (years)',
+    'Luminosity (L☉)',
+    'Radius (R☉)',
+    'Temperature (K)',
+  ].join(','));
+  
+  for (const star of system.stars) {
+    for (const point of calculatePreMainSequenceTrack(star.initialMass, star.metallicity)) {
+      lines.push([
+        star.id,
+        star.name,
+        point.age.toExponential(4),
+        point.luminosity.toExponential(4),
+        point.radius.toFixed(4),
+        point.temperature.toFixed(0),
+      ].join(','));
+    }
+  }
+  
   return lines.join('\n');
 }
 
+/**
+ * Select history snapshots spaced at least one interval apart
+ * The most recent snapshot is always included so exports end at the current state
+ */
+function selectSnapshotsAtInterval(
+  history: HistorySnapshot[],
+  interval: number
+): HistorySnapshot[] {
+  const selected: HistorySnapshot[] = [];
+  
+  for (const snapshot of history) {
+    const last = selected[selected.length - 1];
+    if (!last || snapshot.time - last.time >= interval) {
+      selected.push(snapshot);
+    }
+  }
+  
+  const latest = history[history.length - 1];
+  if (latest && selected[selected.length - 1] !== latest) {
+    selected.push(latest);
+  }
+  
+  return selected;
+}
+
+/**
+ * Convert a star history sample to a time-series CSV row
+ */
+function starSampleToCSVRow(sample: StarHistorySample, starName: string): string {
+  const core = sample.coreComposition;
+  return [
+    sample.time.toExponential(4),
+    sample.starId,
+    starName,
+    sample.mass.toFixed(4),
+    sample.radius.toFixed(4),
+    sample.luminosity.toFixed(4),
+    sample.temperature.toFixed(2),
+    sample.evolutionPhase,
+    sample.coreTemperature.toExponential(4),
+    core.hydrogen.toFixed(4),
+    core.helium.toFixed(4),
+    core.carbon.toFixed(4),
+    core.oxygen.toFixed(4),
+    core.neon.toFixed(4),
+    core.magnesium.toFixed(4),
+    core.silicon.toFixed(4),
+    core.iron.toFixed(4),
+    ...surfaceCompositionToCSVCells(sample.surfaceComposition),
+  ].join(',');
+}
+
 /**
  * Export time-series data with configurable intervals
- * Note: This function exports the current state. For true time-series,
- * the simulation controller would need to track historical states.
+ * Rows come from the recorded simulation history; without history only
+ * the current state is exported.
  * @param system - Star system to export
- * @param interval - Time interval between data points (not used in current implementation)
+ * @param interval - Minimum time between exported data points in years
  * @param includeMetadata - Whether to include metadata header
+ * @param history - Recorded history snapshots (from SimulationHistory)
  * @returns CSV string with time-series data
  */
 export function exportTimeSeriesDataToCSV(
   system: StarSystem,
   interval: number = 1e6, // Default 1 million years
-  includeMetadata: boolean = true
+  includeMetadata: boolean = true,
+  history: HistorySnapshot[] = []
 ): string {
   const lines: string[] = [];
   
@@ -187,19 +556,123 @@ export function exportTimeSeriesDataToCSV(
     'Luminosity (L☉)',
     'Temperature (K)',
     'Evolution Phase',
+    'Core Temperature (K)',
+    'Core H',
+    'Core He',
+    'Core C',
+    'Core O',
+    'Core Ne',
+    'Core Mg',
+    'Core Si',
+    'Core Fe',
+    ...SURFACE_COMPOSITION_HEADERS,
   ].join(','));
   
-  // Add current state data for all stars
-  for (const star of system.stars) {
+  if (history.length > 0) {
+    const names = new Map(system.stars.map(star => [star.id, star.name]));
+    for (const snapshot of selectSnapshotsAtInterval(history, interval)) {
+      for (const sample of snapshot.stars) {
+        lines.push(starSampleToCSVRow(sample, names.get(sample.starId) ?? sample.starId));
+      }
+    }
+  } else {
+    // No history recorded - export the current state of all stars
+    for (const star of system.stars) {
+      lines.push(starSampleToCSVRow({
+        time: system.age,
+        starId: star.id,
+        mass: star.mass,
+        radius: star.radius,
+        luminosity: star.luminosity,
+        temperature: star.temperature,
+        evolutionPhase: star.evolutionPhase,
+        coreComposition: star.internalStructure.coreComposition,
+        coreTemperature: star.internalStructure.coreTemperature,
+        surfaceComposition: star.surfaceComposition,
+      }, star.name));
+    }
+  }
+  
+  return lines.join('\n');
+}
+
+/**
+ * Export planet positions from the recorded history to CSV format
+ * @param system - Star system to export
+ * @param history - Recorded history snapshots (from SimulationHistory)
+ * @param interval - Minimum time between exported data points in years
+ * @param includeMetadata - Whether to include metadata header
+ * @returns CSV string with planet trajectories
+ */
+export function exportPlanetHistoryToCSV(
+  system: StarSystem,
+  history: HistorySnapshot[],
+  interval: number = 1e6,
+  includeMetadata: boolean = true
+): string {
+  const lines: string[] = [];
+  
+  if (includeMetadata) {
+    lines.push(generateMetadataCSV(system));
+  }
+  
+  lines.push([
+    'Time (years)',
+    'Planet ID',
+    'Planet Name',
+    'Position X (AU)',
+    'Position Y (AU)',
+    'Position Z (AU)',
+  ].join(','));
+  
+  const names = new Map(system.planets.map(planet => [planet.id, planet.name]));
+  for (const snapshot of selectSnapshotsAtInterval(history, interval)) {
+    for (const sample of snapshot.planets) {
+      lines.push([
+        sample.time.toExponential(4),
+        sample.planetId,
+        names.get(sample.planetId) ?? sample.planetId,
+        sample.position.x.toFixed(4),
+        sample.position.y.toFixed(4),
+        sample.position.z.toFixed(4),
+      ].join(','));
+    }
+  }
+  
+  return lines.join('\n');
+}
+
+/**
+ * Export simulation events to CSV format
+ * @param system - Star system the events belong to
+ * @param events - Events emitted by the simulation controller
+ * @param includeMetadata - Whether to include metadata header
+ * @returns CSV string with one row per event
+ */
+export function exportEventsToCSV(
+  system: StarSystem,
+  events: SimulationEvent[],
+  includeMetadata: boolean = true
+): string {
+  const lines: string[] = [];
+  
+  if (includeMetadata) {
+    lines.push(generateMetadataCSV(system));
+  }
+  
+  lines.push(['Time (years)', 'Event Type', 'Body ID', 'Description'].join(','));
+  
+  for (const event of events) {
+    const bodyId = 'starId' in event
+      ? event.starId
+      : 'planetId' in event
+        ? event.planetId
+        : event.starIds.join(' ');
     lines.push([
-      system.age.toExponential(4),
-      star.id,
-      star.name,
-      star.mass.toFixed(4),
-      star.radius.toFixed(4),
-      star.luminosity.toFixed(4),
-      star.temperature.toFixed(2),
-      star.evolutionPhase,
+      event.time.toExponential(4),
+      event.type,
+      bodyId,
+      `"${describeSimulationEvent(event, system).replace(/"/g, '""')}"`,
     ].join(','));
   }
   
@@ -224,10 +697,43 @@ export function exportSystemToCSV(
   sections.push(exportStellarPropertiesToCSV(system, options.includeMetadata ?? true));
   sections.push('');
   
+  // Add brown dwarf section if the cloud formed any
+  if (system.brownDwarfs && system.brownDwarfs.length > 0) {
+    sections.push('# BROWN DWARFS');
+    sections.push(exportBrownDwarfsToCSV(system, false));
+    sections.push('');
+  }
+  
+  // Add generations section for systems that record them
+  if (system.generations && system.generations.length > 0) {
+    sections.push('# STELLAR GENERATIONS');
+    sections.push(exportStellarGenerationsToCSV(system, false));
+    sections.push('');
+  }
+  
+  // Add interstellar medium section once stars have returned material
+  if (system.interstellarMedium) {
+    sections.push('# INTERSTELLAR MEDIUM');
+    sections.push(exportInterstellarMediumToCSV(system, false));
+    sections.push('');
+  }
+  
   // Add orbital parameters section
   sections.push('# ORBITAL PARAMETERS');
   sections.push(exportOrbitalParametersToCSV(system, false)); // Metadata already included
   
+  // Add radial profiles section if any star has one
+  if (system.stars.some(star => star.radialProfile)) {
+    sections.push('');
+    sections.push('# RADIAL PROFILES');
+    sections.push(exportRadialProfilesToCSV(system, false));
+  }
+  
+  // Add the pre-main-sequence track of each star
+  sections.push('');
+  sections.push('# PRE-MAIN-SEQUENCE TRACKS');
+  sections.push(exportPreMainSequenceTracksToCSV(system, false));
+  
   // Add time-series section if requested
   if (options.includeTimeSeries) {
     sections.push('');
@@ -236,9 +742,30 @@ export function exportSystemToCSV(
       exportTimeSeriesDataToCSV(
         system,
         options.timeSeriesInterval ?? 1e6,
-        false
+        false,
+        options.history
       )
     );
+    
+    if (options.history && options.history.some(snapshot => snapshot.planets.length > 0)) {
+      sections.push('');
+      sections.push('# PLANET POSITIONS');
+      sections.push(
+        exportPlanetHistoryToCSV(
+          system,
+          options.history,
+          options.timeSeriesInterval ?? 1e6,
+          false
+        )
+      );
+    }
+  }
+  
+  // Add events section if any were recorded
+  if (options.events && options.events.length > 0) {
+    sections.push('');
+    sections.push('# EVENTS');
+    sections.push(exportEventsToCSV(system, options.events, false));
   }
   
   return sections.join('\n');
@@ -373,6 +900,7 @@ export async function exportOrbitalParameters(
           initialConditions: system.initialCloudParameters,
         },
         planets: system.planets,
+        ...(system.brownDwarfs ? { brownDwarfs: system.brownDwarfs } : {}),
       };
       blob = createJSONBlob(jsonData);
       filename = generateFilename(`${system.name}_orbital_parameters`, 'json');
@@ -430,6 +958,15 @@ export async function exportCompleteSystem(
         },
         stars: system.stars,
         planets: system.planets,
+        ...(system.brownDwarfs ? { brownDwarfs: system.brownDwarfs } : {}),
+        ...(system.interstellarMedium ? { interstellarMedium: system.interstellarMedium } : {}),
+        ...(system.generations ? { generations: system.generations, gasReservoir: system.gasReservoir } : {}),
+        preMainSequenceTracks: system.stars.map(star => ({
+          starId: star.id,
+          track: calculatePreMainSequenceTrack(star.initialMass, star.metallicity),
+        })),
+        ...(options.includeTimeSeries && options.history ? { history: options.history } : {}),
+        ...(options.events ? { events: options.events } : {}),
       };
       if (onProgress) onProgress(70);
       blob = createJSONBlob(jsonData);
@@ -10,7 +10,7 @@ import {
   deleteSimulation,
   clearAllSimulations,
 } from './persistence';
-import { StarSystem, Star, Planet, EvolutionPhase, SpectralType, PlanetComposition, NuclearReaction } from '../types/core';
+import { StarSystem, Star, Planet, EvolutionPhase, SpectralType, PlanetComposition, NuclearReaction, ZoneType } from '../types/core';
 
 // Mock localStorage for Node.js test environment
 class LocalStorageMock {
@@ -52,6 +52,7 @@ describe('Persistence Service', () => {
     id: 'star-1',
     name: 'Test Star',
     mass: 1.0,
+    initialMass: 1.0,
     radius: 1.0,
     luminosity: 1.0,
     temperature: 5778,
@@ -87,8 +88,10 @@ describe('Persistence Service', () => {
       },
       layerStructure: {
         coreRadius: 0.25,
-        radiativeZoneRadius: 0.7,
-        convectiveZoneRadius: 1.0,
+        zones: [
+          { type: ZoneType.RADIATIVE, innerRadius: 0, outerRadius: 0.7 },
+          { type: ZoneType.CONVECTIVE, innerRadius: 0.7, outerRadius: 1.0 },
+        ],
       },
     },
   };
@@ -3,9 +3,11 @@
  * Tests for the SimulationController class
  */
 
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { SimulationController } from './SimulationController';
-import { CloudParameters, SimulationState } from '../types/core';
+import { CloudParameters, SimulationState, SimulationEventType, EvolutionPhase, DynamicsMode, CommonEnvelopeOutcome, StructureModel, ElementYields, StarSystem, Vector3 } from '../types/core';
+import { CONVECTION_CONSTANTS, PHYSICS_CONSTANTS } from '../constants/physics';
+import { createEmptyYields, calculateYieldMass } from '../physics/yields';
 
 describe('SimulationController', () => {
   let controller: SimulationController;
@@ -45,6 +47,21 @@ describe('SimulationController', () => {
       expect(status.state).toBe(SimulationState.STOPPED);
       expect(status.currentTime).toBe(0);
     });
+
+    it('should reproduce stars and planets exactly from a seed', () => {
+      const seededParams: CloudParameters = { ...testCloudParams, mass: 20.0, seed: 8675309 };
+      
+      const system1 = structuredClone(controller.initializeSimulation(seededParams));
+      const system2 = new SimulationController().initializeSimulation(seededParams);
+      
+      expect(system2).toEqual(system1);
+    });
+
+    it('should reject an invalid seed', () => {
+      expect(() =>
+        controller.initializeSimulation({ ...testCloudParams, seed: 1.5 })
+      ).toThrow();
+    });
   });
 
   describe('state management', () => {
@@ -81,6 +98,18 @@ describe('SimulationController', () => {
       expect(controller.getState()).toBe(SimulationState.STOPPED);
     });
 
+    it('should restore the same system on reset', () => {
+      const systemId = controller.getSystem()!.id;
+      const starIds = controller.getSystem()!.stars.map(s => s.id);
+      
+      controller.updateSimulation(1e9);
+      controller.resetSimulation();
+      
+      expect(controller.getSystem()!.id).toBe(systemId);
+      expect(controller.getSystem()!.stars.map(s => s.id)).toEqual(starIds);
+      expect(controller.getSystem()!.stars[0].age).toBe(0);
+    });
+
     it('should throw error when starting without initialization', () => {
       const uninitializedController = new SimulationController();
       
@@ -128,6 +157,103 @@ describe('SimulationController', () => {
     it('should throw error for negative target time', () => {
       expect(() => controller.jumpToTime(-1)).toThrow();
     });
+
+    it('should keep star and planet identities when rewinding', () => {
+      const initialSystem = controller.getSystem()!;
+      const starIds = initialSystem.stars.map(s => s.id);
+      const planetIds = initialSystem.planets.map(p => p.id);
+      const masses = initialSystem.stars.map(s => s.mass);
+      
+      controller.jumpToTime(5e9);
+      controller.jumpToTime(1e9);
+      
+      const rewoundSystem = controller.getSystem()!;
+      expect(rewoundSystem.id).toBe(initialSystem.id);
+      expect(rewoundSystem.stars.map(s => s.id)).toEqual(starIds);
+      expect(rewoundSystem.planets.map(p => p.id)).toEqual(planetIds);
+      expect(rewoundSystem.stars.map(s => s.mass)).toEqual(masses);
+      expect(controller.getCurrentTime()).toBe(1e9);
+    });
+
+    it('should restore from the nearest earlier checkpoint', () => {
+      controller.setCheckpointInterval(1e8);
+      for (let i = 0; i < 10; i++) {
+        controller.updateSimulation(1e8);
+      }
+      const starAgeAt1Gyr = controller.getSystem()!.stars[0].age;
+      
+      expect(controller.getCheckpointTimes().length).toBeGreaterThan(1);
+      
+      controller.jumpToTime(3.5e8);
+      expect(controller.getCurrentTime()).toBeCloseTo(3.5e8, 0);
+      expect(controller.getCheckpointTimes().every(t => t <= 3.5e8)).toBe(true);
+      
+      controller.jumpToTime(1e9);
+      expect(controller.getSystem()!.stars[0].age).toBeCloseTo(starAgeAt1Gyr, 0);
+    });
+
+    it('should replay the original steps when rewinding', () => {
+      controller.initializeSimulation({ ...testCloudParams, mass: 10.0, angularMomentum: 1e46, seed: 4 });
+      controller.setCheckpointInterval(1e9);
+      controller.configureHistory({ sampleInterval: 1e7 });
+      const states: [number, StarSystem][] = [];
+      for (let i = 0; i < 20; i++) {
+        controller.updateSimulation(1e8);
+        states.push([controller.getCurrentTime(), structuredClone(controller.getSystem()!)]);
+      }
+      const events = controller.getEvents();
+      const snapshotTimes = controller.getHistory().getSnapshots().map(snapshot => snapshot.time);
+      
+      // Adaptive steps near the end of the main sequence are shorter than requested
+      const [targetTime, system] = states[17];
+      controller.jumpToTime(targetTime);
+      
+      expect(controller.getCurrentTime()).toBe(targetTime);
+      expect(controller.getSystem()).toEqual(system);
+      expect(controller.getEvents()).toEqual(events.filter(event => event.time <= targetTime));
+      expect(controller.getHistory().getSnapshots().map(snapshot => snapshot.time))
+        .toEqual(snapshotTimes.filter(time => time <= targetTime));
+    });
+
+    it('should replay recent steps exactly once older steps are pruned', () => {
+      controller.setCheckpointInterval(1e9);
+      controller.setMaxReplaySteps(5);
+      const starIds = controller.getSystem()!.stars.map(s => s.id);
+      const states: [number, StarSystem][] = [];
+      for (let i = 0; i < 20; i++) {
+        controller.updateSimulation(1e8);
+        states.push([controller.getCurrentTime(), structuredClone(controller.getSystem()!)]);
+      }
+      
+      const [targetTime, system] = states[17];
+      controller.jumpToTime(targetTime);
+      expect(controller.getSystem()).toEqual(system);
+      
+      // The stretch before the log is crossed from the nearest checkpoint
+      controller.jumpToTime(2.5e8);
+      expect(controller.getCurrentTime()).toBeCloseTo(2.5e8, 0);
+      expect(controller.getSystem()!.stars.map(s => s.id)).toEqual(starIds);
+    });
+
+    it('should throw error for invalid replay step limit', () => {
+      expect(() => controller.setMaxReplaySteps(0)).toThrow();
+      expect(() => controller.setMaxReplaySteps(2.5)).toThrow();
+    });
+
+    it('should restore the genesis state when rewinding to zero', () => {
+      const genesis = structuredClone(controller.getSystem()!);
+      
+      controller.jumpToTime(2e9);
+      controller.jumpToTime(0);
+      
+      expect(controller.getCurrentTime()).toBe(0);
+      expect(controller.getSystem()).toEqual(genesis);
+    });
+
+    it('should throw error for invalid checkpoint interval', () => {
+      expect(() => controller.setCheckpointInterval(0)).toThrow();
+      expect(() => controller.setCheckpointInterval(NaN)).toThrow();
+    });
   });
 
   describe('simulation updates', () => {
@@ -165,6 +291,463 @@ describe('SimulationController', () => {
       const system = controller.getSystem();
       expect(system!.age).toBe(deltaTime);
     });
+
+    it('should record history at the configured cadence', () => {
+      controller.configureHistory({ sampleInterval: 1e7 });
+      
+      for (let i = 0; i < 10; i++) {
+        controller.updateSimulation(5e6);
+      }
+      
+      const history = controller.getHistory();
+      const starId = controller.getSystem()!.stars[0].id;
+      const times = history.getStarHistory(starId).map(sample => sample.time);
+      
+      expect(times[0]).toBe(0);
+      expect(times.length).toBe(6);
+      expect(history.getStarHistory(starId, 2e7, 4e7).length).toBe(3);
+    });
+
+    it('should discard history after the target when rewinding', () => {
+      controller.configureHistory({ sampleInterval: 1e7 });
+      for (let i = 0; i < 10; i++) {
+        controller.updateSimulation(1e7);
+      }
+      
+      controller.jumpToTime(5e7);
+      
+      const times = controller.getHistory().getSnapshots().map(snapshot => snapshot.time);
+      expect(Math.max(...times)).toBeLessThanOrEqual(5e7);
+    });
+
+    it('should keep only the genesis sample after reset', () => {
+      controller.configureHistory({ sampleInterval: 1e6 });
+      controller.updateSimulation(1e7);
+      controller.resetSimulation();
+      
+      const snapshots = controller.getHistory().getSnapshots();
+      expect(snapshots.length).toBe(1);
+      expect(snapshots[0].time).toBe(0);
+    });
+  });
+
+  describe('stellar orbits', () => {
+    it('should move binary stars and keep planets around their hosts', () => {
+      controller.initializeSimulation({ ...testCloudParams, mass: 20.0, angularMomentum: 1e47, seed: 2024 });
+      const system = controller.getSystem()!;
+      expect(system.stars.length).toBeGreaterThan(1);
+      const initialPositions = system.stars.map(s => ({ ...s.position }));
+      
+      controller.updateSimulation(0.37);
+      
+      const moved = controller.getSystem()!;
+      expect(moved.stars.map(s => s.position)).not.toEqual(initialPositions);
+      expect(moved.stars.some(s => s.velocity.x !== 0 || s.velocity.y !== 0)).toBe(true);
+      
+      for (const planet of moved.planets) {
+        const host = moved.stars.find(s => s.id === planet.parentStarId)!;
+        const offset = Math.hypot(planet.position.x - host.position.x, planet.position.y - host.position.y);
+        expect(offset).toBeGreaterThanOrEqual(planet.semiMajorAxis * (1 - planet.eccentricity) - 1e-6);
+        expect(offset).toBeLessThanOrEqual(planet.semiMajorAxis * (1 + planet.eccentricity) + 1e-6);
+      }
+    });
+  });
+
+  describe('stellar mass loss', () => {
+    it('should widen planetary orbits as the host star loses mass', () => {
+      controller.initializeSimulation({ ...testCloudParams, mass: 3.0, seed: 7 });
+      const initial = structuredClone(controller.getSystem()!);
+      expect(initial.planets.length).toBeGreaterThan(0);
+      const host = initial.stars[0];
+      
+      controller.jumpToTime(host.lifetime * 0.93);
+      
+      const evolved = controller.getSystem()!;
+      const evolvedHost = evolved.stars.find(s => s.id === host.id)!;
+      expect(evolvedHost.mass).toBeLessThan(host.mass);
+      expect(evolvedHost.initialMass).toBe(host.initialMass);
+      
+      for (const planet of evolved.planets.filter(p => p.parentStarId === host.id)) {
+        const before = initial.planets.find(p => p.id === planet.id)!;
+        expect(planet.semiMajorAxis).toBeGreaterThan(before.semiMajorAxis);
+        expect(planet.semiMajorAxis * evolvedHost.mass).toBeCloseTo(before.semiMajorAxis * host.mass, 3);
+      }
+    });
+  });
+
+  describe('planet engulfment', () => {
+    it('should remove planets swallowed by a red giant and record the cause', () => {
+      controller.initializeSimulation({ ...testCloudParams, mass: 3.0, seed: 7 });
+      const host = controller.getSystem()!.stars[0];
+      const planetCount = controller.getSystem()!.planets.length;
+      
+      controller.jumpToTime(host.lifetime * 0.93);
+      
+      const system = controller.getSystem()!;
+      const lost = controller.getEvents().filter(e => e.type === SimulationEventType.PLANET_LOST);
+      expect(lost.length).toBeGreaterThan(0);
+      expect(system.planets.length).toBe(planetCount - lost.length);
+      for (const event of lost) {
+        expect(event.type === SimulationEventType.PLANET_LOST && event.reason).toBe(`Engulfed by ${host.name}`);
+      }
+      
+      // Surviving planets orbit outside the giant's tidal reach
+      const giant = system.stars[0];
+      expect(giant.accretedAngularMomentum).toBeGreaterThan(0);
+      for (const planet of system.planets) {
+        expect(planet.semiMajorAxis * (1 - planet.eccentricity)).toBeGreaterThan(giant.radius * 0.00465);
+      }
+    });
+
+    it('should not change the host mass when accretion is disabled', () => {
+      controller.setPlanetAccretion(false);
+      expect(controller.isPlanetAccretionEnabled()).toBe(false);
+      controller.initializeSimulation({ ...testCloudParams, mass: 3.0, seed: 7 });
+      const host = controller.getSystem()!.stars[0];
+      
+      controller.jumpToTime(host.lifetime * 0.93);
+      
+      expect(controller.getSystem()!.stars[0].accretedAngularMomentum).toBeUndefined();
+    });
+  });
+
+  describe('supernovae', () => {
+    it('should recompute the binary orbit and report the explosion', () => {
+      controller.initializeSimulation({ ...testCloudParams, mass: 60.0, angularMomentum: 1e47, seed: 2024 });
+      const exploding = controller.getSystem()!.stars[0];
+      
+      controller.jumpToTime(exploding.lifetime * 1.2);
+      
+      const supernovae = controller.getEvents().filter(e => e.type === SimulationEventType.SUPERNOVA);
+      expect(supernovae.length).toBeGreaterThan(0);
+      const [first] = supernovae;
+      expect(first.type === SimulationEventType.SUPERNOVA && first.starId).toBe(exploding.id);
+      
+      // The companion is no longer bound and drifts away from the remnant
+      const orbit = controller.getSystem()!.stellarOrbits![0];
+      expect(orbit.unbound).toBeDefined();
+      
+      // Planets of the exploding star are lost with the explosion as the cause
+      const lost = controller.getEvents().filter(e =>
+        e.type === SimulationEventType.PLANET_LOST && e.parentStarId === exploding.id
+      );
+      expect(lost.length).toBeGreaterThan(0);
+      for (const event of lost) {
+        expect(event.type === SimulationEventType.PLANET_LOST && event.reason).toMatch(/supernova of/);
+      }
+    });
+
+    it('should not warn about the stability of a binary the supernova unbound', () => {
+      controller.initializeSimulation({ ...testCloudParams, mass: 60.0, angularMomentum: 1e47, seed: 2024 });
+      const exploding = controller.getSystem()!.stars[0];
+      
+      // Step through both supernovae so later phase changes re-check stability
+      controller.jumpToTime(exploding.lifetime * 1.2);
+      for (let i = 0; i < 30; i++) {
+        controller.updateSimulation(1e6);
+      }
+      
+      const [supernova] = controller.getEvents().filter(e => e.type === SimulationEventType.SUPERNOVA);
+      const warnings = controller.getEvents(supernova.time)
+        .filter(e => e.type === SimulationEventType.STABILITY_WARNING);
+      expect(controller.getSystem()!.stellarOrbits![0].unbound).toBeDefined();
+      expect(warnings).toEqual([]);
+    });
+
+    it('should return the exploded star\'s ejecta to the interstellar medium', () => {
+      controller.initializeSimulation({ ...testCloudParams, mass: 60.0, angularMomentum: 1e47, seed: 2024 });
+      const exploding = controller.getSystem()!.stars[0];
+      
+      controller.jumpToTime(exploding.lifetime * 1.2);
+      
+      const system = controller.getSystem()!;
+      const remnant = system.stars.find(star => star.id === exploding.id)!;
+      expect(remnant.ejecta!.oxygen).toBeGreaterThan(0);
+      expect(system.interstellarMedium!.oxygen).toBeGreaterThanOrEqual(remnant.ejecta!.oxygen);
+      expect(system.interstellarMedium!.iron).toBeGreaterThan(0);
+    });
+  });
+
+  describe('stellar generations', () => {
+    const cloud: CloudParameters = { mass: 60.0, metallicity: 1.0, angularMomentum: 1e47, seed: 2024 };
+
+    it('should form only the first generation by default', () => {
+      expect(controller.isMultiGenerationStarFormationEnabled()).toBe(false);
+      controller.initializeSimulation(cloud);
+      const exploding = controller.getSystem()!.stars[0];
+      
+      controller.jumpToTime(exploding.lifetime * 1.2);
+      
+      expect(controller.getSystem()!.generations).toHaveLength(1);
+      expect(controller.getEvents().some(e => e.type === SimulationEventType.STAR_FORMATION)).toBe(false);
+    });
+
+    it('should form a metal-richer generation from gas enriched by a supernova', () => {
+      controller.setMultiGenerationStarFormation(true);
+      controller.initializeSimulation(cloud);
+      const exploding = controller.getSystem()!.stars[0];
+      
+      controller.jumpToTime(exploding.lifetime * 1.2);
+      
+      const system = controller.getSystem()!;
+      const [first, second] = system.generations!;
+      expect(second).toBeDefined();
+      expect(second.metallicity).toBeGreaterThan(first.metallicity);
+      for (const star of system.stars.filter(s => second.starIds.includes(s.id))) {
+        expect(star.generation).toBe(2);
+        expect(star.metallicity).toBe(second.metallicity);
+      }
+      
+      const formation = controller.getEvents().find(e => e.type === SimulationEventType.STAR_FORMATION);
+      expect(formation?.type === SimulationEventType.STAR_FORMATION && formation.starIds).toEqual(second.starIds);
+    });
+
+    it('should add all stellar ejecta, including common-envelope ejecta, to the gas reservoir', () => {
+      controller.initializeSimulation({ ...testCloudParams, mass: 20.0, angularMomentum: 1e46, seed: 11 });
+      const leftover = controller.getSystem()!.gasReservoir!;
+      
+      for (let i = 0; i < 130; i++) {
+        controller.updateSimulation(1e8);
+      }
+      
+      const system = controller.getSystem()!;
+      expect(controller.getEvents().some(e => e.type === SimulationEventType.COMMON_ENVELOPE)).toBe(true);
+      for (const element of Object.keys(leftover) as (keyof ElementYields)[]) {
+        const gained = system.gasReservoir![element] - leftover[element];
+        expect(gained).toBeCloseTo(system.interstellarMedium![element], 9);
+      }
+    });
+  });
+
+  describe('mass transfer', () => {
+    it('should eject the envelope of a giant that engulfs its companion', () => {
+      controller.initializeSimulation({ ...testCloudParams, mass: 10.0, angularMomentum: 1e46, seed: 4 });
+      const [donor, companion] = controller.getSystem()!.stars;
+      const initialSeparation = controller.getSystem()!.stellarOrbits![0].elements.semiMajorAxis;
+
+      controller.updateSimulation(1e8);
+      expect(controller.getSystem()!.stars[0].rocheLobeRadius).toBeDefined();
+
+      for (let i = 0; i < 20; i++) {
+        controller.updateSimulation(1e8);
+      }
+
+      const envelopes = controller.getEvents().filter(e => e.type === SimulationEventType.COMMON_ENVELOPE);
+      expect(envelopes).toHaveLength(1);
+      const [event] = envelopes;
+      expect(event.type === SimulationEventType.COMMON_ENVELOPE && event.starId).toBe(donor.id);
+      expect(event.type === SimulationEventType.COMMON_ENVELOPE && event.outcome).toBe(CommonEnvelopeOutcome.EJECTED);
+
+      // A white dwarf and its companion remain in a much tighter orbit
+      const system = controller.getSystem()!;
+      expect(system.stars.map(s => s.id)).toEqual([donor.id, companion.id]);
+      expect(system.stars[0].evolutionPhase).toBe(EvolutionPhase.WHITE_DWARF);
+      expect(system.stellarOrbits![0].elements.semiMajorAxis).toBeLessThan(initialSeparation / 2);
+    });
+
+    it('should merge stars that cannot eject the common envelope', () => {
+      controller.initializeSimulation({ ...testCloudParams, mass: 20.0, angularMomentum: 1e46, seed: 11 });
+      const planets = controller.getSystem()!.planets.length;
+
+      for (let i = 0; i < 7; i++) {
+        controller.updateSimulation(1e8);
+      }
+
+      const system = controller.getSystem()!;
+      const [event] = controller.getEvents().filter(e => e.type === SimulationEventType.COMMON_ENVELOPE);
+      expect(event.type === SimulationEventType.COMMON_ENVELOPE && event.outcome).toBe(CommonEnvelopeOutcome.MERGED);
+      expect(system.stars).toHaveLength(1);
+      expect(system.stellarOrbits).toEqual([]);
+
+      // Planets of the absorbed star are either lost or orbit the merger product
+      const lost = controller.getEvents().filter(e => e.type === SimulationEventType.PLANET_LOST).length;
+      expect(system.planets.length + lost).toBe(planets);
+      expect(system.planets.every(p => p.parentStarId === system.stars[0].id)).toBe(true);
+    });
+
+    it('should conserve mass through common-envelope ejection and merger', () => {
+      // Engulfed planets add their mass to their hosts
+      const totalMass = (): number => {
+        const system = controller.getSystem()!;
+        const planetMass = system.planets.reduce((sum, planet) => sum + planet.mass, 0) *
+          PHYSICS_CONSTANTS.EARTH_MASS / PHYSICS_CONSTANTS.SOLAR_MASS;
+        return system.stars.reduce((sum, star) => sum + star.mass, 0) + planetMass +
+          calculateYieldMass(system.interstellarMedium ?? createEmptyYields());
+      };
+
+      for (const [mass, seed, outcome] of [
+        [10.0, 4, CommonEnvelopeOutcome.EJECTED],
+        [20.0, 11, CommonEnvelopeOutcome.MERGED],
+      ] as const) {
+        controller.initializeSimulation({ ...testCloudParams, mass, angularMomentum: 1e46, seed });
+        const initial = totalMass();
+
+        for (let i = 0; i < 130; i++) {
+          controller.updateSimulation(1e8);
+        }
+
+        const [event] = controller.getEvents().filter(e => e.type === SimulationEventType.COMMON_ENVELOPE);
+        expect(event.type === SimulationEventType.COMMON_ENVELOPE && event.outcome).toBe(outcome);
+        expect(totalMass()).toBeCloseTo(initial, 9);
+      }
+    });
+  });
+
+  describe('N-body dynamics', () => {
+    beforeEach(() => {
+      controller.initializeSimulation({ ...testCloudParams, mass: 20.0, angularMomentum: 1e47, seed: 2024 });
+    });
+
+    it('should default to Kepler mode without diagnostics', () => {
+      expect(controller.getDynamicsMode()).toBe(DynamicsMode.KEPLER);
+      expect(controller.getNBodyDiagnostics()).toBeNull();
+    });
+
+    it('should integrate bodies and report small drift', () => {
+      controller.setDynamicsMode(DynamicsMode.N_BODY);
+      const initialPositions = controller.getSystem()!.stars.map(s => ({ ...s.position }));
+      
+      controller.updateSimulation(0.1);
+      controller.updateSimulation(0.1);
+      
+      const diagnostics = controller.getNBodyDiagnostics()!;
+      expect(diagnostics.steps).toBeGreaterThan(0);
+      expect(diagnostics.keplerFallbacks).toBe(0);
+      expect(diagnostics.energyDrift).toBeLessThan(1e-3);
+      expect(diagnostics.angularMomentumDrift).toBeLessThan(1e-6);
+      expect(controller.getSystem()!.stars.map(s => s.position)).not.toEqual(initialPositions);
+    });
+
+    it('should fall back to Kepler motion for large steps', () => {
+      controller.setDynamicsMode(DynamicsMode.N_BODY);
+      
+      controller.updateSimulation(1e6);
+      
+      const diagnostics = controller.getNBodyDiagnostics()!;
+      expect(diagnostics.keplerFallbacks).toBe(1);
+      expect(diagnostics.steps).toBe(0);
+    });
+
+    it('should replay steps in the dynamics mode they ran with', () => {
+      controller.setDynamicsMode(DynamicsMode.N_BODY);
+      controller.updateSimulation(0.1);
+      controller.updateSimulation(0.1);
+      const targetTime = controller.getCurrentTime();
+      const stars = controller.getSystem()!.stars.map(s => ({ ...s.position }));
+      const planets = controller.getSystem()!.planets.map(p => ({ ...p.position }));
+      
+      controller.setDynamicsMode(DynamicsMode.KEPLER);
+      controller.updateSimulation(0.1);
+      controller.jumpToTime(targetTime);
+      
+      expect(controller.getDynamicsMode()).toBe(DynamicsMode.KEPLER);
+      expect(controller.getSystem()!.stars.map(s => s.position)).toEqual(stars);
+      expect(controller.getSystem()!.planets.map(p => p.position)).toEqual(planets);
+    });
+
+    it('should carry on from the integrated state when switching back to Kepler', () => {
+      const integrated = new SimulationController();
+      for (const c of [controller, integrated]) {
+        c.initializeSimulation({ ...testCloudParams, mass: 20.0, angularMomentum: 1e47, seed: 2024 });
+        c.setDynamicsMode(DynamicsMode.N_BODY);
+        for (let i = 0; i < 5; i++) {
+          c.updateSimulation(0.1);
+        }
+      }
+      
+      controller.setDynamicsMode(DynamicsMode.KEPLER);
+      controller.updateSimulation(0.01);
+      integrated.updateSimulation(0.01);
+      
+      const distance = (a: Vector3, b: Vector3) => Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z);
+      const planets = integrated.getSystem()!.planets;
+      controller.getSystem()!.planets.forEach((planet, i) => {
+        expect(distance(planet.position, planets[i].position)).toBeLessThan(1e-3);
+      });
+    });
+
+    it('should reject invalid integrator options', () => {
+      expect(() => controller.configureNBody({ timeStepFactor: 0 })).toThrow();
+      expect(() => controller.configureNBody({ maxStepsPerUpdate: 1.5 })).toThrow();
+      expect(() => controller.configureNBody({ softeningLength: -1 })).toThrow();
+    });
+  });
+
+  describe('stellar structure', () => {
+    it('should attach polytrope profiles by default', () => {
+      controller.initializeSimulation(testCloudParams);
+
+      expect(controller.getStructureModel()).toBe(StructureModel.POLYTROPE);
+      expect(controller.getSystem()!.stars[0].radialProfile!.model).toBe(StructureModel.POLYTROPE);
+    });
+
+    it('should recompute every profile when the structure model changes', () => {
+      controller.initializeSimulation(testCloudParams);
+      controller.setStructureModel(StructureModel.HYDROSTATIC);
+
+      expect(controller.getStructureModel()).toBe(StructureModel.HYDROSTATIC);
+      expect(controller.getSystem()!.stars[0].radialProfile!.model).toBe(StructureModel.HYDROSTATIC);
+
+      controller.updateSimulation(1e6);
+      expect(controller.getSystem()!.stars[0].radialProfile!.model).toBe(StructureModel.HYDROSTATIC);
+    });
+
+    it('should recompute convective zones when the overshoot changes', () => {
+      controller.initializeSimulation({ ...testCloudParams, mass: 10.0 });
+      const before = controller.getSystem()!.stars[0].internalStructure!.layerStructure.zones[0];
+      controller.setConvectiveOvershoot(0.5);
+      const after = controller.getSystem()!.stars[0].internalStructure!.layerStructure.zones[0];
+
+      expect(controller.getConvectiveOvershoot()).toBe(0.5);
+      expect(after.outerRadius).toBeGreaterThanOrEqual(before.outerRadius);
+    });
+
+    it('should reject overshoot outside its range', () => {
+      controller.initializeSimulation(testCloudParams);
+
+      expect(() => controller.setConvectiveOvershoot(-1)).toThrow();
+      expect(() => controller.setConvectiveOvershoot(CONVECTION_CONSTANTS.MAX_OVERSHOOT + 1)).toThrow();
+    });
+  });
+
+  describe('events', () => {
+    it('should emit phase changes with the simulation time', () => {
+      controller.initializeSimulation({ ...testCloudParams, mass: 20.0, seed: 42 });
+      const listener = vi.fn();
+      controller.on(SimulationEventType.PHASE_CHANGE, listener);
+      
+      controller.updateSimulation(1e8);
+      controller.updateSimulation(1e8);
+      
+      expect(listener).toHaveBeenCalled();
+      const event = listener.mock.calls[0][0];
+      expect(event.newPhase).not.toBe(EvolutionPhase.PROTOSTAR);
+      expect(event.time).toBeGreaterThan(0);
+      expect(event.time).toBeLessThanOrEqual(controller.getCurrentTime());
+      expect(controller.getEvents()).toContainEqual(event);
+    });
+
+    it('should not re-dispatch events while replaying a rewind', () => {
+      controller.initializeSimulation(testCloudParams);
+      controller.jumpToTime(1.5e10);
+      
+      const listener = vi.fn();
+      controller.onAny(listener);
+      controller.jumpToTime(5e9);
+      
+      expect(listener).not.toHaveBeenCalled();
+      expect(controller.getEvents().every(event => event.time <= 5e9)).toBe(true);
+    });
+
+    it('should keep subscriptions across reinitialization', () => {
+      const listener = vi.fn();
+      controller.onAny(listener);
+      
+      controller.initializeSimulation({ ...testCloudParams, mass: 20.0 });
+      controller.jumpToTime(2e7);
+      
+      expect(listener).toHaveBeenCalled();
+    });
   });
 
   describe('getStatus', () => {
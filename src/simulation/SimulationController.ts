@@ -10,11 +10,52 @@ import {
   SimulationStatus,
   Star,
   Planet,
+  HistoryOptions,
+  SimulationEvent,
+  SimulationEventType,
+  DynamicsMode,
+  NBodyBody,
+  NBodyOptions,
+  NBodyDiagnostics,
+  Vector3,
+  CommonEnvelopeOutcome,
+  StructureModel,
+  ElementYields,
 } from '../types/core';
-import { generateStarSystemFromCloud } from './cloudFormation';
-import { evolveStar } from './stellarEvolution';
-import { createProtoplanetaryDisk, generatePlanets } from './planetaryFormation';
-import { calculateOrbitalPosition, calculateOrbitalPeriod } from '../physics/orbitalMechanics';
+import { generateStarSystemFromCloud, isGasReadyToCollapse, formStellarGeneration } from './cloudFormation';
+import { evolveStar, updateRadialProfile } from './stellarEvolution';
+import { createProtoplanetaryDisk, generatePlanets, getPlanetOrbitalElements } from './planetaryFormation';
+import {
+  calculateOrbitalPosition,
+  calculateOrbitalVelocity,
+  calculateOrbitalPeriod,
+  calculateOrbitalElementsFromState,
+} from '../physics/orbitalMechanics';
+import {
+  integrateNBody,
+  estimateNBodySteps,
+  calculateTotalEnergy,
+  calculateTotalAngularMomentum,
+  calculateOsculatingElements,
+} from '../physics/nbody';
+import { calculateAdiabaticSemiMajorAxis } from '../physics/massLoss';
+import { PHYSICS_CONSTANTS, NBODY_CONSTANTS, CONVECTION_CONSTANTS } from '../constants/physics';
+import { updateStellarPositions, expandStellarOrbits, fitStellarOrbits } from './stellarOrbits';
+import { resolvePlanetEngulfment, describePlanetFate } from './planetEngulfment';
+import { detectSupernovae, resolveSupernovae, resolveTypeIaSupernovae } from './supernova';
+import { resolveMassTransfer, MassExchange } from './massTransfer';
+import { resolveEjecta, resolveTypeIaEjecta } from './chemicalEnrichment';
+import { evolveBrownDwarf, updateBrownDwarfPositions } from './brownDwarfs';
+import { createRandomSource, deriveSeed, RandomSource } from '../physics/random';
+import { createEmptyYields, addYields } from '../physics/yields';
+import { SimulationHistory } from './SimulationHistory';
+import {
+  SimulationEventBus,
+  SimulationEventListener,
+  SimulationEventOfType,
+  detectStarEvents,
+  detectLostPlanets,
+} from './SimulationEvents';
 import {
   validateCloudParameters,
   validateTimeScale,
@@ -26,6 +67,36 @@ import {
   checkNumericalStability,
 } from '../validation';
 
+/**
+ * Snapshot of the simulation at a point in time
+ * Used to rewind without regenerating the system
+ */
+export interface SimulationCheckpoint {
+  time: number;         // Simulation time in years
+  system: StarSystem;   // Deep copy of the system at that time
+}
+
+/**
+ * Settings that change how a step evolves the system
+ */
+interface SimulationSettings {
+  dynamicsMode: DynamicsMode;
+  nBodyOptions: NBodyOptions;
+  accretePlanets: boolean;
+  formGenerations: boolean;
+  structureModel: StructureModel;
+  convectiveOvershoot: number;
+}
+
+/**
+ * A step the simulation took
+ */
+interface SimulationStep {
+  time: number;                  // Simulation time at the end of the step in years
+  deltaTime: number;             // Step length after adaptive stepping in years
+  settings: SimulationSettings;  // Settings the step ran under (shared while unchanged)
+}
+
 /**
  * SimulationController class
  * Manages the complete simulation lifecycle including state management,
@@ -37,10 +108,52 @@ export class SimulationController {
   private currentTime: number = 0;
   private timeScale: number = 1.0;
   private animationFrameId: number | null = null;
+  
+  // Genesis state plus periodic checkpoints (sorted by time, genesis first)
+  private checkpoints: SimulationCheckpoint[] = [];
+  private checkpointInterval: number = 1e8; // Years between checkpoints
+  private maxCheckpoints: number = 200;
+  
+  // Steps taken since stepLogStart, so rewinds replay the run exactly
+  private steps: SimulationStep[] = [];
+  private stepLogStart: number = 0; // Earlier steps were pruned to bound memory
+  private maxSteps: number = 100000;
+  
+  // Time series of stellar properties and planet positions
+  private history: SimulationHistory = new SimulationHistory();
+  
+  // Event subscribers persist across simulations; the log belongs to the current run
+  private eventBus: SimulationEventBus = new SimulationEventBus();
+  private eventLog: SimulationEvent[] = [];
+  private replaying: boolean = false; // Suppress dispatch while replaying after a rewind
+  
+  // Motion model; N-body state lives in the bodies' positions and velocities
+  private dynamicsMode: DynamicsMode = DynamicsMode.KEPLER;
+  private nBodyOptions: NBodyOptions = {
+    timeStepFactor: NBODY_CONSTANTS.TIME_STEP_FACTOR,
+    maxStepsPerUpdate: NBODY_CONSTANTS.MAX_STEPS_PER_UPDATE,
+    softeningLength: NBODY_CONSTANTS.SOFTENING_LENGTH,
+  };
+  private nBodyDiagnostics: NBodyDiagnostics | null = null;
+  private planetLossReasons: Map<string, string> = new Map();
+  
+  // Whether stars gain the mass of planets they engulf
+  private accretePlanets: boolean = true;
+  
+  // How stellar radial profiles are computed
+  private structureModel: StructureModel = StructureModel.POLYTROPE;
+  
+  // Convective overshoot in pressure scale heights
+  private convectiveOvershoot: number = 0;
+  
+  // Whether leftover gas and stellar ejecta form later generations of stars
+  private formGenerations: boolean = false;
 
   /**
    * Initialize a new simulation from cloud parameters
-   * Creates a star system and generates planets for each star
+   * Creates a star system and generates planets for each star.
+   * When cloudParams.seed is set, every stochastic step draws from one seeded
+   * source so the same parameters always reproduce the same system.
    * @param cloudParams - Initial cloud parameters
    * @returns The generated star system
    * @throws SimulationError if parameters are invalid or system is unstable
@@ -60,12 +173,20 @@ export class SimulationController {
     }
 
     try {
+      // Single random source shared by star and planet generation
+      const random = createRandomSource(cloudParams.seed);
+      
       // Generate star system from cloud collapse
-      this.system = generateStarSystemFromCloud(cloudParams);
+      this.system = generateStarSystemFromCloud(cloudParams, random);
+      this.system.stars = this.system.stars.map(
+        star => updateRadialProfile(star, this.structureModel, this.convectiveOvershoot)
+      );
+      this.eventLog = [];
       
       // Check system stability
       const isStable = checkSystemStability(this.system);
       if (!isStable) {
+        this.emitStabilityWarning(0, 'Generated star system may be dynamically unstable');
         // Log warning but continue - system may be dynamically unstable but still simulatable
         errorLogger.logError(
           new SimulationError(
@@ -77,39 +198,23 @@ export class SimulationController {
         );
       }
       
-      // Generate planets for each star
-      const allPlanets: Planet[] = [];
-      
-      for (const star of this.system.stars) {
-        try {
-          // Create protoplanetary disk
-          const disk = createProtoplanetaryDisk(star);
-          
-          if (disk) {
-            // Generate planets from disk
-            const planets = generatePlanets(disk, star);
-            allPlanets.push(...planets);
-          }
-        } catch (error) {
-          // Log error but continue with other stars
-          errorLogger.logError(
-            new SimulationError(
-              SimulationErrorType.NUMERICAL_INSTABILITY,
-              `Failed to generate planets for star ${star.name}: ${error instanceof Error ? error.message : 'Unknown error'}`,
-              { starId: star.id, starName: star.name },
-              true // Recoverable
-            )
-          );
-        }
-      }
-      
-      // Add planets to system
-      this.system.planets = allPlanets;
+      // Generate planets for each star, placed around their (possibly orbiting) hosts
+      this.system.planets = this.generatePlanetsForStars(this.system.stars, random)
+        .map(planet => this.updatePlanetPosition(planet, 0));
       
       // Reset simulation state
       this.currentTime = 0;
       this.state = SimulationState.STOPPED;
       
+      // Keep the genesis state so rewinds restore this exact system
+      this.checkpoints = [];
+      this.steps = [];
+      this.stepLogStart = 0;
+      this.recordCheckpoint();
+      
+      this.history.clear();
+      this.history.record(this.currentTime, this.system, true);
+      
       return this.system;
     } catch (error) {
       if (error instanceof SimulationError) {
@@ -163,7 +268,7 @@ export class SimulationController {
 
   /**
    * Reset the simulation to initial conditions
-   * Resets time to zero and restores initial star system state
+   * Resets time to zero and restores the genesis state of the current system
    */
   public resetSimulation(): void {
     if (!this.system) {
@@ -178,12 +283,15 @@ export class SimulationController {
       this.animationFrameId = null;
     }
     
-    // Reset time
-    this.currentTime = 0;
+    // Restore the genesis state and drop all later checkpoints
+    this.restoreCheckpoint(this.checkpoints[0]);
+    this.checkpoints = this.checkpoints.slice(0, 1);
+    this.steps = [];
+    this.stepLogStart = this.currentTime;
     
-    // Reinitialize the system from original cloud parameters
-    const originalParams = this.system.initialCloudParameters;
-    this.initializeSimulation(originalParams);
+    // History and events restart from genesis
+    this.history.truncateAfter(this.currentTime);
+    this.eventLog = this.eventLog.filter(event => event.time <= this.currentTime);
   }
 
   /**
@@ -208,9 +316,262 @@ export class SimulationController {
     this.timeScale = scale;
   }
 
+  /**
+   * Set the spacing between automatic checkpoints
+   * Smaller intervals make rewinds faster at the cost of memory
+   * @param interval - Simulation years between checkpoints
+   * @throws SimulationError if interval is not a positive finite number
+   */
+  public setCheckpointInterval(interval: number): void {
+    if (!isFinite(interval) || interval <= 0) {
+      const error = new SimulationError(
+        SimulationErrorType.INVALID_PARAMETERS,
+        `Invalid checkpoint interval: ${interval}`,
+        { interval },
+        false
+      );
+      errorLogger.logError(error);
+      throw error;
+    }
+    
+    this.checkpointInterval = interval;
+  }
+
+  /**
+   * Set how many steps are kept for replaying rewinds
+   * When the limit is exceeded, steps before a recent checkpoint are dropped.
+   * Rewinds to earlier times advance from the nearest checkpoint in one step
+   * instead of replaying the original steps.
+   * @param limit - Maximum number of logged steps
+   * @throws SimulationError if limit is not a positive integer
+   */
+  public setMaxReplaySteps(limit: number): void {
+    if (!Number.isInteger(limit) || limit < 1) {
+      const error = new SimulationError(
+        SimulationErrorType.INVALID_PARAMETERS,
+        `Invalid replay step limit: ${limit}`,
+        { limit },
+        false
+      );
+      errorLogger.logError(error);
+      throw error;
+    }
+    
+    this.maxSteps = limit;
+    this.enforceStepLimit();
+  }
+
+  /**
+   * Get the times of all stored checkpoints
+   * @returns Checkpoint times in years, in ascending order (genesis first)
+   */
+  public getCheckpointTimes(): number[] {
+    return this.checkpoints.map(checkpoint => checkpoint.time);
+  }
+
+  /**
+   * Get the recorded simulation history
+   * Exports, charts and analysis query this by time range and by body
+   * @returns History recorder for the current simulation
+   */
+  public getHistory(): SimulationHistory {
+    return this.history;
+  }
+
+  /**
+   * Configure history sampling cadence and memory bounds
+   * @param options - History options to change
+   * @throws SimulationError if an option is out of range
+   */
+  public configureHistory(options: Partial<HistoryOptions>): void {
+    this.history.configure(options);
+  }
+
+  /**
+   * Select how star and planet motion is computed
+   * Switching to N-body mode seeds the integrator from the current positions
+   * and velocities and restarts the drift diagnostics. Switching back fits
+   * stellar and planetary orbits to the current state vectors, so Kepler
+   * motion carries on from where the integration left the bodies.
+   * @param mode - Dynamics mode
+   */
+  public setDynamicsMode(mode: DynamicsMode): void {
+    if (this.dynamicsMode === DynamicsMode.N_BODY && mode !== DynamicsMode.N_BODY) {
+      this.fitKeplerOrbits();
+    }
+    
+    this.dynamicsMode = mode;
+    this.nBodyDiagnostics = null;
+    
+    if (mode === DynamicsMode.N_BODY && this.system) {
+      this.resetNBodyDiagnostics();
+    }
+  }
+
+  /**
+   * Get the current dynamics mode
+   * @returns Dynamics mode
+   */
+  public getDynamicsMode(): DynamicsMode {
+    return this.dynamicsMode;
+  }
+
+  /**
+   * Configure the N-body integrator
+   * @param options - Integrator options to change
+   * @throws SimulationError if an option is out of range
+   */
+  public configureNBody(options: Partial<NBodyOptions>): void {
+    const merged = { ...this.nBodyOptions, ...options };
+    
+    if (
+      !isFinite(merged.timeStepFactor) || merged.timeStepFactor <= 0 ||
+      !Number.isInteger(merged.maxStepsPerUpdate) || merged.maxStepsPerUpdate < 1 ||
+      !isFinite(merged.softeningLength) || merged.softeningLength < 0
+    ) {
+      const error = new SimulationError(
+        SimulationErrorType.INVALID_PARAMETERS,
+        'Invalid N-body integrator options',
+        { options },
+        false
+      );
+      errorLogger.logError(error);
+      throw error;
+    }
+    
+    this.nBodyOptions = merged;
+  }
+
+  /**
+   * Get energy and angular momentum drift of the N-body integrator
+   * Drifts only count integration error; physical mass loss between
+   * updates does not contribute.
+   * @returns Diagnostics, or null when not in N-body mode
+   */
+  public getNBodyDiagnostics(): NBodyDiagnostics | null {
+    return this.nBodyDiagnostics ? { ...this.nBodyDiagnostics } : null;
+  }
+
+  /**
+   * Choose whether stars accrete the planets they engulf or disrupt
+   * @param enabled - True to add planet mass and orbital angular momentum to the host
+   */
+  public setPlanetAccretion(enabled: boolean): void {
+    this.accretePlanets = enabled;
+  }
+
+  /**
+   * Check whether engulfed planets are accreted by their hosts
+   * @returns True if accretion is enabled
+   */
+  public isPlanetAccretionEnabled(): boolean {
+    return this.accretePlanets;
+  }
+
+  /**
+   * Choose whether the system's gas forms later generations of stars
+   * @param enabled - True to let leftover cloud gas and stellar ejecta collapse again
+   */
+  public setMultiGenerationStarFormation(enabled: boolean): void {
+    this.formGenerations = enabled;
+  }
+
+  /**
+   * Check whether later generations of stars can form
+   * @returns True if multi-generation star formation is enabled
+   */
+  public isMultiGenerationStarFormationEnabled(): boolean {
+    return this.formGenerations;
+  }
+
+  /**
+   * Select how stellar radial profiles are computed
+   * Profiles of the current stars are recalculated straight away
+   * @param model - Structure model
+   */
+  public setStructureModel(model: StructureModel): void {
+    this.structureModel = model;
+    this.updateRadialProfiles();
+  }
+
+  /**
+   * Get the current structure model
+   * @returns Structure model
+   */
+  public getStructureModel(): StructureModel {
+    return this.structureModel;
+  }
+
+  /**
+   * Set how far convective zones overshoot into their radiative neighbours
+   * Zones and profiles of the current stars are recalculated straight away
+   * @param overshoot - Overshoot distance in pressure scale heights
+   * @throws SimulationError if the overshoot is negative or too large
+   */
+  public setConvectiveOvershoot(overshoot: number): void {
+    if (!isFinite(overshoot) || overshoot < 0 || overshoot > CONVECTION_CONSTANTS.MAX_OVERSHOOT) {
+      const error = new SimulationError(
+        SimulationErrorType.INVALID_PARAMETERS,
+        `Convective overshoot must be between 0 and ${CONVECTION_CONSTANTS.MAX_OVERSHOOT} pressure scale heights`,
+        { overshoot },
+        false
+      );
+      errorLogger.logError(error);
+      throw error;
+    }
+    
+    this.convectiveOvershoot = overshoot;
+    this.updateRadialProfiles();
+  }
+
+  /**
+   * Get the current convective overshoot
+   * @returns Overshoot distance in pressure scale heights
+   */
+  public getConvectiveOvershoot(): number {
+    return this.convectiveOvershoot;
+  }
+
+  /**
+   * Subscribe to one type of simulation event
+   * Subscriptions survive reinitialization of the simulation
+   * @param type - Event type to listen for
+   * @param listener - Callback receiving events of that type
+   * @returns Function that removes the subscription
+   */
+  public on<K extends SimulationEventType>(
+    type: K,
+    listener: SimulationEventListener<SimulationEventOfType<K>>
+  ): () => void {
+    return this.eventBus.on(type, listener);
+  }
+
+  /**
+   * Subscribe to all simulation events
+   * @param listener - Callback receiving every event
+   * @returns Function that removes the subscription
+   */
+  public onAny(listener: SimulationEventListener): () => void {
+    return this.eventBus.onAny(listener);
+  }
+
+  /**
+   * Get events that occurred in the current simulation
+   * @param startTime - Start of range in years (inclusive, default: 0)
+   * @param endTime - End of range in years (inclusive, default: no limit)
+   * @returns Events in the order they occurred
+   */
+  public getEvents(startTime: number = 0, endTime: number = Infinity): SimulationEvent[] {
+    return this.eventLog.filter(event => event.time >= startTime && event.time <= endTime);
+  }
+
   /**
    * Jump to a specific time in the simulation
-   * Advances or rewinds the simulation to the specified time
+   * Advances or rewinds the simulation to the specified time.
+   * Rewinding restores the nearest earlier checkpoint and replays the
+   * original steps forward under the settings they ran with, so the identity
+   * of stars and planets is preserved and the replay matches the first run
+   * up to the target.
    * @param targetTime - Target time in years
    * @throws SimulationError if target time is invalid or no simulation is initialized
    */
@@ -247,12 +608,43 @@ export class SimulationController {
     
     try {
       if (deltaTime < 0) {
-        // Going backwards - need to reinitialize and evolve forward
-        const originalParams = this.system.initialCloudParameters;
-        this.initializeSimulation(originalParams);
+        // Going backwards - restore the nearest earlier checkpoint and replay
+        const index = this.findCheckpointIndex(targetTime);
+        const checkpoint = this.checkpoints[index];
+        this.restoreCheckpoint(checkpoint);
         
-        if (targetTime > 0) {
-          this.updateSimulation(targetTime);
+        // Later checkpoints, steps, history and events will be re-recorded while replaying
+        const replayed = this.steps.filter(step => step.time > checkpoint.time && step.time <= targetTime);
+        const crossing = this.steps.find(step => step.time > targetTime);
+        const unlogged = Math.min(this.stepLogStart, targetTime);
+        this.checkpoints = this.checkpoints.slice(0, index + 1);
+        this.steps = this.steps.filter(step => step.time <= checkpoint.time);
+        this.stepLogStart = Math.min(this.stepLogStart, checkpoint.time);
+        this.history.truncateAfter(checkpoint.time);
+        this.eventLog = this.eventLog.filter(event => event.time <= checkpoint.time);
+        
+        // Listeners already saw these events the first time through
+        const settings = this.getSettings();
+        this.replaying = true;
+        try {
+          // Steps before the log start were pruned, so that stretch is crossed at once
+          if (this.currentTime < unlogged) {
+            this.step(unlogged - this.currentTime);
+          }
+          for (const step of replayed) {
+            this.applySettings(step.settings);
+            this.step(step.deltaTime);
+          }
+          // The step that crossed the target is cut short
+          if (this.currentTime < targetTime) {
+            if (crossing) {
+              this.applySettings(crossing.settings);
+            }
+            this.step(targetTime - this.currentTime);
+          }
+        } finally {
+          this.applySettings(settings);
+          this.replaying = false;
         }
       } else {
         // Going forward - just evolve
@@ -345,50 +737,7 @@ export class SimulationController {
       }
       
       // Use adaptive time stepping based on evolution phase
-      const adaptiveDeltaTime = this.calculateAdaptiveTimeStep(deltaTime);
-      
-      // Update current time
-      this.currentTime += adaptiveDeltaTime;
-      this.system.age = this.currentTime;
-      
-      // Check for numerical stability of current time
-      checkNumericalStability(this.currentTime, 'currentTime');
-      
-      // Evolve all stars
-      this.system.stars = this.system.stars.map(star => {
-        try {
-          return this.evolveStarWithOrbitalUpdate(star, adaptiveDeltaTime);
-        } catch (error) {
-          // Log error but keep original star state
-          errorLogger.logError(
-            new SimulationError(
-              SimulationErrorType.NUMERICAL_INSTABILITY,
-              `Failed to evolve star ${star.name}: ${error instanceof Error ? error.message : 'Unknown error'}`,
-              { starId: star.id, starName: star.name, deltaTime: adaptiveDeltaTime },
-              true
-            )
-          );
-          return star; // Return unchanged star
-        }
-      });
-      
-      // Update planetary positions
-      this.system.planets = this.system.planets.map(planet => {
-        try {
-          return this.updatePlanetPosition(planet, this.currentTime);
-        } catch (error) {
-          // Log error but keep original planet state
-          errorLogger.logError(
-            new SimulationError(
-              SimulationErrorType.NUMERICAL_INSTABILITY,
-              `Failed to update planet ${planet.name}: ${error instanceof Error ? error.message : 'Unknown error'}`,
-              { planetId: planet.id, planetName: planet.name },
-              true
-            )
-          );
-          return planet; // Return unchanged planet
-        }
-      });
+      this.step(this.calculateAdaptiveTimeStep(deltaTime));
     } catch (error) {
       if (error instanceof SimulationError) {
         throw error;
@@ -406,93 +755,1046 @@ export class SimulationController {
   }
 
   /**
-   * Calculate adaptive time step based on evolution phase
-   * Faster evolution during main sequence, slower during rapid changes
-   * @param requestedDeltaTime - Requested time step in years
-   * @returns Adjusted time step in years
+   * Advance the simulation by one step of the given length
+   * Evolves stars, resolves interactions between them, moves all bodies and
+   * records events, checkpoints and history. The step is logged so that
+   * rewinds can replay it.
+   * @param adaptiveDeltaTime - Step length in years
    */
-  private calculateAdaptiveTimeStep(requestedDeltaTime: number): number {
-    if (!this.system || this.system.stars.length === 0) {
-      return requestedDeltaTime;
+  private step(adaptiveDeltaTime: number): void {
+    if (!this.system) {
+      return;
     }
     
-    // Find the star with the shortest remaining lifetime fraction
-    let minTimeScale = 1.0;
+    // Update current time
+    this.currentTime += adaptiveDeltaTime;
+    this.steps.push({ time: this.currentTime, deltaTime: adaptiveDeltaTime, settings: this.getSettings() });
+    this.system.age = this.currentTime;
     
-    for (const star of this.system.stars) {
-      const ageRatio = star.age / star.lifetime;
-      
-      // Slow down near phase transitions
-      if (ageRatio > 0.85 && ageRatio < 0.95) {
-        // Approaching post-main sequence
-        minTimeScale = Math.min(minTimeScale, 0.1);
-      } else if (ageRatio > 0.95 && ageRatio < 1.05) {
-        // During rapid evolution phases
-        minTimeScale = Math.min(minTimeScale, 0.01);
+    // Check for numerical stability of current time
+    checkNumericalStability(this.currentTime, 'currentTime');
+    
+    const previousStars = this.system.stars;
+    const previousPlanets = this.system.planets;
+    
+    // Evolve all stars
+    this.system.stars = this.system.stars.map(star => {
+      try {
+        return evolveStar(star, adaptiveDeltaTime, this.structureModel, this.convectiveOvershoot);
+      } catch (error) {
+        // Log error but keep original star state
+        errorLogger.logError(
+          new SimulationError(
+            SimulationErrorType.NUMERICAL_INSTABILITY,
+            `Failed to evolve star ${star.name}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            { starId: star.id, starName: star.name, deltaTime: adaptiveDeltaTime },
+            true
+          )
+        );
+        return star; // Return unchanged star
       }
+    });
+    
+    // Core collapse ejects mass too fast for orbits to adjust adiabatically
+    this.resolveSupernovae(previousStars);
+    
+    // Stars that outgrow their Roche lobes pass mass to their companions
+    const { transferring, exchanges } = this.resolveMassTransfer(previousStars, adaptiveDeltaTime);
+    
+    // Winds, planetary nebulae, supernovae and mass lost from binaries
+    // return their elements to the interstellar medium
+    this.resolveEjecta(previousStars, exchanges);
+    
+    // White dwarfs grown to the ignition mass explode as Type Ia supernovae
+    const detonated = this.resolveTypeIaSupernovae();
+    
+    // Orbits widen as stars lose mass to winds
+    this.expandOrbitsForMassLoss(previousStars, new Set([...transferring, ...detonated]));
+    
+    // Expanding stars swallow or tear apart close-in planets
+    this.resolveEngulfment();
+    
+    // Move stars and planets; N-body mode falls back to Kepler motion
+    // when an update would take too many integration steps
+    if (this.dynamicsMode !== DynamicsMode.N_BODY || !this.advanceNBody(adaptiveDeltaTime)) {
+      this.advanceKepler();
     }
     
-    return requestedDeltaTime * minTimeScale;
+    // Brown dwarfs cool and follow their hosts
+    this.advanceBrownDwarfs(adaptiveDeltaTime);
+    
+    // Gas enriched by earlier generations collapses into new stars
+    this.resolveStarFormation();
+    
+    this.emitStepEvents(previousStars, previousPlanets);
+    
+    // Record a checkpoint once enough simulation time has passed
+    const lastCheckpoint = this.checkpoints[this.checkpoints.length - 1];
+    if (!lastCheckpoint || this.currentTime - lastCheckpoint.time >= this.checkpointInterval) {
+      this.recordCheckpoint();
+    }
+    this.enforceStepLimit();
+    
+    // Sample history (the recorder applies its own cadence)
+    this.history.record(this.currentTime, this.system);
   }
 
   /**
-   * Evolve a star and update its orbital position
-   * @param star - Star to evolve
-   * @param deltaTime - Time step in years
-   * @returns Updated star
+   * Widen stellar and planetary orbits after stellar mass loss
+   * Wind mass loss is slow compared with orbital periods, so a⋅M is conserved.
+   * Stars that exploded this step were handled by resolveSupernovae or
+   * resolveTypeIaSupernovae, and binaries exchanging mass had their orbits
+   * updated by resolveMassTransfer.
+   * @param previousStars - Stars before the current step
+   * @param transferring - IDs of stars whose orbits were already updated this step
    */
-  private evolveStarWithOrbitalUpdate(star: Star, deltaTime: number): Star {
-    // Evolve stellar properties
-    const evolvedStar = evolveStar(star, deltaTime);
+  private expandOrbitsForMassLoss(previousStars: Star[], transferring: Set<string>): void {
+    if (!this.system) {
+      return;
+    }
+    
+    // Treat stars whose mass change was already applied as unchanged
+    // (stars that merged or were destroyed drop out)
+    const settled = (ids: Set<string>): Star[] => previousStars.flatMap(star => {
+      if (!ids.has(star.id)) {
+        return [star];
+      }
+      const current = this.system!.stars.find(s => s.id === star.id);
+      return current ? [current] : [];
+    });
+    const exploded = new Set(detectSupernovae(previousStars, this.system.stars));
     
-    // Update orbital position for binary/multiple systems
-    // For now, keep position unchanged (will be enhanced in future)
-    // In a real implementation, we would track orbital parameters
-    // and update positions based on Kepler's laws
+    if (this.system.stellarOrbits) {
+      this.system.stellarOrbits = expandStellarOrbits(
+        this.system.stellarOrbits,
+        settled(new Set([...exploded, ...transferring])),
+        this.system.stars
+      );
+    }
     
-    return evolvedStar;
+    this.expandPlanetOrbits(settled(exploded));
   }
 
   /**
-   * Update planet position based on current simulation time
-   * @param planet - Planet to update
-   * @param currentTime - Current simulation time in years
-   * @returns Updated planet
+   * Widen or shrink planetary orbits as their hosts gain or lose mass
+   * @param previousStars - Hosts before the mass change
    */
-  private updatePlanetPosition(planet: Planet, currentTime: number): Planet {
-    // Find the parent star
-    const parentStar = this.system?.stars.find(s => s.id === planet.parentStarId);
+  private expandPlanetOrbits(previousStars: Star[]): void {
+    if (!this.system) {
+      return;
+    }
     
-    if (!parentStar) {
-      return planet; // Parent star not found, keep current position
+    this.system.planets = this.system.planets.map(planet => {
+      const previousHost = previousStars.find(star => star.id === planet.parentStarId);
+      const host = this.system!.stars.find(star => star.id === planet.parentStarId);
+      if (!previousHost || !host || previousHost.mass === host.mass) {
+        return planet;
+      }
+      
+      const planetMass = planet.mass * PHYSICS_CONSTANTS.EARTH_MASS / PHYSICS_CONSTANTS.SOLAR_MASS;
+      const semiMajorAxis = calculateAdiabaticSemiMajorAxis(
+        planet.semiMajorAxis,
+        previousHost.mass + planetMass,
+        host.mass + planetMass
+      );
+      
+      return {
+        ...planet,
+        semiMajorAxis,
+        orbitalPeriod: calculateOrbitalPeriod(semiMajorAxis, host.mass + planetMass),
+      };
+    });
+  }
+
+  /**
+   * Exchange mass between stars that overflow their Roche lobes
+   * Emits MASS_TRANSFER_STARTED and MASS_TRANSFER_ENDED events as episodes
+   * begin and end, a COMMON_ENVELOPE event when unstable overflow ejects
+   * the donor's envelope or merges the stars, and NOVA events for accreting
+   * white dwarfs
+   * @param previousStars - Stars before the current step
+   * @param deltaTime - Step length in years
+   * @returns IDs of the stars whose orbits were updated by the exchange,
+   * and the mass handed between them
+   */
+  private resolveMassTransfer(
+    previousStars: Star[],
+    deltaTime: number
+  ): { transferring: Set<string>; exchanges: MassExchange[] } {
+    if (!this.system) {
+      return { transferring: new Set(), exchanges: [] };
     }
     
-    // Calculate orbital period
-    const period = calculateOrbitalPeriod(planet.semiMajorAxis, parentStar.mass);
+    const result = resolveMassTransfer(
+      previousStars,
+      this.system.stars,
+      this.system.stellarOrbits ?? [],
+      this.system.massTransfer ?? [],
+      this.currentTime,
+      deltaTime
+    );
     
-    // Create orbital parameters from planet properties
-    const orbitalParams = {
-      semiMajorAxis: planet.semiMajorAxis,
-      eccentricity: planet.eccentricity,
-      inclination: 0, // Assume coplanar for simplicity
-      longitudeOfAscendingNode: 0,
-      argumentOfPeriapsis: 0,
-      meanAnomalyAtEpoch: 0,
-    };
+    this.system.stars = result.stars;
+    if (this.system.stellarOrbits) {
+      this.system.stellarOrbits = result.stellarOrbits;
+    }
+    if (this.system.massTransfer || result.episodes.length > 0) {
+      this.system.massTransfer = result.episodes;
+    }
     
-    // Calculate new position
-    const newPosition = calculateOrbitalPosition(orbitalParams, currentTime, period);
+    for (const episode of result.ended) {
+      this.emitEvent({
+        type: SimulationEventType.MASS_TRANSFER_ENDED,
+        time: this.currentTime,
+        starId: episode.donorId,
+        accretorId: episode.accretorId,
+        transferredMass: episode.transferredMass,
+        accretedMass: episode.accretedMass,
+      });
+    }
+    for (const episode of result.started) {
+      this.emitEvent({
+        type: SimulationEventType.MASS_TRANSFER_STARTED,
+        time: this.currentTime,
+        starId: episode.donorId,
+        accretorId: episode.accretorId,
+        stability: episode.stability,
+      });
+    }
     
-    // Offset by parent star position
-    const finalPosition = {
-      x: newPosition.x + parentStar.position.x,
-      y: newPosition.y + parentStar.position.y,
-      z: newPosition.z + parentStar.position.z,
-    };
+    for (const outbursts of result.novae) {
+      this.emitEvent({
+        type: SimulationEventType.NOVA,
+        time: this.currentTime,
+        starId: outbursts.whiteDwarfId,
+        companionId: outbursts.donorId,
+        outbursts: outbursts.outbursts,
+        ejectedMass: outbursts.ejectedMass,
+        separation: outbursts.separation,
+      });
+    }
+    for (const evolution of result.commonEnvelopes) {
+      if (evolution.outcome === CommonEnvelopeOutcome.MERGED) {
+        // Planets of the absorbed star now orbit the merger product
+        this.system.planets = this.system.planets.map(planet =>
+          planet.parentStarId === evolution.companionId
+            ? { ...planet, parentStarId: evolution.donorId }
+            : planet
+        );
+      }
+      this.emitEvent({
+        type: SimulationEventType.COMMON_ENVELOPE,
+        time: this.currentTime,
+        starId: evolution.donorId,
+        companionId: evolution.companionId,
+        outcome: evolution.outcome,
+        ejectedMass: evolution.ejectedMass,
+        separation: evolution.separation,
+      });
+    }
     
-    return {
-      ...planet,
-      position: finalPosition,
-    };
+    const transferring = new Set([
+      ...result.episodes.flatMap(episode => [episode.donorId, episode.accretorId]),
+      ...result.commonEnvelopes.flatMap(evolution => [evolution.donorId, evolution.companionId]),
+    ]);
+    return { transferring, exchanges: result.exchanges };
   }
+
+  /**
+   * Add the mass stars lost this step to their ejecta and the system's
+   * interstellar medium ledger
+   * @param previousStars - Stars before the current step
+   * @param exchanges - Mass handed between stars this step
+   */
+  private resolveEjecta(previousStars: Star[], exchanges: MassExchange[]): void {
+    if (!this.system) {
+      return;
+    }
+    
+    const result = resolveEjecta(previousStars, this.system.stars, undefined, exchanges);
+    this.system.stars = result.stars;
+    this.returnToInterstellarMedium(result.interstellarMedium);
+  }
+
+  /**
+   * Add ejected material to the interstellar medium ledger and to the gas
+   * later generations can form from
+   * @param ejecta - Element masses ejected this step
+   */
+  private returnToInterstellarMedium(ejecta: ElementYields): void {
+    if (!this.system) {
+      return;
+    }
+    
+    this.system.interstellarMedium = addYields(this.system.interstellarMedium ?? createEmptyYields(), ejecta);
+    if (this.system.gasReservoir) {
+      this.system.gasReservoir = addYields(this.system.gasReservoir, ejecta);
+    }
+  }
+
+  /**
+   * Form a new generation of stars once the gas is ready to collapse
+   * Each generation draws from its own random source, hashed from the cloud
+   * seed and generation number so that it never repeats the stream another
+   * seed starts from; seeded runs and replays after a rewind form the same stars.
+   * Emits a STAR_FORMATION event for the new generation.
+   */
+  private resolveStarFormation(): void {
+    if (!this.system || !this.formGenerations || !isGasReadyToCollapse(this.system)) {
+      return;
+    }
+    
+    const { seed } = this.system.initialCloudParameters;
+    const generationNumber = (this.system.generations?.length ?? 0) + 1;
+    const random = createRandomSource(
+      seed === undefined ? undefined : deriveSeed(`${seed}:generation:${generationNumber}`)
+    );
+    const result = formStellarGeneration(this.system, this.currentTime, random);
+    if (!result) {
+      return;
+    }
+    
+    const stars = result.stars.map(
+      star => updateRadialProfile(star, this.structureModel, this.convectiveOvershoot)
+    );
+    this.system.stars = [...this.system.stars, ...stars];
+    this.system.stellarOrbits = result.stellarOrbits;
+    this.system.gasReservoir = result.gasReservoir;
+    this.system.generations = [...(this.system.generations ?? []), result.generation];
+    if (result.brownDwarfs.length > 0) {
+      this.system.brownDwarfs = [...(this.system.brownDwarfs ?? []), ...result.brownDwarfs];
+    }
+    
+    const planets = this.generatePlanetsForStars(stars, random)
+      .map(planet => this.updatePlanetPosition(planet, this.currentTime));
+    this.system.planets = [...this.system.planets, ...planets];
+    
+    this.emitEvent({
+      type: SimulationEventType.STAR_FORMATION,
+      time: this.currentTime,
+      generation: result.generation.generation,
+      starIds: result.generation.starIds,
+      metallicity: result.generation.metallicity,
+      gasMass: result.generation.gasMass,
+    });
+  }
+
+  /**
+   * Form planets in the protoplanetary disks of new stars
+   * Stars whose planets fail to form are logged and skipped
+   * @param stars - Newly formed stars
+   * @param random - Random source for planet generation
+   * @returns Planets of all the stars, not yet placed around their hosts
+   */
+  private generatePlanetsForStars(stars: Star[], random: RandomSource): Planet[] {
+    const allPlanets: Planet[] = [];
+    
+    for (const star of stars) {
+      try {
+        // Create protoplanetary disk
+        const disk = createProtoplanetaryDisk(star);
+        
+        if (disk) {
+          // Generate planets from disk
+          const planets = generatePlanets(disk, star, 10, random);
+          allPlanets.push(...planets);
+        }
+      } catch (error) {
+        // Log error but continue with other stars
+        errorLogger.logError(
+          new SimulationError(
+            SimulationErrorType.NUMERICAL_INSTABILITY,
+            `Failed to generate planets for star ${star.name}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            { starId: star.id, starName: star.name },
+            true // Recoverable
+          )
+        );
+      }
+    }
+    
+    return allPlanets;
+  }
+
+  /**
+   * Recompute orbits and apply ejecta for stars that exploded this step
+   * Emits a SUPERNOVA event per explosion and records the cause for the
+   * PLANET_LOST event of each planet lost
+   * @param previousStars - Stars before the current step
+   */
+  private resolveSupernovae(previousStars: Star[]): void {
+    if (!this.system) {
+      return;
+    }
+    
+    const result = resolveSupernovae(
+      previousStars,
+      this.system.stars,
+      this.system.planets,
+      this.system.stellarOrbits ?? [],
+      this.currentTime
+    );
+    if (result.events.length === 0) {
+      return;
+    }
+    
+    this.system.stars = result.stars;
+    this.system.planets = result.planets;
+    if (this.system.stellarOrbits) {
+      this.system.stellarOrbits = result.stellarOrbits;
+    }
+    for (const { planet, reason } of result.lost) {
+      this.planetLossReasons.set(planet.id, reason);
+    }
+    for (const event of result.events) {
+      this.emitEvent(event);
+    }
+  }
+
+  /**
+   * Destroy white dwarfs that reached the carbon-ignition mass
+   * Emits a TYPE_IA_SUPERNOVA event per explosion and records the cause for
+   * the PLANET_LOST event of each planet lost
+   * @returns IDs of the destroyed white dwarfs
+   */
+  private resolveTypeIaSupernovae(): Set<string> {
+    if (!this.system) {
+      return new Set();
+    }
+    
+    const result = resolveTypeIaSupernovae(
+      this.system.stars,
+      this.system.planets,
+      this.system.stellarOrbits ?? [],
+      this.currentTime
+    );
+    if (result.events.length === 0) {
+      return new Set();
+    }
+    
+    this.system.stars = result.stars;
+    this.system.planets = result.planets;
+    if (this.system.stellarOrbits) {
+      this.system.stellarOrbits = result.stellarOrbits;
+    }
+    this.returnToInterstellarMedium(resolveTypeIaEjecta(result.events));
+    for (const { planet, reason } of result.lost) {
+      this.planetLossReasons.set(planet.id, reason);
+    }
+    for (const event of result.events) {
+      this.emitEvent(event);
+    }
+    return new Set(result.events.map(event => event.starId));
+  }
+
+  /**
+   * Remove planets engulfed or tidally disrupted by their hosts
+   * The cause is recorded for the PLANET_LOST event of each planet
+   */
+  private resolveEngulfment(): void {
+    if (!this.system) {
+      return;
+    }
+    
+    const result = resolvePlanetEngulfment(this.system.stars, this.system.planets, this.accretePlanets);
+    
+    for (const { planet, starId, fate } of result.destroyed) {
+      const starName = this.system.stars.find(star => star.id === starId)?.name ?? starId;
+      this.planetLossReasons.set(planet.id, describePlanetFate(fate, starName));
+    }
+    
+    this.system.stars = result.stars;
+    this.system.planets = result.planets;
+  }
+
+  /**
+   * Move stars along their Keplerian orbits and planets around their hosts
+   */
+  private advanceKepler(): void {
+    if (!this.system) {
+      return;
+    }
+    
+    // Move stars along their orbits (planets below follow their hosts)
+    this.system.stars = updateStellarPositions(
+      this.system.stars,
+      this.system.stellarOrbits ?? [],
+      this.currentTime
+    );
+    
+    // Update planetary positions
+    this.system.planets = this.system.planets.map(planet => {
+      try {
+        return this.updatePlanetPosition(planet, this.currentTime);
+      } catch (error) {
+        // Log error but keep original planet state
+        errorLogger.logError(
+          new SimulationError(
+            SimulationErrorType.NUMERICAL_INSTABILITY,
+            `Failed to update planet ${planet.name}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            { planetId: planet.id, planetName: planet.name },
+            true
+          )
+        );
+        return planet; // Return unchanged planet
+      }
+    });
+  }
+
+  /**
+   * Fit Keplerian orbits to the current positions and velocities
+   * Planets are fitted to their hosts with the host mass alone, matching the
+   * periods they are moved with; planets no longer bound to their host keep
+   * their last orbit.
+   */
+  private fitKeplerOrbits(): void {
+    if (!this.system) {
+      return;
+    }
+    
+    const stars = this.system.stars;
+    const planets = this.system.planets.map(planet => {
+      const host = stars.find(star => star.id === planet.parentStarId);
+      if (!host || !planet.velocity) {
+        return planet;
+      }
+      
+      const elements = calculateOrbitalElementsFromState(
+        subtract(planet.position, host.position),
+        subtract(planet.velocity, host.velocity),
+        host.mass,
+        this.currentTime
+      );
+      return elements
+        ? { ...planet, ...elements, orbitalPeriod: calculateOrbitalPeriod(elements.semiMajorAxis, host.mass) }
+        : planet;
+    });
+    
+    this.system = {
+      ...this.system,
+      planets,
+      ...(this.system.stellarOrbits && {
+        stellarOrbits: fitStellarOrbits(this.system.stellarOrbits, stars, this.currentTime),
+      }),
+    };
+  }
+
+  /**
+   * Age brown dwarfs and move them along their orbits
+   * They are not integrated in N-body mode: their Keplerian orbits follow
+   * the hosts wherever the dynamics moved them
+   * @param deltaTime - Time step in years
+   */
+  private advanceBrownDwarfs(deltaTime: number): void {
+    if (!this.system?.brownDwarfs) {
+      return;
+    }
+    
+    this.system.brownDwarfs = updateBrownDwarfPositions(
+      this.system.brownDwarfs.map(brownDwarf => evolveBrownDwarf(brownDwarf, deltaTime)),
+      this.system.stars,
+      this.currentTime
+    );
+  }
+
+  /**
+   * Integrate stars and planets with mutual gravity
+   * @param deltaTime - Time step in years
+   * @returns False if the step would be too expensive (caller uses Kepler motion)
+   */
+  private advanceNBody(deltaTime: number): boolean {
+    if (!this.system) {
+      return false;
+    }
+    
+    if (!this.nBodyDiagnostics) {
+      this.resetNBodyDiagnostics();
+    }
+    const diagnostics = this.nBodyDiagnostics!;
+    
+    const bodies = this.collectNBodyBodies();
+    const { timeStepFactor, maxStepsPerUpdate, softeningLength } = this.nBodyOptions;
+    
+    if (estimateNBodySteps(bodies, deltaTime, timeStepFactor) > maxStepsPerUpdate) {
+      diagnostics.keplerFallbacks++;
+      return false;
+    }
+    
+    // Masses are fixed during one integration, so any change is integration error
+    const energyBefore = calculateTotalEnergy(bodies, softeningLength);
+    const angularMomentumBefore = vectorMagnitude(calculateTotalAngularMomentum(bodies));
+    
+    const result = integrateNBody(bodies, deltaTime, timeStepFactor, maxStepsPerUpdate, softeningLength);
+    
+    const energyAfter = calculateTotalEnergy(result.bodies, softeningLength);
+    const angularMomentumAfter = vectorMagnitude(calculateTotalAngularMomentum(result.bodies));
+    
+    if (energyBefore !== 0) {
+      diagnostics.energyDrift += Math.abs((energyAfter - energyBefore) / energyBefore);
+    }
+    if (angularMomentumBefore > 0) {
+      diagnostics.angularMomentumDrift +=
+        Math.abs(angularMomentumAfter - angularMomentumBefore) / angularMomentumBefore;
+    }
+    diagnostics.energy = energyAfter;
+    diagnostics.angularMomentum = angularMomentumAfter;
+    diagnostics.steps += result.steps;
+    
+    this.applyNBodyBodies(result.bodies);
+    return true;
+  }
+
+  /**
+   * Build N-body point masses from the current stars and planets
+   * @returns Stars followed by planets, in solar masses
+   */
+  private collectNBodyBodies(): NBodyBody[] {
+    if (!this.system) {
+      return [];
+    }
+    
+    const stars: NBodyBody[] = this.system.stars.map(star => ({
+      id: star.id,
+      mass: star.mass,
+      position: { ...star.position },
+      velocity: { ...star.velocity },
+    }));
+    
+    const planets: NBodyBody[] = this.system.planets.map(planet => ({
+      id: planet.id,
+      mass: planet.mass * PHYSICS_CONSTANTS.EARTH_MASS / PHYSICS_CONSTANTS.SOLAR_MASS,
+      position: { ...planet.position },
+      velocity: {
+        ...(planet.velocity ?? this.updatePlanetPosition(planet, this.currentTime).velocity!),
+      },
+    }));
+    
+    return [...stars, ...planets];
+  }
+
+  /**
+   * Write integrated positions and velocities back to the system
+   * Planet orbital elements are refitted to their hosts, and planets that
+   * are unbound from the whole system are removed as ejected
+   * @param bodies - Integrated bodies
+   */
+  private applyNBodyBodies(bodies: NBodyBody[]): void {
+    if (!this.system) {
+      return;
+    }
+    
+    const byId = new Map(bodies.map(body => [body.id, body]));
+    
+    this.system.stars = this.system.stars.map(star => {
+      const body = byId.get(star.id);
+      return body ? { ...star, position: body.position, velocity: body.velocity } : star;
+    });
+    
+    // System barycenter, used to decide whether a planet has escaped
+    const totalMass = bodies.reduce((sum, body) => sum + body.mass, 0);
+    const barycenter = weightedAverage(bodies, body => body.position, totalMass);
+    const barycenterVelocity = weightedAverage(bodies, body => body.velocity, totalMass);
+    
+    const planets: Planet[] = [];
+    for (const planet of this.system.planets) {
+      const body = byId.get(planet.id);
+      if (!body) {
+        planets.push(planet);
+        continue;
+      }
+      
+      const fromBarycenter = subtract(body.position, barycenter);
+      const velocityFromBarycenter = subtract(body.velocity, barycenterVelocity);
+      const distance = vectorMagnitude(fromBarycenter);
+      const speed = vectorMagnitude(velocityFromBarycenter);
+      const specificEnergy = 0.5 * speed * speed -
+        NBODY_CONSTANTS.GRAVITATIONAL_CONSTANT * totalMass / distance;
+      const receding = dot(fromBarycenter, velocityFromBarycenter) > 0;
+      
+      if (specificEnergy > 0 && receding) {
+        this.planetLossReasons.set(planet.id, 'Ejected from the system by gravitational scattering');
+        continue;
+      }
+      
+      const updated: Planet = { ...planet, position: body.position, velocity: body.velocity };
+      
+      // Refit the orbit to the host while the planet remains bound to it
+      const host = this.system.stars.find(star => star.id === planet.parentStarId);
+      if (host) {
+        const elements = calculateOsculatingElements(
+          subtract(body.position, host.position),
+          subtract(body.velocity, host.velocity),
+          host.mass + body.mass
+        );
+        if (elements.semiMajorAxis > 0 && elements.eccentricity < 1) {
+          updated.semiMajorAxis = elements.semiMajorAxis;
+          updated.eccentricity = elements.eccentricity;
+          updated.orbitalPeriod = calculateOrbitalPeriod(elements.semiMajorAxis, host.mass);
+        }
+      }
+      
+      planets.push(updated);
+    }
+    
+    this.system.planets = planets;
+  }
+
+  /**
+   * Restart N-body diagnostics from the current system state
+   */
+  private resetNBodyDiagnostics(): void {
+    const bodies = this.collectNBodyBodies();
+    this.nBodyDiagnostics = {
+      energy: calculateTotalEnergy(bodies, this.nBodyOptions.softeningLength),
+      angularMomentum: vectorMagnitude(calculateTotalAngularMomentum(bodies)),
+      energyDrift: 0,
+      angularMomentumDrift: 0,
+      steps: 0,
+      keplerFallbacks: 0,
+    };
+  }
+
+  /**
+   * Record an event and dispatch it to subscribers
+   * @param event - Event to emit
+   */
+  private emitEvent(event: SimulationEvent): void {
+    this.eventLog.push(event);
+    if (!this.replaying) {
+      this.eventBus.emit(event);
+    }
+  }
+
+  /**
+   * Emit a stability warning for the current star configuration
+   * @param time - Simulation time in years
+   * @param message - Description of the instability
+   */
+  private emitStabilityWarning(time: number, message: string): void {
+    this.emitEvent({
+      type: SimulationEventType.STABILITY_WARNING,
+      time,
+      starIds: this.system ? this.system.stars.map(star => star.id) : [],
+      message,
+    });
+  }
+
+  /**
+   * Emit events for everything that changed during one update step
+   * Stability is re-checked only when a star changed phase, since phase
+   * transitions are when radii and masses change abruptly
+   * @param previousStars - Stars before the step
+   * @param previousPlanets - Planets before the step
+   */
+  private emitStepEvents(previousStars: Star[], previousPlanets: Planet[]): void {
+    if (!this.system) {
+      return;
+    }
+    
+    let phaseChanged = false;
+    for (const star of this.system.stars) {
+      const previous = previousStars.find(s => s.id === star.id);
+      if (!previous) {
+        continue;
+      }
+      
+      for (const event of detectStarEvents(previous, star, this.currentTime)) {
+        phaseChanged = phaseChanged || event.type === SimulationEventType.PHASE_CHANGE;
+        this.emitEvent(event);
+      }
+    }
+    
+    const lostPlanets = detectLostPlanets(
+      previousPlanets,
+      this.system.planets,
+      this.currentTime,
+      planet => this.planetLossReasons.get(planet.id) ?? 'Removed from system'
+    );
+    this.planetLossReasons.clear();
+    for (const event of lostPlanets) {
+      this.emitEvent(event);
+    }
+    
+    if (phaseChanged && !this.isBoundSystemStable()) {
+      this.emitStabilityWarning(
+        this.currentTime,
+        'Star system became dynamically unstable after a phase transition'
+      );
+    }
+  }
+
+  /**
+   * Check the stability of the stars that still orbit each other
+   * Groups flying apart on unbound orbits are checked separately, since
+   * their growing separation is expected rather than a sign of instability
+   * @returns True if every bound group of stars is stable
+   */
+  private isBoundSystemStable(): boolean {
+    if (!this.system) {
+      return true;
+    }
+    
+    let groups = [this.system.stars];
+    for (const orbit of this.system.stellarOrbits ?? []) {
+      if (orbit.unbound) {
+        groups = groups.flatMap(stars => [
+          stars.filter(star => !orbit.secondaryIds.includes(star.id)),
+          stars.filter(star => orbit.secondaryIds.includes(star.id)),
+        ]);
+      }
+    }
+    
+    return groups.every(stars => stars.length < 2 || checkSystemStability({ ...this.system!, stars }));
+  }
+
+  /**
+   * Store a deep copy of the current system as a checkpoint
+   * When the limit is reached, every other checkpoint after genesis is dropped
+   */
+  private recordCheckpoint(): void {
+    if (!this.system) {
+      return;
+    }
+    
+    this.checkpoints.push({
+      time: this.currentTime,
+      system: structuredClone(this.system),
+    });
+    
+    if (this.checkpoints.length > this.maxCheckpoints) {
+      this.checkpoints = this.checkpoints.filter(
+        (_, index) => index % 2 === 0 || index === this.checkpoints.length - 1
+      );
+    }
+  }
+
+  /**
+   * Drop the oldest steps once the log exceeds its limit
+   * The log is cut at a checkpoint so the remaining steps can still be
+   * replayed from it.
+   */
+  private enforceStepLimit(): void {
+    if (this.steps.length <= this.maxSteps) {
+      return;
+    }
+    
+    const lastDropped = this.steps[this.steps.length - this.maxSteps - 1].time;
+    let cut = this.checkpoints.find(checkpoint => checkpoint.time >= lastDropped);
+    if (!cut) {
+      this.recordCheckpoint();
+      cut = this.checkpoints[this.checkpoints.length - 1];
+    }
+    
+    const cutTime = cut.time;
+    this.steps = this.steps.filter(step => step.time > cutTime);
+    this.stepLogStart = cutTime;
+  }
+
+  /**
+   * Get the settings steps currently run under
+   * Returns the settings of the latest step while nothing has changed, so
+   * consecutive steps share one object.
+   * @returns Active settings
+   */
+  private getSettings(): SimulationSettings {
+    const last = this.steps[this.steps.length - 1]?.settings;
+    if (
+      last &&
+      last.dynamicsMode === this.dynamicsMode &&
+      last.nBodyOptions === this.nBodyOptions &&
+      last.accretePlanets === this.accretePlanets &&
+      last.formGenerations === this.formGenerations &&
+      last.structureModel === this.structureModel &&
+      last.convectiveOvershoot === this.convectiveOvershoot
+    ) {
+      return last;
+    }
+    
+    return {
+      dynamicsMode: this.dynamicsMode,
+      nBodyOptions: this.nBodyOptions,
+      accretePlanets: this.accretePlanets,
+      formGenerations: this.formGenerations,
+      structureModel: this.structureModel,
+      convectiveOvershoot: this.convectiveOvershoot,
+    };
+  }
+
+  /**
+   * Switch to previously recorded settings
+   * Changes go through the same updates as the public setters, so a replay
+   * sees the state changes a user's switch caused in the first run.
+   * @param settings - Settings to apply
+   */
+  private applySettings(settings: SimulationSettings): void {
+    if (settings.dynamicsMode !== this.dynamicsMode) {
+      this.setDynamicsMode(settings.dynamicsMode);
+    }
+    this.nBodyOptions = settings.nBodyOptions;
+    this.accretePlanets = settings.accretePlanets;
+    this.formGenerations = settings.formGenerations;
+    
+    if (
+      settings.structureModel !== this.structureModel ||
+      settings.convectiveOvershoot !== this.convectiveOvershoot
+    ) {
+      this.structureModel = settings.structureModel;
+      this.convectiveOvershoot = settings.convectiveOvershoot;
+      this.updateRadialProfiles();
+    }
+  }
+
+  /**
+   * Recalculate the zones and radial profiles of the current stars
+   */
+  private updateRadialProfiles(): void {
+    if (this.system) {
+      this.system = {
+        ...this.system,
+        stars: this.system.stars.map(
+          star => updateRadialProfile(star, this.structureModel, this.convectiveOvershoot)
+        ),
+      };
+    }
+  }
+
+  /**
+   * Restore the simulation from a checkpoint
+   * The checkpoint itself is copied so it stays valid for later rewinds
+   * @param checkpoint - Checkpoint to restore
+   */
+  private restoreCheckpoint(checkpoint: SimulationCheckpoint): void {
+    this.system = structuredClone(checkpoint.system);
+    this.currentTime = checkpoint.time;
+  }
+
+  /**
+   * Find the latest checkpoint at or before a given time
+   * @param time - Simulation time in years
+   * @returns Index into the checkpoint list (0 = genesis)
+   */
+  private findCheckpointIndex(time: number): number {
+    for (let i = this.checkpoints.length - 1; i > 0; i--) {
+      if (this.checkpoints[i].time <= time) {
+        return i;
+      }
+    }
+    return 0;
+  }
+
+  /**
+   * Calculate adaptive time step based on evolution phase
+   * Faster evolution during main sequence, slower during rapid changes
+   * @param requestedDeltaTime - Requested time step in years
+   * @returns Adjusted time step in years
+   */
+  private calculateAdaptiveTimeStep(requestedDeltaTime: number): number {
+    if (!this.system || this.system.stars.length === 0) {
+      return requestedDeltaTime;
+    }
+    
+    // Find the star with the shortest remaining lifetime fraction
+    let minTimeScale = 1.0;
+    
+    for (const star of this.system.stars) {
+      const ageRatio = star.age / star.lifetime;
+      
+      // Slow down near phase transitions
+      if (ageRatio > 0.85 && ageRatio < 0.95) {
+        // Approaching post-main sequence
+        minTimeScale = Math.min(minTimeScale, 0.1);
+      } else if (ageRatio > 0.95 && ageRatio < 1.05) {
+        // During rapid evolution phases
+        minTimeScale = Math.min(minTimeScale, 0.01);
+      }
+    }
+    
+    return requestedDeltaTime * minTimeScale;
+  }
+
+  /**
+   * Update planet position based on current simulation time
+   * @param planet - Planet to update
+   * @param currentTime - Current simulation time in years
+   * @returns Updated planet
+   */
+  private updatePlanetPosition(planet: Planet, currentTime: number): Planet {
+    // Find the parent star
+    const parentStar = this.system?.stars.find(s => s.id === planet.parentStarId);
+    
+    if (!parentStar) {
+      return planet; // Parent star not found, keep current position
+    }
+    
+    // Calculate orbital period
+    const period = calculateOrbitalPeriod(planet.semiMajorAxis, parentStar.mass);
+    
+    // Create orbital parameters from planet properties
+    const orbitalParams = getPlanetOrbitalElements(planet);
+    
+    // Calculate new position and velocity
+    const newPosition = calculateOrbitalPosition(orbitalParams, currentTime, period);
+    const orbitalVelocity = calculateOrbitalVelocity(orbitalParams, currentTime, period);
+    
+    // Offset by parent star position
+    const finalPosition = {
+      x: newPosition.x + parentStar.position.x,
+      y: newPosition.y + parentStar.position.y,
+      z: newPosition.z + parentStar.position.z,
+    };
+    
+    return {
+      ...planet,
+      position: finalPosition,
+      velocity: {
+        x: orbitalVelocity.x + parentStar.velocity.x,
+        y: orbitalVelocity.y + parentStar.velocity.y,
+        z: orbitalVelocity.z + parentStar.velocity.z,
+      },
+    };
+  }
+}
+
+/**
+ * Magnitude of a vector
+ */
+function vectorMagnitude(v: Vector3): number {
+  return Math.sqrt(v.x * v.x + v.y * v.y + v.z * v.z);
+}
+
+/**
+ * Difference of two vectors (a - b)
+ */
+function subtract(a: Vector3, b: Vector3): Vector3 {
+  return { x: a.x - b.x, y: a.y - b.y, z: a.z - b.z };
+}
+
+/**
+ * Dot product of two vectors
+ */
+function dot(a: Vector3, b: Vector3): number {
+  return a.x * b.x + a.y * b.y + a.z * b.z;
+}
+
+/**
+ * Mass-weighted average of a vector property
+ */
+function weightedAverage(
+  bodies: NBodyBody[],
+  pick: (body: NBodyBody) => Vector3,
+  totalMass: number
+): Vector3 {
+  const sum = bodies.reduce(
+    (acc, body) => {
+      const v = pick(body);
+      return {
+        x: acc.x + body.mass * v.x,
+        y: acc.y + body.mass * v.y,
+        z: acc.z + body.mass * v.z,
+      };
+    },
+    { x: 0, y: 0, z: 0 }
+  );
+  return totalMass > 0
+    ? { x: sum.x / totalMass, y: sum.y / totalMass, z: sum.z / totalMass }
+    : sum;
 }
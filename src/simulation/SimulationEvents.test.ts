@@ -0,0 +1,134 @@
+/**
+ * Simulation Events Tests
+ * Tests for the event bus and event detection between simulation steps
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  SimulationEventBus,
+  detectStarEvents,
+  detectLostPlanets,
+  describeSimulationEvent,
+} from './SimulationEvents';
+import { createStar } from './stellarEvolution';
+import {
+  EvolutionPhase,
+  SpectralType,
+  PlanetComposition,
+  SimulationEvent,
+  SimulationEventType,
+} from '../types/core';
+
+describe('SimulationEvents', () => {
+  const warning: SimulationEvent = {
+    type: SimulationEventType.STABILITY_WARNING,
+    time: 0,
+    starIds: ['star-1', 'star-2'],
+    message: 'Unstable',
+  };
+
+  describe('SimulationEventBus', () => {
+    it('should deliver events only to listeners of that type', () => {
+      const bus = new SimulationEventBus();
+      const onWarning = vi.fn();
+      const onPhase = vi.fn();
+      bus.on(SimulationEventType.STABILITY_WARNING, onWarning);
+      bus.on(SimulationEventType.PHASE_CHANGE, onPhase);
+
+      bus.emit(warning);
+
+      expect(onWarning).toHaveBeenCalledWith(warning);
+      expect(onPhase).not.toHaveBeenCalled();
+    });
+
+    it('should deliver every event to onAny listeners', () => {
+      const bus = new SimulationEventBus();
+      const listener = vi.fn();
+      bus.onAny(listener);
+
+      bus.emit(warning);
+
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop delivering after unsubscribe', () => {
+      const bus = new SimulationEventBus();
+      const listener = vi.fn();
+      const unsubscribe = bus.on(SimulationEventType.STABILITY_WARNING, listener);
+
+      unsubscribe();
+      bus.emit(warning);
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should keep dispatching when a listener throws', () => {
+      const bus = new SimulationEventBus();
+      const listener = vi.fn();
+      bus.onAny(() => {
+        throw new Error('listener failure');
+      });
+      bus.onAny(listener);
+
+      expect(() => bus.emit(warning)).not.toThrow();
+      expect(listener).toHaveBeenCalled();
+    });
+  });
+
+  describe('detectStarEvents', () => {
+    it('should report phase and remnant events at the given time', () => {
+      const star = createStar(1.0, 1.0, 'Star A');
+      const remnant = { ...star, evolutionPhase: EvolutionPhase.WHITE_DWARF, mass: 0.6 };
+      const previous = { ...star, evolutionPhase: EvolutionPhase.PLANETARY_NEBULA };
+
+      const events = detectStarEvents(previous, remnant, 1.2e10);
+
+      expect(events.map(e => e.type)).toEqual([
+        SimulationEventType.PHASE_CHANGE,
+        SimulationEventType.REMNANT_FORMED,
+      ]);
+      expect(events.every(e => e.time === 1.2e10)).toBe(true);
+      expect(describeSimulationEvent(events[1], null)).toContain('white dwarf (0.60 M☉)');
+    });
+
+    it('should report spectral type changes', () => {
+      const star = { ...createStar(1.0, 1.0), spectralType: SpectralType.G };
+      const events = detectStarEvents(star, { ...star, spectralType: SpectralType.K }, 1e10);
+
+      expect(events).toEqual([{
+        type: SimulationEventType.SPECTRAL_TYPE_CHANGE,
+        time: 1e10,
+        starId: star.id,
+        previousType: SpectralType.G,
+        newType: SpectralType.K,
+      }]);
+    });
+
+    it('should report nothing when the star is unchanged', () => {
+      const star = createStar(1.0, 1.0);
+      expect(detectStarEvents(star, { ...star }, 1e6)).toEqual([]);
+    });
+  });
+
+  describe('detectLostPlanets', () => {
+    it('should report planets missing after a step', () => {
+      const planet = {
+        id: 'planet-1',
+        name: 'Planet b',
+        mass: 1.0,
+        radius: 1.0,
+        composition: PlanetComposition.ROCKY,
+        semiMajorAxis: 1.0,
+        eccentricity: 0,
+        orbitalPeriod: 1.0,
+        parentStarId: 'star-1',
+        position: { x: 1, y: 0, z: 0 },
+      };
+
+      const events = detectLostPlanets([planet], [], 5e9);
+
+      expect(events).toHaveLength(1);
+      expect(describeSimulationEvent(events[0], null)).toBe('Planet b lost: Removed from system');
+    });
+  });
+});
@@ -0,0 +1,253 @@
+/**
+ * Simulation Events
+ * Typed event bus for phase transitions and other milestones, plus
+ * the functions that detect those events between simulation steps
+ */
+
+import {
+  Star,
+  Planet,
+  StarSystem,
+  EvolutionPhase,
+  SimulationEvent,
+  SimulationEventType,
+  CommonEnvelopeOutcome,
+} from '../types/core';
+import {
+  SimulationError,
+  SimulationErrorType,
+  errorLogger,
+} from '../validation';
+
+/**
+ * Event of a specific type, narrowed from the SimulationEvent union
+ */
+export type SimulationEventOfType<K extends SimulationEventType> =
+  Extract<SimulationEvent, { type: K }>;
+
+/**
+ * Callback invoked when an event is emitted
+ */
+export type SimulationEventListener<E extends SimulationEvent = SimulationEvent> =
+  (event: E) => void;
+
+/**
+ * Listeners subscribed to each event type
+ */
+type SimulationEventListeners = {
+  [K in SimulationEventType]?: Set<SimulationEventListener<SimulationEventOfType<K>>>;
+};
+
+/**
+ * Phases that mark the end of a star's life
+ */
+const REMNANT_PHASES: EvolutionPhase[] = [
+  EvolutionPhase.WHITE_DWARF,
+  EvolutionPhase.NEUTRON_STAR,
+  EvolutionPhase.BLACK_HOLE,
+];
+
+/**
+ * SimulationEventBus class
+ * Dispatches simulation events to listeners subscribed by event type
+ * or to all events. A failing listener is logged and does not stop
+ * the simulation or other listeners.
+ */
+export class SimulationEventBus {
+  private listeners: SimulationEventListeners = {};
+  private anyListeners: Set<SimulationEventListener> = new Set();
+
+  /**
+   * Subscribe to one event type
+   * @param type - Event type to listen for
+   * @param listener - Callback receiving events of that type
+   * @returns Function that removes the subscription
+   */
+  public on<K extends SimulationEventType>(
+    type: K,
+    listener: SimulationEventListener<SimulationEventOfType<K>>
+  ): () => void {
+    // Writes through a generic key must be typed as the mapped entry
+    const listeners = this.listeners[type] ?? new Set();
+    this.listeners[type] = listeners as SimulationEventListeners[K];
+    listeners.add(listener);
+
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Subscribe to every event type
+   * @param listener - Callback receiving all events
+   * @returns Function that removes the subscription
+   */
+  public onAny(listener: SimulationEventListener): () => void {
+    this.anyListeners.add(listener);
+
+    return () => {
+      this.anyListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Dispatch an event to its listeners
+   * @param event - Event to dispatch
+   */
+  public emit(event: SimulationEvent): void {
+    // Listeners stored under a type only ever receive events of that type
+    const typed = (this.listeners[event.type] ?? []) as Iterable<SimulationEventListener>;
+    const listeners = [...typed, ...this.anyListeners];
+
+    for (const listener of listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        errorLogger.logError(
+          new SimulationError(
+            SimulationErrorType.NUMERICAL_INSTABILITY,
+            `Event listener failed for ${event.type}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            { event },
+            true // Recoverable
+          )
+        );
+      }
+    }
+  }
+
+  /**
+   * Remove all subscriptions
+   */
+  public clear(): void {
+    this.listeners = {};
+    this.anyListeners.clear();
+  }
+}
+
+/**
+ * Detect events caused by one star evolving over a time step
+ * @param previous - Star state before the step
+ * @param current - Star state after the step
+ * @param time - Simulation time after the step in years
+ * @returns Events in the order they should be emitted
+ */
+export function detectStarEvents(
+  previous: Star,
+  current: Star,
+  time: number
+): SimulationEvent[] {
+  const events: SimulationEvent[] = [];
+
+  if (previous.evolutionPhase !== current.evolutionPhase) {
+    events.push({
+      type: SimulationEventType.PHASE_CHANGE,
+      time,
+      starId: current.id,
+      previousPhase: previous.evolutionPhase,
+      newPhase: current.evolutionPhase,
+    });
+
+    if (
+      REMNANT_PHASES.includes(current.evolutionPhase) &&
+      !REMNANT_PHASES.includes(previous.evolutionPhase)
+    ) {
+      events.push({
+        type: SimulationEventType.REMNANT_FORMED,
+        time,
+        starId: current.id,
+        remnantType: current.evolutionPhase,
+        remnantMass: current.mass,
+      });
+    }
+  }
+
+  if (previous.spectralType !== current.spectralType) {
+    events.push({
+      type: SimulationEventType.SPECTRAL_TYPE_CHANGE,
+      time,
+      starId: current.id,
+      previousType: previous.spectralType,
+      newType: current.spectralType,
+    });
+  }
+
+  return events;
+}
+
+/**
+ * Detect planets that are no longer part of the system
+ * @param previous - Planets before the step
+ * @param current - Planets after the step
+ * @param time - Simulation time after the step in years
+ * @param reason - Cause recorded on the events, or a function giving the cause per planet
+ * @returns One PLANET_LOST event per missing planet
+ */
+export function detectLostPlanets(
+  previous: Planet[],
+  current: Planet[],
+  time: number,
+  reason: string | ((planet: Planet) => string) = 'Removed from system'
+): SimulationEvent[] {
+  const remaining = new Set(current.map(planet => planet.id));
+
+  return previous
+    .filter(planet => !remaining.has(planet.id))
+    .map(planet => ({
+      type: SimulationEventType.PLANET_LOST,
+      time,
+      planetId: planet.id,
+      planetName: planet.name,
+      parentStarId: planet.parentStarId,
+      reason: typeof reason === 'function' ? reason(planet) : reason,
+    }));
+}
+
+/**
+ * Describe an event in a short sentence for timelines, notifications and exports
+ * @param event - Event to describe
+ * @param system - System used to resolve star names (IDs are used if not found)
+ * @returns Human-readable description
+ */
+export function describeSimulationEvent(event: SimulationEvent, system: StarSystem | null): string {
+  const starName = (starId: string): string =>
+    system?.stars.find(star => star.id === starId)?.name ?? starId;
+  const phaseName = (phase: EvolutionPhase): string => phase.replace(/_/g, ' ');
+
+  switch (event.type) {
+    case SimulationEventType.PHASE_CHANGE:
+      return `${starName(event.starId)} enters ${phaseName(event.newPhase)} phase`;
+    case SimulationEventType.SPECTRAL_TYPE_CHANGE:
+      return `${starName(event.starId)} changes spectral type from ${event.previousType} to ${event.newType}`;
+    case SimulationEventType.REMNANT_FORMED:
+      return `${starName(event.starId)} becomes a ${phaseName(event.remnantType)} (${event.remnantMass.toFixed(2)} M☉)`;
+    case SimulationEventType.PLANET_LOST:
+      return `${event.planetName} lost: ${event.reason}`;
+    case SimulationEventType.STABILITY_WARNING:
+      return event.message;
+    case SimulationEventType.SUPERNOVA:
+      return `${starName(event.starId)} explodes as a supernova, ejecting ${event.ejectedMass.toFixed(2)} M☉ ` +
+        `(kick ${event.kickVelocity.toFixed(0)} km/s)`;
+    case SimulationEventType.MASS_TRANSFER_STARTED:
+      return `${starName(event.starId)} overflows its Roche lobe onto ${starName(event.accretorId)} ` +
+        `(${event.stability} mass transfer)`;
+    case SimulationEventType.MASS_TRANSFER_ENDED:
+      return `Mass transfer from ${starName(event.starId)} to ${starName(event.accretorId)} ends ` +
+        `(${event.transferredMass.toFixed(3)} M☉ lost, ${event.accretedMass.toFixed(3)} M☉ accreted)`;
+    case SimulationEventType.COMMON_ENVELOPE:
+      return event.outcome === CommonEnvelopeOutcome.MERGED
+        ? `${starName(event.companionId)} spirals into ${starName(event.starId)} and the stars merge ` +
+          `(${event.ejectedMass.toFixed(2)} M☉ ejected)`
+        : `${starName(event.starId)} ejects its common envelope, leaving a ${event.separation.toFixed(3)} AU ` +
+          `binary with ${starName(event.companionId)} (${event.ejectedMass.toFixed(2)} M☉ ejected)`;
+    case SimulationEventType.NOVA:
+      return `${starName(event.starId)} erupts as a nova` +
+        (event.outbursts > 1 ? ` ${event.outbursts} times` : '') +
+        ` fed by ${starName(event.companionId)} (${event.ejectedMass.toExponential(1)} M☉ ejected)`;
+    case SimulationEventType.TYPE_IA_SUPERNOVA:
+      return `${event.starName} is destroyed in a Type Ia supernova at ${event.ejectedMass.toFixed(2)} M☉` +
+        (event.unboundStarIds.length > 0 ? ` (companion runs away at ${event.runawaySpeed.toFixed(0)} km/s)` : '');
+    case SimulationEventType.STAR_FORMATION:
+      return `Generation ${event.generation} of ${event.starIds.length} star${event.starIds.length === 1 ? '' : 's'} ` +
+        `forms from ${event.gasMass.toFixed(1)} M☉ of gas at ${event.metallicity.toFixed(3)} Z☉`;
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * Simulation History Tests
+ * Tests for recording and querying the simulation time series
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SimulationHistory } from './SimulationHistory';
+import { createStar } from './stellarEvolution';
+import { StarSystem, PlanetComposition } from '../types/core';
+
+describe('SimulationHistory', () => {
+  let history: SimulationHistory;
+  let system: StarSystem;
+
+  beforeEach(() => {
+    history = new SimulationHistory({ sampleInterval: 100, maxSnapshots: 10 });
+    system = {
+      id: 'system-1',
+      name: 'Test System',
+      stars: [createStar(1.0, 1.0, 'Star A')],
+      planets: [{
+        id: 'planet-1',
+        name: 'Planet b',
+        mass: 1.0,
+        radius: 1.0,
+        composition: PlanetComposition.ROCKY,
+        semiMajorAxis: 1.0,
+        eccentricity: 0,
+        orbitalPeriod: 1.0,
+        parentStarId: 'star-1',
+        position: { x: 1, y: 0, z: 0 },
+      }],
+      age: 0,
+      initialCloudParameters: { mass: 1.0, metallicity: 1.0, angularMomentum: 1e42 },
+    };
+  });
+
+  describe('record', () => {
+    it('should skip samples closer than the sample interval', () => {
+      expect(history.record(0, system)).toBe(true);
+      expect(history.record(50, system)).toBe(false);
+      expect(history.record(100, system)).toBe(true);
+      expect(history.getSize()).toBe(2);
+    });
+
+    it('should record when forced regardless of interval', () => {
+      history.record(0, system);
+      expect(history.record(10, system, true)).toBe(true);
+      expect(history.getSize()).toBe(2);
+    });
+
+    it('should copy state rather than reference it', () => {
+      history.record(0, system);
+      system.planets[0].position.x = 5;
+      system.stars[0].internalStructure.coreComposition.hydrogen = 0;
+
+      expect(history.getPlanetHistory('planet-1')[0].position.x).toBe(1);
+      expect(history.getStarHistory(system.stars[0].id)[0].coreComposition.hydrogen).toBeGreaterThan(0);
+    });
+
+    it('should not record planets when disabled', () => {
+      history.configure({ recordPlanets: false });
+      history.record(0, system);
+      expect(history.getSnapshots()[0].planets).toEqual([]);
+    });
+
+    it('should thin history to stay within the snapshot limit', () => {
+      for (let t = 0; t <= 2000; t += 100) {
+        history.record(t, system);
+      }
+
+      const times = history.getSnapshots().map(s => s.time);
+      expect(times.length).toBeLessThanOrEqual(10);
+      expect(times[0]).toBe(0);
+      expect(times[times.length - 1]).toBe(2000);
+    });
+  });
+
+  describe('queries', () => {
+    beforeEach(() => {
+      for (let t = 0; t <= 500; t += 100) {
+        history.record(t, system);
+      }
+    });
+
+    it('should filter snapshots by time range', () => {
+      expect(history.getSnapshots(100, 300).map(s => s.time)).toEqual([100, 200, 300]);
+    });
+
+    it('should return the history of a single star', () => {
+      const samples = history.getStarHistory(system.stars[0].id, 200);
+      expect(samples.map(s => s.time)).toEqual([200, 300, 400, 500]);
+      expect(samples[0].mass).toBe(system.stars[0].mass);
+    });
+
+    it('should return an empty history for unknown bodies', () => {
+      expect(history.getStarHistory('missing')).toEqual([]);
+      expect(history.getPlanetHistory('missing')).toEqual([]);
+    });
+
+    it('should drop samples after a rewind time', () => {
+      history.truncateAfter(250);
+      expect(history.getSnapshots().map(s => s.time)).toEqual([0, 100, 200]);
+    });
+  });
+
+  describe('configure', () => {
+    it('should reject invalid options', () => {
+      expect(() => history.configure({ sampleInterval: -1 })).toThrow();
+      expect(() => history.configure({ maxSnapshots: 1 })).toThrow();
+    });
+  });
+});
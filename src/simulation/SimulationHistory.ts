@@ -0,0 +1,223 @@
+/**
+ * Simulation History
+ * Records a time series of stellar properties and planet positions
+ * as the simulation advances, and answers queries by time range and body
+ */
+
+import {
+  StarSystem,
+  StarHistorySample,
+  PlanetHistorySample,
+  HistorySnapshot,
+  HistoryOptions,
+} from '../types/core';
+import {
+  SimulationError,
+  SimulationErrorType,
+  errorLogger,
+} from '../validation';
+
+/**
+ * Default history configuration
+ */
+export const DEFAULT_HISTORY_OPTIONS: HistoryOptions = {
+  sampleInterval: 1e6,   // 1 million years between samples
+  maxSnapshots: 1000,
+  recordPlanets: true,
+};
+
+/**
+ * SimulationHistory class
+ * Stores snapshots in ascending time order. When the snapshot limit is
+ * exceeded, every other snapshot is dropped so the whole run stays covered
+ * at a coarser cadence instead of losing its beginning.
+ */
+export class SimulationHistory {
+  private snapshots: HistorySnapshot[] = [];
+  private options: HistoryOptions;
+
+  constructor(options: Partial<HistoryOptions> = {}) {
+    this.options = { ...DEFAULT_HISTORY_OPTIONS };
+    this.configure(options);
+  }
+
+  /**
+   * Update the sampling cadence and memory bounds
+   * @param options - Options to change
+   * @throws SimulationError if an option is out of range
+   */
+  public configure(options: Partial<HistoryOptions>): void {
+    const merged = { ...this.options, ...options };
+
+    if (!isFinite(merged.sampleInterval) || merged.sampleInterval < 0) {
+      const error = new SimulationError(
+        SimulationErrorType.INVALID_PARAMETERS,
+        `Invalid history sample interval: ${merged.sampleInterval}`,
+        { options },
+        false
+      );
+      errorLogger.logError(error);
+      throw error;
+    }
+
+    if (!Number.isInteger(merged.maxSnapshots) || merged.maxSnapshots < 2) {
+      const error = new SimulationError(
+        SimulationErrorType.INVALID_PARAMETERS,
+        `History must keep at least 2 snapshots (provided: ${merged.maxSnapshots})`,
+        { options },
+        false
+      );
+      errorLogger.logError(error);
+      throw error;
+    }
+
+    this.options = merged;
+    this.enforceLimit();
+  }
+
+  /**
+   * Get the current history configuration
+   * @returns Copy of the history options
+   */
+  public getOptions(): HistoryOptions {
+    return { ...this.options };
+  }
+
+  /**
+   * Record the system state if the sample interval has elapsed
+   * @param time - Current simulation time in years
+   * @param system - Star system to sample
+   * @param force - Record even if the interval has not elapsed
+   * @returns True if a snapshot was recorded
+   */
+  public record(time: number, system: StarSystem, force: boolean = false): boolean {
+    const last = this.snapshots[this.snapshots.length - 1];
+    if (!force && last && time - last.time < this.options.sampleInterval) {
+      return false;
+    }
+
+    const stars: StarHistorySample[] = system.stars.map(star => ({
+      time,
+      starId: star.id,
+      mass: star.mass,
+      radius: star.radius,
+      luminosity: star.luminosity,
+      temperature: star.temperature,
+      evolutionPhase: star.evolutionPhase,
+      coreComposition: { ...star.internalStructure.coreComposition },
+      coreTemperature: star.internalStructure.coreTemperature,
+      ...(star.surfaceComposition && { surfaceComposition: { ...star.surfaceComposition } }),
+    }));
+
+    const planets: PlanetHistorySample[] = this.options.recordPlanets
+      ? system.planets.map(planet => ({
+          time,
+          planetId: planet.id,
+          position: { ...planet.position },
+        }))
+      : [];
+
+    // A forced sample at the same time replaces the previous one
+    if (last && last.time === time) {
+      this.snapshots[this.snapshots.length - 1] = { time, stars, planets };
+    } else {
+      this.snapshots.push({ time, stars, planets });
+    }
+
+    this.enforceLimit();
+    return true;
+  }
+
+  /**
+   * Remove all recorded history
+   */
+  public clear(): void {
+    this.snapshots = [];
+  }
+
+  /**
+   * Drop every snapshot recorded after a given time
+   * Used when the simulation is rewound
+   * @param time - Simulation time in years
+   */
+  public truncateAfter(time: number): void {
+    this.snapshots = this.snapshots.filter(snapshot => snapshot.time <= time);
+  }
+
+  /**
+   * Get the number of recorded snapshots
+   * @returns Snapshot count
+   */
+  public getSize(): number {
+    return this.snapshots.length;
+  }
+
+  /**
+   * Get all snapshots within a time range
+   * @param startTime - Start of range in years (inclusive, default: 0)
+   * @param endTime - End of range in years (inclusive, default: no limit)
+   * @returns Snapshots in ascending time order
+   */
+  public getSnapshots(startTime: number = 0, endTime: number = Infinity): HistorySnapshot[] {
+    return this.snapshots.filter(
+      snapshot => snapshot.time >= startTime && snapshot.time <= endTime
+    );
+  }
+
+  /**
+   * Get the recorded history of a single star
+   * @param starId - ID of the star
+   * @param startTime - Start of range in years (inclusive, default: 0)
+   * @param endTime - End of range in years (inclusive, default: no limit)
+   * @returns Samples in ascending time order
+   */
+  public getStarHistory(
+    starId: string,
+    startTime: number = 0,
+    endTime: number = Infinity
+  ): StarHistorySample[] {
+    const samples: StarHistorySample[] = [];
+    for (const snapshot of this.getSnapshots(startTime, endTime)) {
+      const sample = snapshot.stars.find(s => s.starId === starId);
+      if (sample) {
+        samples.push(sample);
+      }
+    }
+    return samples;
+  }
+
+  /**
+   * Get the recorded positions of a single planet
+   * @param planetId - ID of the planet
+   * @param startTime - Start of range in years (inclusive, default: 0)
+   * @param endTime - End of range in years (inclusive, default: no limit)
+   * @returns Samples in ascending time order
+   */
+  public getPlanetHistory(
+    planetId: string,
+    startTime: number = 0,
+    endTime: number = Infinity
+  ): PlanetHistorySample[] {
+    const samples: PlanetHistorySample[] = [];
+    for (const snapshot of this.getSnapshots(startTime, endTime)) {
+      const sample = snapshot.planets.find(p => p.planetId === planetId);
+      if (sample) {
+        samples.push(sample);
+      }
+    }
+    return samples;
+  }
+
+  /**
+   * Thin the history to respect the snapshot limit
+   * Keeps the first and most recent snapshots
+   */
+  private enforceLimit(): void {
+    while (this.snapshots.length > this.options.maxSnapshots) {
+      const lastIndex = this.snapshots.length - 1;
+      this.snapshots = this.snapshots.filter(
+        (_, index) => index % 2 === 0 || index === lastIndex
+      );
+    }
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * Brown Dwarf Tests
+ * Tests for creating, ageing and moving brown dwarfs
+ */
+
+import { describe, it, expect } from 'vitest';
+import { generateBrownDwarfFromMass, evolveBrownDwarf, updateBrownDwarfPositions } from './brownDwarfs';
+import { createStar } from './stellarEvolution';
+import { createSeededRandom } from '../physics/random';
+import { BROWN_DWARF_CONSTANTS } from '../constants/physics';
+import { SubstellarSpectralType } from '../types/core';
+
+describe('Brown Dwarfs', () => {
+  const host = createStar(1.0, 1.0, 'Host');
+
+  describe('generateBrownDwarfFromMass', () => {
+    it('should make a hostless brown dwarf the central body', () => {
+      const brownDwarf = generateBrownDwarfFromMass(0.05, 1.0, 0);
+
+      expect(brownDwarf.name).toBe('Brown Dwarf 1');
+      expect(brownDwarf.hostId).toBeUndefined();
+      expect(brownDwarf.position).toEqual({ x: 0, y: 0, z: 0 });
+      expect(brownDwarf.age).toBe(0);
+      expect(brownDwarf.deuteriumFraction).toBe(1);
+    });
+
+    it('should put a companion on a wide orbit about its host', () => {
+      const brownDwarf = generateBrownDwarfFromMass(0.05, 1.0, 1, host, createSeededRandom(7));
+      const distance = Math.hypot(brownDwarf.position.x, brownDwarf.position.y, brownDwarf.position.z);
+
+      expect(brownDwarf.hostId).toBe(host.id);
+      expect(brownDwarf.semiMajorAxis).toBeGreaterThanOrEqual(BROWN_DWARF_CONSTANTS.MIN_COMPANION_SEPARATION);
+      expect(brownDwarf.semiMajorAxis).toBeLessThanOrEqual(BROWN_DWARF_CONSTANTS.MAX_COMPANION_SEPARATION);
+      expect(brownDwarf.orbitalPeriod).toBeGreaterThan(0);
+      expect(distance).toBeGreaterThan(0);
+    });
+  });
+
+  describe('evolveBrownDwarf', () => {
+    it('should cool and dim with age', () => {
+      const young = generateBrownDwarfFromMass(0.03, 1.0, 0);
+      const old = evolveBrownDwarf(young, 1e10);
+
+      expect(old.age).toBe(1e10);
+      expect(old.temperature).toBeLessThan(young.temperature);
+      expect(old.luminosity).toBeLessThan(young.luminosity);
+      expect(old.spectralType).toBe(SubstellarSpectralType.Y);
+    });
+  });
+
+  describe('updateBrownDwarfPositions', () => {
+    it('should keep companions at their orbital distance from a moving host', () => {
+      const brownDwarf = generateBrownDwarfFromMass(0.05, 1.0, 0, host, createSeededRandom(3));
+      const movedHost = { ...host, position: { x: 5, y: -2, z: 0 } };
+      const [moved] = updateBrownDwarfPositions([brownDwarf], [movedHost], brownDwarf.orbitalPeriod * 0.3);
+      const distance = Math.hypot(moved.position.x - 5, moved.position.y + 2, moved.position.z);
+
+      expect(distance).toBeGreaterThanOrEqual(brownDwarf.semiMajorAxis * (1 - brownDwarf.eccentricity) - 1e-9);
+      expect(distance).toBeLessThanOrEqual(brownDwarf.semiMajorAxis * (1 + brownDwarf.eccentricity) + 1e-9);
+    });
+
+    it('should let companions orbit a central brown dwarf', () => {
+      const central = generateBrownDwarfFromMass(0.07, 1.0, 0);
+      const companion = generateBrownDwarfFromMass(0.02, 1.0, 1, central, createSeededRandom(5));
+      const [stay, moved] = updateBrownDwarfPositions([central, companion], [], 1e3);
+
+      expect(stay.position).toEqual(central.position);
+      expect(moved.position).not.toEqual(companion.position);
+    });
+  });
+});
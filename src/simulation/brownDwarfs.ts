@@ -0,0 +1,133 @@
+/**
+ * Brown Dwarf Module
+ * Creates the substellar objects a cloud fragments into, ages them and
+ * moves them along their orbits around their hosts
+ */
+
+import { BrownDwarf, Star, Vector3 } from '../types/core';
+import { BROWN_DWARF_CONSTANTS } from '../constants/physics';
+import { calculateBrownDwarfProperties } from '../physics/brownDwarfs';
+import {
+  calculateOrbitalPeriod,
+  calculateOrbitalPosition,
+} from '../physics/orbitalMechanics';
+import { RandomSource, generateRandomId } from '../physics/random';
+
+/**
+ * Body a brown dwarf can orbit
+ */
+type BrownDwarfHost = Pick<Star | BrownDwarf, 'id' | 'mass' | 'position'>;
+
+/**
+ * Create a newborn brown dwarf from a cloud fragment
+ * A brown dwarf with a host is placed on a wide orbit (log-uniform
+ * separation, moderate eccentricity); without one it is the central body
+ * @param mass - Fragment mass in solar masses
+ * @param metallicity - Metallicity relative to solar (Z☉)
+ * @param index - Brown dwarf index for naming
+ * @param host - Star or brown dwarf it orbits, if any
+ * @param random - Random source for the ID and orbit (default: Math.random)
+ * @returns Brown dwarf at age 0
+ */
+export function generateBrownDwarfFromMass(
+  mass: number,
+  metallicity: number,
+  index: number,
+  host?: BrownDwarfHost,
+  random: RandomSource = Math.random
+): BrownDwarf {
+  const { MIN_COMPANION_SEPARATION, MAX_COMPANION_SEPARATION } = BROWN_DWARF_CONSTANTS;
+  const id = generateRandomId('browndwarf', random);
+  const semiMajorAxis = host
+    ? MIN_COMPANION_SEPARATION * Math.pow(MAX_COMPANION_SEPARATION / MIN_COMPANION_SEPARATION, random())
+    : 0;
+  const eccentricity = host ? random() * 0.5 : 0;
+
+  const brownDwarf: BrownDwarf = {
+    id,
+    name: `Brown Dwarf ${index + 1}`,
+    mass,
+    age: 0,
+    metallicity,
+    ...calculateBrownDwarfProperties(mass, 0, metallicity),
+    ...(host && { hostId: host.id }),
+    semiMajorAxis,
+    eccentricity,
+    orbitalPeriod: host ? calculateOrbitalPeriod(semiMajorAxis, host.mass + mass) : 0,
+    position: { x: 0, y: 0, z: 0 },
+  };
+  return host ? placeOnOrbit(brownDwarf, host, 0) : brownDwarf;
+}
+
+/**
+ * Age a brown dwarf by a time step
+ * It burns what deuterium it has and cools
+ * @param brownDwarf - Brown dwarf to evolve
+ * @param deltaTime - Time step in years
+ * @returns Brown dwarf with updated age and properties
+ */
+export function evolveBrownDwarf(brownDwarf: BrownDwarf, deltaTime: number): BrownDwarf {
+  const age = brownDwarf.age + deltaTime;
+  return {
+    ...brownDwarf,
+    age,
+    ...calculateBrownDwarfProperties(brownDwarf.mass, age, brownDwarf.metallicity),
+  };
+}
+
+/**
+ * Move brown dwarfs along their orbits
+ * Each follows a coplanar Keplerian orbit about its host's current
+ * position; a brown dwarf whose host is gone keeps its position
+ * @param brownDwarfs - Brown dwarfs in the system
+ * @param stars - Stars in the system
+ * @param time - Simulation time in years
+ * @returns Brown dwarfs with updated positions (AU)
+ */
+export function updateBrownDwarfPositions(
+  brownDwarfs: BrownDwarf[],
+  stars: Star[],
+  time: number
+): BrownDwarf[] {
+  const hosts = new Map<string, BrownDwarfHost>(stars.map(star => [star.id, star]));
+  // Central brown dwarfs keep their place; their companions follow them
+  for (const brownDwarf of brownDwarfs) {
+    if (!brownDwarf.hostId) {
+      hosts.set(brownDwarf.id, brownDwarf);
+    }
+  }
+
+  return brownDwarfs.map(brownDwarf => {
+    const host = brownDwarf.hostId ? hosts.get(brownDwarf.hostId) : undefined;
+    if (!host) {
+      return brownDwarf;
+    }
+    const orbitalPeriod = calculateOrbitalPeriod(brownDwarf.semiMajorAxis, host.mass + brownDwarf.mass);
+    return placeOnOrbit({ ...brownDwarf, orbitalPeriod }, host, time);
+  });
+}
+
+/**
+ * Place a brown dwarf on its orbit about its host
+ * @returns Brown dwarf at its orbital position at the given time
+ */
+function placeOnOrbit(brownDwarf: BrownDwarf, host: BrownDwarfHost, time: number): BrownDwarf {
+  const offset = calculateOrbitalPosition(
+    {
+      semiMajorAxis: brownDwarf.semiMajorAxis,
+      eccentricity: brownDwarf.eccentricity,
+      inclination: 0,
+      longitudeOfAscendingNode: 0,
+      argumentOfPeriapsis: 0,
+      meanAnomalyAtEpoch: 0,
+    },
+    time,
+    brownDwarf.orbitalPeriod
+  );
+  const position: Vector3 = {
+    x: host.position.x + offset.x,
+    y: host.position.y + offset.y,
+    z: host.position.z + offset.z,
+  };
+  return { ...brownDwarf, position };
+}
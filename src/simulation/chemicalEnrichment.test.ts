@@ -0,0 +1,100 @@
+/**
+ * Chemical Enrichment Tests
+ * Tests for returning stellar ejecta to the interstellar medium
+ */
+
+import { describe, it, expect } from 'vitest';
+import { resolveEjecta, resolveTypeIaEjecta } from './chemicalEnrichment';
+import { createStar, evolveStar, calculateLifetime } from './stellarEvolution';
+import { createEmptyYields, calculateYieldMass } from '../physics/yields';
+import { Star, SimulationEventType, TypeIaSupernovaEvent } from '../types/core';
+
+/**
+ * Evolve a star past the end of its life, returning its ejecta each step
+ */
+function evolveWithEjecta(initial: Star, steps: number = 200): ReturnType<typeof resolveEjecta> {
+  const deltaTime = calculateLifetime(initial.initialMass, initial.metallicity) * 1.2 / steps;
+  let result = { stars: [initial], interstellarMedium: createEmptyYields() };
+  for (let i = 0; i < steps; i++) {
+    const evolved = result.stars.map(star => evolveStar(star, deltaTime));
+    result = resolveEjecta(result.stars, evolved, result.interstellarMedium);
+  }
+  return result;
+}
+
+describe('Chemical Enrichment', () => {
+  describe('resolveEjecta', () => {
+    it('should return all the mass a star loses over its life', () => {
+      for (const mass of [1, 15]) {
+        const { stars, interstellarMedium } = evolveWithEjecta({ ...createStar(mass, 1.0, 'Star'), id: 'star' });
+        const lost = mass - stars[0].mass;
+
+        expect(calculateYieldMass(interstellarMedium)).toBeCloseTo(lost, 6);
+        expect(calculateYieldMass(stars[0].ejecta!)).toBeCloseTo(lost, 6);
+      }
+    });
+
+    it('should enrich the medium with supernova oxygen and iron', () => {
+      const star: Star = { ...createStar(15, 1.0, 'Progenitor'), id: 'progenitor' };
+      const { interstellarMedium } = evolveWithEjecta(star);
+      const returned = calculateYieldMass(interstellarMedium);
+
+      expect(interstellarMedium.oxygen / returned).toBeGreaterThan(star.surfaceComposition!.oxygen);
+      expect(interstellarMedium.iron).toBeGreaterThan(0);
+    });
+
+    it('should count only the mass that left a binary, not what the companion kept', () => {
+      const donor: Star = { ...createStar(2, 1.0, 'Donor'), id: 'donor' };
+      const accretor: Star = { ...createStar(1, 1.0, 'Accretor'), id: 'accretor' };
+      const after = [{ ...donor, mass: 1.6 }, { ...accretor, mass: 1.3 }];
+      const exchanges = [{ fromId: donor.id, toId: accretor.id, mass: 0.3 }];
+      const result = resolveEjecta([donor, accretor], after, createEmptyYields(), exchanges);
+
+      expect(calculateYieldMass(result.interstellarMedium)).toBeCloseTo(0.1, 10);
+      expect(calculateYieldMass(result.stars[0].ejecta!)).toBeCloseTo(0.1, 10);
+      expect(result.stars[1].ejecta).toBeUndefined();
+    });
+
+    it('should return the mass a merger ejects and what the absorbed star lost before', () => {
+      const donor: Star = { ...createStar(3, 1.0, 'Donor'), id: 'donor' };
+      const absorbed: Star = { ...createStar(2.9, 1.0, 'Absorbed'), id: 'absorbed' };
+      const merged = { ...donor, mass: 5.2 };
+      const exchanges = [{ fromId: absorbed.id, toId: donor.id, mass: 2.7 }];
+      const result = resolveEjecta([donor, absorbed], [merged], createEmptyYields(), exchanges);
+
+      // 0.5 M☉ ejected in the merger and 0.2 M☉ blown off the absorbed star
+      expect(calculateYieldMass(result.interstellarMedium)).toBeCloseTo(0.7, 10);
+      expect(calculateYieldMass(result.stars[0].ejecta!)).toBeCloseTo(0.5, 10);
+    });
+
+    it('should leave stars that lost no mass untouched', () => {
+      const star: Star = { ...createStar(1, 1.0, 'Sun'), id: 'sun' };
+      const result = resolveEjecta([star], [star]);
+
+      expect(result.stars[0]).toBe(star);
+      expect(result.interstellarMedium).toEqual(createEmptyYields());
+    });
+  });
+
+  describe('resolveTypeIaEjecta', () => {
+    it('should add the destroyed white dwarf to the medium', () => {
+      const event: TypeIaSupernovaEvent = {
+        type: SimulationEventType.TYPE_IA_SUPERNOVA,
+        time: 0,
+        starId: 'wd',
+        starName: 'WD',
+        ejectedMass: 1.38,
+        unboundStarIds: [],
+        runawaySpeed: 0,
+        lostPlanetIds: [],
+        strippedPlanetIds: [],
+        irradiatedPlanetIds: [],
+      };
+      const ledger = resolveTypeIaEjecta([event]);
+
+      expect(calculateYieldMass(ledger)).toBeCloseTo(1.38, 10);
+      expect(ledger.iron).toBeGreaterThan(ledger.silicon);
+      expect(resolveTypeIaEjecta([])).toEqual(createEmptyYields());
+    });
+  });
+});
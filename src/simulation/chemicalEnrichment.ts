@@ -0,0 +1,115 @@
+/**
+ * Chemical Enrichment Module
+ * Works out the elements stars return to the interstellar medium as they
+ * shed mass and die, and keeps the system's running ledger of them
+ */
+
+import { Star, ElementYields, TypeIaSupernovaEvent } from '../types/core';
+import {
+  createEmptyYields,
+  addYields,
+  calculateEnvelopeYields,
+  calculateHeliumCoreYields,
+  calculateCoreCollapseYields,
+  calculateTypeIaYields,
+} from '../physics/yields';
+import { calculateInitialSurfaceComposition } from '../physics/dredgeUp';
+import { calculateCoreMass } from '../physics/massLoss';
+import { detectSupernovae } from './supernova';
+import { MassExchange } from './massTransfer';
+
+/**
+ * Result of returning one step's ejecta to the interstellar medium
+ */
+export interface EnrichmentResult {
+  stars: Star[];                        // Stars with their ejecta updated
+  interstellarMedium: ElementYields;    // Ledger after the step
+}
+
+/**
+ * Return the mass stars lost during a step to the interstellar medium
+ * Mass lost from the envelope (winds, the planetary nebula and the
+ * envelope of a supernova progenitor) carries the star's surface
+ * composition. Mass lost from inside the helium core is made of the
+ * explosion's processed layers when the star collapses, and of
+ * CNO-processed helium when Wolf–Rayet winds peel the core. Mass handed
+ * to a companion stays in the system; the rest of what a donor gave up,
+ * including envelopes ejected in common-envelope phases, material the
+ * accretor could not keep and nova ejecta, leaves with the donor's surface
+ * composition. A star absorbed in a merger returns what it lost before
+ * merging with its own composition.
+ * @param previousStars - Stars before the step
+ * @param stars - Stars after evolving and exchanging mass
+ * @param interstellarMedium - Ledger before the step
+ * @param exchanges - Mass handed from star to star during the step
+ * @returns Stars with their accumulated ejecta and the updated ledger
+ */
+export function resolveEjecta(
+  previousStars: Star[],
+  stars: Star[],
+  interstellarMedium: ElementYields = createEmptyYields(),
+  exchanges: MassExchange[] = []
+): EnrichmentResult {
+  const exploded = new Set(detectSupernovae(previousStars, stars));
+  const handedOn = new Map<string, number>();
+  for (const { fromId, toId, mass } of exchanges) {
+    handedOn.set(fromId, (handedOn.get(fromId) ?? 0) + mass);
+    handedOn.set(toId, (handedOn.get(toId) ?? 0) - mass);
+  }
+  let ledger = interstellarMedium;
+
+  const updated = stars.map(star => {
+    const found = previousStars.find(s => s.id === star.id);
+    const previous = found && { ...found, mass: found.mass - (handedOn.get(star.id) ?? 0) };
+    if (!previous || star.mass >= previous.mass) {
+      return star;
+    }
+    const yields = calculateLostMassYields(previous, star.mass, exploded.has(star.id));
+    ledger = addYields(ledger, yields);
+    return { ...star, ejecta: addYields(star.ejecta ?? createEmptyYields(), yields) };
+  });
+
+  for (const previous of previousStars) {
+    const handed = handedOn.get(previous.id);
+    if (handed !== undefined && handed < previous.mass && !stars.some(star => star.id === previous.id)) {
+      ledger = addYields(ledger, calculateLostMassYields(previous, handed, false));
+    }
+  }
+
+  return { stars: updated, interstellarMedium: ledger };
+}
+
+/**
+ * Return the white dwarfs destroyed in Type Ia supernovae to the interstellar medium
+ * @param events - Type Ia supernovae of the step
+ * @param interstellarMedium - Ledger before the explosions
+ * @returns Updated ledger
+ */
+export function resolveTypeIaEjecta(
+  events: TypeIaSupernovaEvent[],
+  interstellarMedium: ElementYields = createEmptyYields()
+): ElementYields {
+  return events.reduce(
+    (ledger, event) => addYields(ledger, calculateTypeIaYields(event.ejectedMass)),
+    interstellarMedium
+  );
+}
+
+/**
+ * Split the mass a star lost in one step between its envelope and core
+ * @param previous - Star before the step
+ * @param mass - Mass after the step in solar masses
+ * @param exploded - Whether the star collapsed in a supernova
+ * @returns Element yields of the lost mass
+ */
+function calculateLostMassYields(previous: Star, mass: number, exploded: boolean): ElementYields {
+  const coreMass = Math.min(calculateCoreMass(previous.initialMass, previous.metallicity), previous.mass);
+  const surface = previous.surfaceComposition ?? calculateInitialSurfaceComposition(previous.metallicity);
+
+  const envelopeLoss = previous.mass - Math.max(mass, coreMass);
+  const coreLoss = coreMass - Math.min(mass, coreMass);
+  const core = exploded
+    ? calculateCoreCollapseYields(coreLoss)
+    : calculateHeliumCoreYields(coreLoss, surface);
+  return addYields(calculateEnvelopeYields(envelopeLoss, surface), core);
+}
@@ -7,9 +7,20 @@ import {
   determineFragmentation,
   calculateMassDistribution,
   calculateNumberOfStars,
+  generateStarSystemFromCloud,
+  isGasReadyToCollapse,
+  formStellarGeneration,
 } from './cloudFormation';
-import { CloudParameters } from '../types/core';
-import { VALIDATION_RANGES } from '../constants/physics';
+import { CloudParameters, EvolutionPhase, StarSystem } from '../types/core';
+import { VALIDATION_RANGES, BROWN_DWARF_CONSTANTS, STAR_FORMATION_CONSTANTS } from '../constants/physics';
+import { createSeededRandom } from '../physics/random';
+import {
+  addYields,
+  scaleYields,
+  calculateYieldMass,
+  calculateGasComposition,
+  calculateCoreCollapseYields,
+} from '../physics/yields';
 
 describe('Cloud Formation', () => {
   describe('determineFragmentation', () => {
@@ -127,11 +138,11 @@ describe('Cloud Formation', () => {
       }
     });
 
-    it('should respect minimum stellar mass', () => {
+    it('should respect minimum fragment mass', () => {
       const masses = calculateMassDistribution(10.0, 20);
       
       masses.forEach(mass => {
-        expect(mass).toBeGreaterThanOrEqual(VALIDATION_RANGES.STELLAR_MASS.min);
+        expect(mass).toBeGreaterThanOrEqual(BROWN_DWARF_CONSTANTS.MINIMUM_FRAGMENT_MASS);
       });
     });
 
@@ -151,6 +162,161 @@ describe('Cloud Formation', () => {
       const areDifferent = masses1.some((mass, i) => Math.abs(mass - masses2[i]) > 0.01);
       expect(areDifferent).toBe(true);
     });
+
+    it('should produce identical distributions from the same seed', () => {
+      const masses1 = calculateMassDistribution(50.0, 5, createSeededRandom(2024));
+      const masses2 = calculateMassDistribution(50.0, 5, createSeededRandom(2024));
+      
+      expect(masses1).toEqual(masses2);
+    });
+  });
+
+  describe('generateStarSystemFromCloud - seeded', () => {
+    it('should reproduce the same system from the same seed', () => {
+      const cloudParams: CloudParameters = {
+        mass: 50.0,
+        metallicity: 1.0,
+        angularMomentum: 1e49,
+        seed: 314159,
+      };
+      
+      const system1 = generateStarSystemFromCloud(cloudParams);
+      const system2 = generateStarSystemFromCloud(cloudParams);
+      
+      expect(system1.id).toBe(system2.id);
+      expect(system1.stars.map(s => s.id)).toEqual(system2.stars.map(s => s.id));
+      expect(system1.stars.map(s => s.mass)).toEqual(system2.stars.map(s => s.mass));
+      expect(system1.stars.map(s => s.position)).toEqual(system2.stars.map(s => s.position));
+    });
+
+    it('should keep one orbit per companion star', () => {
+      const system = generateStarSystemFromCloud({
+        mass: 50.0,
+        metallicity: 1.0,
+        angularMomentum: 1e49,
+        seed: 314159,
+      });
+      
+      expect(system.stellarOrbits).toHaveLength(system.stars.length - 1);
+      
+      // Barycenter of the system stays at the origin
+      const totalMass = system.stars.reduce((sum, s) => sum + s.mass, 0);
+      const comX = system.stars.reduce((sum, s) => sum + s.mass * s.position.x, 0) / totalMass;
+      expect(comX).toBeCloseTo(0, 6);
+    });
+
+    it('should produce different systems from different seeds', () => {
+      const base = { mass: 50.0, metallicity: 1.0, angularMomentum: 1e49 };
+      
+      const system1 = generateStarSystemFromCloud({ ...base, seed: 1 });
+      const system2 = generateStarSystemFromCloud({ ...base, seed: 2 });
+      
+      expect(system1.stars.map(s => s.mass)).not.toEqual(system2.stars.map(s => s.mass));
+    });
+
+    it('should keep substellar fragments as brown dwarfs', () => {
+      const system = generateStarSystemFromCloud({
+        mass: 0.1,
+        metallicity: 1.0,
+        angularMomentum: 1e45,
+        seed: 42,
+      });
+      
+      expect(system.stars).toHaveLength(0);
+      expect(system.brownDwarfs).toHaveLength(1);
+      expect(system.brownDwarfs![0].mass).toBeLessThan(VALIDATION_RANGES.STELLAR_MASS.min);
+      expect(system.brownDwarfs![0].hostId).toBeUndefined();
+    });
+
+    it('should only make stars from fragments above the hydrogen-burning limit', () => {
+      const system = generateStarSystemFromCloud({
+        mass: 10.0,
+        metallicity: 1.0,
+        angularMomentum: 1e49,
+        seed: 7,
+      });
+      
+      system.stars.forEach(star => {
+        expect(star.mass).toBeGreaterThanOrEqual(VALIDATION_RANGES.STELLAR_MASS.min);
+      });
+      (system.brownDwarfs ?? []).forEach(brownDwarf => {
+        expect(brownDwarf.mass).toBeLessThan(VALIDATION_RANGES.STELLAR_MASS.min);
+        expect(brownDwarf.hostId).toBe(system.stars[0].id);
+      });
+    });
+  });
+
+  describe('stellar generations', () => {
+    const cloudParams: CloudParameters = { mass: 50.0, metallicity: 1.0, angularMomentum: 1e49, seed: 314159 };
+    const system = generateStarSystemFromCloud(cloudParams);
+    const [primary] = system.stars;
+    
+    // Primary has exploded, enriching the gas with its core
+    const enriched: StarSystem = {
+      ...system,
+      stars: system.stars.map(star =>
+        star.id === primary.id ? { ...star, evolutionPhase: EvolutionPhase.NEUTRON_STAR } : star
+      ),
+      gasReservoir: addYields(system.gasReservoir!, calculateCoreCollapseYields(3.0)),
+    };
+
+    it('should record the first generation and keep the leftover gas', () => {
+      const fragmentMass = system.stars.reduce((sum, star) => sum + star.mass, 0) +
+        (system.brownDwarfs ?? []).reduce((sum, brownDwarf) => sum + brownDwarf.mass, 0);
+      
+      expect(system.generations).toHaveLength(1);
+      expect(system.generations![0].starIds).toEqual(system.stars.map(star => star.id));
+      expect(system.stars.every(star => star.generation === 1)).toBe(true);
+      expect(calculateYieldMass(system.gasReservoir!) + fragmentMass).toBeCloseTo(cloudParams.mass, 10);
+      expect(calculateYieldMass(system.gasReservoir!)).toBeCloseTo(
+        cloudParams.mass * (1 - STAR_FORMATION_CONSTANTS.EFFICIENCY), 10
+      );
+    });
+
+    it('should wait for the first death in the youngest generation', () => {
+      expect(isGasReadyToCollapse(system)).toBe(false);
+      expect(isGasReadyToCollapse(enriched)).toBe(true);
+      
+      const generations = Array.from({ length: STAR_FORMATION_CONSTANTS.MAX_GENERATIONS }, () => system.generations![0]);
+      expect(isGasReadyToCollapse({ ...enriched, generations })).toBe(false);
+    });
+
+    it('should form metal-richer stars from the enriched gas', () => {
+      const result = formStellarGeneration(enriched, 1e7, createSeededRandom(1))!;
+      const composition = calculateGasComposition(enriched.gasReservoir!);
+      
+      expect(result.generation.generation).toBe(2);
+      expect(result.generation.metallicity).toBeGreaterThan(1.0);
+      expect(result.generation.starIds).toEqual(result.stars.map(star => star.id));
+      for (const star of result.stars) {
+        expect(star.generation).toBe(2);
+        expect(star.metallicity).toBe(result.generation.metallicity);
+        expect(star.surfaceComposition).toEqual(composition);
+        expect(system.stars.map(s => s.name)).not.toContain(star.name);
+      }
+      
+      // Gas turned into stars and brown dwarfs leaves the reservoir
+      const formedMass = result.stars.reduce((sum, star) => sum + star.mass, 0) +
+        result.brownDwarfs.reduce((sum, brownDwarf) => sum + brownDwarf.mass, 0);
+      expect(calculateYieldMass(result.gasReservoir) + formedMass)
+        .toBeCloseTo(calculateYieldMass(enriched.gasReservoir!), 10);
+    });
+
+    it('should put the new generation on a wide orbit around the older stars', () => {
+      const result = formStellarGeneration(enriched, 1e7, createSeededRandom(1))!;
+      const outer = result.stellarOrbits[result.stellarOrbits.length - 1];
+      
+      expect(result.stellarOrbits.slice(0, system.stellarOrbits!.length)).toEqual(system.stellarOrbits);
+      expect(outer.primaryIds).toEqual(system.stars.map(star => star.id));
+      expect(outer.secondaryIds).toEqual(result.generation.starIds);
+      expect(outer.elements.semiMajorAxis).toBeGreaterThanOrEqual(STAR_FORMATION_CONSTANTS.MIN_SEPARATION);
+    });
+
+    it('should not form stars from less gas than the smallest cloud', () => {
+      const thin = { ...enriched, gasReservoir: scaleYields(enriched.gasReservoir!, 1e-4) };
+      
+      expect(formStellarGeneration(thin, 1e7, createSeededRandom(1))).toBeNull();
+    });
   });
 
   describe('calculateNumberOfStars - edge cases', () => {
@@ -4,7 +4,17 @@
  */
 
 import { CloudParameters } from '../types/core';
-import { PHYSICS_CONSTANTS, VALIDATION_RANGES } from '../constants/physics';
+import {
+  PHYSICS_CONSTANTS,
+  VALIDATION_RANGES,
+  BROWN_DWARF_CONSTANTS,
+  STAR_FORMATION_CONSTANTS,
+} from '../constants/physics';
+import {
+  RandomSource,
+  createRandomSource,
+  generateRandomId,
+} from '../physics/random';
 
 /**
  * Calculate the Jeans mass for a cloud
@@ -99,12 +109,17 @@ export function determineFragmentation(cloudParams: CloudParameters): number {
  * 
  * @param totalMass - Total mass to distribute in solar masses
  * @param numStars - Number of stars to create
+ * @param random - Random source for IMF sampling (default: Math.random)
  * @returns Array of stellar masses in solar masses
  */
-export function calculateMassDistribution(totalMass: number, numStars: number): number[] {
+export function calculateMassDistribution(
+  totalMass: number,
+  numStars: number,
+  random: RandomSource = Math.random
+): number[] {
   if (numStars === 1) {
     // Single star gets all the mass (accounting for some loss)
-    return [totalMass * 0.3]; // ~30% efficiency typical for star formation
+    return [totalMass * STAR_FORMATION_CONSTANTS.EFFICIENCY];
   }
   
   // Generate random masses following IMF
@@ -117,7 +132,7 @@ export function calculateMassDistribution(totalMass: number, numStars: number):
   
   for (let i = 0; i < numStars; i++) {
     // Generate random value between 0 and 1
-    const u = Math.random();
+    const u = random();
     
     // Transform to power-law distribution
     // M ∝ u^(-1/(α-1))
@@ -136,8 +151,7 @@ export function calculateMassDistribution(totalMass: number, numStars: number):
   }
   
   // Normalize masses to match total available mass (with star formation efficiency)
-  const efficiency = 0.3; // 30% of cloud mass becomes stars
-  const availableMass = totalMass * efficiency;
+  const availableMass = totalMass * STAR_FORMATION_CONSTANTS.EFFICIENCY;
   const scaleFactor = availableMass / totalRawMass;
   
   const normalizedMasses = rawMasses.map(m => m * scaleFactor);
@@ -145,10 +159,11 @@ export function calculateMassDistribution(totalMass: number, numStars: number):
   // Sort masses in descending order (most massive first)
   normalizedMasses.sort((a, b) => b - a);
   
-  // Ensure all masses are within valid range
+  // Ensure all masses are within valid range; fragments below the
+  // hydrogen-burning limit are kept as brown dwarfs down to the opacity limit
   return normalizedMasses.map(m => 
     Math.max(
-      VALIDATION_RANGES.STELLAR_MASS.min,
+      BROWN_DWARF_CONSTANTS.MINIMUM_FRAGMENT_MASS,
       Math.min(m, VALIDATION_RANGES.STELLAR_MASS.max)
     )
   );
@@ -191,9 +206,21 @@ export function calculateNumberOfStars(cloudParams: CloudParameters): number {
  * @param mass - Stellar mass in solar masses
  * @param metallicity - Metallicity relative to solar
  * @param index - Star index for naming
+ * @param random - Random source for the star ID (default: Math.random)
+ * @param generation - Star-formation generation the star belongs to
  * @returns Star object with initial properties
  */
-import { Star, StarSystem, EvolutionPhase, Vector3 } from '../types/core';
+import {
+  Star,
+  StarSystem,
+  EvolutionPhase,
+  Vector3,
+  StellarOrbit,
+  OrbitalParameters,
+  BrownDwarf,
+  ElementYields,
+  StellarGeneration,
+} from '../types/core';
 import { 
   calculateInitialStellarProperties 
 } from '../physics/stellarPhysics';
@@ -201,21 +228,32 @@ import {
   calculateInternalStructure
 } from '../physics/internalStructure';
 import { 
-  calculateOrbitalParametersFromAngularMomentum,
-  calculateOrbitalPeriod,
-  calculateOrbitalPosition
+  calculateOrbitalParametersFromAngularMomentum
 } from '../physics/orbitalMechanics';
+import { updateStellarPositions } from './stellarOrbits';
+import { generateBrownDwarfFromMass } from './brownDwarfs';
+import { isSubstellar } from '../physics/brownDwarfs';
+import {
+  scaleYields,
+  calculateYieldMass,
+  calculateGasComposition,
+  calculateGasMetallicity,
+  calculateEnvelopeYields,
+} from '../physics/yields';
+import { calculateInitialSurfaceComposition } from '../physics/dredgeUp';
 
 export function generateStarFromMass(
   mass: number,
   metallicity: number,
-  index: number
+  index: number,
+  random: RandomSource = Math.random,
+  generation: number = 1
 ): Star {
   // Calculate stellar properties using physics models
-  const properties = calculateInitialStellarProperties(mass);
+  const properties = calculateInitialStellarProperties(mass, metallicity);
   
   // Generate unique ID and name
-  const id = `star-${Date.now()}-${index}`;
+  const id = generateRandomId('star', random);
   const starNames = ['Alpha', 'Beta', 'Gamma', 'Delta', 'Epsilon', 'Zeta', 'Eta', 'Theta', 'Iota', 'Kappa'];
   const name = starNames[index] || `Star ${index + 1}`;
   
@@ -237,6 +275,7 @@ export function generateStarFromMass(
     id,
     name,
     mass,
+    initialMass: mass,
     radius: properties.radius,
     luminosity: properties.luminosity,
     temperature: properties.temperature,
@@ -248,122 +287,150 @@ export function generateStarFromMass(
     position,
     velocity,
     internalStructure,
+    generation,
   };
 }
 
 /**
- * Configure binary star system with orbital parameters
- * Calculates orbital parameters and sets initial positions
- * 
- * @param star1 - Primary star
- * @param star2 - Secondary star
- * @param angularMomentum - System angular momentum
- * @returns Array of two stars with updated positions
+ * Calculate the relative orbit of a binary pair
+ * @param primaryMass - Mass of the primary (star or inner subsystem) in solar masses
+ * @param secondaryMass - Mass of the secondary in solar masses
+ * @param angularMomentum - Angular momentum available to the orbit
+ * @param random - Random source for eccentricity and orbital angles
+ * @returns Orbital elements of the secondary relative to the primary
  */
-export function configureBinarySystem(
-  star1: Star,
-  star2: Star,
-  angularMomentum: number
-): [Star, Star] {
-  // Calculate orbital parameters from angular momentum
+function calculateBinaryElements(
+  primaryMass: number,
+  secondaryMass: number,
+  angularMomentum: number,
+  random: RandomSource
+): OrbitalParameters {
   // Use moderate eccentricity for realism
-  const eccentricity = 0.1 + Math.random() * 0.3; // 0.1 to 0.4
+  const eccentricity = 0.1 + random() * 0.3; // 0.1 to 0.4
   
-  const orbitalParams = calculateOrbitalParametersFromAngularMomentum(
+  return calculateOrbitalParametersFromAngularMomentum(
     angularMomentum,
-    star1.mass,
-    star2.mass,
-    eccentricity
+    primaryMass,
+    secondaryMass,
+    eccentricity,
+    random
   );
-  
-  // Calculate orbital period
-  const period = calculateOrbitalPeriod(
-    orbitalParams.semiMajorAxis,
-    star1.mass + star2.mass
-  );
-  
-  // Set initial positions (at time = 0)
-  const pos2 = calculateOrbitalPosition(orbitalParams, 0, period);
-  
-  // Primary star on opposite side of center of mass (using mass ratio)
-  star1.position = {
-    x: -pos2.x * (star2.mass / star1.mass),
-    y: -pos2.y * (star2.mass / star1.mass),
-    z: -pos2.z * (star2.mass / star1.mass),
+}
+
+/**
+ * Calculate a wide, nearly coplanar orbit around an inner subsystem
+ * @param semiMajorAxis - Semi-major axis in AU
+ * @param random - Random source for eccentricity and orbital angles
+ * @returns Orbital elements of the outer orbit
+ */
+function calculateOuterElements(semiMajorAxis: number, random: RandomSource): OrbitalParameters {
+  return {
+    semiMajorAxis,
+    eccentricity: random() * 0.2,
+    inclination: (random() - 0.5) * Math.PI / 6, // ±15 degrees
+    longitudeOfAscendingNode: random() * 2 * Math.PI,
+    argumentOfPeriapsis: random() * 2 * Math.PI,
+    meanAnomalyAtEpoch: random() * 2 * Math.PI,
   };
-  
-  // Secondary star at calculated position
-  star2.position = pos2;
-  
-  return [star1, star2];
 }
 
 /**
- * Configure multiple-star system with hierarchical orbits
- * For systems with 3+ stars, creates hierarchical configuration
- * 
- * @param stars - Array of stars to configure
+ * Build the orbital hierarchy of a multiple-star system
+ * The two most massive stars form the inner binary; each additional star
+ * orbits the center of mass of all stars before it on a wider orbit.
+ * @param stars - Stars to configure
  * @param angularMomentum - System angular momentum
- * @returns Array of stars with updated positions
+ * @param random - Random source for orbital configuration
+ * @returns Stars ordered primary first, and their orbits innermost first
  */
-export function configureMultipleStarSystem(
+function configureStellarOrbits(
   stars: Star[],
-  angularMomentum: number
-): Star[] {
-  if (stars.length === 2) {
-    return configureBinarySystem(stars[0], stars[1], angularMomentum);
+  angularMomentum: number,
+  random: RandomSource
+): { stars: Star[]; orbits: StellarOrbit[] } {
+  if (stars.length < 2) {
+    return { stars, orbits: [] };
   }
   
-  if (stars.length === 1) {
-    return stars;
+  if (stars.length === 2) {
+    return {
+      stars,
+      orbits: [{
+        primaryIds: [stars[0].id],
+        secondaryIds: [stars[1].id],
+        elements: calculateBinaryElements(stars[0].mass, stars[1].mass, angularMomentum, random),
+      }],
+    };
   }
   
-  // For 3+ stars, create hierarchical system
-  // Most massive two stars form inner binary
-  // Additional stars orbit the binary
-  
   // Sort by mass (descending)
   const sortedStars = [...stars].sort((a, b) => b.mass - a.mass);
   
-  // Configure inner binary with most massive stars
-  const [primary, secondary] = configureBinarySystem(
-    sortedStars[0],
-    sortedStars[1],
-    angularMomentum * 0.6 // 60% of angular momentum in inner binary
+  // Inner binary with the most massive stars
+  const innerElements = calculateBinaryElements(
+    sortedStars[0].mass,
+    sortedStars[1].mass,
+    angularMomentum * 0.6, // 60% of angular momentum in inner binary
+    random
   );
   
-  // Place additional stars in wider orbits
-  const configuredStars = [primary, secondary];
+  const orbits: StellarOrbit[] = [{
+    primaryIds: [sortedStars[0].id],
+    secondaryIds: [sortedStars[1].id],
+    elements: innerElements,
+  }];
   
   for (let i = 2; i < sortedStars.length; i++) {
-    const star = sortedStars[i];
-    
-    // Calculate orbital distance (wider for each additional star)
-    const innerBinarySeparation = Math.sqrt(
-      Math.pow(primary.position.x - secondary.position.x, 2) +
-      Math.pow(primary.position.y - secondary.position.y, 2) +
-      Math.pow(primary.position.z - secondary.position.z, 2)
-    );
-    
     // Outer orbit should be 5-10 times wider for stability
     const separationMultiplier = 5 + i * 2;
-    const outerDistance = innerBinarySeparation * separationMultiplier;
-    
-    // Random angle for variety
-    const angle = Math.random() * 2 * Math.PI;
-    const inclination = (Math.random() - 0.5) * Math.PI / 6; // ±15 degrees
     
-    // Set position
-    star.position = {
-      x: outerDistance * Math.cos(angle),
-      y: outerDistance * Math.sin(angle),
-      z: outerDistance * Math.sin(inclination),
-    };
-    
-    configuredStars.push(star);
+    orbits.push({
+      primaryIds: sortedStars.slice(0, i).map(star => star.id),
+      secondaryIds: [sortedStars[i].id],
+      elements: calculateOuterElements(innerElements.semiMajorAxis * separationMultiplier, random),
+    });
   }
   
-  return configuredStars;
+  return { stars: sortedStars, orbits };
+}
+
+/**
+ * Configure binary star system with orbital parameters
+ * Calculates orbital parameters and sets initial positions and velocities
+ * 
+ * @param star1 - Primary star
+ * @param star2 - Secondary star
+ * @param angularMomentum - System angular momentum
+ * @param random - Random source for eccentricity and orbital angles (default: Math.random)
+ * @returns Array of two stars with updated positions
+ */
+export function configureBinarySystem(
+  star1: Star,
+  star2: Star,
+  angularMomentum: number,
+  random: RandomSource = Math.random
+): [Star, Star] {
+  const { orbits } = configureStellarOrbits([star1, star2], angularMomentum, random);
+  const [primary, secondary] = updateStellarPositions([star1, star2], orbits, 0);
+  return [primary, secondary];
+}
+
+/**
+ * Configure multiple-star system with hierarchical orbits
+ * For systems with 3+ stars, creates hierarchical configuration
+ * 
+ * @param stars - Array of stars to configure
+ * @param angularMomentum - System angular momentum
+ * @param random - Random source for orbital configuration (default: Math.random)
+ * @returns Array of stars with updated positions
+ */
+export function configureMultipleStarSystem(
+  stars: Star[],
+  angularMomentum: number,
+  random: RandomSource = Math.random
+): Star[] {
+  const configured = configureStellarOrbits(stars, angularMomentum, random);
+  return updateStellarPositions(configured.stars, configured.orbits, 0);
 }
 
 /**
@@ -371,6 +438,7 @@ export function configureMultipleStarSystem(
  * Main function that orchestrates cloud collapse, fragmentation, and star generation
  * 
  * @param cloudParams - Initial cloud parameters
+ * @param random - Random source for every stochastic step (default: seeded from cloudParams.seed)
  * @returns Complete star system with all stars configured
  * @throws SimulationError if cloud cannot form stars or parameters are extreme
  */
@@ -381,7 +449,10 @@ import {
   checkNumericalStability,
 } from '../validation/errorHandling';
 
-export function generateStarSystemFromCloud(cloudParams: CloudParameters): StarSystem {
+export function generateStarSystemFromCloud(
+  cloudParams: CloudParameters,
+  random: RandomSource = createRandomSource(cloudParams.seed)
+): StarSystem {
   try {
     // Check for numerical stability
     checkNumericalStability(cloudParams.mass, 'cloud mass');
@@ -415,23 +486,43 @@ export function generateStarSystemFromCloud(cloudParams: CloudParameters): StarS
     }
     
     // Calculate mass distribution
-    const stellarMasses = calculateMassDistribution(cloudParams.mass, numStars);
+    const stellarMasses = calculateMassDistribution(cloudParams.mass, numStars, random);
     
     // Validate stellar masses
     for (const mass of stellarMasses) {
       checkNumericalStability(mass, 'stellar mass');
     }
     
-    // Generate stars
-    const stars = stellarMasses.map((mass, index) => 
-      generateStarFromMass(mass, cloudParams.metallicity, index)
+    // Generate stars; fragments too light to burn hydrogen become brown dwarfs
+    const stars = stellarMasses.filter(mass => !isSubstellar(mass)).map((mass, index) => 
+      generateStarFromMass(mass, cloudParams.metallicity, index, random)
+    );
+    const substellarMasses = stellarMasses.filter(isSubstellar);
+    
+    // Configure orbits for multiple-star systems and place stars at t = 0
+    const configured = configureStellarOrbits(
+      stars,
+      cloudParams.angularMomentum,
+      random
     );
+    const configuredStars = updateStellarPositions(configured.stars, configured.orbits, 0);
     
-    // Configure orbital parameters for multiple-star systems
-    const configuredStars = configureMultipleStarSystem(stars, cloudParams.angularMomentum);
+    // Brown dwarfs orbit the primary star, or the heaviest brown dwarf if
+    // no fragment could burn hydrogen
+    const brownDwarfs: BrownDwarf[] = [];
+    for (const [index, mass] of substellarMasses.entries()) {
+      const host = configuredStars[0] ?? brownDwarfs[0];
+      brownDwarfs.push(generateBrownDwarfFromMass(mass, cloudParams.metallicity, index, host, random));
+    }
+    
+    // Gas that did not end up in stars or brown dwarfs stays in the
+    // system with the composition stars are born with
+    const composition = calculateInitialSurfaceComposition(cloudParams.metallicity);
+    const fragmentMass = stellarMasses.reduce((sum, mass) => sum + mass, 0);
+    const gasReservoir = calculateEnvelopeYields(Math.max(cloudParams.mass - fragmentMass, 0), composition);
     
     // Create star system
-    const systemId = `system-${Date.now()}`;
+    const systemId = generateRandomId('system', random);
     const systemName = `System ${systemId.slice(-6)}`;
     
     return {
@@ -439,8 +530,20 @@ export function generateStarSystemFromCloud(cloudParams: CloudParameters): StarS
       name: systemName,
       stars: configuredStars,
       planets: [], // Planets will be added later by planetary formation module
+      brownDwarfs,
       age: 0,
       initialCloudParameters: cloudParams,
+      stellarOrbits: configured.orbits,
+      gasReservoir,
+      generations: [{
+        generation: 1,
+        time: 0,
+        metallicity: cloudParams.metallicity,
+        composition,
+        gasMass: cloudParams.mass,
+        starIds: configuredStars.map(star => star.id),
+        stellarMass: configuredStars.reduce((sum, star) => sum + star.mass, 0),
+      }],
     };
   } catch (error) {
     if (error instanceof SimulationError) {
@@ -457,3 +560,147 @@ export function generateStarSystemFromCloud(cloudParams: CloudParameters): StarS
     throw simError;
   }
 }
+
+/**
+ * Result of the system's gas collapsing into a new generation of stars
+ */
+export interface StellarGenerationResult {
+  stars: Star[];                   // New stars, placed on their orbits
+  brownDwarfs: BrownDwarf[];       // New fragments too light to burn hydrogen
+  stellarOrbits: StellarOrbit[];   // All stellar orbits, including the new generation's
+  gasReservoir: ElementYields;     // Gas left after the collapse
+  generation: StellarGeneration;   // Record of the new generation
+}
+
+/**
+ * Phases that mark the end of a star's life
+ */
+const REMNANT_PHASES: EvolutionPhase[] = [
+  EvolutionPhase.WHITE_DWARF,
+  EvolutionPhase.NEUTRON_STAR,
+  EvolutionPhase.BLACK_HOLE,
+];
+
+/**
+ * Check whether the system's gas is ready to collapse into a new generation
+ * The gas waits for the first death in the youngest generation, so the
+ * supernova or planetary nebula has returned processed material and each
+ * generation forms from gas its predecessors enriched
+ * @param system - Star system
+ * @returns True if a new generation should form
+ */
+export function isGasReadyToCollapse(system: StarSystem): boolean {
+  const generations = system.generations ?? [];
+  const latest = generations[generations.length - 1];
+  if (!system.gasReservoir || !latest || generations.length >= STAR_FORMATION_CONSTANTS.MAX_GENERATIONS) {
+    return false;
+  }
+  
+  return system.stars.some(star =>
+    latest.starIds.includes(star.id) && REMNANT_PHASES.includes(star.evolutionPhase)
+  );
+}
+
+/**
+ * Collapse the system's gas into a new generation of stars
+ * The gas fragments like the original cloud, keeping its specific angular
+ * momentum, and the new stars are born with the metallicity and surface
+ * composition earlier generations' ejecta left in it. They orbit each
+ * other and, as a group, the older stars on a wide orbit. Gas that does
+ * not end up in stars stays in the reservoir. The metallicity is held to
+ * the validated range, where the stellar relations apply.
+ * @param system - Star system with its gas reservoir
+ * @param time - Simulation time in years
+ * @param random - Random source for fragmentation, masses and orbits (default: Math.random)
+ * @returns The new generation, or null if the gas will not collapse or
+ *   only brown dwarfs would form
+ */
+export function formStellarGeneration(
+  system: StarSystem,
+  time: number,
+  random: RandomSource = Math.random
+): StellarGenerationResult | null {
+  const gas = system.gasReservoir;
+  if (!gas) {
+    return null;
+  }
+  
+  // Less gas than the smallest cloud the simulator accepts stays put
+  const gasMass = calculateYieldMass(gas);
+  if (gasMass < VALIDATION_RANGES.CLOUD_MASS.min) {
+    return null;
+  }
+  
+  const cloud = system.initialCloudParameters;
+  const cloudParams: CloudParameters = {
+    mass: gasMass,
+    metallicity: Math.min(
+      Math.max(calculateGasMetallicity(gas), VALIDATION_RANGES.METALLICITY.min),
+      VALIDATION_RANGES.METALLICITY.max
+    ),
+    angularMomentum: cloud.angularMomentum * gasMass / cloud.mass,
+  };
+  const numStars = calculateNumberOfStars(cloudParams);
+  if (numStars === 0) {
+    return null;
+  }
+  
+  const generations = system.generations ?? [];
+  const generation = generations.length + 1;
+  const composition = calculateGasComposition(gas);
+  const fragmentMasses = calculateMassDistribution(gasMass, numStars, random);
+  
+  // Names continue where earlier generations stopped
+  const starsBorn = generations.reduce((sum, { starIds }) => sum + starIds.length, 0);
+  const stars = fragmentMasses.filter(mass => !isSubstellar(mass)).map((mass, index) => ({
+    ...generateStarFromMass(mass, cloudParams.metallicity, starsBorn + index, random, generation),
+    surfaceComposition: composition,
+  }));
+  if (stars.length === 0) {
+    return null;
+  }
+  
+  // The new stars orbit each other, and the older stars as a group
+  const configured = configureStellarOrbits(stars, cloudParams.angularMomentum, random);
+  const orbits = [...(system.stellarOrbits ?? []), ...configured.orbits];
+  if (system.stars.length > 0 && configured.stars.length > 0) {
+    const widestOrbit = Math.max(0, ...orbits.filter(orbit => !orbit.unbound).map(orbit => orbit.elements.semiMajorAxis));
+    orbits.push({
+      primaryIds: system.stars.map(star => star.id),
+      secondaryIds: configured.stars.map(star => star.id),
+      elements: calculateOuterElements(
+        Math.max(widestOrbit * STAR_FORMATION_CONSTANTS.SEPARATION_FACTOR, STAR_FORMATION_CONSTANTS.MIN_SEPARATION),
+        random
+      ),
+    });
+  }
+  
+  // Place only the new stars; the older ones keep their current positions
+  const placedStars = updateStellarPositions([...system.stars, ...configured.stars], orbits, time)
+    .slice(system.stars.length);
+  
+  const brownDwarfs: BrownDwarf[] = [];
+  for (const [index, mass] of fragmentMasses.filter(isSubstellar).entries()) {
+    const host = placedStars[0] ?? brownDwarfs[0];
+    const brownDwarfIndex = (system.brownDwarfs?.length ?? 0) + index;
+    brownDwarfs.push(generateBrownDwarfFromMass(mass, cloudParams.metallicity, brownDwarfIndex, host, random));
+  }
+  
+  const formedMass = fragmentMasses.reduce((sum, mass) => sum + mass, 0);
+  
+  return {
+    stars: placedStars,
+    brownDwarfs,
+    stellarOrbits: orbits,
+    gasReservoir: scaleYields(gas, Math.max(1 - formedMass / gasMass, 0)),
+    generation: {
+      generation,
+      time,
+      metallicity: cloudParams.metallicity,
+      composition,
+      gasMass,
+      starIds: placedStars.map(star => star.id),
+      stellarMass: placedStars.reduce((sum, star) => sum + star.mass, 0),
+    },
+  };
+}
@@ -0,0 +1,69 @@
+/**
+ * Common Envelope Tests
+ * Tests for envelope ejection and mergers after unstable mass transfer
+ */
+
+import { describe, it, expect } from 'vitest';
+import { evolveCommonEnvelope, updateOrbitsAfterMerger } from './commonEnvelope';
+import { createStar, evolveStar } from './stellarEvolution';
+import { createOrbit } from './testHelpers';
+import { Star, EvolutionPhase, CommonEnvelopeOutcome } from '../types/core';
+import { calculateCoreMass } from '../physics/massLoss';
+
+describe('Common Envelope', () => {
+  const progenitor = createStar(1.5, 1.0, 'Donor');
+  const giant: Star = { ...evolveStar(progenitor, progenitor.lifetime * 0.92), mass: 1.5 }; // ≈ 130 R☉
+  const companion = createStar(0.5, 1.0, 'Companion');
+
+  describe('evolveCommonEnvelope', () => {
+    it('should eject the envelope and leave a white dwarf in a tight circular orbit', () => {
+      const orbit = createOrbit([giant.id], [companion.id], 0.5, 0.3);
+      const result = evolveCommonEnvelope(orbit, giant, companion);
+      const [core, survivor] = result.stars;
+
+      expect(result.evolution.outcome).toBe(CommonEnvelopeOutcome.EJECTED);
+      expect(core.evolutionPhase).toBe(EvolutionPhase.WHITE_DWARF);
+      expect(core.mass).toBeCloseTo(calculateCoreMass(1.5), 12);
+      expect(survivor).toBe(companion);
+      expect(result.evolution.ejectedMass).toBeCloseTo(1.5 - core.mass, 12);
+
+      expect(result.orbit!.elements.semiMajorAxis).toBeLessThan(0.1);
+      expect(result.orbit!.elements.eccentricity).toBe(0);
+      expect(result.evolution.separation).toBe(result.orbit!.elements.semiMajorAxis);
+    });
+
+    it('should merge a main-sequence donor with its companion', () => {
+      const donor = { ...createStar(3.0, 1.0, 'Donor'), evolutionPhase: EvolutionPhase.MAIN_SEQUENCE, radius: 50 };
+      const accretor = { ...companion, evolutionPhase: EvolutionPhase.MAIN_SEQUENCE };
+      const result = evolveCommonEnvelope(createOrbit([donor.id], [accretor.id], 0.5, 0.3), donor, accretor);
+
+      expect(result.evolution.outcome).toBe(CommonEnvelopeOutcome.MERGED);
+      expect(result.orbit).toBeNull();
+      expect(result.stars).toHaveLength(1);
+      expect(result.stars[0].id).toBe(donor.id);
+      expect(result.evolution.ejectedMass).toBeCloseTo(0.35, 12);
+      expect(result.evolution.separation).toBe(0);
+    });
+
+    it('should merge when the companion cannot fit in the shrunken orbit', () => {
+      const bloated = { ...companion, radius: 10 };
+      const result = evolveCommonEnvelope(createOrbit([giant.id], [bloated.id], 0.5, 0.3), giant, bloated);
+
+      expect(result.evolution.outcome).toBe(CommonEnvelopeOutcome.MERGED);
+      expect(result.stars[0].evolutionPhase).toBe(EvolutionPhase.RED_GIANT);
+    });
+  });
+
+  describe('updateOrbitsAfterMerger', () => {
+    it('should drop the merged pair and let the outer star orbit the product', () => {
+      const inner = createOrbit(['a'], ['b'], 0.1);
+      const outer = createOrbit(['a', 'b'], ['c'], 10);
+      const orbits = updateOrbitsAfterMerger([inner, outer], inner, 'b', 'a');
+
+      expect(orbits).toHaveLength(1);
+      expect(orbits[0].primaryIds).toEqual(['a']);
+      expect(orbits[0].secondaryIds).toEqual(['c']);
+      expect(orbits[0].elements).toBe(outer.elements);
+    });
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Common Envelope Module
+ * Resolves dynamically unstable mass transfer: the companion spirals into
+ * the donor's envelope until the envelope is ejected or the stars merge
+ */
+
+import {
+  Star,
+  StellarOrbit,
+  EvolutionPhase,
+  CommonEnvelopeOutcome,
+} from '../types/core';
+import { PHYSICS_CONSTANTS } from '../constants/physics';
+import {
+  calculatePostCommonEnvelopeSeparation,
+  determineCommonEnvelopeOutcome,
+} from '../physics/commonEnvelope';
+import { calculateCoreMass } from '../physics/massLoss';
+import { calculateRadius } from '../physics/stellarPhysics';
+import { stripEnvelope, mergeStars } from './stellarEvolution';
+
+/**
+ * Summary of one common-envelope phase
+ */
+export interface CommonEnvelopeEvolution {
+  donorId: string;
+  companionId: string;
+  outcome: CommonEnvelopeOutcome;
+  ejectedMass: number;        // Mass lost from the system (M☉)
+  separation: number;         // Separation after ejection (AU), 0 after a merger
+}
+
+/**
+ * Result of a common-envelope phase
+ */
+export interface CommonEnvelopeResult {
+  stars: Star[];                  // Core and companion, or the merged star
+  orbit: StellarOrbit | null;     // Post-common-envelope orbit, null after a merger
+  evolution: CommonEnvelopeEvolution;
+}
+
+// Solar radii per AU
+const SOLAR_RADII_PER_AU = PHYSICS_CONSTANTS.AU / PHYSICS_CONSTANTS.SOLAR_RADIUS;
+
+/**
+ * Evolve a binary through a common envelope
+ * The companion's orbital energy unbinds the donor's envelope (α formalism).
+ * If the core and companion both fit inside their Roche lobes at the final
+ * separation, the envelope is ejected and a tight circular binary remains;
+ * otherwise the stars merge. Main-sequence donors have no distinct core
+ * and always merge.
+ * @param orbit - Binary orbit at the onset
+ * @param donor - Star whose envelope engulfs the companion
+ * @param companion - Star spiralling in
+ * @returns Surviving stars, the new orbit and a summary
+ */
+export function evolveCommonEnvelope(
+  orbit: StellarOrbit,
+  donor: Star,
+  companion: Star
+): CommonEnvelopeResult {
+  const evolved = donor.evolutionPhase !== EvolutionPhase.PROTOSTAR &&
+    donor.evolutionPhase !== EvolutionPhase.MAIN_SEQUENCE;
+  const coreMass = evolved ? Math.min(calculateCoreMass(donor.initialMass, donor.metallicity), donor.mass) : 0;
+  const core = stripEnvelope(donor);
+  // Bare helium cores are roughly as large as main-sequence stars of their mass
+  const coreRadius = core.evolutionPhase === EvolutionPhase.WHITE_DWARF ? core.radius : calculateRadius(coreMass, donor.metallicity);
+
+  const separation = calculatePostCommonEnvelopeSeparation(
+    orbit.elements.semiMajorAxis * SOLAR_RADII_PER_AU,
+    donor.mass,
+    coreMass,
+    companion.mass,
+    donor.radius
+  );
+  const outcome = determineCommonEnvelopeOutcome(
+    separation,
+    coreMass,
+    coreRadius,
+    companion.mass,
+    companion.radius
+  );
+
+  if (outcome === CommonEnvelopeOutcome.MERGED) {
+    const merged = mergeStars(donor, companion);
+    return {
+      stars: [merged],
+      orbit: null,
+      evolution: {
+        donorId: donor.id,
+        companionId: companion.id,
+        outcome,
+        ejectedMass: donor.mass + companion.mass - merged.mass,
+        separation: 0,
+      },
+    };
+  }
+
+  // Drag in the envelope circularizes the orbit
+  const semiMajorAxis = separation / SOLAR_RADII_PER_AU;
+  return {
+    stars: [core, companion],
+    orbit: { ...orbit, elements: { ...orbit.elements, semiMajorAxis, eccentricity: 0 } },
+    evolution: {
+      donorId: donor.id,
+      companionId: companion.id,
+      outcome,
+      ejectedMass: donor.mass - core.mass,
+      separation: semiMajorAxis,
+    },
+  };
+}
+
+/**
+ * Update the stellar orbits after two stars merged
+ * The merged pair's orbit disappears and outer orbits refer to the merged
+ * star in place of the absorbed one
+ * @param orbits - Stellar orbits before the merger
+ * @param mergedOrbit - Orbit of the pair that merged
+ * @param absorbedId - ID of the star absorbed in the merger
+ * @param mergedId - ID of the merged star
+ * @returns Remaining stellar orbits
+ */
+export function updateOrbitsAfterMerger(
+  orbits: StellarOrbit[],
+  mergedOrbit: StellarOrbit,
+  absorbedId: string,
+  mergedId: string
+): StellarOrbit[] {
+  const replace = (ids: string[]): string[] =>
+    [...new Set(ids.map(id => (id === absorbedId ? mergedId : id)))];
+
+  return orbits
+    .filter(orbit => orbit !== mergedOrbit)
+    .map(orbit =>
+      orbit.primaryIds.includes(absorbedId) || orbit.secondaryIds.includes(absorbedId)
+        ? { ...orbit, primaryIds: replace(orbit.primaryIds), secondaryIds: replace(orbit.secondaryIds) }
+        : orbit
+    );
+}
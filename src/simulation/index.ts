@@ -14,8 +14,63 @@ export {
   configureBinarySystem,
   configureMultipleStarSystem,
   generateStarSystemFromCloud,
+  isGasReadyToCollapse,
+  formStellarGeneration,
+  type StellarGenerationResult,
 } from './cloudFormation';
 
+// Stellar Orbits
+export { updateStellarPositions, expandStellarOrbits } from './stellarOrbits';
+
+// Planet Engulfment
+export {
+  resolvePlanetEngulfment,
+  describePlanetFate,
+  type PlanetDestruction,
+  type EngulfmentResult,
+} from './planetEngulfment';
+
+// Supernovae
+export {
+  detectSupernovae,
+  resolveSupernovae,
+  resolveTypeIaSupernovae,
+  type SupernovaLoss,
+  type SupernovaResult,
+  type TypeIaSupernovaResult,
+} from './supernova';
+
+// Mass Transfer
+export {
+  findBinaryPairs,
+  calculateBinaryRocheLobes,
+  resolveMassTransfer,
+  type MassTransferResult,
+  type MassExchange,
+} from './massTransfer';
+
+// Common Envelopes
+export {
+  evolveCommonEnvelope,
+  updateOrbitsAfterMerger,
+  type CommonEnvelopeEvolution,
+  type CommonEnvelopeResult,
+} from './commonEnvelope';
+
+// Chemical Enrichment
+export {
+  resolveEjecta,
+  resolveTypeIaEjecta,
+  type EnrichmentResult,
+} from './chemicalEnrichment';
+
+// White Dwarf Accretion
+export {
+  accreteOntoWhiteDwarf,
+  type WhiteDwarfAccretion,
+  type NovaOutbursts,
+} from './whiteDwarfAccretion';
+
 // Stellar Evolution
 export {
   createStar,
@@ -24,6 +79,9 @@ export {
   calculateLifetime,
   determineEvolutionPhase,
   determineFinalState,
+  applyMassTransfer,
+  stripEnvelope,
+  mergeStars,
   evolveStar,
   evolveStarByTime,
 } from './stellarEvolution';
@@ -37,9 +95,23 @@ export {
   generatePlanets,
   calculatePlanetMassDistribution,
   calculatePlanetOrbitalParameters,
+  getPlanetOrbitalElements,
   determinePlanetType,
   createPlanet,
 } from './planetaryFormation';
 
 // Simulation Controller
-export { SimulationController } from './SimulationController';
+export { SimulationController, type SimulationCheckpoint } from './SimulationController';
+
+// Simulation History
+export { SimulationHistory, DEFAULT_HISTORY_OPTIONS } from './SimulationHistory';
+
+// Simulation Events
+export {
+  SimulationEventBus,
+  detectStarEvents,
+  detectLostPlanets,
+  describeSimulationEvent,
+  type SimulationEventListener,
+  type SimulationEventOfType,
+} from './SimulationEvents';
@@ -0,0 +1,160 @@
+/**
+ * Mass Transfer Tests
+ * Tests for Roche-lobe overflow episodes in close binaries
+ */
+
+import { describe, it, expect } from 'vitest';
+import { findBinaryPairs, calculateBinaryRocheLobes, resolveMassTransfer } from './massTransfer';
+import { createStar, evolveStar } from './stellarEvolution';
+import { createOrbit } from './testHelpers';
+import { EvolutionPhase, MassTransferStability, CommonEnvelopeOutcome } from '../types/core';
+import { calculateCoreMass } from '../physics/massLoss';
+
+describe('Mass Transfer', () => {
+  const progenitor = createStar(1.5, 1.0, 'Donor');
+  // A single long step strips the envelope in the wind; keep it for the donor
+  const giant = { ...evolveStar(progenitor, progenitor.lifetime * 0.92), mass: progenitor.mass }; // ≈ 130 R☉
+  const heavyCompanion = createStar(3.0, 1.0, 'Heavy');
+  const lightCompanion = createStar(1.0, 1.0, 'Light');
+
+  describe('findBinaryPairs', () => {
+    it('should skip outer orbits of triples and unbound pairs', () => {
+      const inner = createOrbit([giant.id], [lightCompanion.id], 1);
+      const outer = createOrbit([giant.id, lightCompanion.id], [heavyCompanion.id], 10);
+      const unbound = {
+        ...inner,
+        unbound: { time: 0, relativePosition: { x: 1, y: 0, z: 0 }, relativeVelocity: { x: 0, y: 0, z: 0 } },
+      };
+
+      expect(findBinaryPairs([inner, outer, unbound])).toEqual([inner]);
+    });
+  });
+
+  describe('calculateBinaryRocheLobes', () => {
+    it('should give the heavier star the larger lobe', () => {
+      const [primaryLobe, secondaryLobe] = calculateBinaryRocheLobes(
+        createOrbit([heavyCompanion.id], [lightCompanion.id], 1), heavyCompanion, lightCompanion
+      );
+      expect(primaryLobe).toBeGreaterThan(secondaryLobe);
+      expect(primaryLobe + secondaryLobe).toBeLessThan(215); // 1 AU in R☉
+    });
+  });
+
+  describe('resolveMassTransfer', () => {
+    it('should record Roche lobes without transfer in a wide binary', () => {
+      const orbit = createOrbit([giant.id], [heavyCompanion.id], 50);
+      const result = resolveMassTransfer([], [giant, heavyCompanion], [orbit], [], 1e9, 1e6);
+
+      expect(result.started).toEqual([]);
+      expect(result.stellarOrbits[0]).toBe(orbit);
+      expect(result.stars[0].mass).toBe(giant.mass);
+      expect(result.stars[0].rocheLobeRadius).toBeGreaterThan(giant.radius);
+    });
+
+    it('should start a stable episode from a lighter giant and move mass to the accretor', () => {
+      const orbit = createOrbit([heavyCompanion.id], [giant.id], 0.5);
+      const result = resolveMassTransfer([], [heavyCompanion, giant], [orbit], [], 1e9, 10);
+      const [accretor, donor] = result.stars;
+
+      expect(result.started).toHaveLength(1);
+      expect(result.started[0]).toMatchObject({
+        donorId: giant.id,
+        accretorId: heavyCompanion.id,
+        stability: MassTransferStability.STABLE,
+      });
+      expect(donor.mass).toBeLessThan(giant.mass);
+      expect(accretor.mass - heavyCompanion.mass).toBeCloseTo(result.started[0].accretedMass, 12);
+      expect(result.exchanges).toEqual([
+        { fromId: giant.id, toId: heavyCompanion.id, mass: result.started[0].accretedMass },
+      ]);
+      // Mass flowing from the lighter to the heavier star widens the orbit
+      expect(result.stellarOrbits[0].elements.semiMajorAxis).toBeGreaterThan(0.5);
+      expect(result.episodes).toEqual(result.started);
+    });
+
+    it('should send unstable overflow from a heavier giant through a common envelope', () => {
+      const heavyGiant = { ...giant, mass: 1.9 };
+      const lowMass = createStar(0.5, 1.0);
+      const orbit = createOrbit([heavyGiant.id], [lowMass.id], 0.5);
+      const result = resolveMassTransfer([], [heavyGiant, lowMass], [orbit], [], 0, 1);
+
+      expect(result.started).toEqual([]);
+      expect(result.episodes).toEqual([]);
+      expect(result.commonEnvelopes).toHaveLength(1);
+      expect(result.commonEnvelopes[0].outcome).toBe(CommonEnvelopeOutcome.EJECTED);
+      expect(result.stars[0].evolutionPhase).toBe(EvolutionPhase.WHITE_DWARF);
+      expect(result.stellarOrbits[0].elements.semiMajorAxis).toBeCloseTo(result.commonEnvelopes[0].separation, 12);
+      expect(result.stars[1].rocheLobeRadius).toBeGreaterThan(lowMass.radius);
+    });
+
+    it('should replace merging stars by one star and drop their orbit', () => {
+      const heavyGiant = { ...giant, mass: 1.9 };
+      const bloated = { ...createStar(0.5, 1.0), radius: 20 };
+      const result = resolveMassTransfer([], [heavyGiant, bloated], [createOrbit([heavyGiant.id], [bloated.id], 0.5)], [], 0, 1);
+
+      expect(result.commonEnvelopes[0].outcome).toBe(CommonEnvelopeOutcome.MERGED);
+      expect(result.stars.map(star => star.id)).toEqual([heavyGiant.id]);
+      expect(result.stellarOrbits).toEqual([]);
+      expect(result.exchanges).toEqual([{ fromId: bloated.id, toId: heavyGiant.id, mass: bloated.mass }]);
+    });
+
+    it('should continue an episode and end it once the envelope is gone', () => {
+      const orbit = createOrbit([heavyCompanion.id], [giant.id], 0.5);
+      const first = resolveMassTransfer([], [heavyCompanion, giant], [orbit], [], 1e9, 10);
+      const second = resolveMassTransfer(first.stars, first.stars, first.stellarOrbits, first.episodes, 1e9 + 10, 10);
+
+      expect(second.started).toEqual([]);
+      expect(second.episodes[0].transferredMass).toBeGreaterThan(first.episodes[0].transferredMass);
+
+      const stripped = second.stars.map(star =>
+        star.id === giant.id ? { ...star, mass: calculateCoreMass(star.initialMass) } : star
+      );
+      const third = resolveMassTransfer(stripped, stripped, second.stellarOrbits, second.episodes, 1e9 + 20, 10);
+      expect(third.episodes).toEqual([]);
+      expect(third.ended).toHaveLength(1);
+    });
+
+    it('should take the donor envelope from its mass before wind loss', () => {
+      const windStripped = { ...giant, mass: calculateCoreMass(giant.initialMass) };
+      const orbit = createOrbit([heavyCompanion.id], [windStripped.id], 0.5);
+      const result = resolveMassTransfer([heavyCompanion, giant], [heavyCompanion, windStripped], [orbit], [], 1e9, 10);
+
+      expect(result.started).toHaveLength(1);
+      expect(result.stars[1].mass).toBeGreaterThan(windStripped.mass);
+    });
+
+    it('should never let a compact remnant donate', () => {
+      const whiteDwarf = { ...giant, evolutionPhase: EvolutionPhase.WHITE_DWARF, radius: 500 };
+      const result = resolveMassTransfer([], [heavyCompanion, whiteDwarf], [createOrbit([heavyCompanion.id], [whiteDwarf.id], 0.5)], [], 0, 1);
+      expect(result.started).toEqual([]);
+    });
+
+    it('should let an accreting white dwarf flash off most of a slow inflow in novae', () => {
+      const whiteDwarf = { ...heavyCompanion, mass: 0.9, radius: 0.009, evolutionPhase: EvolutionPhase.WHITE_DWARF };
+      const donor = { ...lightCompanion, radius: 2 };
+      const result = resolveMassTransfer([], [whiteDwarf, donor], [createOrbit([whiteDwarf.id], [donor.id], 0.02)], [], 1e9, 1e5);
+      const [accretor] = result.stars;
+
+      expect(result.novae).toHaveLength(1);
+      expect(result.novae[0]).toMatchObject({ whiteDwarfId: whiteDwarf.id, donorId: donor.id });
+      expect(result.novae[0].outbursts).toBeGreaterThan(0);
+      expect(accretor.evolutionPhase).toBe(EvolutionPhase.WHITE_DWARF);
+      expect(accretor.mass - whiteDwarf.mass).toBeCloseTo(result.started[0].accretedMass, 12);
+      expect(result.started[0].accretedMass).toBeLessThan(result.started[0].transferredMass);
+      expect(accretor.radius).toBeLessThan(whiteDwarf.radius);
+    });
+
+    it('should end episodes and clear lobes when the binary is disrupted', () => {
+      const orbit = createOrbit([heavyCompanion.id], [giant.id], 0.5);
+      const first = resolveMassTransfer([], [heavyCompanion, giant], [orbit], [], 1e9, 10);
+      const unbound = first.stellarOrbits.map(o => ({
+        ...o,
+        unbound: { time: 1e9, relativePosition: { x: 1, y: 0, z: 0 }, relativeVelocity: { x: 0, y: 9, z: 0 } },
+      }));
+      const result = resolveMassTransfer(first.stars, first.stars, unbound, first.episodes, 1e9 + 10, 10);
+
+      expect(result.ended).toEqual(first.episodes);
+      expect(result.stars.every(star => star.rocheLobeRadius === undefined)).toBe(true);
+    });
+  });
+});
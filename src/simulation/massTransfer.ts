@@ -0,0 +1,321 @@
+/**
+ * Mass Transfer Module
+ * Tracks Roche-lobe overflow in close binaries: moves mass from donor to
+ * accretor, lets the orbit respond and records mass-transfer episodes
+ */
+
+import {
+  Star,
+  StellarOrbit,
+  EvolutionPhase,
+  MassTransferEpisode,
+  MassTransferStability,
+  CommonEnvelopeOutcome,
+} from '../types/core';
+import { PHYSICS_CONSTANTS, MASS_TRANSFER_CONSTANTS } from '../constants/physics';
+import {
+  calculateRocheLobeRadius,
+  determineMassTransferStability,
+  calculateMassTransferRate,
+  calculateMaximumAccretionRate,
+  calculateSeparationAfterTransfer,
+} from '../physics/massTransfer';
+import { calculateCoreMass } from '../physics/massLoss';
+import { applyMassTransfer } from './stellarEvolution';
+import { NovaOutbursts, accreteOntoWhiteDwarf } from './whiteDwarfAccretion';
+import {
+  CommonEnvelopeEvolution,
+  evolveCommonEnvelope,
+  updateOrbitsAfterMerger,
+} from './commonEnvelope';
+
+/**
+ * Result of resolving mass transfer for one step
+ */
+export interface MassTransferResult {
+  stars: Star[];
+  stellarOrbits: StellarOrbit[];
+  episodes: MassTransferEpisode[];  // Episodes still in progress
+  started: MassTransferEpisode[];   // Episodes that began this step
+  ended: MassTransferEpisode[];     // Episodes that finished this step
+  commonEnvelopes: CommonEnvelopeEvolution[];  // Unstable onsets resolved this step
+  novae: NovaOutbursts[];           // Novae on accreting white dwarfs this step
+  exchanges: MassExchange[];        // Mass handed from star to star this step
+}
+
+/**
+ * Mass one star handed to another during a step
+ * Whatever a donor lost beyond this left the system. A star absorbed in a
+ * merger hands over its whole mass.
+ */
+export interface MassExchange {
+  fromId: string;
+  toId: string;
+  mass: number;  // Solar masses kept by the receiving star
+}
+
+// Solar radii per AU
+const SOLAR_RADII_PER_AU = PHYSICS_CONSTANTS.AU / PHYSICS_CONSTANTS.SOLAR_RADIUS;
+
+const COMPACT_PHASES = [
+  EvolutionPhase.WHITE_DWARF,
+  EvolutionPhase.NEUTRON_STAR,
+  EvolutionPhase.BLACK_HOLE,
+];
+
+/**
+ * Find the orbits that pair two single stars
+ * Outer orbits of hierarchical systems and unbound pairs are excluded
+ * @param orbits - Stellar orbits of the system
+ * @returns Orbits of close-binary candidates
+ */
+export function findBinaryPairs(orbits: StellarOrbit[]): StellarOrbit[] {
+  return orbits.filter(orbit =>
+    orbit.primaryIds.length === 1 && orbit.secondaryIds.length === 1 && !orbit.unbound
+  );
+}
+
+/**
+ * Calculate the Roche-lobe radii of both stars of a binary
+ * The lobes are measured at periastron, where overflow starts
+ * @param orbit - Binary orbit
+ * @param primary - Primary star
+ * @param secondary - Secondary star
+ * @returns Roche-lobe radii of the primary and secondary in solar radii
+ */
+export function calculateBinaryRocheLobes(
+  orbit: StellarOrbit,
+  primary: Star,
+  secondary: Star
+): [number, number] {
+  const separation = orbit.elements.semiMajorAxis * (1 - orbit.elements.eccentricity) * SOLAR_RADII_PER_AU;
+  return [
+    calculateRocheLobeRadius(separation, primary.mass / secondary.mass),
+    calculateRocheLobeRadius(separation, secondary.mass / primary.mass),
+  ];
+}
+
+/**
+ * Resolve Roche-lobe overflow in every close binary for one step
+ * A non-degenerate star that outgrows its Roche lobe donates mass on its
+ * thermal timescale until only its core is left; the accretor keeps what
+ * it can accept and the rest leaves the system. Dynamically unstable
+ * overflow instead plunges the binary into a common envelope, which
+ * leaves a tight binary or a single merged star. Accreting white dwarfs
+ * keep only part of what they receive and may erupt as novae. A donor
+ * loses its envelope through the inner Lagrange point rather than in a
+ * wind, so the transfer starts from its mass before the step. Stars record
+ * their current Roche-lobe radius, and the mass each accretor keeps is
+ * reported so that only what leaves the system is counted as ejecta.
+ * @param previousStars - Stars before the step (pre-wind masses)
+ * @param stars - Stars in the system
+ * @param orbits - Stellar orbits of the system
+ * @param episodes - Episodes in progress before the step
+ * @param time - Simulation time at the end of the step in years
+ * @param deltaTime - Step length in years
+ * @returns Updated stars, orbits and episodes, common-envelope phases, novae and exchanges
+ */
+export function resolveMassTransfer(
+  previousStars: Star[],
+  stars: Star[],
+  orbits: StellarOrbit[],
+  episodes: MassTransferEpisode[],
+  time: number,
+  deltaTime: number
+): MassTransferResult {
+  const pairs = findBinaryPairs(orbits);
+  if (pairs.length === 0 && episodes.length === 0 && stars.every(star => star.rocheLobeRadius === undefined)) {
+    return {
+      stars,
+      stellarOrbits: orbits,
+      episodes,
+      started: [],
+      ended: [],
+      commonEnvelopes: [],
+      novae: [],
+      exchanges: [],
+    };
+  }
+
+  // Lobes are recomputed below for stars that are still in a binary
+  const byId = new Map<string, Star>(stars.map(star => {
+    const { rocheLobeRadius: _previousLobe, ...rest } = star;
+    return [star.id, rest];
+  }));
+  const updatedOrbits = new Map<StellarOrbit, StellarOrbit>();
+  const mergers: { orbit: StellarOrbit; absorbedId: string; mergedId: string }[] = [];
+  const commonEnvelopes: CommonEnvelopeEvolution[] = [];
+  const novae: NovaOutbursts[] = [];
+  const exchanges: MassExchange[] = [];
+  const active: MassTransferEpisode[] = [];
+  const started: MassTransferEpisode[] = [];
+  const ended: MassTransferEpisode[] = [];
+  const remaining = new Set(episodes);
+
+  for (const orbit of pairs) {
+    const primary = byId.get(orbit.primaryIds[0]);
+    const secondary = byId.get(orbit.secondaryIds[0]);
+    if (!primary || !secondary) {
+      continue;
+    }
+
+    const previous = episodes.find(episode =>
+      [primary.id, secondary.id].includes(episode.donorId) &&
+      [primary.id, secondary.id].includes(episode.accretorId)
+    );
+    if (previous) {
+      remaining.delete(previous);
+    }
+
+    const [primaryLobe, secondaryLobe] = calculateBinaryRocheLobes(orbit, primary, secondary);
+    const overflowing = selectDonor([primary, primaryLobe], [secondary, secondaryLobe]);
+    const accretor = overflowing === primary ? secondary : primary;
+    const preWindMass = previousStars.find(star => star.id === overflowing?.id)?.mass;
+    const donor = overflowing && preWindMass !== undefined
+      ? { ...overflowing, mass: Math.max(preWindMass, overflowing.mass) }
+      : overflowing;
+    const envelope = donor ? donor.mass - calculateCoreMass(donor.initialMass, donor.metallicity) : 0;
+
+    if (!donor || envelope <= 0) {
+      if (previous) {
+        ended.push(previous);
+      }
+      primary.rocheLobeRadius = primaryLobe;
+      secondary.rocheLobeRadius = secondaryLobe;
+      continue;
+    }
+
+    // A donor swap ends the old episode and starts a new one
+    if (previous && previous.donorId !== donor.id) {
+      ended.push(previous);
+    }
+    const continuing = previous && previous.donorId === donor.id ? previous : undefined;
+    const episode: MassTransferEpisode = continuing ?? {
+      donorId: donor.id,
+      accretorId: accretor.id,
+      stability: determineMassTransferStability(donor.mass, accretor.mass, donor.evolutionPhase),
+      startTime: time - deltaTime,
+      rate: 0,
+      transferredMass: 0,
+      accretedMass: 0,
+    };
+
+    if (!continuing && episode.stability === MassTransferStability.UNSTABLE) {
+      const commonEnvelope = evolveCommonEnvelope(orbit, donor, accretor);
+      commonEnvelopes.push(commonEnvelope.evolution);
+      if (commonEnvelope.evolution.outcome === CommonEnvelopeOutcome.MERGED) {
+        byId.delete(accretor.id);
+        byId.set(donor.id, commonEnvelope.stars[0]);
+        exchanges.push({ fromId: accretor.id, toId: donor.id, mass: accretor.mass });
+        mergers.push({ orbit, absorbedId: accretor.id, mergedId: donor.id });
+      } else {
+        const [core, companion] = commonEnvelope.stars;
+        const tightOrbit = commonEnvelope.orbit!;
+        byId.set(core.id, core);
+        byId.set(companion.id, companion);
+        updatedOrbits.set(orbit, tightOrbit);
+        const [newPrimary, newSecondary] = core.id === primary.id ? [core, companion] : [companion, core];
+        [newPrimary.rocheLobeRadius, newSecondary.rocheLobeRadius] =
+          calculateBinaryRocheLobes(tightOrbit, newPrimary, newSecondary);
+      }
+      continue;
+    }
+
+    const rate = calculateMassTransferRate(episode.stability, donor.mass, donor.radius, donor.luminosity);
+    const transferred = Math.min(rate * deltaTime, envelope);
+    const offered = Math.min(
+      transferred * MASS_TRANSFER_CONSTANTS.ACCRETION_EFFICIENCY,
+      calculateMaximumAccretionRate(accretor.evolutionPhase, accretor.mass, accretor.radius, accretor.luminosity) *
+        deltaTime
+    );
+    // White dwarfs burn, blow away or flash off part of what they receive
+    const whiteDwarf = accretor.evolutionPhase === EvolutionPhase.WHITE_DWARF
+      ? accreteOntoWhiteDwarf(accretor, offered, deltaTime)
+      : null;
+    const accreted = whiteDwarf ? whiteDwarf.retainedMass : offered;
+
+    const semiMajorAxis = calculateSeparationAfterTransfer(
+      orbit.elements.semiMajorAxis,
+      donor.mass,
+      accretor.mass,
+      transferred,
+      accreted
+    );
+    const updatedOrbit = { ...orbit, elements: { ...orbit.elements, semiMajorAxis } };
+    updatedOrbits.set(orbit, updatedOrbit);
+
+    const newDonor = applyMassTransfer(donor, -transferred);
+    const newAccretor = whiteDwarf ? whiteDwarf.star : applyMassTransfer(accretor, accreted);
+    byId.set(donor.id, newDonor);
+    byId.set(accretor.id, newAccretor);
+    exchanges.push({ fromId: donor.id, toId: accretor.id, mass: accreted });
+
+    // Lobes after the exchange
+    const newPrimary = overflowing === primary ? newDonor : newAccretor;
+    const newSecondary = overflowing === primary ? newAccretor : newDonor;
+    [newPrimary.rocheLobeRadius, newSecondary.rocheLobeRadius] =
+      calculateBinaryRocheLobes(updatedOrbit, newPrimary, newSecondary);
+
+    const updatedEpisode: MassTransferEpisode = {
+      ...episode,
+      rate: transferred / deltaTime,
+      transferredMass: episode.transferredMass + transferred,
+      accretedMass: episode.accretedMass + accreted,
+    };
+    active.push(updatedEpisode);
+    if (whiteDwarf && whiteDwarf.outbursts > 0) {
+      novae.push({
+        whiteDwarfId: accretor.id,
+        donorId: donor.id,
+        outbursts: whiteDwarf.outbursts,
+        ejectedMass: whiteDwarf.ejectedMass,
+        separation: semiMajorAxis,
+      });
+    }
+    if (!continuing) {
+      started.push(updatedEpisode);
+    }
+  }
+
+  // Episodes whose binary no longer exists
+  ended.push(...remaining);
+
+  let stellarOrbits = orbits.map(orbit => updatedOrbits.get(orbit) ?? orbit);
+  for (const { orbit, absorbedId, mergedId } of mergers) {
+    stellarOrbits = updateOrbitsAfterMerger(stellarOrbits, orbit, absorbedId, mergedId);
+  }
+
+  return {
+    stars: stars.filter(star => byId.has(star.id)).map(star => byId.get(star.id)!),
+    stellarOrbits,
+    episodes: active,
+    started,
+    ended,
+    commonEnvelopes,
+    novae,
+    exchanges,
+  };
+}
+
+/**
+ * Pick the star that overfills its Roche lobe the most
+ * Compact remnants never donate
+ * @returns Donor, or undefined if neither star fills its lobe
+ */
+function selectDonor(
+  ...candidates: [Star, number][]
+): Star | undefined {
+  let donor: Star | undefined;
+  let largestFilling = 1;
+  for (const [star, lobe] of candidates) {
+    if (COMPACT_PHASES.includes(star.evolutionPhase) || lobe <= 0) {
+      continue;
+    }
+    const filling = star.radius / lobe;
+    if (filling > largestFilling) {
+      donor = star;
+      largestFilling = filling;
+    }
+  }
+  return donor;
+}
@@ -0,0 +1,68 @@
+/**
+ * Planet Engulfment Tests
+ * Tests for removal and accretion of planets destroyed by their hosts
+ */
+
+import { describe, it, expect } from 'vitest';
+import { resolvePlanetEngulfment, describePlanetFate } from './planetEngulfment';
+import { createStar } from './stellarEvolution';
+import { Planet, PlanetComposition, PlanetFate } from '../types/core';
+import { PHYSICS_CONSTANTS } from '../constants/physics';
+
+function createPlanet(id: string, semiMajorAxis: number, parentStarId: string): Planet {
+  return {
+    id,
+    name: id,
+    mass: 1,
+    radius: 1,
+    composition: PlanetComposition.ROCKY,
+    semiMajorAxis,
+    eccentricity: 0,
+    orbitalPeriod: Math.pow(semiMajorAxis, 1.5),
+    parentStarId,
+    position: { x: semiMajorAxis, y: 0, z: 0 },
+  };
+}
+
+describe('Planet Engulfment', () => {
+  const giant = { ...createStar(1.0, 1.0, 'Giant'), radius: 150 }; // ≈ 0.7 AU
+  const inner = createPlanet('inner', 0.5, giant.id);
+  const outer = createPlanet('outer', 5.0, giant.id);
+
+  it('should remove planets inside the star and keep distant ones', () => {
+    const result = resolvePlanetEngulfment([giant], [inner, outer]);
+
+    expect(result.planets.map(p => p.id)).toEqual(['outer']);
+    expect(result.destroyed).toHaveLength(1);
+    expect(result.destroyed[0]).toMatchObject({ starId: giant.id, fate: PlanetFate.ENGULFED });
+  });
+
+  it('should let the host accrete mass and angular momentum', () => {
+    const result = resolvePlanetEngulfment([giant], [inner, outer]);
+    const planetMass = PHYSICS_CONSTANTS.EARTH_MASS / PHYSICS_CONSTANTS.SOLAR_MASS;
+
+    expect(result.stars[0].mass).toBeCloseTo(giant.mass + planetMass, 12);
+    expect(result.stars[0].accretedAngularMomentum).toBeGreaterThan(0);
+  });
+
+  it('should leave the host unchanged without accretion', () => {
+    const result = resolvePlanetEngulfment([giant], [inner], false);
+
+    expect(result.planets).toHaveLength(0);
+    expect(result.stars[0]).toBe(giant);
+  });
+
+  it('should return the inputs when no planet is destroyed', () => {
+    const stars = [giant];
+    const planets = [outer];
+    const result = resolvePlanetEngulfment(stars, planets);
+
+    expect(result.stars).toBe(stars);
+    expect(result.planets).toBe(planets);
+  });
+
+  it('should describe the fate with the host name', () => {
+    expect(describePlanetFate(PlanetFate.ENGULFED, 'Sol')).toBe('Engulfed by Sol');
+    expect(describePlanetFate(PlanetFate.TIDALLY_DISRUPTED, 'Sol')).toBe('Tidally disrupted by Sol');
+  });
+});
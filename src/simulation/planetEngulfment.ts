@@ -0,0 +1,100 @@
+/**
+ * Planet Engulfment Module
+ * Removes planets swallowed or torn apart by their host stars and lets
+ * the host accrete their mass and orbital angular momentum
+ */
+
+import { Star, Planet, PlanetFate } from '../types/core';
+import { PHYSICS_CONSTANTS } from '../constants/physics';
+import { determinePlanetFate, calculateOrbitalAngularMomentum } from '../physics/tides';
+
+/**
+ * A planet destroyed by its host star
+ */
+export interface PlanetDestruction {
+  planet: Planet;
+  starId: string;
+  fate: PlanetFate;
+}
+
+/**
+ * Result of resolving planet engulfment for one step
+ */
+export interface EngulfmentResult {
+  stars: Star[];
+  planets: Planet[];
+  destroyed: PlanetDestruction[];
+}
+
+/**
+ * Describe how a planet was destroyed
+ * @param fate - How the planet was destroyed
+ * @param starName - Name of the host star
+ * @returns Short cause for timelines and events
+ */
+export function describePlanetFate(fate: PlanetFate, starName: string): string {
+  return fate === PlanetFate.TIDALLY_DISRUPTED
+    ? `Tidally disrupted by ${starName}`
+    : `Engulfed by ${starName}`;
+}
+
+/**
+ * Remove planets whose periastron lies within their host's radius,
+ * tidal reach or Roche limit
+ * @param stars - Stars in the system
+ * @param planets - Planets in the system
+ * @param accrete - Whether hosts gain the mass and angular momentum of destroyed planets
+ * @returns Updated stars, surviving planets and the destroyed planets
+ */
+export function resolvePlanetEngulfment(
+  stars: Star[],
+  planets: Planet[],
+  accrete: boolean = true
+): EngulfmentResult {
+  const hosts = new Map(stars.map(star => [star.id, star]));
+  const surviving: Planet[] = [];
+  const destroyed: PlanetDestruction[] = [];
+
+  for (const planet of planets) {
+    const host = hosts.get(planet.parentStarId);
+    if (!host) {
+      surviving.push(planet);
+      continue;
+    }
+
+    const periastron = planet.semiMajorAxis * (1 - planet.eccentricity);
+    const fate = determinePlanetFate(periastron, planet.radius, planet.mass, host.radius, host.mass);
+
+    if (!fate) {
+      surviving.push(planet);
+      continue;
+    }
+
+    destroyed.push({ planet, starId: host.id, fate });
+
+    if (accrete) {
+      const planetMass = planet.mass * PHYSICS_CONSTANTS.EARTH_MASS / PHYSICS_CONSTANTS.SOLAR_MASS;
+      const angularMomentum = calculateOrbitalAngularMomentum(
+        planetMass,
+        host.mass,
+        planet.semiMajorAxis,
+        planet.eccentricity
+      );
+      hosts.set(host.id, {
+        ...host,
+        mass: host.mass + planetMass,
+        accretedAngularMomentum: (host.accretedAngularMomentum ?? 0) + angularMomentum,
+      });
+    }
+  }
+
+  if (destroyed.length === 0) {
+    return { stars, planets, destroyed };
+  }
+
+  return {
+    stars: stars.map(star => hosts.get(star.id)!),
+    planets: surviving,
+    destroyed,
+  };
+}
@@ -8,6 +8,7 @@ import {
   Planet,
   ProtoplanetaryDisk,
   PlanetComposition,
+  OrbitalParameters,
 } from '../types/core';
 import {
   calculateDiskProperties,
@@ -18,6 +19,7 @@ import {
   calculatePlanetRadius,
 } from '../physics/planetaryFormation';
 import { calculateOrbitalPeriod } from '../physics/orbitalMechanics';
+import { RandomSource, generateRandomId } from '../physics/random';
 import {
   checkPlanetaryOrbitStability,
   checkNumericalStability,
@@ -26,13 +28,6 @@ import {
   SimulationErrorType,
 } from '../validation';
 
-/**
- * Generate a unique planet ID
- */
-function generatePlanetId(): string {
-  return `planet-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`;
-}
-
 /**
  * Create protoplanetary disk from star properties
  * Calculates disk mass, extent, and metallicity from initial cloud conditions
@@ -107,6 +102,7 @@ export function determineDiskExtent(
  * @param star - Host star object
  * @param orbitalDistance - Distance from star in AU
  * @param planetIndex - Index for naming (0-based)
+ * @param random - Random source for mass, eccentricity and ID
  * @returns Planet object with all properties
  * @throws SimulationError if planet parameters are invalid or orbit is unstable
  */
@@ -114,7 +110,8 @@ function generatePlanet(
   disk: ProtoplanetaryDisk,
   star: Star,
   orbitalDistance: number,
-  planetIndex: number
+  planetIndex: number,
+  random: RandomSource
 ): Planet {
   try {
     // Check numerical stability of orbital distance
@@ -128,7 +125,7 @@ function generatePlanet(
     );
 
     // Calculate planet mass based on composition and disk properties
-    const mass = calculatePlanetMass(composition, disk.mass, disk.metallicity);
+    const mass = calculatePlanetMass(composition, disk.mass, disk.metallicity, random);
     checkNumericalStability(mass, 'planet mass');
 
     // Calculate planet radius from mass and composition
@@ -160,14 +157,14 @@ function generatePlanet(
     checkNumericalStability(orbitalPeriod, 'orbital period');
     
     // Eccentricity is typically low for planets (0-0.3)
-    const eccentricity = Math.random() * 0.3;
+    const eccentricity = random() * 0.3;
 
     // Generate planet name
     const planetName = `${star.name}-${String.fromCharCode(98 + planetIndex)}`; // b, c, d, etc.
 
     // Create planet object
     const planet: Planet = {
-      id: generatePlanetId(),
+      id: generateRandomId('planet', random),
       name: planetName,
       mass,
       radius,
@@ -202,12 +199,14 @@ function generatePlanet(
  * @param disk - ProtoplanetaryDisk object
  * @param star - Host star object
  * @param maxPlanets - Maximum number of planets to generate (default: 10)
+ * @param random - Random source for planet generation (default: Math.random)
  * @returns Array of Planet objects
  */
 export function generatePlanets(
   disk: ProtoplanetaryDisk,
   star: Star,
-  maxPlanets: number = 10
+  maxPlanets: number = 10,
+  random: RandomSource = Math.random
 ): Planet[] {
   try {
     // Check if disk can form planets
@@ -220,14 +219,15 @@ export function generatePlanets(
       disk.innerRadius,
       disk.outerRadius,
       star.mass,
-      maxPlanets
+      maxPlanets,
+      random
     );
 
     // Generate planets at each orbital distance
     const planets: Planet[] = [];
     for (let i = 0; i < orbitalDistances.length; i++) {
       try {
-        const planet = generatePlanet(disk, star, orbitalDistances[i], i);
+        const planet = generatePlanet(disk, star, orbitalDistances[i], i, random);
         planets.push(planet);
       } catch (error) {
         // Log error but continue with other planets
@@ -263,11 +263,13 @@ export function generatePlanets(
  * Distributes total available mass among planets based on their positions
  * @param disk - ProtoplanetaryDisk object
  * @param numPlanets - Number of planets to distribute mass among
+ * @param random - Random source for mass fractions (default: Math.random)
  * @returns Array of planet masses in Earth masses
  */
 export function calculatePlanetMassDistribution(
   disk: ProtoplanetaryDisk,
-  numPlanets: number
+  numPlanets: number,
+  random: RandomSource = Math.random
 ): number[] {
   if (numPlanets === 0) {
     return [];
@@ -285,7 +287,7 @@ export function calculatePlanetMassDistribution(
 
   for (let i = 0; i < numPlanets; i++) {
     // Each planet gets a fraction of remaining mass
-    const fraction = 0.1 + Math.random() * 0.3;
+    const fraction = 0.1 + random() * 0.3;
     const planetMass = Math.min(remainingMass * fraction, remainingMass / (numPlanets - i));
     masses.push(planetMass);
     remainingMass -= planetMass;
@@ -299,18 +301,20 @@ export function calculatePlanetMassDistribution(
  * @param orbitalDistance - Semi-major axis in AU
  * @param stellarMass - Mass of the host star in solar masses
  * @param eccentricity - Orbital eccentricity (default: random 0-0.3)
+ * @param random - Random source for the default eccentricity (default: Math.random)
  * @returns Object with orbital parameters
  */
 export function calculatePlanetOrbitalParameters(
   orbitalDistance: number,
   stellarMass: number,
-  eccentricity?: number
+  eccentricity?: number,
+  random: RandomSource = Math.random
 ): {
   semiMajorAxis: number;
   eccentricity: number;
   orbitalPeriod: number;
 } {
-  const e = eccentricity !== undefined ? eccentricity : Math.random() * 0.3;
+  const e = eccentricity !== undefined ? eccentricity : random() * 0.3;
   const period = calculateOrbitalPeriod(orbitalDistance, stellarMass);
 
   return {
@@ -320,6 +324,24 @@ export function calculatePlanetOrbitalParameters(
   };
 }
 
+/**
+ * Get the orbital elements of a planet about its host
+ * Planets formed in the disk orbit in its plane and pass periapsis at
+ * time 0; planets moved onto new orbits keep their orientation and phase.
+ * @param planet - Planet
+ * @returns Orbital parameters relative to the host star
+ */
+export function getPlanetOrbitalElements(planet: Planet): OrbitalParameters {
+  return {
+    semiMajorAxis: planet.semiMajorAxis,
+    eccentricity: planet.eccentricity,
+    inclination: planet.inclination ?? 0,
+    longitudeOfAscendingNode: planet.longitudeOfAscendingNode ?? 0,
+    argumentOfPeriapsis: planet.argumentOfPeriapsis ?? 0,
+    meanAnomalyAtEpoch: planet.meanAnomalyAtEpoch ?? 0,
+  };
+}
+
 /**
  * Determine planet composition based on distance from star and metallicity
  * Wrapper for physics function with additional logic
@@ -343,13 +365,15 @@ export function determinePlanetType(
  * @param star - Host star object
  * @param orbitalDistance - Distance from star in AU
  * @param name - Optional custom name for the planet
+ * @param random - Random source for mass, eccentricity and ID (default: Math.random)
  * @returns Planet object with all properties
  */
 export function createPlanet(
   disk: ProtoplanetaryDisk,
   star: Star,
   orbitalDistance: number,
-  name?: string
+  name?: string,
+  random: RandomSource = Math.random
 ): Planet {
   // Determine composition
   const composition = determinePlanetComposition(
@@ -359,16 +383,16 @@ export function createPlanet(
   );
 
   // Calculate mass and radius
-  const mass = calculatePlanetMass(composition, disk.mass, disk.metallicity);
+  const mass = calculatePlanetMass(composition, disk.mass, disk.metallicity, random);
   const radius = calculatePlanetRadius(mass, composition);
 
   // Calculate orbital parameters
   const orbitalPeriod = calculateOrbitalPeriod(orbitalDistance, star.mass);
-  const eccentricity = Math.random() * 0.3;
+  const eccentricity = random() * 0.3;
 
   // Create planet object
   const planet: Planet = {
-    id: generatePlanetId(),
+    id: generateRandomId('planet', random),
     name: name || `Planet-${orbitalDistance.toFixed(2)}AU`,
     mass,
     radius,
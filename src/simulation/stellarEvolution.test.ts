@@ -9,8 +9,28 @@ import {
   evolveStar,
   determineEvolutionPhase,
   determineFinalState,
+  applyMassTransfer,
+  stripEnvelope,
+  mergeStars,
+  calculateLifetime,
+  updateRadialProfile,
 } from './stellarEvolution';
-import { EvolutionPhase, SpectralType } from '../types/core';
+import { detectStarEvents } from './SimulationEvents';
+import { EvolutionPhase, SpectralType, NuclearReaction, StructureModel, ZoneType, Star, DredgeUp, SimulationEventType } from '../types/core';
+import {
+  calculateInitialSurfaceComposition,
+  calculateNitrogenToCarbonRatio,
+  isCarbonStar,
+} from '../physics/dredgeUp';
+import { calculateRemnantProperties, calculateWhiteDwarfRadius } from '../physics/remnants';
+import { calculatePreMainSequenceLifetime } from '../physics/preMainSequence';
+import { calculateCoreMass } from '../physics/massLoss';
+import {
+  calculateAdvancedBurningLifetime,
+  calculateBurningStageDuration,
+  calculateEffectiveChandrasekharMass,
+} from '../physics/advancedBurning';
+import { PULSAR_CONSTANTS } from '../constants/physics';
 
 describe('Stellar Evolution Module', () => {
   describe('createStar', () => {
@@ -63,7 +83,7 @@ describe('Stellar Evolution Module', () => {
   describe('determineEvolutionPhase', () => {
     it('should identify protostar phase for very young stars', () => {
       const star = createStar(1.0, 1.0);
-      star.age = star.lifetime * 0.005; // 0.5% of lifetime
+      star.age = calculatePreMainSequenceLifetime(1.0) * 0.5; // Halfway to the main sequence
       
       const phase = determineEvolutionPhase(star);
       expect(phase).toBe(EvolutionPhase.PROTOSTAR);
@@ -202,18 +222,41 @@ describe('Stellar Evolution Module', () => {
   });
 
   describe('Evolution phase transitions at correct times', () => {
-    it('should remain in protostar phase during first 1% of lifetime', () => {
+    it('should remain in protostar phase until it has contracted to the main sequence', () => {
       const star = createStar(1.0, 1.0);
+      const contraction = calculatePreMainSequenceLifetime(1.0);
       
-      // Test at 0.5% of lifetime
-      let evolved = evolveStar(star, star.lifetime * 0.005);
+      // Test halfway to the main sequence
+      let evolved = evolveStar(star, contraction * 0.5);
       expect(evolved.evolutionPhase).toBe(EvolutionPhase.PROTOSTAR);
       
-      // Test at 0.9% of lifetime
-      evolved = evolveStar(star, star.lifetime * 0.009);
+      // Test just before the main sequence
+      evolved = evolveStar(star, contraction * 0.99);
       expect(evolved.evolutionPhase).toBe(EvolutionPhase.PROTOSTAR);
     });
 
+    it('should contract massive stars to the main sequence much sooner', () => {
+      const star = createStar(10.0, 1.0);
+      const evolved = evolveStar(star, calculatePreMainSequenceLifetime(1.0) * 0.5);
+      
+      expect(evolved.evolutionPhase).toBe(EvolutionPhase.MAIN_SEQUENCE);
+    });
+
+    it('should descend its pre-main-sequence track continuously onto the main sequence', () => {
+      const star = createStar(1.0, 1.0);
+      const contraction = calculatePreMainSequenceLifetime(1.0);
+      
+      const young = evolveStar(star, contraction * 0.01);
+      const beforeZams = evolveStar(star, contraction * 0.999);
+      const afterZams = evolveStar(star, contraction * 1.001);
+      
+      expect(young.radius).toBeGreaterThan(beforeZams.radius);
+      expect(young.temperature).toBeLessThan(beforeZams.temperature);
+      expect(afterZams.evolutionPhase).toBe(EvolutionPhase.MAIN_SEQUENCE);
+      expect(beforeZams.radius).toBeCloseTo(afterZams.radius, 2);
+      expect(beforeZams.luminosity).toBeCloseTo(afterZams.luminosity, 2);
+    });
+
     it('should transition to main sequence at 1% of lifetime', () => {
       const star = createStar(1.0, 1.0);
       const evolved = evolveStar(star, star.lifetime * 0.011);
@@ -271,6 +314,65 @@ describe('Stellar Evolution Module', () => {
       ]).toContain(evolved.evolutionPhase);
     });
 
+    it('should take a 15 M☉ star from blue to red supergiant before core collapse', () => {
+      const star = createStar(15.0, 1.0);
+      const phases = [0.901, 0.9065, 0.92].map(ageRatio => evolveStar(star, star.lifetime * ageRatio));
+
+      expect(phases.map(s => s.evolutionPhase)).toEqual([
+        EvolutionPhase.BLUE_SUPERGIANT,
+        EvolutionPhase.YELLOW_SUPERGIANT,
+        EvolutionPhase.RED_SUPERGIANT,
+      ]);
+      expect(phases[2].radius).toBeGreaterThan(10 * phases[0].radius);
+      expect(phases[2].spectralType).toBe(SpectralType.M);
+    });
+
+    it('should strip a 30 M☉ star down to a Wolf–Rayet star', () => {
+      let star = createStar(30.0, 1.0);
+      star = evolveStar(star, star.lifetime * 0.93);
+      expect(star.evolutionPhase).toBe(EvolutionPhase.RED_SUPERGIANT);
+
+      star = evolveStar(star, star.lifetime * 0.015);
+      expect(star.evolutionPhase).toBe(EvolutionPhase.WOLF_RAYET);
+      expect(star.mass).toBeLessThanOrEqual(calculateCoreMass(30.0));
+      expect(star.temperature).toBeGreaterThan(30000);
+    });
+
+    it('should send a 60 M☉ star through a luminous blue variable stage', () => {
+      const star = createStar(60.0, 1.0);
+      const lbv = evolveStar(star, star.lifetime * 0.912);
+
+      expect(lbv.evolutionPhase).toBe(EvolutionPhase.LUMINOUS_BLUE_VARIABLE);
+    });
+
+    it('should keep a metal-poor 30 M☉ star a red supergiant until it collapses', () => {
+      const star = createStar(30.0, 0.1);
+      const evolved = evolveStar(star, star.lifetime * 0.948);
+
+      expect(evolved.evolutionPhase).toBe(EvolutionPhase.RED_SUPERGIANT);
+    });
+
+    it('should collapse a 15 M☉ star once silicon burning has built a Chandrasekhar-mass iron core', () => {
+      const star = createStar(15.0, 1.0);
+      const heliumExhaustion = star.lifetime * 0.95;
+      const collapse = heliumExhaustion + calculateAdvancedBurningLifetime(15.0);
+      const siliconStage = calculateBurningStageDuration(NuclearReaction.SILICON_BURNING, 15.0);
+
+      const carbonBurning = evolveStar(star, heliumExhaustion + 100);
+      expect(carbonBurning.evolutionPhase).toBe(EvolutionPhase.RED_SUPERGIANT);
+      expect(carbonBurning.internalStructure.activeReactions.coreReaction).toBe(NuclearReaction.CARBON_BURNING);
+      expect(carbonBurning.internalStructure.ironCoreMass).toBe(0);
+
+      const siliconBurning = evolveStar(star, collapse - siliconStage / 2);
+      expect(siliconBurning.evolutionPhase).toBe(EvolutionPhase.RED_SUPERGIANT);
+      expect(siliconBurning.internalStructure.activeReactions.coreReaction).toBe(NuclearReaction.SILICON_BURNING);
+      expect(siliconBurning.internalStructure.ironCoreMass).toBeCloseTo(calculateEffectiveChandrasekharMass(15.0) / 2, 2);
+
+      const neutronStar = evolveStar(star, collapse + 10);
+      expect(neutronStar.evolutionPhase).toBe(EvolutionPhase.NEUTRON_STAR);
+      expect(neutronStar.remnantAge).toBeCloseTo(10, 0);
+    });
+
     it('should have increasing luminosity during main sequence evolution', () => {
       const star = createStar(1.0, 1.0);
       
@@ -344,4 +446,332 @@ describe('Stellar Evolution Module', () => {
       expect(determineFinalState(25.01)).toBe(EvolutionPhase.BLACK_HOLE);
     });
   });
+
+  describe('Wind mass loss', () => {
+    it('should keep the initial mass separately', () => {
+      const star = createStar(2.0, 1.0);
+      expect(star.initialMass).toBe(2.0);
+      
+      const evolved = evolveStar(star, star.lifetime * 0.93);
+      expect(evolved.initialMass).toBe(2.0);
+    });
+
+    it('should lose little mass on the main sequence', () => {
+      const star = createStar(1.0, 1.0);
+      const evolved = evolveStar(star, star.lifetime * 0.5);
+      
+      expect(evolved.mass).toBeLessThan(star.mass);
+      expect(evolved.mass).toBeGreaterThan(0.999);
+    });
+
+    it('should lose mass on the red giant branch', () => {
+      let star = createStar(1.0, 1.0);
+      star = evolveStar(star, star.lifetime * 0.89);
+      const massAtTurnoff = star.mass;
+      
+      star = evolveStar(star, star.lifetime * 0.02);
+      expect(star.evolutionPhase).toBe(EvolutionPhase.RED_GIANT);
+      expect(star.mass).toBeLessThan(massAtTurnoff);
+      expect(star.mass).toBeGreaterThan(0.5);
+    });
+
+    it('should leave only the core as a white dwarf', () => {
+      let star = createStar(3.0, 1.0);
+      for (let i = 0; i < 110; i++) {
+        star = evolveStar(star, star.lifetime * 0.01);
+      }
+      
+      expect(star.evolutionPhase).toBe(EvolutionPhase.WHITE_DWARF);
+      expect(star.mass).toBeLessThan(1.0);
+      expect(star.mass).toBeGreaterThan(0.5);
+    });
+
+    it('should lose less mass at low metallicity', () => {
+      const metalRich = evolveStar(createStar(20.0, 1.0), 1e6);
+      const metalPoor = evolveStar(createStar(20.0, 0.1), 1e6);
+      
+      expect(metalPoor.mass).toBeGreaterThan(metalRich.mass);
+    });
+  });
+
+  describe('Metallicity', () => {
+    it('should make Population II stars brighter, hotter and shorter-lived', () => {
+      const popI = createStar(1.0, 1.0);
+      const popII = createStar(1.0, 0.01);
+
+      expect(popII.luminosity).toBeGreaterThan(popI.luminosity);
+      expect(popII.temperature).toBeGreaterThan(popI.temperature);
+      expect(popII.lifetime).toBeLessThan(popI.lifetime);
+    });
+
+    it('should end a metal-poor 7.5 M☉ star in core collapse', () => {
+      const popI = createStar(7.5, 1.0);
+      const popII = createStar(7.5, 0.01);
+
+      expect(evolveStar(popI, popI.lifetime * 1.05).evolutionPhase).toBe(EvolutionPhase.WHITE_DWARF);
+      expect(evolveStar(popII, popII.lifetime * 1.05).evolutionPhase).toBe(EvolutionPhase.NEUTRON_STAR);
+    });
+  });
+
+  describe('Remnant properties', () => {
+    it('should give white dwarfs the mass and radius from the remnant relations', () => {
+      const star = createStar(2.0, 1.0);
+      const whiteDwarf = evolveStar(star, star.lifetime * 1.05);
+      
+      expect(whiteDwarf.evolutionPhase).toBe(EvolutionPhase.WHITE_DWARF);
+      expect(whiteDwarf.mass).toBeCloseTo(0.649, 3);
+      expect(whiteDwarf.radius).toBeGreaterThan(0.005);
+      expect(whiteDwarf.radius).toBeLessThan(0.02);
+    });
+
+    it('should cool white dwarfs with the time since they formed', () => {
+      const star = createStar(2.0, 1.0);
+      const young = evolveStar(star, star.lifetime * 1.05);
+      const old = evolveStar(young, 1e10);
+
+      expect(young.remnantAge).toBeCloseTo(star.lifetime * (1.05 - 1.01), -3);
+      expect(old.remnantAge).toBeCloseTo(young.remnantAge! + 1e10, -3);
+      expect(old.luminosity).toBeLessThan(young.luminosity);
+      expect(old.temperature).toBeLessThan(young.temperature);
+      expect(old.internalStructure.coreTemperature).toBeLessThan(young.internalStructure.coreTemperature);
+      expect(old.spectralType).toBe(young.spectralType);
+    });
+
+    it('should keep the mass a white dwarf has accreted', () => {
+      const star = createStar(2.0, 1.0);
+      const whiteDwarf = evolveStar(star, star.lifetime * 1.05);
+      const grown = evolveStar({ ...whiteDwarf, mass: 1.2 }, 1e6);
+
+      expect(grown.mass).toBe(1.2);
+      expect(grown.radius).toBeCloseTo(calculateWhiteDwarfRadius(1.2), 12);
+      expect(grown.radius).toBeLessThan(whiteDwarf.radius);
+    });
+
+    it('should give neutron stars about 1.2-2 M☉', () => {
+      const star = createStar(15.0, 1.0);
+      const neutronStar = evolveStar(star, star.lifetime * 1.0);
+      
+      expect(neutronStar.evolutionPhase).toBe(EvolutionPhase.NEUTRON_STAR);
+      expect(neutronStar.mass).toBeGreaterThan(1.2);
+      expect(neutronStar.mass).toBeLessThan(2.0);
+    });
+
+    it('should give a new neutron star a birth spin and spin it down', () => {
+      const star = createStar(15.0, 1.0, 'Progenitor');
+      const young = evolveStar(star, star.lifetime);
+      const old = evolveStar(young, 1e7);
+
+      expect(young.pulsar).toBeDefined();
+      expect(young.pulsar!.initialPeriod).toBeGreaterThanOrEqual(PULSAR_CONSTANTS.MINIMUM_SPIN_PERIOD);
+      expect(old.pulsar!.initialPeriod).toBe(young.pulsar!.initialPeriod);
+      expect(old.pulsar!.magneticField).toBe(young.pulsar!.magneticField);
+      expect(old.pulsar!.period).toBeGreaterThan(young.pulsar!.period);
+      expect(old.pulsar!.periodDerivative).toBeLessThan(young.pulsar!.periodDerivative);
+      // Same star, same pulsar
+      expect(evolveStar(star, star.lifetime).pulsar).toEqual(young.pulsar);
+    });
+
+    it('should cool neutron stars with the time since they formed', () => {
+      const star = createStar(15.0, 1.0);
+      const young = evolveStar(star, star.lifetime);
+      const old = evolveStar(young, 1e8);
+
+      expect(old.temperature).toBeLessThan(young.temperature);
+      expect(old.luminosity).toBeLessThan(young.luminosity);
+    });
+
+    it('should keep the progenitor\'s spectral type while remnants cool', () => {
+      const star = createStar(15.0, 1.0);
+      const supergiant = evolveStar(star, star.lifetime * 0.92);
+      const neutronStar = evolveStar(supergiant, star.lifetime * 0.08);
+      const cooled = [1e3, 1e6, 1e9].map(deltaTime => evolveStar(neutronStar, deltaTime));
+
+      expect(neutronStar.evolutionPhase).toBe(EvolutionPhase.NEUTRON_STAR);
+      expect(neutronStar.spectralType).toBe(SpectralType.M);
+      expect(cooled.map(s => s.spectralType)).toEqual([SpectralType.M, SpectralType.M, SpectralType.M]);
+      expect(detectStarEvents(neutronStar, cooled[2], 1e9)
+        .some(event => event.type === SimulationEventType.SPECTRAL_TYPE_CHANGE)).toBe(false);
+    });
+
+    it('should scale black hole horizons with mass', () => {
+      const light = evolveStar(createStar(30.0, 1.0), 1e10);
+      const heavy = evolveStar(createStar(80.0, 1.0), 1e10);
+      
+      expect(light.evolutionPhase).toBe(EvolutionPhase.BLACK_HOLE);
+      expect(heavy.evolutionPhase).toBe(EvolutionPhase.BLACK_HOLE);
+      expect(heavy.mass).toBeGreaterThan(light.mass);
+      expect(heavy.radius / light.radius).toBeCloseTo(heavy.mass / light.mass, 6);
+    });
+  });
+
+  describe('Mass transfer', () => {
+    it('should move an accreting main-sequence star to the track of its new mass', () => {
+      const star = evolveStar(createStar(1.0, 1.0), 5e9);
+      const accretor = applyMassTransfer(star, 1.0);
+      
+      expect(accretor.mass).toBeCloseTo(star.mass + 1.0, 12);
+      expect(accretor.initialMass).toBeCloseTo(2.0, 12);
+      expect(accretor.lifetime).toBeLessThan(star.lifetime);
+      // Same fraction of the main sequence, so a younger effective age
+      expect(accretor.age / accretor.lifetime).toBeCloseTo(star.age / star.lifetime, 12);
+      
+      // Evolution continues from the heavier track
+      const evolved = evolveStar(accretor, 1e6);
+      expect(evolved.luminosity).toBeGreaterThan(evolveStar(star, 1e6).luminosity);
+    });
+    
+    it('should only remove envelope mass from an evolved donor', () => {
+      const star = createStar(2.0, 1.0);
+      const giant = evolveStar(star, star.lifetime * 0.92);
+      const donor = applyMassTransfer(giant, -0.5);
+      
+      expect(donor.mass).toBeCloseTo(giant.mass - 0.5, 12);
+      expect(donor.initialMass).toBe(giant.initialMass);
+      expect(donor.lifetime).toBe(giant.lifetime);
+    });
+  });
+
+  describe('Common envelopes and mergers', () => {
+    it('should expose the core of a low-mass giant as a white dwarf', () => {
+      const star = createStar(2.0, 1.0);
+      const giant = evolveStar(star, star.lifetime * 0.92);
+      const core = stripEnvelope({ ...giant, mass: 2.0 });
+
+      expect(core.evolutionPhase).toBe(EvolutionPhase.WHITE_DWARF);
+      expect(core.mass).toBeCloseTo(calculateRemnantProperties(2.0).mass, 12);
+      expect(core.radius).toBeLessThan(0.05);
+      // Stays a white dwarf as it evolves on
+      expect(evolveStar(core, 1e6).evolutionPhase).toBe(EvolutionPhase.WHITE_DWARF);
+    });
+
+    it('should expose the core of an evolved massive star as a Wolf–Rayet star', () => {
+      const star = createStar(15.0, 1.0);
+      const supergiant = evolveStar(star, star.lifetime * 0.92);
+      const core = stripEnvelope(supergiant);
+
+      expect(core.evolutionPhase).toBe(EvolutionPhase.WOLF_RAYET);
+      expect(core.mass).toBeCloseTo(calculateCoreMass(15.0), 12);
+      expect(core.radius).toBeLessThan(supergiant.radius / 10);
+      // Stays a Wolf–Rayet star as it evolves on
+      expect(evolveStar(core, star.lifetime * 0.01).evolutionPhase).toBe(EvolutionPhase.WOLF_RAYET);
+    });
+
+    it('should merge two main-sequence stars into a rejuvenated blue straggler', () => {
+      const primary = evolveStar(createStar(1.2, 1.0), 3e9);
+      const secondary = evolveStar(createStar(0.8, 1.0), 3e9);
+      const merged = mergeStars(primary, secondary);
+
+      expect(merged.id).toBe(primary.id);
+      expect(merged.mass).toBeCloseTo((primary.mass + secondary.mass) * 0.9, 12);
+      expect(merged.initialMass).toBe(merged.mass);
+      expect(merged.lifetime).toBeCloseTo(calculateLifetime(merged.mass), 0);
+      expect(merged.age).toBeLessThan(primary.age);
+      expect(merged.evolutionPhase).toBe(EvolutionPhase.MAIN_SEQUENCE);
+
+      const hydrogen = merged.internalStructure.coreComposition.hydrogen;
+      const { hydrogen: h1 } = primary.internalStructure.coreComposition;
+      const { hydrogen: h2 } = secondary.internalStructure.coreComposition;
+      expect(hydrogen).toBeCloseTo((h1 * primary.mass + h2 * secondary.mass) / (primary.mass + secondary.mass), 12);
+    });
+
+    it('should keep the core and phase of an evolved star that swallows its companion', () => {
+      const star = createStar(2.0, 1.0);
+      const giant = evolveStar(star, star.lifetime * 0.92);
+      const companion = createStar(1.0, 1.0);
+      const merged = mergeStars(companion, giant);
+
+      expect(merged.id).toBe(companion.id);
+      expect(merged.evolutionPhase).toBe(EvolutionPhase.RED_GIANT);
+      expect(merged.initialMass).toBe(giant.initialMass);
+      expect(merged.mass).toBeCloseTo((giant.mass + companion.mass) * 0.9, 12);
+    });
+  });
+
+  describe('Radial profiles', () => {
+    it('should give a main-sequence star a profile that reaches its mass and radius', () => {
+      const star = evolveStar(createStar(1.0, 1.0), 4.6e9);
+      const surface = star.radialProfile!.points[star.radialProfile!.points.length - 1];
+
+      expect(star.radialProfile!.model).toBe(StructureModel.POLYTROPE);
+      expect(surface.radius).toBeCloseTo(star.radius, 6);
+      expect(surface.enclosedMass).toBeCloseTo(star.mass, 6);
+    });
+
+    it('should use the requested structure model', () => {
+      const star = createStar(1.0, 1.0);
+
+      expect(evolveStar(star, 4.6e9, StructureModel.HYDROSTATIC).radialProfile!.model)
+        .toBe(StructureModel.HYDROSTATIC);
+      expect(updateRadialProfile(star, StructureModel.HYDROSTATIC).radialProfile!.model)
+        .toBe(StructureModel.HYDROSTATIC);
+    });
+
+    it('should find convective zones from the Schwarzschild criterion', () => {
+      const sun = evolveStar(createStar(1.0, 1.0), 4.6e9);
+      const massive = evolveStar(createStar(5.0, 1.0), 1e7);
+      const overshot = evolveStar(createStar(5.0, 1.0), 1e7, StructureModel.POLYTROPE, 0.3);
+      const sunZones = sun.internalStructure!.layerStructure.zones;
+      const envelope = sunZones[sunZones.length - 1];
+
+      expect(envelope.type).toBe(ZoneType.CONVECTIVE);
+      expect(envelope.innerRadius).toBeGreaterThan(0.5);
+      expect(massive.internalStructure!.layerStructure.zones[0].type).toBe(ZoneType.CONVECTIVE);
+      expect(overshot.internalStructure!.layerStructure.zones[0].outerRadius)
+        .toBeGreaterThan(massive.internalStructure!.layerStructure.zones[0].outerRadius);
+    });
+
+    it('should drop the profile when a star becomes a black hole', () => {
+      const star = createStar(40, 1.0);
+      const remnant = evolveStar(star, star.lifetime * 1.5);
+
+      expect(remnant.evolutionPhase).toBe(EvolutionPhase.BLACK_HOLE);
+      expect(remnant.radialProfile).toBeUndefined();
+    });
+  });
+
+  describe('Surface composition', () => {
+    // Evolve a star in equal steps up to a fraction of its lifetime
+    const evolveTo = (star: Star, ageRatio: number, steps: number = 20): Star => {
+      const step = (ageRatio * star.lifetime - star.age) / steps;
+      for (let i = 0; i < steps; i++) {
+        star = evolveStar(star, step);
+      }
+      return star;
+    };
+
+    it('should start with the initial abundances and no dredge-ups', () => {
+      const star = createStar(1.0, 1.0);
+
+      expect(star.surfaceComposition).toEqual(calculateInitialSurfaceComposition(1.0));
+      expect(star.dredgeUps).toEqual([]);
+    });
+
+    it('should raise nitrogen and lower carbon at the first dredge-up', () => {
+      const star = createStar(1.0, 1.0);
+      const giant = evolveTo(star, 0.92);
+
+      expect(giant.evolutionPhase).toBe(EvolutionPhase.RED_GIANT);
+      expect(giant.dredgeUps).toEqual([DredgeUp.FIRST]);
+      expect(calculateNitrogenToCarbonRatio(giant.surfaceComposition!))
+        .toBeGreaterThan(calculateNitrogenToCarbonRatio(star.surfaceComposition!));
+      expect(giant.surfaceComposition!.oxygen).toBe(star.surfaceComposition!.oxygen);
+    });
+
+    it('should turn a 3 M☉ AGB star into a carbon star', () => {
+      const star = evolveTo(evolveTo(createStar(3.0, 1.0), 0.98), 0.999);
+
+      expect(star.evolutionPhase).toBe(EvolutionPhase.ASYMPTOTIC_GIANT);
+      expect(star.dredgeUps).toEqual([DredgeUp.FIRST, DredgeUp.THIRD]);
+      expect(isCarbonStar(star.surfaceComposition!)).toBe(true);
+    });
+
+    it('should give a 5 M☉ star a second dredge-up and keep it oxygen-rich by hot bottom burning', () => {
+      const giant = evolveTo(createStar(5.0, 1.0), 0.97);
+      const star = evolveTo(giant, 0.999);
+
+      expect(star.dredgeUps).toEqual([DredgeUp.FIRST, DredgeUp.SECOND, DredgeUp.THIRD]);
+      expect(star.surfaceComposition!.helium).toBeGreaterThan(giant.surfaceComposition!.helium);
+      expect(isCarbonStar(star.surfaceComposition!)).toBe(false);
+    });
+  });
 });
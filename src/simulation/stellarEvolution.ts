@@ -7,7 +7,13 @@ import {
   Star,
   EvolutionPhase,
   SpectralType,
+  PulsarProperties,
+  StructureModel,
+  InternalStructure,
+  SurfaceComposition,
+  DredgeUp,
 } from '../types/core';
+import { DREDGE_UP_CONSTANTS } from '../constants/physics';
 import {
   calculateLuminosity,
   calculateRadius,
@@ -16,14 +22,71 @@ import {
   calculateMainSequenceLifetime,
 } from '../physics/stellarPhysics';
 import { calculateInternalStructure } from '../physics/internalStructure';
-import { FINAL_STATE_THRESHOLDS } from '../constants/physics';
+import { calculateRadialProfile } from '../physics/stellarStructure';
+import { determineConvectiveZones } from '../physics/convection';
+import {
+  calculateInitialSurfaceComposition,
+  applyFirstDredgeUp,
+  applySecondDredgeUp,
+  applyThirdDredgeUp,
+} from '../physics/dredgeUp';
+import {
+  calculatePreMainSequenceLifetime,
+  calculatePreMainSequenceProperties,
+} from '../physics/preMainSequence';
+import { calculateMassLossRate, calculateCoreMass } from '../physics/massLoss';
+import { determineMassiveStarPhase, calculateMassiveStarProperties } from '../physics/massiveStars';
+import {
+  calculateAdvancedBurningLifetime,
+  calculateEffectiveChandrasekharMass,
+  calculateIronCoreMass,
+} from '../physics/advancedBurning';
+import {
+  calculateRemnantProperties,
+  calculateWhiteDwarfRadius,
+  calculateFinalStateThresholds,
+} from '../physics/remnants';
+import { calculateWhiteDwarfCooling } from '../physics/whiteDwarfCooling';
+import {
+  drawProgenitorRotation,
+  calculateInitialSpinPeriod,
+  calculateBirthMagneticField,
+  calculateSpinPeriod,
+  calculatePeriodDerivative,
+  calculateNeutronStarSurfaceTemperature,
+  calculateNeutronStarLuminosity,
+} from '../physics/pulsars';
+import { calculateMergerMass, mixCoreCompositions } from '../physics/commonEnvelope';
+import { RandomSource, generateRandomId, createSeededRandom, deriveSeed } from '../physics/random';
 
-/**
- * Generate a unique star ID
- */
-function generateStarId(): string {
-  return `star-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`;
-}
+// Fraction of the lifetime at which a star leaves the main sequence
+const MAIN_SEQUENCE_AGE_RATIO = 0.9;
+
+// Fraction of the lifetime at which a star below the white dwarf limit
+// leaves the horizontal branch for the asymptotic giant branch
+const ASYMPTOTIC_GIANT_AGE_RATIO = 0.98;
+
+// Fraction of the main-sequence lifetime at which the planetary nebula has
+// dispersed and the white dwarf is exposed
+const WHITE_DWARF_AGE_RATIO = 1.01;
+
+// Fraction of the lifetime at which a massive star exhausts helium in its
+// core; the advanced burning stages that follow take only centuries
+const HELIUM_EXHAUSTION_AGE_RATIO = 0.95;
+
+const REMNANT_PHASES = [
+  EvolutionPhase.WHITE_DWARF,
+  EvolutionPhase.NEUTRON_STAR,
+  EvolutionPhase.BLACK_HOLE,
+];
+
+// Phases whose deep convective envelopes have reached CN-processed layers
+const FIRST_DREDGE_UP_PHASES = [
+  EvolutionPhase.RED_GIANT,
+  EvolutionPhase.HORIZONTAL_BRANCH,
+  EvolutionPhase.ASYMPTOTIC_GIANT,
+  EvolutionPhase.RED_SUPERGIANT,
+];
 
 /**
  * Calculate initial star properties from mass and metallicity
@@ -31,19 +94,21 @@ function generateStarId(): string {
  * @param mass - Stellar mass in solar masses
  * @param metallicity - Metallicity relative to solar (Z☉)
  * @param name - Optional name for the star
+ * @param random - Random source for the star ID (default: Math.random)
  * @returns Star object with all initial properties
  */
 export function createStar(
   mass: number,
   metallicity: number,
-  name?: string
+  name?: string,
+  random: RandomSource = Math.random
 ): Star {
   // Calculate initial stellar properties using physics functions
-  const luminosity = calculateLuminosity(mass);
-  const radius = calculateRadius(mass);
+  const luminosity = calculateLuminosity(mass, metallicity);
+  const radius = calculateRadius(mass, metallicity);
   const temperature = calculateTemperature(luminosity, radius);
   const spectralType = determineSpectralType(temperature);
-  const lifetime = calculateMainSequenceLifetime(mass);
+  const lifetime = calculateMainSequenceLifetime(mass, metallicity);
 
   // Calculate initial internal structure
   const internalStructure = calculateInternalStructure(
@@ -57,9 +122,10 @@ export function createStar(
 
   // Create star object with initial properties
   const star: Star = {
-    id: generateStarId(),
+    id: generateRandomId('star', random),
     name: name || `Star-${mass.toFixed(2)}M☉`,
     mass,
+    initialMass: mass,
     radius,
     luminosity,
     temperature,
@@ -71,9 +137,11 @@ export function createStar(
     position: { x: 0, y: 0, z: 0 },
     velocity: { x: 0, y: 0, z: 0 },
     internalStructure,
+    surfaceComposition: calculateInitialSurfaceComposition(metallicity),
+    dredgeUps: [],
   };
 
-  return star;
+  return updateRadialProfile(star);
 }
 
 /**
@@ -106,42 +174,43 @@ export function assignSpectralType(temperature: number): SpectralType {
  * Calculate main sequence lifetime for a star
  * Wrapper function for calculateMainSequenceLifetime
  * @param mass - Stellar mass in solar masses
+ * @param metallicity - Metallicity relative to solar (Z☉)
  * @returns Main sequence lifetime in years
  */
-export function calculateLifetime(mass: number): number {
-  return calculateMainSequenceLifetime(mass);
+export function calculateLifetime(mass: number, metallicity: number = 1.0): number {
+  return calculateMainSequenceLifetime(mass, metallicity);
 }
 
 /**
- * Determine the evolution phase based on star's age and mass
+ * Determine the evolution phase based on star's age and initial mass
  * @param star - Star object
  * @returns Current evolution phase
  */
 export function determineEvolutionPhase(star: Star): EvolutionPhase {
   const ageRatio = star.age / star.lifetime;
 
-  // Very young stars are protostars (< 1% of lifetime)
-  if (ageRatio < 0.01) {
+  // Young stars are protostars until they have contracted to the main sequence
+  if (star.age < calculatePreMainSequenceLifetime(star.initialMass, star.metallicity)) {
     return EvolutionPhase.PROTOSTAR;
   }
 
   // Main sequence phase (up to ~90% of lifetime)
-  if (ageRatio < 0.9) {
+  if (ageRatio < MAIN_SEQUENCE_AGE_RATIO) {
     return EvolutionPhase.MAIN_SEQUENCE;
   }
 
-  // Post-main sequence evolution depends on mass
-  if (star.mass < 0.5) {
+  // Post-main sequence evolution depends on initial mass
+  if (star.initialMass < 0.5) {
     // Low mass stars: directly to white dwarf (very long timescale)
     if (ageRatio < 1.0) {
       return EvolutionPhase.MAIN_SEQUENCE;
     }
     return EvolutionPhase.WHITE_DWARF;
-  } else if (star.mass < 8) {
+  } else if (star.initialMass < calculateFinalStateThresholds(star.metallicity).whiteDwarfMax) {
     // Intermediate mass stars: red giant branch
     if (ageRatio < 0.95) {
       return EvolutionPhase.RED_GIANT;
-    } else if (ageRatio < 0.98) {
+    } else if (ageRatio < ASYMPTOTIC_GIANT_AGE_RATIO) {
       return EvolutionPhase.HORIZONTAL_BRANCH;
     } else if (ageRatio < 1.0) {
       return EvolutionPhase.ASYMPTOTIC_GIANT;
@@ -150,28 +219,69 @@ export function determineEvolutionPhase(star: Star): EvolutionPhase {
     }
     return EvolutionPhase.WHITE_DWARF;
   } else {
-    // Massive stars: supergiant and supernova
-    if (ageRatio < 0.95) {
-      return EvolutionPhase.RED_GIANT; // Supergiant phase
+    // Massive stars: supergiant stages, then core collapse once silicon
+    // burning has built an iron core up to the Chandrasekhar mass
+    if (!hasIronCoreCollapsed(star)) {
+      // A star stripped down to its helium core is a Wolf–Rayet star
+      if (star.mass <= calculateCoreMass(star.initialMass, star.metallicity)) {
+        return EvolutionPhase.WOLF_RAYET;
+      }
+      return determineMassiveStarPhase(
+        star.initialMass,
+        star.metallicity,
+        calculatePostMainSequenceProgress(star)
+      ).phase;
     }
     // Determine final state based on mass
-    return determineFinalState(star.mass);
+    return determineFinalState(star.initialMass, star.metallicity);
   }
 }
 
+/**
+ * Calculate how far a massive star is through its post-main-sequence life
+ * @param star - Star object
+ * @returns Fraction of the time from the end of the main sequence to core helium exhaustion (0-1)
+ */
+function calculatePostMainSequenceProgress(star: Star): number {
+  const progress = (star.age / star.lifetime - MAIN_SEQUENCE_AGE_RATIO) /
+    (HELIUM_EXHAUSTION_AGE_RATIO - MAIN_SEQUENCE_AGE_RATIO);
+  return Math.min(Math.max(progress, 0), 1);
+}
+
+/**
+ * Calculate the time since a massive star exhausted helium in its core
+ * @param star - Star object
+ * @returns Time in years, or undefined if the star is not massive or still burns helium
+ */
+function calculateAdvancedBurningAge(star: Star): number | undefined {
+  if (star.initialMass < calculateFinalStateThresholds(star.metallicity).whiteDwarfMax) {
+    return undefined;
+  }
+  const advancedBurningAge = star.age - star.lifetime * HELIUM_EXHAUSTION_AGE_RATIO;
+  return advancedBurningAge >= 0 ? advancedBurningAge : undefined;
+}
+
+/**
+ * Whether a massive star's iron core has grown past the point it can support itself
+ * @param star - Massive star
+ * @returns True once the iron core reaches the effective Chandrasekhar mass
+ */
+function hasIronCoreCollapsed(star: Star): boolean {
+  const advancedBurningAge = calculateAdvancedBurningAge(star);
+  return advancedBurningAge !== undefined &&
+    calculateIronCoreMass(star.initialMass, advancedBurningAge) >=
+      calculateEffectiveChandrasekharMass(star.initialMass);
+}
+
 /**
  * Determine the final state of a star based on its initial mass
+ * Uses the remnant given by the initial–final mass relation
  * @param mass - Initial stellar mass in solar masses
+ * @param metallicity - Metallicity relative to solar (Z☉)
  * @returns Final evolution phase (white dwarf, neutron star, or black hole)
  */
-export function determineFinalState(mass: number): EvolutionPhase {
-  if (mass < FINAL_STATE_THRESHOLDS.WHITE_DWARF_MAX) {
-    return EvolutionPhase.WHITE_DWARF;
-  } else if (mass < FINAL_STATE_THRESHOLDS.NEUTRON_STAR_MAX) {
-    return EvolutionPhase.NEUTRON_STAR;
-  } else {
-    return EvolutionPhase.BLACK_HOLE;
-  }
+export function determineFinalState(mass: number, metallicity: number = 1.0): EvolutionPhase {
+  return calculateRemnantProperties(mass, metallicity).phase;
 }
 
 /**
@@ -187,22 +297,19 @@ function updatePropertiesForPhase(
   const ageRatio = star.age / star.lifetime;
   
   // Get initial main sequence properties
-  const msLuminosity = calculateLuminosity(star.mass);
-  const msRadius = calculateRadius(star.mass);
+  const msLuminosity = calculateLuminosity(star.initialMass, star.metallicity);
+  const msRadius = calculateRadius(star.initialMass, star.metallicity);
   const msTemperature = calculateTemperature(msLuminosity, msRadius);
 
   switch (phase) {
     case EvolutionPhase.PROTOSTAR:
-      // Protostars are cooler and less luminous
-      return {
-        luminosity: msLuminosity * 0.1,
-        radius: msRadius * 2.0,
-        temperature: msTemperature * 0.7,
-      };
+      // Protostars contract down the Hayashi and Henyey tracks
+      return calculatePreMainSequenceProperties(star.initialMass, star.age, star.metallicity);
 
     case EvolutionPhase.MAIN_SEQUENCE:
-      // Main sequence: properties slowly increase
-      const msFactor = 1.0 + (ageRatio * 0.3); // Up to 30% increase
+      // Main sequence: properties slowly increase from the ZAMS
+      const zamsAgeRatio = calculatePreMainSequenceLifetime(star.initialMass, star.metallicity) / star.lifetime;
+      const msFactor = 1.0 + (Math.max(ageRatio - zamsAgeRatio, 0) * 0.3); // Up to 30% increase
       return {
         luminosity: msLuminosity * msFactor,
         radius: msRadius * Math.pow(msFactor, 0.5),
@@ -212,13 +319,28 @@ function updatePropertiesForPhase(
     case EvolutionPhase.RED_GIANT:
     case EvolutionPhase.ASYMPTOTIC_GIANT:
       // Red giant: greatly expanded radius, cooler surface, higher luminosity
-      const giantFactor = star.mass < 2 ? 100 : 1000;
+      const giantFactor = star.initialMass < 2 ? 100 : 1000;
       return {
-        luminosity: msLuminosity * (100 + star.mass * 50),
+        luminosity: msLuminosity * (100 + star.initialMass * 50),
         radius: msRadius * giantFactor,
         temperature: 3500, // Cool red giant temperature
       };
 
+    case EvolutionPhase.BLUE_SUPERGIANT:
+    case EvolutionPhase.YELLOW_SUPERGIANT:
+    case EvolutionPhase.RED_SUPERGIANT:
+    case EvolutionPhase.LUMINOUS_BLUE_VARIABLE:
+    case EvolutionPhase.WOLF_RAYET:
+      // Massive stars: supergiant stages at nearly constant luminosity;
+      // Wolf–Rayet stars shine as bare helium cores
+      return calculateMassiveStarProperties(
+        phase,
+        star.initialMass,
+        Math.min(star.mass, calculateCoreMass(star.initialMass, star.metallicity)),
+        star.metallicity,
+        calculatePostMainSequenceProgress(star)
+      );
+
     case EvolutionPhase.HORIZONTAL_BRANCH:
       // Horizontal branch: helium burning, intermediate properties
       return {
@@ -235,27 +357,38 @@ function updatePropertiesForPhase(
         temperature: 100000, // Very hot exposed core
       };
 
-    case EvolutionPhase.WHITE_DWARF:
-      // White dwarf: small, hot, dim
+    case EvolutionPhase.WHITE_DWARF: {
+      // White dwarf: about Earth-sized, cooling since it formed; an existing
+      // white dwarf keeps the mass it has accreted
+      const mass = star.evolutionPhase === EvolutionPhase.WHITE_DWARF
+        ? star.mass
+        : calculateRemnantProperties(star.initialMass, star.metallicity).mass;
+      const { luminosity, temperature } = calculateWhiteDwarfCooling(mass, star.remnantAge ?? 0);
       return {
-        luminosity: msLuminosity * 0.001,
-        radius: 0.01, // About Earth-sized
-        temperature: 10000 - (ageRatio * 5000), // Cooling over time
+        luminosity,
+        radius: calculateWhiteDwarfRadius(mass),
+        temperature,
       };
+    }
 
-    case EvolutionPhase.NEUTRON_STAR:
-      // Neutron star: extremely small and dense
+    case EvolutionPhase.NEUTRON_STAR: {
+      // Neutron star: extremely small and dense, cooling since it formed
+      const temperature = calculateNeutronStarSurfaceTemperature(
+        star.remnantAge ?? 0,
+        star.pulsar?.magneticField
+      );
       return {
-        luminosity: msLuminosity * 0.0001,
-        radius: 0.00001, // ~10 km
-        temperature: 1e6, // Very hot initially
+        luminosity: calculateNeutronStarLuminosity(temperature),
+        radius: calculateRemnantProperties(star.initialMass, star.metallicity).radius, // ~12 km
+        temperature,
       };
+    }
 
     case EvolutionPhase.BLACK_HOLE:
-      // Black hole: no light emission
+      // Black hole: no light emission; radius is the event horizon
       return {
         luminosity: 0,
-        radius: 0.00001, // Event horizon radius (simplified)
+        radius: calculateRemnantProperties(star.initialMass, star.metallicity).radius,
         temperature: 0,
       };
 
@@ -268,57 +401,463 @@ function updatePropertiesForPhase(
   }
 }
 
+/**
+ * Calculate a star's mass after wind mass loss over a time step
+ * Winds strip the envelope but never the core; once the envelope is
+ * ejected as a planetary nebula, only the core remains. A Wolf–Rayet star
+ * has lost its hydrogen envelope and its wind eats into the helium core.
+ * New remnants take the mass given by the initial–final mass relation.
+ * @param star - Star before the step
+ * @param phase - Evolution phase after the step
+ * @param luminosity - Luminosity after the step in solar luminosities
+ * @param radius - Radius after the step in solar radii
+ * @param deltaTime - Time step in years
+ * @returns Mass after the step in solar masses
+ */
+function applyWindMassLoss(
+  star: Star,
+  phase: EvolutionPhase,
+  luminosity: number,
+  radius: number,
+  deltaTime: number
+): number {
+  if (REMNANT_PHASES.includes(phase)) {
+    // Existing remnants keep the mass they have accreted
+    return star.evolutionPhase === phase
+      ? star.mass
+      : Math.min(star.mass, calculateRemnantProperties(star.initialMass, star.metallicity).mass);
+  }
+
+  const coreMass = calculateCoreMass(star.initialMass, star.metallicity);
+  if (phase === EvolutionPhase.WOLF_RAYET) {
+    const heliumStarMass = Math.min(star.mass, coreMass);
+    const remnantMass = calculateRemnantProperties(star.initialMass, star.metallicity).mass;
+    const rate = calculateMassLossRate(phase, heliumStarMass, luminosity, radius, star.metallicity);
+    return Math.max(heliumStarMass - rate * deltaTime, Math.min(remnantMass, heliumStarMass));
+  }
+
+  if (star.mass <= coreMass) {
+    return star.mass;
+  }
+
+  if (phase === EvolutionPhase.PLANETARY_NEBULA) {
+    return coreMass;
+  }
+
+  const rate = calculateMassLossRate(phase, star.mass, luminosity, radius, star.metallicity);
+  return Math.max(star.mass - rate * deltaTime, coreMass);
+}
+
+/**
+ * Add or remove mass exchanged with a binary companion
+ * Core hydrogen burning adjusts to the new mass, so a main-sequence star
+ * moves to the track of its new mass at the same fraction of its lifetime:
+ * accretors are rejuvenated and donors live longer (the age is rescaled).
+ * Evolved stars keep their cores, so only their envelope mass changes.
+ * @param star - Donor or accretor
+ * @param massChange - Mass gained (positive) or lost (negative) in solar masses
+ * @returns Star with updated mass, track mass, lifetime and age
+ */
+export function applyMassTransfer(star: Star, massChange: number): Star {
+  const mass = Math.max(star.mass + massChange, 0);
+
+  if (!isCoreHydrogenBurning(star)) {
+    return { ...star, mass };
+  }
+
+  const initialMass = Math.max(star.initialMass + massChange, mass);
+  const lifetime = calculateLifetime(initialMass, star.metallicity);
+  return {
+    ...star,
+    mass,
+    initialMass,
+    lifetime,
+    age: (star.age / star.lifetime) * lifetime,
+  };
+}
+
+/**
+ * Remove a star's envelope, leaving its bare core
+ * A core that would end as a white dwarf is exposed as one: the star moves
+ * to the end of its track, keeping its progenitor's spectral type. An
+ * evolved massive star is exposed as a Wolf–Rayet star and keeps evolving
+ * towards core collapse with only the core mass left.
+ * @param star - Star losing its envelope
+ * @returns Star with the core mass (and white dwarf or Wolf–Rayet properties if exposed)
+ */
+export function stripEnvelope(star: Star): Star {
+  const mass = Math.min(star.mass, calculateCoreMass(star.initialMass, star.metallicity));
+  if (determineFinalState(star.initialMass, star.metallicity) !== EvolutionPhase.WHITE_DWARF) {
+    if (isCoreHydrogenBurning(star) || REMNANT_PHASES.includes(star.evolutionPhase)) {
+      return { ...star, mass };
+    }
+    const { luminosity, radius, temperature } = updatePropertiesForPhase(
+      { ...star, mass },
+      EvolutionPhase.WOLF_RAYET
+    );
+    return {
+      ...star,
+      mass,
+      evolutionPhase: EvolutionPhase.WOLF_RAYET,
+      luminosity,
+      radius,
+      temperature,
+      spectralType: determineSpectralType(temperature),
+    };
+  }
+
+  const age = Math.max(star.age, star.lifetime * WHITE_DWARF_AGE_RATIO);
+  const remnantAge = age - star.lifetime * WHITE_DWARF_AGE_RATIO;
+  const { luminosity, radius, temperature } = updatePropertiesForPhase(
+    { ...star, mass, age, remnantAge, evolutionPhase: EvolutionPhase.WHITE_DWARF },
+    EvolutionPhase.WHITE_DWARF
+  );
+  return {
+    ...star,
+    mass,
+    age,
+    remnantAge,
+    evolutionPhase: EvolutionPhase.WHITE_DWARF,
+    luminosity,
+    radius,
+    temperature,
+  };
+}
+
+/**
+ * Merge two stars into one
+ * Two core-hydrogen-burning stars mix completely into a rejuvenated
+ * main-sequence star (a blue straggler): it follows the track of the merged
+ * mass with a lifetime reset for that mass, has burned the mass-weighted
+ * fraction of its fuel and has the mass-weighted core composition.
+ * Otherwise the more evolved star keeps its core and phase and the other
+ * star becomes part of its envelope. The product keeps the ID and name of
+ * the first star and sits at the center of mass with the total momentum.
+ * @param star - Star whose identity the product keeps
+ * @param companion - Star absorbed in the merger
+ * @returns Merged star
+ */
+export function mergeStars(star: Star, companion: Star): Star {
+  const mass = calculateMergerMass(star.mass, companion.mass);
+  const total = star.mass + companion.mass;
+  const weighted = (a: number, b: number): number => (a * star.mass + b * companion.mass) / total;
+  const position = {
+    x: weighted(star.position.x, companion.position.x),
+    y: weighted(star.position.y, companion.position.y),
+    z: weighted(star.position.z, companion.position.z),
+  };
+  const velocity = {
+    x: weighted(star.velocity.x, companion.velocity.x),
+    y: weighted(star.velocity.y, companion.velocity.y),
+    z: weighted(star.velocity.z, companion.velocity.z),
+  };
+  const { rocheLobeRadius: _lobe, ...identity } = star;
+
+  if (isCoreHydrogenBurning(star) && isCoreHydrogenBurning(companion)) {
+    const burnedFraction = weighted(star.age / star.lifetime, companion.age / companion.lifetime);
+    const lifetime = calculateLifetime(mass, star.metallicity);
+    return {
+      ...identity,
+      mass,
+      initialMass: mass,
+      lifetime,
+      age: burnedFraction * lifetime,
+      evolutionPhase: EvolutionPhase.MAIN_SEQUENCE,
+      position,
+      velocity,
+      internalStructure: {
+        ...star.internalStructure,
+        coreComposition: mixCoreCompositions(
+          star.internalStructure.coreComposition,
+          star.mass,
+          companion.internalStructure.coreComposition,
+          companion.mass
+        ),
+      },
+    };
+  }
+
+  const core = isCoreHydrogenBurning(star) ? companion : star;
+  const { rocheLobeRadius: _coreLobe, ...coreProperties } = core;
+  return {
+    ...coreProperties,
+    id: star.id,
+    name: star.name,
+    mass,
+    position,
+    velocity,
+  };
+}
+
+/**
+ * Whether a star still burns hydrogen in its core
+ * @param star - Star to check
+ * @returns True for protostars and main-sequence stars
+ */
+function isCoreHydrogenBurning(star: Star): boolean {
+  return star.evolutionPhase === EvolutionPhase.PROTOSTAR ||
+    star.evolutionPhase === EvolutionPhase.MAIN_SEQUENCE;
+}
+
 /**
  * Evolve a star's properties over a time delta
- * Updates age, evolution phase, and physical properties
+ * Updates age, evolution phase, physical properties and mass lost to winds.
+ * Phase and structure follow the track of the initial mass.
  * @param star - Star object to evolve
  * @param deltaTime - Time step in years
+ * @param structureModel - Model for the radial profile
+ * @param overshoot - Convective overshoot in pressure scale heights
  * @returns Updated star object
  */
-export function evolveStar(star: Star, deltaTime: number): Star {
+export function evolveStar(
+  star: Star,
+  deltaTime: number,
+  structureModel: StructureModel = StructureModel.POLYTROPE,
+  overshoot: number = 0
+): Star {
   // Create a new star object with updated properties
   const newAge = star.age + deltaTime;
   
   // Determine new evolution phase
   const newPhase = determineEvolutionPhase({ ...star, age: newAge });
+  const remnantAge = calculateRemnantAge(star, newPhase, newAge, deltaTime);
+  const pulsar = newPhase === EvolutionPhase.NEUTRON_STAR ? spinDownPulsar(star, remnantAge ?? 0) : undefined;
   
   // Update properties based on new phase
   const { luminosity, radius, temperature } = updatePropertiesForPhase(
-    { ...star, age: newAge },
+    { ...star, age: newAge, remnantAge, pulsar },
     newPhase
   );
   
-  // Update spectral type based on new temperature
-  const spectralType = determineSpectralType(temperature);
+  // Update spectral type based on new temperature; remnants are not
+  // classified on the OBAFGKM sequence, so they keep their progenitor's type
+  const spectralType = REMNANT_PHASES.includes(newPhase)
+    ? star.spectralType
+    : determineSpectralType(temperature);
+
+  // Lose mass to stellar winds
+  const mass = applyWindMassLoss(star, newPhase, luminosity, radius, deltaTime);
 
   // Calculate age ratio for internal structure
   const ageRatio = newAge / star.lifetime;
 
-  // Update internal structure
+  // Update internal structure (white dwarfs are described by their own
+  // mass); massive stars past helium exhaustion burn heavier fuels
+  const advancedBurningAge = REMNANT_PHASES.includes(newPhase)
+    ? undefined
+    : calculateAdvancedBurningAge({ ...star, age: newAge });
   const internalStructure = calculateInternalStructure(
-    star.mass,
+    newPhase === EvolutionPhase.WHITE_DWARF ? mass : star.initialMass,
     radius,
     luminosity,
     newPhase,
     ageRatio,
     star.metallicity,
     star.internalStructure,
-    deltaTime
+    deltaTime,
+    remnantAge,
+    advancedBurningAge
   );
 
+  // Mix processed material into the envelope
+  const { surfaceComposition, dredgeUps } = updateSurfaceComposition(star, newPhase, newAge, mass);
+
   // Return updated star
-  return {
+  return updateRadialProfile({
     ...star,
+    mass,
     age: newAge,
+    ...(remnantAge !== undefined && { remnantAge }),
+    ...(pulsar && { pulsar }),
     evolutionPhase: newPhase,
     luminosity,
     radius,
     temperature,
     spectralType,
     internalStructure,
+    surfaceComposition,
+    dredgeUps,
+  }, structureModel, overshoot);
+}
+
+/**
+ * Apply the dredge-ups a star goes through over a time step
+ * The first dredge-up happens once the star becomes a red giant (or red
+ * supergiant), the second as an intermediate-mass star reaches the AGB, and
+ * the third mixes intershell carbon into the shrinking envelope throughout
+ * the AGB of stars above the third dredge-up mass.
+ * @param star - Star before the step
+ * @param phase - Evolution phase after the step
+ * @param age - Age after the step in years
+ * @param mass - Mass after the step in solar masses
+ * @returns Surface composition and dredge-up episodes after the step
+ */
+function updateSurfaceComposition(
+  star: Star,
+  phase: EvolutionPhase,
+  age: number,
+  mass: number
+): { surfaceComposition: SurfaceComposition; dredgeUps: DredgeUp[] } {
+  let surfaceComposition = star.surfaceComposition ?? calculateInitialSurfaceComposition(star.metallicity);
+  const dredgeUps = [...(star.dredgeUps ?? [])];
+
+  if (FIRST_DREDGE_UP_PHASES.includes(phase) && !dredgeUps.includes(DredgeUp.FIRST)) {
+    surfaceComposition = applyFirstDredgeUp(surfaceComposition);
+    dredgeUps.push(DredgeUp.FIRST);
+  }
+
+  if (phase !== EvolutionPhase.ASYMPTOTIC_GIANT) {
+    return { surfaceComposition, dredgeUps };
+  }
+
+  if (star.initialMass >= DREDGE_UP_CONSTANTS.SECOND_MIN_MASS && !dredgeUps.includes(DredgeUp.SECOND)) {
+    surfaceComposition = applySecondDredgeUp(surfaceComposition);
+    dredgeUps.push(DredgeUp.SECOND);
+  }
+
+  const progress = calculateAsymptoticGiantProgress(age / star.lifetime) -
+    calculateAsymptoticGiantProgress(star.age / star.lifetime);
+  if (star.initialMass >= DREDGE_UP_CONSTANTS.THIRD_MIN_MASS && progress > 0) {
+    surfaceComposition = applyThirdDredgeUp(
+      surfaceComposition,
+      DREDGE_UP_CONSTANTS.THIRD_DREDGED_MASS * progress,
+      mass - calculateCoreMass(star.initialMass, star.metallicity),
+      star.initialMass >= DREDGE_UP_CONSTANTS.HOT_BOTTOM_BURNING_MASS
+    );
+    if (!dredgeUps.includes(DredgeUp.THIRD)) {
+      dredgeUps.push(DredgeUp.THIRD);
+    }
+  }
+
+  return { surfaceComposition, dredgeUps };
+}
+
+/**
+ * Calculate how far a star is through the asymptotic giant branch
+ * @param ageRatio - Age relative to the main-sequence lifetime
+ * @returns Fraction of the AGB completed (0-1)
+ */
+function calculateAsymptoticGiantProgress(ageRatio: number): number {
+  const progress = (ageRatio - ASYMPTOTIC_GIANT_AGE_RATIO) / (1 - ASYMPTOTIC_GIANT_AGE_RATIO);
+  return Math.min(Math.max(progress, 0), 1);
+}
+
+/**
+ * Recalculate a star's radial profile and convective zones from its current properties
+ * The zones come from the Schwarzschild criterion on a first profile built
+ * with the star's current zones, and the profile is then rebuilt with them.
+ * Degenerate remnants, and giants whose envelopes the profile cannot
+ * resolve, keep the zones of their internal structure.
+ * @param star - Star object
+ * @param structureModel - Model for the radial profile
+ * @param overshoot - Convective overshoot in pressure scale heights
+ * @returns Star with updated zones and profile (no profile for black holes)
+ */
+export function updateRadialProfile(
+  star: Star,
+  structureModel: StructureModel = StructureModel.POLYTROPE,
+  overshoot: number = 0
+): Star {
+  const { radialProfile: _previous, ...rest } = star;
+  const profileOf = (internalStructure: InternalStructure) => calculateRadialProfile(
+    structureModel,
+    star.mass,
+    star.radius,
+    star.luminosity,
+    star.temperature,
+    star.evolutionPhase,
+    star.metallicity,
+    internalStructure
+  );
+
+  const estimate = profileOf(star.internalStructure);
+  if (!estimate) {
+    return rest;
+  }
+  if (REMNANT_PHASES.includes(star.evolutionPhase)) {
+    return { ...rest, radialProfile: estimate };
+  }
+
+  const zones = determineConvectiveZones(estimate, overshoot);
+  if (!zones) {
+    return { ...rest, radialProfile: estimate };
+  }
+
+  const internalStructure: InternalStructure = {
+    ...star.internalStructure,
+    layerStructure: { ...star.internalStructure.layerStructure, zones },
+  };
+  return { ...rest, internalStructure, radialProfile: profileOf(internalStructure) ?? estimate };
+}
+
+/**
+ * Calculate the time since a star became a compact remnant
+ * A remnant ages with every step; a new remnant formed when the star's age
+ * passed the end of its track (see determineEvolutionPhase)
+ * @param star - Star before the step
+ * @param phase - Evolution phase after the step
+ * @param age - Age after the step in years
+ * @param deltaTime - Time step in years
+ * @returns Remnant age in years, or undefined if the star is not a remnant
+ */
+function calculateRemnantAge(
+  star: Star,
+  phase: EvolutionPhase,
+  age: number,
+  deltaTime: number
+): number | undefined {
+  if (!REMNANT_PHASES.includes(phase)) {
+    return undefined;
+  }
+  if (star.evolutionPhase === phase) {
+    return (star.remnantAge ?? 0) + deltaTime;
+  }
+
+  if (phase === EvolutionPhase.WHITE_DWARF) {
+    const formationAgeRatio = star.initialMass < 0.5 ? 1.0 : WHITE_DWARF_AGE_RATIO;
+    return Math.max(age - star.lifetime * formationAgeRatio, 0);
+  }
+  // Neutron stars and black holes form when the iron core collapses
+  const collapseAge = star.lifetime * HELIUM_EXHAUSTION_AGE_RATIO +
+    calculateAdvancedBurningLifetime(star.initialMass);
+  return Math.max(age - collapseAge, 0);
+}
+
+/**
+ * Spin a neutron star down by magnetic dipole braking
+ * @param star - Neutron star, or its progenitor if it has just formed
+ * @param remnantAge - Time since the neutron star formed in years
+ * @returns Spin and magnetic field at the given age
+ */
+function spinDownPulsar(star: Star, remnantAge: number): PulsarProperties {
+  const { initialPeriod, magneticField } = star.pulsar ?? drawBirthSpin(star);
+  const period = calculateSpinPeriod(initialPeriod, magneticField, remnantAge);
+  return {
+    initialPeriod,
+    period,
+    periodDerivative: calculatePeriodDerivative(period, magneticField),
+    magneticField,
   };
 }
 
+/**
+ * Draw the birth spin and magnetic field of a new neutron star
+ * The spin comes from the progenitor's main-sequence rotation, drawn from a
+ * stream seeded by the star's ID so that a replayed run gives the same
+ * pulsar; the field follows from the spin
+ * @param progenitor - Star collapsing to a neutron star
+ * @returns Birth spin period in seconds and surface field in gauss
+ */
+function drawBirthSpin(progenitor: Star): { initialPeriod: number; magneticField: number } {
+  const rotation = drawProgenitorRotation(createSeededRandom(deriveSeed(`${progenitor.id}:spin`)));
+  const initialPeriod = calculateInitialSpinPeriod(
+    progenitor.initialMass,
+    calculateRadius(progenitor.initialMass, progenitor.metallicity),
+    rotation
+  );
+  return { initialPeriod, magneticField: calculateBirthMagneticField(initialPeriod) };
+}
+
 /**
  * Evolve a star by a time delta (alias for evolveStar)
  * @param star - Star object to evolve
@@ -0,0 +1,208 @@
+/**
+ * Stellar Orbits Tests
+ * Tests for Keplerian motion of stars about the system barycenter
+ */
+
+import { describe, it, expect } from 'vitest';
+import { updateStellarPositions, expandStellarOrbits, fitStellarOrbits } from './stellarOrbits';
+import { createStar } from './stellarEvolution';
+import { Star, StellarOrbit, Vector3 } from '../types/core';
+
+/**
+ * Mass-weighted sum of a vector property over a set of stars
+ */
+function massWeightedSum(stars: Star[], pick: (star: Star) => Vector3): Vector3 {
+  return stars.reduce(
+    (sum, star) => ({
+      x: sum.x + star.mass * pick(star).x,
+      y: sum.y + star.mass * pick(star).y,
+      z: sum.z + star.mass * pick(star).z,
+    }),
+    { x: 0, y: 0, z: 0 }
+  );
+}
+
+function distance(a: Vector3, b: Vector3): number {
+  return Math.sqrt((a.x - b.x) ** 2 + (a.y - b.y) ** 2 + (a.z - b.z) ** 2);
+}
+
+describe('Stellar Orbits', () => {
+  const primary = createStar(2.0, 1.0, 'Primary');
+  const secondary = createStar(1.0, 1.0, 'Secondary');
+  const tertiary = createStar(0.5, 1.0, 'Tertiary');
+
+  const innerOrbit: StellarOrbit = {
+    primaryIds: [primary.id],
+    secondaryIds: [secondary.id],
+    elements: {
+      semiMajorAxis: 1.0,
+      eccentricity: 0.3,
+      inclination: 0.2,
+      longitudeOfAscendingNode: 1.0,
+      argumentOfPeriapsis: 0.5,
+      meanAnomalyAtEpoch: 0,
+    },
+  };
+
+  const outerOrbit: StellarOrbit = {
+    primaryIds: [primary.id, secondary.id],
+    secondaryIds: [tertiary.id],
+    elements: {
+      semiMajorAxis: 10.0,
+      eccentricity: 0.1,
+      inclination: -0.1,
+      longitudeOfAscendingNode: 2.0,
+      argumentOfPeriapsis: 0,
+      meanAnomalyAtEpoch: 1.0,
+    },
+  };
+
+  it('should leave stars untouched without orbits', () => {
+    const stars = [primary];
+    expect(updateStellarPositions(stars, [], 100)).toBe(stars);
+  });
+
+  it('should keep the binary barycenter at rest at the origin', () => {
+    for (const time of [0, 0.37, 12.5]) {
+      const stars = updateStellarPositions([primary, secondary], [innerOrbit], time);
+      const com = massWeightedSum(stars, s => s.position);
+      const momentum = massWeightedSum(stars, s => s.velocity);
+
+      expect(com.x).toBeCloseTo(0, 10);
+      expect(com.y).toBeCloseTo(0, 10);
+      expect(momentum.x).toBeCloseTo(0, 10);
+      expect(momentum.z).toBeCloseTo(0, 10);
+    }
+  });
+
+  it('should keep binary separation between periastron and apastron', () => {
+    for (const time of [0, 0.2, 0.4, 0.6]) {
+      const [a, b] = updateStellarPositions([primary, secondary], [innerOrbit], time);
+      const separation = distance(a.position, b.position);
+
+      expect(separation).toBeGreaterThanOrEqual(0.7 - 1e-9);
+      expect(separation).toBeLessThanOrEqual(1.3 + 1e-9);
+    }
+  });
+
+  it('should move stars over time', () => {
+    const [before] = updateStellarPositions([primary, secondary], [innerOrbit], 0);
+    const [after] = updateStellarPositions([primary, secondary], [innerOrbit], 0.25);
+
+    expect(distance(before.position, after.position)).toBeGreaterThan(0);
+    expect(Math.hypot(after.velocity.x, after.velocity.y, after.velocity.z)).toBeGreaterThan(0);
+  });
+
+  it('should orbit the third star about the inner binary center of mass', () => {
+    const stars = updateStellarPositions(
+      [primary, secondary, tertiary],
+      [innerOrbit, outerOrbit],
+      3.3
+    );
+    const inner = stars.slice(0, 2);
+    const innerMass = primary.mass + secondary.mass;
+    const innerCom = massWeightedSum(inner, s => s.position);
+    const innerComPosition = {
+      x: innerCom.x / innerMass,
+      y: innerCom.y / innerMass,
+      z: innerCom.z / innerMass,
+    };
+
+    // Whole system barycenter at the origin
+    const com = massWeightedSum(stars, s => s.position);
+    expect(com.x).toBeCloseTo(0, 10);
+    expect(com.y).toBeCloseTo(0, 10);
+
+    // Outer separation is measured from the inner binary's center of mass
+    const outerSeparation = distance(stars[2].position, innerComPosition);
+    expect(outerSeparation).toBeGreaterThanOrEqual(9.0 - 1e-9);
+    expect(outerSeparation).toBeLessThanOrEqual(11.0 + 1e-9);
+  });
+
+  it('should skip orbits whose companion no longer exists', () => {
+    const [star] = updateStellarPositions([primary], [innerOrbit], 1.0);
+    expect(star.position).toEqual({ x: 0, y: 0, z: 0 });
+  });
+
+  it('should widen orbits as their stars lose mass', () => {
+    const lighterPrimary = { ...primary, mass: 1.0 };
+    const [inner, outer] = expandStellarOrbits(
+      [innerOrbit, outerOrbit],
+      [primary, secondary, tertiary],
+      [lighterPrimary, secondary, tertiary]
+    );
+
+    // Inner binary: 3 M☉ → 2 M☉, outer triple: 3.5 M☉ → 2.5 M☉
+    expect(inner.elements.semiMajorAxis).toBeCloseTo(1.5, 10);
+    expect(outer.elements.semiMajorAxis).toBeCloseTo(14.0, 10);
+    expect(inner.elements.eccentricity).toBe(innerOrbit.elements.eccentricity);
+  });
+
+  it('should leave orbits unchanged without mass loss', () => {
+    const [inner] = expandStellarOrbits([innerOrbit], [primary, secondary], [primary, secondary]);
+    expect(inner).toBe(innerOrbit);
+  });
+
+  it('should move unbound pairs apart in straight lines', () => {
+    const unboundOrbit: StellarOrbit = {
+      ...innerOrbit,
+      unbound: {
+        time: 10,
+        relativePosition: { x: 1, y: 0, z: 0 },
+        relativeVelocity: { x: 0, y: 3, z: 0 },
+      },
+    };
+    const [a, b] = updateStellarPositions([primary, secondary], [unboundOrbit], 12);
+
+    expect(b.position.x - a.position.x).toBeCloseTo(1, 10);
+    expect(b.position.y - a.position.y).toBeCloseTo(6, 10);
+    expect(b.velocity.y - a.velocity.y).toBeCloseTo(3, 10);
+  });
+
+  it('should let the companion of a destroyed star drift from the former barycenter', () => {
+    const orphanedOrbit: StellarOrbit = {
+      ...innerOrbit,
+      unbound: {
+        time: 10,
+        relativePosition: { x: 0.5, y: 0, z: 0 },
+        relativeVelocity: { x: 0, y: 2, z: 0 },
+      },
+    };
+    const [survivor] = updateStellarPositions([secondary], [orphanedOrbit], 11);
+
+    expect(survivor.position).toEqual({ x: 0.5, y: 2, z: 0 });
+    expect(survivor.velocity).toEqual({ x: 0, y: 2, z: 0 });
+  });
+
+  it('should not widen unbound orbits', () => {
+    const unboundOrbit: StellarOrbit = {
+      ...innerOrbit,
+      unbound: { time: 0, relativePosition: { x: 1, y: 0, z: 0 }, relativeVelocity: { x: 0, y: 0, z: 0 } },
+    };
+    const [orbit] = expandStellarOrbits([unboundOrbit], [primary, secondary], [{ ...primary, mass: 1.0 }, secondary]);
+    expect(orbit).toBe(unboundOrbit);
+  });
+
+  it('should fit orbits that reproduce the current state of a triple', () => {
+    const orbits = [innerOrbit, outerOrbit];
+    const stars = updateStellarPositions([primary, secondary, tertiary], orbits, 3.7);
+    const fitted = fitStellarOrbits(orbits, stars, 3.7);
+
+    for (const time of [3.7, 8.2]) {
+      const expected = updateStellarPositions(stars, orbits, time);
+      updateStellarPositions(stars, fitted, time).forEach((star, i) => {
+        expect(distance(star.position, expected[i].position)).toBeLessThan(1e-9);
+        expect(distance(star.velocity, expected[i].velocity)).toBeLessThan(1e-9);
+      });
+    }
+  });
+
+  it('should let a pair moving faster than escape speed drift apart', () => {
+    const [a, b] = updateStellarPositions([primary, secondary], [innerOrbit], 0);
+    const escaping = [a, { ...b, velocity: { x: b.velocity.x * 3, y: b.velocity.y * 3, z: b.velocity.z * 3 } }];
+    const [orbit] = fitStellarOrbits([innerOrbit], escaping, 0);
+
+    expect(orbit.unbound).toBeDefined();
+    expect(orbit.unbound!.relativePosition.x).toBeCloseTo(b.position.x - a.position.x, 10);
+  });
+});
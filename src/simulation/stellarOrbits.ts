@@ -0,0 +1,248 @@
+/**
+ * Stellar Orbits Module
+ * Moves stars in binary and hierarchical multiple systems on Keplerian
+ * orbits about the system barycenter
+ */
+
+import { Star, StellarOrbit, Vector3 } from '../types/core';
+import {
+  calculateOrbitalPeriod,
+  calculateOrbitalPosition,
+  calculateOrbitalVelocity,
+  calculateOrbitalElementsFromState,
+} from '../physics/orbitalMechanics';
+import { calculateAdiabaticSemiMajorAxis } from '../physics/massLoss';
+
+/**
+ * Sum the masses of the stars in one side of an orbit
+ * Stars no longer present in the system are ignored
+ * @param stars - All stars in the system
+ * @param ids - IDs of the stars in the group
+ * @returns Total mass in solar masses
+ */
+function calculateGroupMass(stars: Star[], ids: string[]): number {
+  return stars
+    .filter(star => ids.includes(star.id))
+    .reduce((sum, star) => sum + star.mass, 0);
+}
+
+/**
+ * Mass-weighted position and velocity of the stars in one side of an orbit
+ * @param stars - All stars in the system
+ * @param ids - IDs of the stars in the group
+ * @returns Total mass, center of mass (AU) and its velocity (AU/year)
+ */
+function calculateGroupState(
+  stars: Star[],
+  ids: string[]
+): { mass: number; position: Vector3; velocity: Vector3 } {
+  const position = { x: 0, y: 0, z: 0 };
+  const velocity = { x: 0, y: 0, z: 0 };
+  const mass = calculateGroupMass(stars, ids);
+  for (const star of stars.filter(s => ids.includes(s.id))) {
+    const weight = mass > 0 ? star.mass / mass : 0;
+    position.x += star.position.x * weight;
+    position.y += star.position.y * weight;
+    position.z += star.position.z * weight;
+    velocity.x += star.velocity.x * weight;
+    velocity.y += star.velocity.y * weight;
+    velocity.z += star.velocity.z * weight;
+  }
+  return { mass, position, velocity };
+}
+
+/**
+ * Add a scaled vector to every star in a group
+ * @param offsets - Accumulated offsets by star ID
+ * @param ids - IDs of the stars to offset
+ * @param vector - Vector to add
+ * @param scale - Scale factor applied to the vector
+ */
+function addGroupOffset(
+  offsets: Map<string, Vector3>,
+  ids: string[],
+  vector: Vector3,
+  scale: number
+): void {
+  for (const id of ids) {
+    const offset = offsets.get(id);
+    if (offset) {
+      offset.x += vector.x * scale;
+      offset.y += vector.y * scale;
+      offset.z += vector.z * scale;
+    }
+  }
+}
+
+/**
+ * Calculate the state of an orbit's secondary relative to its primary
+ * @param orbit - Stellar orbit
+ * @param totalMass - Combined mass of both groups in solar masses
+ * @param time - Simulation time in years
+ * @returns Relative position (AU) and velocity (AU/year)
+ */
+function calculateRelativeState(
+  orbit: StellarOrbit,
+  totalMass: number,
+  time: number
+): { relativePosition: Vector3; relativeVelocity: Vector3 } {
+  if (orbit.unbound) {
+    const { relativePosition: start, relativeVelocity } = orbit.unbound;
+    const elapsed = time - orbit.unbound.time;
+    return {
+      relativePosition: {
+        x: start.x + relativeVelocity.x * elapsed,
+        y: start.y + relativeVelocity.y * elapsed,
+        z: start.z + relativeVelocity.z * elapsed,
+      },
+      relativeVelocity: { ...relativeVelocity },
+    };
+  }
+
+  const period = calculateOrbitalPeriod(orbit.elements.semiMajorAxis, totalMass);
+  return {
+    relativePosition: calculateOrbitalPosition(orbit.elements, time, period),
+    relativeVelocity: calculateOrbitalVelocity(orbit.elements, time, period),
+  };
+}
+
+/**
+ * Calculate star positions and velocities at a given time
+ * Each orbit places the centers of mass of its two groups on opposite sides
+ * of their common barycenter; contributions from nested orbits add up, so
+ * a triple's outer star orbits the inner binary's center of mass.
+ * Periods follow the current group masses, so mass loss is reflected.
+ * Unbound pairs drift apart in straight lines, as do the companions of a
+ * star that was destroyed.
+ * @param stars - Stars in the system
+ * @param orbits - Stellar orbits of the system
+ * @param time - Simulation time in years
+ * @returns Stars with updated position (AU) and velocity (AU/year)
+ */
+export function updateStellarPositions(
+  stars: Star[],
+  orbits: StellarOrbit[],
+  time: number
+): Star[] {
+  if (orbits.length === 0) {
+    return stars;
+  }
+
+  const positions = new Map<string, Vector3>(stars.map(star => [star.id, { x: 0, y: 0, z: 0 }]));
+  const velocities = new Map<string, Vector3>(stars.map(star => [star.id, { x: 0, y: 0, z: 0 }]));
+
+  for (const orbit of orbits) {
+    const primaryMass = calculateGroupMass(stars, orbit.primaryIds);
+    const secondaryMass = calculateGroupMass(stars, orbit.secondaryIds);
+    const totalMass = primaryMass + secondaryMass;
+
+    // Orbit dissolved (one side no longer exists); survivors of a destroyed
+    // star drift away from the pair's former center of mass
+    if (primaryMass <= 0 || secondaryMass <= 0) {
+      if (orbit.unbound && totalMass > 0) {
+        const survivors = primaryMass > 0 ? orbit.primaryIds : orbit.secondaryIds;
+        const { relativePosition, relativeVelocity } = calculateRelativeState(orbit, totalMass, time);
+        addGroupOffset(positions, survivors, relativePosition, 1);
+        addGroupOffset(velocities, survivors, relativeVelocity, 1);
+      }
+      continue;
+    }
+
+    const { relativePosition, relativeVelocity } = calculateRelativeState(orbit, totalMass, time);
+
+    // Primary moves opposite the secondary, weighted by mass ratio
+    addGroupOffset(positions, orbit.primaryIds, relativePosition, -secondaryMass / totalMass);
+    addGroupOffset(positions, orbit.secondaryIds, relativePosition, primaryMass / totalMass);
+    addGroupOffset(velocities, orbit.primaryIds, relativeVelocity, -secondaryMass / totalMass);
+    addGroupOffset(velocities, orbit.secondaryIds, relativeVelocity, primaryMass / totalMass);
+  }
+
+  return stars.map(star => ({
+    ...star,
+    position: positions.get(star.id)!,
+    velocity: velocities.get(star.id)!,
+  }));
+}
+
+/**
+ * Widen stellar orbits in response to slow mass loss
+ * Each orbit keeps a⋅M constant for the combined mass of its two groups;
+ * unbound pairs are left as they are
+ * @param orbits - Stellar orbits before the mass loss
+ * @param previousStars - Stars before the mass loss
+ * @param stars - Stars after the mass loss
+ * @returns Orbits with updated semi-major axes
+ */
+export function expandStellarOrbits(
+  orbits: StellarOrbit[],
+  previousStars: Star[],
+  stars: Star[]
+): StellarOrbit[] {
+  return orbits.map(orbit => {
+    const ids = [...orbit.primaryIds, ...orbit.secondaryIds];
+    const previousMass = calculateGroupMass(previousStars, ids);
+    const currentMass = calculateGroupMass(stars, ids);
+
+    if (orbit.unbound || previousMass === currentMass) {
+      return orbit;
+    }
+
+    return {
+      ...orbit,
+      elements: {
+        ...orbit.elements,
+        semiMajorAxis: calculateAdiabaticSemiMajorAxis(
+          orbit.elements.semiMajorAxis,
+          previousMass,
+          currentMass
+        ),
+      },
+    };
+  });
+}
+
+/**
+ * Fit stellar orbits to the stars' current positions and velocities
+ * Used when motion computed by other means (e.g. N-body integration) hands
+ * back to Keplerian orbits, so stars carry on from where they are. Pairs
+ * that are no longer bound drift apart from their current separation.
+ * @param orbits - Stellar orbits of the system
+ * @param stars - Stars with current position (AU) and velocity (AU/year)
+ * @param time - Simulation time in years
+ * @returns Orbits refitted to the current state
+ */
+export function fitStellarOrbits(
+  orbits: StellarOrbit[],
+  stars: Star[],
+  time: number
+): StellarOrbit[] {
+  return orbits.map(orbit => {
+    const primary = calculateGroupState(stars, orbit.primaryIds);
+    const secondary = calculateGroupState(stars, orbit.secondaryIds);
+    if (primary.mass <= 0 || secondary.mass <= 0) {
+      return orbit;
+    }
+
+    const relativePosition = {
+      x: secondary.position.x - primary.position.x,
+      y: secondary.position.y - primary.position.y,
+      z: secondary.position.z - primary.position.z,
+    };
+    const relativeVelocity = {
+      x: secondary.velocity.x - primary.velocity.x,
+      y: secondary.velocity.y - primary.velocity.y,
+      z: secondary.velocity.z - primary.velocity.z,
+    };
+    const elements = calculateOrbitalElementsFromState(
+      relativePosition,
+      relativeVelocity,
+      primary.mass + secondary.mass,
+      time
+    );
+
+    if (elements && !orbit.unbound) {
+      return { ...orbit, elements };
+    }
+    return { ...orbit, unbound: { time, relativePosition, relativeVelocity } };
+  });
+}
@@ -0,0 +1,228 @@
+/**
+ * Supernova Tests
+ * Tests for orbit recomputation, unbinding and ejecta effects after core
+ * collapse and Type Ia explosions
+ */
+
+import { describe, it, expect } from 'vitest';
+import { detectSupernovae, resolveSupernovae, resolveTypeIaSupernovae } from './supernova';
+import { createStar } from './stellarEvolution';
+import { updateStellarPositions } from './stellarOrbits';
+import { createOrbit } from './testHelpers';
+import { getPlanetOrbitalElements } from './planetaryFormation';
+import { calculateOrbitalPeriod, calculateOrbitalPosition } from '../physics/orbitalMechanics';
+import { auPerYearToKmPerSecond } from '../physics/supernova';
+import {
+  Star,
+  Planet,
+  PlanetComposition,
+  EvolutionPhase,
+} from '../types/core';
+
+function createPlanet(
+  id: string,
+  parentStarId: string,
+  semiMajorAxis: number,
+  mass: number = 1,
+  radius: number = 1,
+  composition: PlanetComposition = PlanetComposition.ROCKY
+): Planet {
+  return {
+    id,
+    name: id,
+    mass,
+    radius,
+    composition,
+    semiMajorAxis,
+    eccentricity: 0,
+    orbitalPeriod: Math.pow(semiMajorAxis, 1.5),
+    parentStarId,
+    position: { x: semiMajorAxis, y: 0, z: 0 },
+  };
+}
+
+describe('Supernova', () => {
+  const progenitor: Star = { ...createStar(15, 1.0, 'Progenitor'), id: 'progenitor' };
+  const remnant: Star = { ...progenitor, mass: 1.4, evolutionPhase: EvolutionPhase.NEUTRON_STAR };
+  const companion: Star = { ...createStar(10, 1.0, 'Companion'), id: 'companion' };
+
+  describe('detectSupernovae', () => {
+    it('should detect stars that just collapsed', () => {
+      expect(detectSupernovae([progenitor, companion], [remnant, companion])).toEqual(['progenitor']);
+    });
+
+    it('should ignore white dwarfs and existing remnants', () => {
+      const whiteDwarf = { ...progenitor, evolutionPhase: EvolutionPhase.WHITE_DWARF };
+      expect(detectSupernovae([whiteDwarf], [remnant])).toEqual([]);
+      expect(detectSupernovae([remnant], [remnant])).toEqual([]);
+      expect(detectSupernovae([progenitor], [whiteDwarf])).toEqual([]);
+    });
+  });
+
+  describe('resolveSupernovae', () => {
+    it('should return the inputs unchanged without an explosion', () => {
+      const stars = [progenitor];
+      const planets = [createPlanet('b', progenitor.id, 1)];
+      const result = resolveSupernovae(stars, stars, planets, [], 0);
+
+      expect(result.stars).toBe(stars);
+      expect(result.planets).toBe(planets);
+      expect(result.events).toEqual([]);
+    });
+
+    it('should unbind a companion when more than half the mass is ejected', () => {
+      const orbit = createOrbit([progenitor.id], [companion.id], 1.0);
+      const result = resolveSupernovae([progenitor, companion], [remnant, companion], [], [orbit], 100);
+
+      expect(result.stellarOrbits[0].unbound).toBeDefined();
+      expect(result.stellarOrbits[0].unbound!.time).toBe(100);
+      expect(result.events).toHaveLength(1);
+      expect(result.events[0]).toMatchObject({
+        starId: 'progenitor',
+        remnantType: EvolutionPhase.NEUTRON_STAR,
+        unboundStarIds: ['companion'],
+      });
+      expect(result.events[0].ejectedMass).toBeCloseTo(13.6, 10);
+      expect(result.events[0].kickVelocity).toBeGreaterThan(0);
+    });
+
+    it('should leave a tight binary with a massive companion bound on a new orbit', () => {
+      const heavy: Star = { ...createStar(40, 1.0, 'Heavy'), id: 'heavy' };
+      const light: Star = { ...progenitor, mass: 9, initialMass: 9 };
+      const orbit = createOrbit([heavy.id], [light.id], 0.05);
+      const collapsed = { ...light, mass: 1.4, evolutionPhase: EvolutionPhase.NEUTRON_STAR };
+      const result = resolveSupernovae([heavy, light], [heavy, collapsed], [], [orbit], 0);
+      const updated = result.stellarOrbits[0];
+
+      expect(updated.unbound).toBeUndefined();
+      expect(updated.elements.eccentricity).toBeGreaterThan(0);
+      expect(updated.elements.semiMajorAxis).not.toBe(0.05);
+      expect(result.events[0].unboundStarIds).toEqual([]);
+    });
+
+    it('should carry the kick of a remnant that stays bound in its new orbit', () => {
+      const heavy: Star = { ...createStar(40, 1.0, 'Heavy'), id: 'heavy' };
+      const light: Star = { ...progenitor, mass: 9, initialMass: 9 };
+      const orbit = createOrbit([heavy.id], [light.id], 0.05);
+      const collapsed = { ...light, mass: 1.4, evolutionPhase: EvolutionPhase.NEUTRON_STAR };
+      const before = updateStellarPositions([heavy, light], [orbit], 0);
+      const result = resolveSupernovae([heavy, light], [heavy, collapsed], [], [orbit], 0);
+
+      // Kepler motion continues from the post-explosion state
+      expect(updateStellarPositions(result.stars, result.stellarOrbits, 0)).toEqual(result.stars);
+      const relativeVelocity = (stars: Star[]) => ({
+        x: stars[1].velocity.x - stars[0].velocity.x,
+        y: stars[1].velocity.y - stars[0].velocity.y,
+        z: stars[1].velocity.z - stars[0].velocity.z,
+      });
+      const [after, initial] = [relativeVelocity(result.stars), relativeVelocity(before)];
+      const change = Math.hypot(after.x - initial.x, after.y - initial.y, after.z - initial.z);
+      expect(auPerYearToKmPerSecond(change)).toBeCloseTo(result.events[0].kickVelocity, 6);
+    });
+
+    it('should kick the remnant', () => {
+      const result = resolveSupernovae([progenitor], [remnant], [], [], 0);
+      const velocity = result.stars[0].velocity;
+      expect(Math.hypot(velocity.x, velocity.y, velocity.z)).toBeGreaterThan(0);
+    });
+
+    it('should draw the same kick when replayed', () => {
+      const first = resolveSupernovae([progenitor], [remnant], [], [], 0);
+      const second = resolveSupernovae([progenitor], [remnant], [], [], 0);
+      expect(second.events[0].kickVelocity).toBe(first.events[0].kickVelocity);
+    });
+
+    it('should unbind planets of the exploding star', () => {
+      const planet = createPlanet('b', progenitor.id, 3);
+      const result = resolveSupernovae([progenitor], [remnant], [planet], [], 0);
+
+      expect(result.planets).toHaveLength(0);
+      expect(result.lost).toEqual([{ planet, reason: 'Unbound by the supernova of Progenitor' }]);
+      expect(result.events[0].lostPlanetIds).toEqual(['b']);
+    });
+
+    it('should keep a bound planet where it was on its new orbit', () => {
+      const heavy: Star = { ...createStar(20, 1.0, 'Heavy'), id: 'heavy' };
+      const blackHole = { ...heavy, mass: 15, evolutionPhase: EvolutionPhase.BLACK_HOLE };
+      const planet = createPlanet('b', heavy.id, 0.5);
+      const time = 1234.5;
+      const result = resolveSupernovae([heavy], [blackHole], [planet], [], time);
+      const [rebound] = result.planets;
+
+      const before = calculateOrbitalPosition(
+        getPlanetOrbitalElements(planet), time, calculateOrbitalPeriod(planet.semiMajorAxis, heavy.mass)
+      );
+      const after = calculateOrbitalPosition(
+        getPlanetOrbitalElements(rebound), time, calculateOrbitalPeriod(rebound.semiMajorAxis, blackHole.mass)
+      );
+      expect(rebound.semiMajorAxis).not.toBe(planet.semiMajorAxis);
+      expect(after.x).toBeCloseTo(before.x, 9);
+      expect(after.y).toBeCloseTo(before.y, 9);
+      expect(after.z).toBeCloseTo(before.z, 9);
+    });
+
+    it('should strip the envelopes of nearby giants', () => {
+      const giant = createPlanet('giant', companion.id, 0.1, 318, 11.2, PlanetComposition.GAS_GIANT);
+      const result = resolveSupernovae([progenitor, companion], [remnant, companion], [giant], [], 0);
+
+      expect(result.planets).toHaveLength(1);
+      expect(result.planets[0].composition).toBe(PlanetComposition.ROCKY);
+      expect(result.planets[0].mass).toBeLessThan(giant.mass);
+      expect(result.planets[0].radius).toBeLessThan(giant.radius);
+      expect(result.events[0].strippedPlanetIds).toEqual(['giant']);
+    });
+
+    it('should destroy planets very close to the explosion and irradiate distant ones', () => {
+      const close = createPlanet('close', companion.id, 0.05);
+      const distant = createPlanet('distant', companion.id, 10, 318, 11.2, PlanetComposition.GAS_GIANT);
+      const result = resolveSupernovae([progenitor, companion], [remnant, companion], [close, distant], [], 0);
+
+      expect(result.planets.map(p => p.id)).toEqual(['distant']);
+      expect(result.lost[0].reason).toBe('Destroyed by the supernova of Progenitor');
+      expect(result.events[0].irradiatedPlanetIds).toEqual(['distant']);
+    });
+  });
+
+  describe('resolveTypeIaSupernovae', () => {
+    const whiteDwarf: Star = {
+      ...createStar(3.0, 1.0, 'Dwarf'),
+      id: 'dwarf',
+      mass: 1.39,
+      evolutionPhase: EvolutionPhase.WHITE_DWARF,
+    };
+    const donor: Star = { ...createStar(1.0, 1.0, 'Donor'), id: 'donor' };
+
+    it('should leave white dwarfs below the ignition mass alone', () => {
+      const stars = [{ ...whiteDwarf, mass: 1.2 }, donor];
+      const result = resolveTypeIaSupernovae(stars, [], [], 0);
+
+      expect(result.stars).toBe(stars);
+      expect(result.events).toEqual([]);
+    });
+
+    it('should destroy the white dwarf and release its companion at its orbital speed', () => {
+      const orbit = createOrbit([whiteDwarf.id], [donor.id], 0.01);
+      const result = resolveTypeIaSupernovae([whiteDwarf, donor], [], [orbit], 0);
+
+      expect(result.stars.map(star => star.id)).toEqual(['donor']);
+      expect(result.stellarOrbits[0].unbound).toBeDefined();
+      expect(result.events[0]).toMatchObject({
+        starId: 'dwarf',
+        starName: 'Dwarf',
+        ejectedMass: 1.39,
+        unboundStarIds: ['donor'],
+      });
+      // v = √(G M / a) × M_WD / M ≈ 268 km/s for the donor about the barycenter
+      expect(result.events[0].runawaySpeed).toBeCloseTo(268, -1);
+    });
+
+    it('should set the white dwarf\'s planets adrift', () => {
+      const planet = createPlanet('b', whiteDwarf.id, 3);
+      const result = resolveTypeIaSupernovae([whiteDwarf], [planet], [], 0);
+
+      expect(result.planets).toEqual([]);
+      expect(result.lost).toEqual([{ planet, reason: 'Unbound by the Type Ia supernova of Dwarf' }]);
+      expect(result.events[0].lostPlanetIds).toEqual(['b']);
+    });
+  });
+});
@@ -0,0 +1,492 @@
+/**
+ * Supernova Module
+ * Applies the sudden mass loss and natal kick of a core-collapse supernova,
+ * or the complete disruption of a white dwarf in a Type Ia supernova, to
+ * the orbits of companions and planets, and lets the ejecta strip or
+ * destroy nearby planets
+ */
+
+import {
+  Star,
+  Planet,
+  PlanetComposition,
+  StellarOrbit,
+  SupernovaEvent,
+  TypeIaSupernovaEvent,
+  SimulationEventType,
+  EvolutionPhase,
+  EjectaEffect,
+  Vector3,
+} from '../types/core';
+import { SUPERNOVA_CONSTANTS } from '../constants/physics';
+import {
+  calculateOrbitalPeriod,
+  calculateOrbitalPosition,
+  calculateOrbitalVelocity,
+  calculateOrbitalElementsFromState,
+} from '../physics/orbitalMechanics';
+import {
+  drawNatalKick,
+  calculateEjectaEnergyRatio,
+  determineEjectaEffect,
+  auPerYearToKmPerSecond,
+} from '../physics/supernova';
+import { reachesTypeIaIgnition } from '../physics/whiteDwarfAccretion';
+import { calculatePlanetRadius } from '../physics/planetaryFormation';
+import { createSeededRandom, deriveSeed } from '../physics/random';
+import { updateStellarPositions } from './stellarOrbits';
+import { getPlanetOrbitalElements } from './planetaryFormation';
+
+/**
+ * A planet removed by a supernova
+ */
+export interface SupernovaLoss {
+  planet: Planet;
+  reason: string;                // Human-readable cause
+}
+
+/**
+ * Result of resolving the supernovae of one step
+ */
+export interface SupernovaResult {
+  stars: Star[];
+  planets: Planet[];
+  stellarOrbits: StellarOrbit[];
+  events: SupernovaEvent[];
+  lost: SupernovaLoss[];
+}
+
+/**
+ * Result of resolving the Type Ia supernovae of one step
+ */
+export interface TypeIaSupernovaResult {
+  stars: Star[];
+  planets: Planet[];
+  stellarOrbits: StellarOrbit[];
+  events: TypeIaSupernovaEvent[];
+  lost: SupernovaLoss[];
+}
+
+// System state updated in place while explosions are applied
+type ExplosionState = Omit<SupernovaResult, 'events'>;
+
+// Effects of an explosion recorded on its event
+type ExplosionEffects = Pick<
+  SupernovaEvent,
+  'unboundStarIds' | 'lostPlanetIds' | 'strippedPlanetIds' | 'irradiatedPlanetIds'
+>;
+
+const COMPACT_REMNANTS = [EvolutionPhase.NEUTRON_STAR, EvolutionPhase.BLACK_HOLE];
+const NO_KICK: Vector3 = { x: 0, y: 0, z: 0 };
+
+/**
+ * Find stars that collapsed to a neutron star or black hole during a step
+ * @param previousStars - Stars before the step
+ * @param stars - Stars after the step
+ * @returns IDs of the stars that exploded
+ */
+export function detectSupernovae(previousStars: Star[], stars: Star[]): string[] {
+  return stars
+    .filter(star => {
+      const previous = previousStars.find(s => s.id === star.id);
+      return previous !== undefined &&
+        COMPACT_REMNANTS.includes(star.evolutionPhase) &&
+        !COMPACT_REMNANTS.includes(previous.evolutionPhase) &&
+        previous.evolutionPhase !== EvolutionPhase.WHITE_DWARF;
+    })
+    .map(star => star.id);
+}
+
+/**
+ * Resolve the supernovae of stars that have just become compact remnants
+ * Companion orbits are recomputed from the instantaneous positions and
+ * velocities with the remnant's reduced mass and natal kick; pairs that
+ * are no longer bound drift apart. Planets of the exploding star are
+ * unbound or moved to new orbits, and the ejecta irradiate, strip or
+ * destroy planets according to the energy they absorb.
+ * Kicks are seeded by the star's ID so replays are reproducible.
+ * @param previousStars - Stars before the step (pre-explosion masses)
+ * @param stars - Stars after the step
+ * @param planets - Planets in the system
+ * @param stellarOrbits - Stellar orbits of the system
+ * @param time - Simulation time of the explosions in years
+ * @returns Updated stars, planets and orbits with the supernova events
+ */
+export function resolveSupernovae(
+  previousStars: Star[],
+  stars: Star[],
+  planets: Planet[],
+  stellarOrbits: StellarOrbit[],
+  time: number
+): SupernovaResult {
+  const result: SupernovaResult = { stars, planets, stellarOrbits, events: [], lost: [] };
+
+  for (const starId of detectSupernovae(previousStars, stars)) {
+    const progenitor = previousStars.find(star => star.id === starId)!;
+    explode(result, progenitor, time);
+  }
+
+  return result;
+}
+
+/**
+ * Apply one supernova to the running result
+ * @param result - Result updated in place
+ * @param progenitor - Exploding star before the explosion
+ * @param time - Simulation time of the explosion in years
+ */
+function explode(result: SupernovaResult, progenitor: Star, time: number): void {
+  const remnant = result.stars.find(star => star.id === progenitor.id)!;
+  const kick = drawNatalKick(
+    remnant.evolutionPhase,
+    remnant.mass,
+    createSeededRandom(deriveSeed(remnant.id))
+  );
+
+  const event: SupernovaEvent = {
+    type: SimulationEventType.SUPERNOVA,
+    time,
+    starId: remnant.id,
+    remnantType: remnant.evolutionPhase,
+    ejectedMass: Math.max(progenitor.mass - remnant.mass, 0),
+    kickVelocity: auPerYearToKmPerSecond(magnitude(kick)),
+    unboundStarIds: [],
+    lostPlanetIds: [],
+    strippedPlanetIds: [],
+    irradiatedPlanetIds: [],
+  };
+
+  result.stellarOrbits = recomputeStellarOrbits(result, progenitor, remnant, kick, time, event);
+  result.planets = resolvePlanets(result, progenitor, remnant, kick, time, event, `supernova of ${remnant.name}`);
+  // Stars in orbits move as their orbits dictate, so the kick lives in the
+  // refitted orbits; a lone remnant carries it as its own velocity
+  const orbiting = result.stellarOrbits.some(orbit =>
+    orbit.primaryIds.includes(remnant.id) || orbit.secondaryIds.includes(remnant.id)
+  );
+  result.stars = orbiting
+    ? updateStellarPositions(result.stars, result.stellarOrbits, time)
+    : result.stars.map(star => (star.id === remnant.id ? { ...star, velocity: add(star.velocity, kick) } : star));
+  result.events.push(event);
+}
+
+/**
+ * Resolve the Type Ia supernovae of white dwarfs that reached the
+ * carbon-ignition mass
+ * The white dwarf is destroyed and leaves no remnant: its companions keep
+ * the velocity they had at the explosion and drift away, outer orbits are
+ * recomputed for the lost mass, its planets are set adrift and the ejecta
+ * irradiate, strip or destroy nearby planets.
+ * @param stars - Stars in the system
+ * @param planets - Planets in the system
+ * @param stellarOrbits - Stellar orbits of the system
+ * @param time - Simulation time of the explosions in years
+ * @returns Stars without the destroyed white dwarfs, updated planets and orbits, and the events
+ */
+export function resolveTypeIaSupernovae(
+  stars: Star[],
+  planets: Planet[],
+  stellarOrbits: StellarOrbit[],
+  time: number
+): TypeIaSupernovaResult {
+  const result: TypeIaSupernovaResult = { stars, planets, stellarOrbits, events: [], lost: [] };
+
+  const igniting = stars.filter(star =>
+    star.evolutionPhase === EvolutionPhase.WHITE_DWARF && reachesTypeIaIgnition(star.mass)
+  );
+  for (const whiteDwarf of igniting) {
+    result.events.push(detonate(result, whiteDwarf, time));
+  }
+
+  return result;
+}
+
+/**
+ * Apply one Type Ia supernova to the running result
+ * @param result - Result updated in place
+ * @param whiteDwarf - White dwarf at ignition
+ * @param time - Simulation time of the explosion in years
+ * @returns Event describing the explosion
+ */
+function detonate(result: ExplosionState, whiteDwarf: Star, time: number): TypeIaSupernovaEvent {
+  const destroyed = { ...whiteDwarf, mass: 0 };
+  const event: TypeIaSupernovaEvent = {
+    type: SimulationEventType.TYPE_IA_SUPERNOVA,
+    time,
+    starId: whiteDwarf.id,
+    starName: whiteDwarf.name,
+    ejectedMass: whiteDwarf.mass,
+    unboundStarIds: [],
+    runawaySpeed: 0,
+    lostPlanetIds: [],
+    strippedPlanetIds: [],
+    irradiatedPlanetIds: [],
+  };
+
+  result.stars = result.stars.map(star => (star.id === whiteDwarf.id ? destroyed : star));
+  const previousOrbits = result.stellarOrbits;
+  result.stellarOrbits = recomputeStellarOrbits(result, whiteDwarf, destroyed, NO_KICK, time, event);
+  result.planets = resolvePlanets(
+    result, whiteDwarf, destroyed, NO_KICK, time, event, `Type Ia supernova of ${whiteDwarf.name}`
+  );
+  result.stars = result.stars.filter(star => star.id !== whiteDwarf.id);
+
+  // Companions released from the white dwarf's own orbit fly off at their orbital speed
+  for (const orbit of result.stellarOrbits) {
+    const pair = [...orbit.primaryIds, ...orbit.secondaryIds];
+    if (orbit.unbound && !previousOrbits.includes(orbit) && pair.includes(whiteDwarf.id)) {
+      const speed = auPerYearToKmPerSecond(magnitude(orbit.unbound.relativeVelocity));
+      event.runawaySpeed = Math.max(event.runawaySpeed, speed);
+    }
+  }
+
+  return event;
+}
+
+/**
+ * Recompute the orbits that contain the exploding star
+ * A star destroyed without a remnant leaves its companions moving away
+ * from the pair's former center of mass
+ * @returns Updated orbits; newly unbound companions are added to the event
+ */
+function recomputeStellarOrbits(
+  result: ExplosionState,
+  progenitor: Star,
+  remnant: Star,
+  kick: Vector3,
+  time: number,
+  event: ExplosionEffects
+): StellarOrbit[] {
+  const affected = result.stellarOrbits.filter(orbit =>
+    orbit.primaryIds.includes(remnant.id) || orbit.secondaryIds.includes(remnant.id)
+  );
+  if (affected.length === 0) {
+    return result.stellarOrbits;
+  }
+
+  // Positions and velocities just before the explosion
+  const preExplosion = updateStellarPositions(
+    result.stars.map(star => (star.id === progenitor.id ? { ...star, mass: progenitor.mass } : star)),
+    result.stellarOrbits,
+    time
+  );
+  // Just after: same positions, remnant mass and kicked velocity
+  const postExplosion = preExplosion.map(star => {
+    const current = result.stars.find(s => s.id === star.id)!;
+    return star.id === remnant.id
+      ? { ...star, mass: current.mass, velocity: add(star.velocity, kick) }
+      : { ...star, mass: current.mass };
+  });
+
+  return result.stellarOrbits.map(orbit => {
+    if (!affected.includes(orbit)) {
+      return orbit;
+    }
+
+    const primary = calculateGroupState(postExplosion, orbit.primaryIds);
+    const secondary = calculateGroupState(postExplosion, orbit.secondaryIds);
+    if (orbit.unbound && (primary.mass <= 0 || secondary.mass <= 0)) {
+      return orbit;
+    }
+    if (primary.mass <= 0 || secondary.mass <= 0) {
+      const survivors = primary.mass > 0 ? primary : secondary;
+      if (survivors.mass <= 0) {
+        return orbit;
+      }
+      const barycenter = calculateGroupState(preExplosion, [...orbit.primaryIds, ...orbit.secondaryIds]);
+      event.unboundStarIds.push(...(primary.mass > 0 ? orbit.primaryIds : orbit.secondaryIds));
+      return {
+        ...orbit,
+        unbound: {
+          time,
+          relativePosition: subtract(survivors.position, barycenter.position),
+          relativeVelocity: subtract(survivors.velocity, barycenter.velocity),
+        },
+      };
+    }
+
+    const relativePosition = subtract(secondary.position, primary.position);
+    const relativeVelocity = subtract(secondary.velocity, primary.velocity);
+    const elements = orbit.unbound
+      ? null
+      : calculateOrbitalElementsFromState(relativePosition, relativeVelocity, primary.mass + secondary.mass, time);
+
+    if (elements) {
+      return { ...orbit, elements };
+    }
+
+    if (!orbit.unbound) {
+      const companions = orbit.primaryIds.includes(remnant.id) ? orbit.secondaryIds : orbit.primaryIds;
+      event.unboundStarIds.push(...companions);
+    }
+    return { ...orbit, unbound: { time, relativePosition, relativeVelocity } };
+  });
+}
+
+/**
+ * Apply ejecta and the loss of binding to the planets
+ * @param cause - Explosion named in loss reasons (e.g. "supernova of Alpha")
+ * @returns Surviving planets; losses are added to the result and the event
+ */
+function resolvePlanets(
+  result: ExplosionState,
+  progenitor: Star,
+  remnant: Star,
+  kick: Vector3,
+  time: number,
+  event: ExplosionEffects,
+  cause: string
+): Planet[] {
+  const surviving: Planet[] = [];
+
+  for (const planet of result.planets) {
+    let updated = planet;
+
+    // Ejecta: energy absorbed relative to the planet's binding energy
+    const distance = magnitude(subtract(planet.position, remnant.position));
+    const effect = determineEjectaEffect(
+      calculateEjectaEnergyRatio(planet.mass, planet.radius, distance)
+    );
+
+    if (effect === EjectaEffect.DESTROYED) {
+      event.lostPlanetIds.push(planet.id);
+      result.lost.push({ planet, reason: `Destroyed by the ${cause}` });
+      continue;
+    }
+    if (effect === EjectaEffect.STRIPPED) {
+      updated = stripEnvelope(planet);
+    }
+
+    if (planet.parentStarId === remnant.id) {
+      const rebound = remnant.mass > 0 ? rebindToRemnant(updated, progenitor, remnant, kick, time) : null;
+      if (!rebound) {
+        event.lostPlanetIds.push(planet.id);
+        result.lost.push({ planet, reason: `Unbound by the ${cause}` });
+        continue;
+      }
+      updated = rebound;
+    }
+
+    if (effect === EjectaEffect.STRIPPED) {
+      event.strippedPlanetIds.push(planet.id);
+    } else if (effect === EjectaEffect.IRRADIATED) {
+      event.irradiatedPlanetIds.push(planet.id);
+    }
+    surviving.push(updated);
+  }
+
+  return surviving;
+}
+
+/**
+ * Fit a planet's orbit about the remnant: same relative position, and
+ * relative velocity reduced by the remnant's kick. The fitted orientation
+ * and phase are kept, so the planet carries on from where it was.
+ * @param planet - Planet of the exploding star
+ * @param progenitor - Exploding star before the explosion
+ * @param remnant - Compact remnant
+ * @param kick - Remnant kick in AU/year
+ * @param time - Simulation time in years
+ * @returns Planet on its new orbit, or null if it is no longer bound
+ */
+function rebindToRemnant(
+  planet: Planet,
+  progenitor: Star,
+  remnant: Star,
+  kick: Vector3,
+  time: number
+): Planet | null {
+  // Planets are moved with periods for the host mass alone
+  const state = calculatePlanetRelativeState(planet, progenitor.mass, time);
+  const elements = calculateOrbitalElementsFromState(
+    state.position,
+    subtract(state.velocity, kick),
+    remnant.mass,
+    time
+  );
+
+  if (!elements) {
+    return null;
+  }
+
+  return {
+    ...planet,
+    ...elements,
+    orbitalPeriod: calculateOrbitalPeriod(elements.semiMajorAxis, remnant.mass),
+  };
+}
+
+/**
+ * Blow off the envelope of a giant planet, leaving its rocky core
+ * Rocky planets lose only their atmospheres and keep their bulk properties
+ * @param planet - Planet hit by the ejecta
+ * @returns Stripped planet
+ */
+function stripEnvelope(planet: Planet): Planet {
+  if (planet.composition === PlanetComposition.ROCKY) {
+    return planet;
+  }
+
+  const mass = Math.min(planet.mass, SUPERNOVA_CONSTANTS.STRIPPED_CORE_MASS);
+  return {
+    ...planet,
+    mass,
+    composition: PlanetComposition.ROCKY,
+    radius: calculatePlanetRadius(mass, PlanetComposition.ROCKY),
+  };
+}
+
+/**
+ * State of a planet relative to its host, following the orbits planets
+ * are moved on
+ * @param planet - Planet
+ * @param hostMass - Host mass in solar masses
+ * @param time - Simulation time in years
+ * @returns Relative position (AU) and velocity (AU/year)
+ */
+function calculatePlanetRelativeState(
+  planet: Planet,
+  hostMass: number,
+  time: number
+): { position: Vector3; velocity: Vector3 } {
+  const elements = getPlanetOrbitalElements(planet);
+  const period = calculateOrbitalPeriod(planet.semiMajorAxis, hostMass);
+  return {
+    position: calculateOrbitalPosition(elements, time, period),
+    velocity: calculateOrbitalVelocity(elements, time, period),
+  };
+}
+
+/**
+ * Mass, center of mass and center-of-mass velocity of a group of stars
+ */
+function calculateGroupState(
+  stars: Star[],
+  ids: string[]
+): { mass: number; position: Vector3; velocity: Vector3 } {
+  const members = stars.filter(star => ids.includes(star.id));
+  const mass = members.reduce((sum, star) => sum + star.mass, 0);
+  const weighted = (pick: (star: Star) => Vector3): Vector3 => {
+    const sum = members.reduce(
+      (total, star) => add(total, scale(pick(star), star.mass)),
+      { x: 0, y: 0, z: 0 }
+    );
+    return mass > 0 ? scale(sum, 1 / mass) : sum;
+  };
+  return { mass, position: weighted(star => star.position), velocity: weighted(star => star.velocity) };
+}
+
+function add(a: Vector3, b: Vector3): Vector3 {
+  return { x: a.x + b.x, y: a.y + b.y, z: a.z + b.z };
+}
+
+function subtract(a: Vector3, b: Vector3): Vector3 {
+  return { x: a.x - b.x, y: a.y - b.y, z: a.z - b.z };
+}
+
+function scale(v: Vector3, factor: number): Vector3 {
+  return { x: v.x * factor, y: v.y * factor, z: v.z * factor };
+}
+
+function magnitude(v: Vector3): number {
+  return Math.sqrt(v.x * v.x + v.y * v.y + v.z * v.z);
+}
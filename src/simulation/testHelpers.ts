@@ -0,0 +1,34 @@
+/**
+ * Test Helpers
+ * Fixtures shared by the simulation module tests
+ */
+
+import { StellarOrbit } from '../types/core';
+
+/**
+ * Create a coplanar stellar orbit starting at periapsis
+ * @param primaryIds - IDs of the stars on the primary side
+ * @param secondaryIds - IDs of the stars on the secondary side
+ * @param semiMajorAxis - Semi-major axis in AU
+ * @param eccentricity - Orbital eccentricity (default: circular)
+ * @returns Stellar orbit
+ */
+export function createOrbit(
+  primaryIds: string[],
+  secondaryIds: string[],
+  semiMajorAxis: number,
+  eccentricity: number = 0
+): StellarOrbit {
+  return {
+    primaryIds,
+    secondaryIds,
+    elements: {
+      semiMajorAxis,
+      eccentricity,
+      inclination: 0,
+      longitudeOfAscendingNode: 0,
+      argumentOfPeriapsis: 0,
+      meanAnomalyAtEpoch: 0,
+    },
+  };
+}
@@ -0,0 +1,57 @@
+/**
+ * White Dwarf Accretion Tests
+ * Tests for mass growth and novae of white dwarfs fed by a companion
+ */
+
+import { describe, it, expect } from 'vitest';
+import { accreteOntoWhiteDwarf } from './whiteDwarfAccretion';
+import { createStar } from './stellarEvolution';
+import { Star, EvolutionPhase, WhiteDwarfAccretionRegime } from '../types/core';
+import { calculateWhiteDwarfRadius } from '../physics/remnants';
+import { calculateNovaIgnitionMass } from '../physics/whiteDwarfAccretion';
+
+describe('White Dwarf Accretion', () => {
+  const whiteDwarf: Star = {
+    ...createStar(3.0, 1.0, 'Dwarf'),
+    mass: 1.0,
+    radius: calculateWhiteDwarfRadius(1.0),
+    evolutionPhase: EvolutionPhase.WHITE_DWARF,
+  };
+
+  it('should keep everything accreted in the steady-burning window and shrink', () => {
+    const result = accreteOntoWhiteDwarf(whiteDwarf, 3e-7 * 1e5, 1e5);
+
+    expect(result.regime).toBe(WhiteDwarfAccretionRegime.STEADY);
+    expect(result.star.mass).toBeCloseTo(1.03, 12);
+    expect(result.star.radius).toBeLessThan(whiteDwarf.radius);
+    expect(result.outbursts).toBe(0);
+  });
+
+  it('should keep only what it can burn at high rates', () => {
+    const result = accreteOntoWhiteDwarf(whiteDwarf, 1e-5 * 1e3, 1e3);
+
+    expect(result.regime).toBe(WhiteDwarfAccretionRegime.WIND);
+    expect(result.retainedMass).toBeCloseTo(6.68e-7 * 0.555 * 1e3, 12);
+  });
+
+  it('should erupt in novae at low rates and keep the unignited layer', () => {
+    const ignitionMass = calculateNovaIgnitionMass(whiteDwarf.mass, whiteDwarf.radius);
+    const offered = ignitionMass * 3.5;
+    const result = accreteOntoWhiteDwarf(whiteDwarf, offered, 1e7);
+
+    expect(result.regime).toBe(WhiteDwarfAccretionRegime.NOVA);
+    expect(result.outbursts).toBe(3);
+    expect(result.ejectedMass).toBeCloseTo(3 * 0.9 * ignitionMass, 12);
+    expect(result.star.accretedHydrogenMass).toBeCloseTo(0.5 * ignitionMass, 12);
+    expect(result.star.mass).toBeCloseTo(whiteDwarf.mass + offered - result.ejectedMass, 12);
+  });
+
+  it('should ignite a layer carried over from earlier steps', () => {
+    const ignitionMass = calculateNovaIgnitionMass(whiteDwarf.mass, whiteDwarf.radius);
+    const loaded = { ...whiteDwarf, accretedHydrogenMass: ignitionMass * 0.9 };
+    const result = accreteOntoWhiteDwarf(loaded, ignitionMass * 0.2, 1e7);
+
+    expect(result.outbursts).toBe(1);
+    expect(result.retainedMass).toBeLessThan(0);
+  });
+});
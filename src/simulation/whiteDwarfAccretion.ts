@@ -0,0 +1,86 @@
+/**
+ * White Dwarf Accretion Module
+ * Grows white dwarfs that accrete from a companion: hydrogen burns
+ * steadily, is partly blown away, or piles up until it ignites in a nova
+ */
+
+import { Star, WhiteDwarfAccretionRegime } from '../types/core';
+import {
+  calculateNovaIgnitionMass,
+  calculateSteadyBurningRates,
+  determineAccretionRegime,
+  calculateNovaEjectedMass,
+} from '../physics/whiteDwarfAccretion';
+import { calculateWhiteDwarfRadius } from '../physics/remnants';
+
+/**
+ * Result of one step of accretion onto a white dwarf
+ */
+export interface WhiteDwarfAccretion {
+  star: Star;                          // White dwarf after the step
+  regime: WhiteDwarfAccretionRegime;
+  retainedMass: number;                // Net mass gained (negative if novae ejected more) (M☉)
+  outbursts: number;                   // Novae during the step
+  ejectedMass: number;                 // Mass blown off by novae (M☉)
+}
+
+/**
+ * Novae of one accreting white dwarf during a step
+ */
+export interface NovaOutbursts {
+  whiteDwarfId: string;
+  donorId: string;
+  outbursts: number;
+  ejectedMass: number;                 // Mass blown off (M☉)
+  separation: number;                  // Binary separation after the step (AU)
+}
+
+/**
+ * Accrete mass offered by a companion onto a white dwarf
+ * Inside the steady-burning window all of it is kept; above it the white
+ * dwarf keeps only what it can burn. Below it, hydrogen accumulates on the
+ * surface and every ignition mass of it goes off as a nova that blows
+ * most of the layer away. The radius follows the new mass.
+ * @param whiteDwarf - Accreting white dwarf
+ * @param offeredMass - Mass arriving from the companion in solar masses
+ * @param deltaTime - Step length in years
+ * @returns Updated white dwarf with the mass kept and the novae of the step
+ */
+export function accreteOntoWhiteDwarf(
+  whiteDwarf: Star,
+  offeredMass: number,
+  deltaTime: number
+): WhiteDwarfAccretion {
+  const rate = deltaTime > 0 ? offeredMass / deltaTime : 0;
+  const regime = determineAccretionRegime(rate, whiteDwarf.mass);
+
+  let retainedMass = offeredMass;
+  let outbursts = 0;
+  let ejectedMass = 0;
+  let accretedHydrogenMass = 0;
+
+  if (regime === WhiteDwarfAccretionRegime.WIND) {
+    retainedMass = Math.min(offeredMass, calculateSteadyBurningRates(whiteDwarf.mass).upper * deltaTime);
+  } else if (regime === WhiteDwarfAccretionRegime.NOVA) {
+    const ignitionMass = calculateNovaIgnitionMass(whiteDwarf.mass, whiteDwarf.radius);
+    const layer = (whiteDwarf.accretedHydrogenMass ?? 0) + offeredMass;
+    outbursts = Number.isFinite(ignitionMass) && ignitionMass > 0 ? Math.floor(layer / ignitionMass) : 0;
+    ejectedMass = outbursts * calculateNovaEjectedMass(ignitionMass);
+    retainedMass = offeredMass - ejectedMass;
+    accretedHydrogenMass = layer - outbursts * ignitionMass;
+  }
+
+  const mass = whiteDwarf.mass + retainedMass;
+  return {
+    star: {
+      ...whiteDwarf,
+      mass,
+      radius: calculateWhiteDwarfRadius(mass),
+      accretedHydrogenMass,
+    },
+    regime,
+    retainedMass,
+    outbursts,
+    ejectedMass,
+  };
+}
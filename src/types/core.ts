@@ -19,6 +19,7 @@ export interface CloudParameters {
   mass: number;              // Total mass in solar masses (M☉)
   metallicity: number;       // Metallicity relative to solar (Z☉)
   angularMomentum: number;   // Angular momentum in kg⋅m²/s
+  seed?: number;             // Optional PRNG seed for reproducible systems
 }
 
 // Stellar evolution phases
@@ -28,6 +29,11 @@ export enum EvolutionPhase {
   RED_GIANT = 'red_giant',
   HORIZONTAL_BRANCH = 'horizontal_branch',
   ASYMPTOTIC_GIANT = 'asymptotic_giant',
+  BLUE_SUPERGIANT = 'blue_supergiant',
+  YELLOW_SUPERGIANT = 'yellow_supergiant',
+  RED_SUPERGIANT = 'red_supergiant',
+  LUMINOUS_BLUE_VARIABLE = 'luminous_blue_variable',
+  WOLF_RAYET = 'wolf_rayet',
   PLANETARY_NEBULA = 'planetary_nebula',
   WHITE_DWARF = 'white_dwarf',
   NEUTRON_STAR = 'neutron_star',
@@ -45,6 +51,14 @@ export enum SpectralType {
   M = 'M'
 }
 
+// Spectral types of substellar objects
+export enum SubstellarSpectralType {
+  M = 'M',
+  L = 'L',
+  T = 'T',
+  Y = 'Y'
+}
+
 // Nuclear reaction types
 export enum NuclearReaction {
   PP_CHAIN = 'pp_chain',                    // Proton-proton chain (H → He)
@@ -70,6 +84,47 @@ export interface CoreComposition {
   iron: number;          // Iron mass fraction (0-1)
 }
 
+// Element mass fractions in a star's photosphere
+export interface SurfaceComposition {
+  hydrogen: number;      // Hydrogen mass fraction (0-1)
+  helium: number;        // Helium mass fraction (0-1)
+  carbon: number;        // Carbon mass fraction (0-1)
+  nitrogen: number;      // Nitrogen mass fraction (0-1)
+  oxygen: number;        // Oxygen mass fraction (0-1)
+  heavier: number;       // Mass fraction of neon and heavier elements (0-1)
+}
+
+// Element masses returned to the interstellar medium
+export interface ElementYields {
+  hydrogen: number;      // Hydrogen (M☉)
+  helium: number;        // Helium (M☉)
+  carbon: number;        // Carbon (M☉)
+  nitrogen: number;      // Nitrogen (M☉)
+  oxygen: number;        // Oxygen (M☉)
+  neon: number;          // Neon (M☉)
+  magnesium: number;     // Magnesium (M☉)
+  silicon: number;       // Silicon (M☉)
+  iron: number;          // Iron (M☉)
+}
+
+// Stars formed together in one collapse of the system's gas
+export interface StellarGeneration {
+  generation: number;              // 1 for the initial cloud collapse
+  time: number;                    // Formation time in years
+  metallicity: number;             // Metallicity of the gas the stars formed from (Z☉)
+  composition: SurfaceComposition; // Mass fractions of the gas the stars formed from
+  gasMass: number;                 // Mass of the collapsing gas (M☉)
+  starIds: string[];               // Stars born in this generation
+  stellarMass: number;             // Combined birth mass of the stars (M☉)
+}
+
+// Episodes that mix processed material from the interior to the surface
+export enum DredgeUp {
+  FIRST = 'first',       // Red giant branch: CN-cycled helium and nitrogen
+  SECOND = 'second',     // Early AGB of intermediate-mass stars: more helium and nitrogen
+  THIRD = 'third',       // Thermally pulsing AGB: carbon from helium-shell flashes
+}
+
 // Active nuclear reactions in the star
 export interface ActiveReactions {
   coreReaction: NuclearReaction;           // Primary reaction in core
@@ -84,11 +139,23 @@ export interface ShellBurning {
   carbonShell: boolean;       // Is carbon burning in a shell?
 }
 
+// How energy is carried through a zone
+export enum ZoneType {
+  RADIATIVE = 'radiative',
+  CONVECTIVE = 'convective'
+}
+
+// Radiative or convective zone (radii as fractions of total stellar radius)
+export interface StructureZone {
+  type: ZoneType;
+  innerRadius: number;          // Inner edge as fraction of total (0-1)
+  outerRadius: number;          // Outer edge as fraction of total (0-1)
+}
+
 // Layer structure (radii as fractions of total stellar radius)
 export interface LayerStructure {
   coreRadius: number;           // Core radius as fraction of total (0-1)
-  radiativeZoneRadius: number;  // Radiative zone outer radius as fraction (0-1)
-  convectiveZoneRadius: number; // Convective zone outer radius as fraction (0-1)
+  zones: StructureZone[];       // Zones from the centre to the surface, covering 0-1 without gaps
 }
 
 // Internal structure of the star
@@ -99,13 +166,48 @@ export interface InternalStructure {
   activeReactions: ActiveReactions;     // Nuclear reactions occurring
   shellBurning: ShellBurning;           // Shell burning indicators
   layerStructure: LayerStructure;       // Structural layers
+  ironCoreMass?: number;                // Iron core built by silicon burning in M☉ (massive stars after helium exhaustion)
+}
+
+// How a star's radial profile is computed
+export enum StructureModel {
+  POLYTROPE = 'polytrope',    // Single Lane–Emden polytrope (fast)
+  HYDROSTATIC = 'hydrostatic' // Hydrostatic equilibrium with convective and radiative zones
+}
+
+// Numerical solution of the Lane–Emden equation (dimensionless)
+export interface LaneEmdenSolution {
+  polytropicIndex: number;      // n in P = Kρ^(1+1/n)
+  xi: number[];                 // Dimensionless radius ξ
+  theta: number[];              // θ(ξ), with density ρ = ρc θⁿ
+  dThetaDXi: number[];          // dθ/dξ
+  surfaceXi: number;            // First zero ξ₁ of θ (the stellar surface)
+}
+
+// Conditions in one shell of a star
+export interface RadialProfilePoint {
+  radius: number;               // Radius in solar radii (R☉)
+  temperature: number;          // Temperature in Kelvin
+  density: number;              // Density in kg/m³
+  pressure: number;             // Pressure in Pa
+  enclosedMass: number;         // Mass inside this radius in solar masses (M☉)
+  luminosity: number;           // Energy flow through this radius in solar luminosities (L☉)
+  composition: CoreComposition; // Element mass fractions
+}
+
+// Temperature, density, pressure, mass, luminosity and composition from centre to surface
+export interface RadialProfile {
+  model: StructureModel;        // Model the profile was computed with
+  polytropicIndex: number;      // Index of the polytrope, or of the innermost zone for the hydrostatic model
+  points: RadialProfilePoint[]; // Shells from the centre outwards
 }
 
 // Star properties
 export interface Star {
   id: string;
   name: string;
-  mass: number;                    // Mass in solar masses (M☉)
+  mass: number;                    // Current mass in solar masses (M☉)
+  initialMass: number;             // Zero-age mass in solar masses (M☉), adjusted by main-sequence mass transfer
   radius: number;                  // Radius in solar radii (R☉)
   luminosity: number;              // Luminosity in solar luminosities (L☉)
   temperature: number;             // Surface temperature in Kelvin
@@ -117,6 +219,47 @@ export interface Star {
   position: Vector3;               // Position in AU
   velocity: Vector3;               // Velocity in AU/year
   internalStructure: InternalStructure;  // Internal structure data
+  accretedAngularMomentum?: number; // Orbital angular momentum gained from engulfed planets (M☉⋅AU²/yr)
+  rocheLobeRadius?: number;        // Roche-lobe radius in a close binary (R☉)
+  accretedHydrogenMass?: number;   // Hydrogen accreted by a white dwarf since its last nova (M☉)
+  remnantAge?: number;             // Time since the star became a compact remnant (years)
+  pulsar?: PulsarProperties;       // Spin and magnetic field of a neutron star
+  radialProfile?: RadialProfile;   // Radial structure (none for black holes)
+  surfaceComposition?: SurfaceComposition; // Photospheric abundances, changed by dredge-ups
+  dredgeUps?: DredgeUp[];          // Dredge-up episodes the star has been through, in order
+  ejecta?: ElementYields;          // Element masses the star has returned to the interstellar medium
+  generation?: number;             // Star-formation generation, 1 for stars of the initial cloud collapse
+}
+
+// Compact remnant left at the end of a star's life
+export interface RemnantProperties {
+  phase: EvolutionPhase;           // WHITE_DWARF, NEUTRON_STAR or BLACK_HOLE
+  mass: number;                    // Remnant mass in solar masses (M☉)
+  radius: number;                  // Radius (event horizon for black holes) in solar radii (R☉)
+}
+
+// One point of a star's evolutionary track in the Hertzsprung–Russell diagram
+export interface EvolutionaryTrackPoint {
+  age: number;                     // Age in years
+  luminosity: number;              // Luminosity in solar luminosities (L☉)
+  radius: number;                  // Radius in solar radii (R☉)
+  temperature: number;             // Effective temperature in Kelvin
+}
+
+// State of a cooling white dwarf
+export interface WhiteDwarfCooling {
+  luminosity: number;              // Luminosity in solar luminosities (L☉)
+  temperature: number;             // Effective temperature in Kelvin
+  coreTemperature: number;         // Isothermal core temperature in Kelvin
+  crystallized: boolean;           // Whether the core has begun to crystallize
+}
+
+// Rotation and magnetic field of a neutron star
+export interface PulsarProperties {
+  initialPeriod: number;           // Spin period at birth (s)
+  period: number;                  // Current spin period (s)
+  periodDerivative: number;        // Spin-down rate Ṗ (s/s)
+  magneticField: number;           // Surface dipole field (G)
 }
 
 // Planet composition types
@@ -136,8 +279,75 @@ export interface Planet {
   semiMajorAxis: number;           // Orbital semi-major axis in AU
   eccentricity: number;            // Orbital eccentricity
   orbitalPeriod: number;           // Orbital period in years
+  inclination?: number;            // Orbital inclination in radians (unset: coplanar)
+  longitudeOfAscendingNode?: number;  // Longitude of ascending node in radians (unset: 0)
+  argumentOfPeriapsis?: number;    // Argument of periapsis in radians (unset: 0)
+  meanAnomalyAtEpoch?: number;     // Mean anomaly at time 0 in radians (unset: 0)
   parentStarId: string;            // ID of the parent star
   position: Vector3;               // Current position in AU
+  velocity?: Vector3;              // Current velocity in AU/year
+}
+
+// Substellar object formed below the hydrogen-burning limit
+export interface BrownDwarf {
+  id: string;
+  name: string;
+  mass: number;                    // Mass in solar masses (M☉)
+  radius: number;                  // Radius in solar radii (R☉)
+  luminosity: number;              // Luminosity in solar luminosities (L☉)
+  temperature: number;             // Effective temperature in Kelvin
+  age: number;                     // Age in years
+  metallicity: number;             // Metallicity relative to solar (Z☉)
+  spectralType: SubstellarSpectralType;
+  deuteriumFraction: number;       // Fraction of the initial deuterium not yet burned (0-1)
+  hostId?: string;                 // ID of the star or brown dwarf it orbits (unset if it is the central body)
+  semiMajorAxis: number;           // Orbital semi-major axis in AU
+  eccentricity: number;            // Orbital eccentricity
+  orbitalPeriod: number;           // Orbital period in years
+  position: Vector3;               // Current position in AU
+}
+
+// How a planet is destroyed by its host star
+export enum PlanetFate {
+  ENGULFED = 'engulfed',                  // Inside the stellar radius or tidal reach
+  TIDALLY_DISRUPTED = 'tidally_disrupted' // Inside the planet's Roche limit
+}
+
+// How supernova ejecta affect a planet
+export enum EjectaEffect {
+  IRRADIATED = 'irradiated',              // Heated by the blast but intact
+  STRIPPED = 'stripped',                  // Lost its gaseous envelope
+  DESTROYED = 'destroyed'                 // Deposited energy exceeded its binding energy
+}
+
+// Whether mass transfer proceeds on the donor's thermal or dynamical timescale
+export enum MassTransferStability {
+  STABLE = 'stable',
+  UNSTABLE = 'unstable'
+}
+
+// An ongoing Roche-lobe overflow episode
+export interface MassTransferEpisode {
+  donorId: string;
+  accretorId: string;
+  stability: MassTransferStability;
+  startTime: number;          // Simulation time the donor filled its Roche lobe (years)
+  rate: number;               // Current transfer rate (M☉/year)
+  transferredMass: number;    // Mass lost by the donor so far (M☉)
+  accretedMass: number;       // Mass gained by the accretor so far (M☉)
+}
+
+// Outcome of a common-envelope phase
+export enum CommonEnvelopeOutcome {
+  EJECTED = 'ejected',        // Envelope unbound, leaving a tight binary of the core and the companion
+  MERGED = 'merged'           // Orbital energy ran out and the stars coalesced
+}
+
+// How a white dwarf processes the hydrogen it accretes
+export enum WhiteDwarfAccretionRegime {
+  NOVA = 'nova',              // Hydrogen piles up and ignites in recurrent novae
+  STEADY = 'steady',          // Hydrogen burns as fast as it arrives
+  WIND = 'wind'               // Burning cannot keep up; the excess is blown away
 }
 
 // Orbital parameters
@@ -150,14 +360,38 @@ export interface OrbitalParameters {
   meanAnomalyAtEpoch: number;        // Mean anomaly at epoch in radians
 }
 
+// Keplerian orbit between two groups of stars in a hierarchical system
+// (a binary is one orbit; a triple adds an outer orbit around the inner pair)
+export interface StellarOrbit {
+  primaryIds: string[];       // Stars whose center of mass is the primary
+  secondaryIds: string[];     // Stars whose center of mass is the secondary
+  elements: OrbitalParameters;  // Orbit of the secondary relative to the primary
+  unbound?: UnboundMotion;    // Set once the pair no longer orbits each other
+}
+
+// Free relative motion of two groups that have become unbound
+// When one group was destroyed, the vectors give the motion of the survivors
+// relative to the pair's former center of mass
+export interface UnboundMotion {
+  time: number;               // Simulation time at which the pair was unbound (years)
+  relativePosition: Vector3;  // Secondary relative to primary at that time (AU)
+  relativeVelocity: Vector3;  // Secondary relative to primary (AU/year)
+}
+
 // Star system containing multiple stars and planets
 export interface StarSystem {
   id: string;
   name: string;
   stars: Star[];
   planets: Planet[];
+  brownDwarfs?: BrownDwarf[];  // Substellar objects formed alongside the stars
   age: number;                // System age in years
   initialCloudParameters: CloudParameters;
+  stellarOrbits?: StellarOrbit[];  // Orbits of the stars, innermost first
+  massTransfer?: MassTransferEpisode[];  // Ongoing Roche-lobe overflow episodes
+  interstellarMedium?: ElementYields;    // Element masses all stars have returned to the interstellar medium
+  gasReservoir?: ElementYields;          // Gas left over from star formation plus stellar ejecta, not yet in stars
+  generations?: StellarGeneration[];     // Star-formation generations, oldest first
 }
 
 // Protoplanetary disk properties
@@ -177,6 +411,226 @@ export enum SimulationState {
   PAUSED = 'paused'
 }
 
+// Recorded state of a star at one point in the simulation history
+export interface StarHistorySample {
+  time: number;                        // Simulation time in years
+  starId: string;                      // ID of the recorded star
+  mass: number;                        // Mass in solar masses (M☉)
+  radius: number;                      // Radius in solar radii (R☉)
+  luminosity: number;                  // Luminosity in solar luminosities (L☉)
+  temperature: number;                 // Surface temperature in Kelvin
+  evolutionPhase: EvolutionPhase;      // Evolution phase at that time
+  coreComposition: CoreComposition;    // Core element mass fractions
+  coreTemperature: number;             // Core temperature in Kelvin
+  surfaceComposition?: SurfaceComposition; // Photospheric element mass fractions
+}
+
+// Recorded position of a planet at one point in the simulation history
+export interface PlanetHistorySample {
+  time: number;                        // Simulation time in years
+  planetId: string;                    // ID of the recorded planet
+  position: Vector3;                   // Position in AU
+}
+
+// All bodies recorded at one sample time
+export interface HistorySnapshot {
+  time: number;                        // Simulation time in years
+  stars: StarHistorySample[];
+  planets: PlanetHistorySample[];
+}
+
+// History recording configuration
+export interface HistoryOptions {
+  sampleInterval: number;              // Minimum simulation years between samples
+  maxSnapshots: number;                // Memory bound; history is thinned beyond this
+  recordPlanets: boolean;              // Whether planet positions are recorded
+}
+
+// How star and planet motion is computed
+export enum DynamicsMode {
+  KEPLER = 'kepler',          // Fixed Keplerian orbits (fast)
+  N_BODY = 'n_body'           // Direct integration with mutual gravity
+}
+
+// Point mass used by the N-body integrator (AU, AU/year, M☉)
+export interface NBodyBody {
+  id: string;
+  mass: number;
+  position: Vector3;
+  velocity: Vector3;
+}
+
+// N-body integrator configuration
+export interface NBodyOptions {
+  timeStepFactor: number;     // Step as fraction of the shortest pairwise dynamical time
+  maxStepsPerUpdate: number;  // Above this an update falls back to Kepler motion
+  softeningLength: number;    // Gravitational softening in AU
+}
+
+// Conservation diagnostics for the N-body integrator
+export interface NBodyDiagnostics {
+  energy: number;                   // Total energy in M☉⋅AU²/yr²
+  angularMomentum: number;          // Total angular momentum magnitude in M☉⋅AU²/yr
+  energyDrift: number;              // Accumulated relative energy error since seeding
+  angularMomentumDrift: number;     // Accumulated relative angular momentum error since seeding
+  steps: number;                    // Integration steps since seeding
+  keplerFallbacks: number;          // Updates that fell back to Kepler motion
+}
+
+// Simulation event types
+export enum SimulationEventType {
+  PHASE_CHANGE = 'phase_change',
+  SPECTRAL_TYPE_CHANGE = 'spectral_type_change',
+  REMNANT_FORMED = 'remnant_formed',
+  PLANET_LOST = 'planet_lost',
+  STABILITY_WARNING = 'stability_warning',
+  SUPERNOVA = 'supernova',
+  MASS_TRANSFER_STARTED = 'mass_transfer_started',
+  MASS_TRANSFER_ENDED = 'mass_transfer_ended',
+  COMMON_ENVELOPE = 'common_envelope',
+  NOVA = 'nova',
+  TYPE_IA_SUPERNOVA = 'type_ia_supernova',
+  STAR_FORMATION = 'star_formation'
+}
+
+// A star moved to a new evolution phase
+export interface PhaseChangeEvent {
+  type: SimulationEventType.PHASE_CHANGE;
+  time: number;                        // Simulation time in years
+  starId: string;
+  previousPhase: EvolutionPhase;
+  newPhase: EvolutionPhase;
+}
+
+// A star's spectral classification changed
+export interface SpectralTypeChangeEvent {
+  type: SimulationEventType.SPECTRAL_TYPE_CHANGE;
+  time: number;                        // Simulation time in years
+  starId: string;
+  previousType: SpectralType;
+  newType: SpectralType;
+}
+
+// A star ended its life as a white dwarf, neutron star or black hole
+export interface RemnantFormedEvent {
+  type: SimulationEventType.REMNANT_FORMED;
+  time: number;                        // Simulation time in years
+  starId: string;
+  remnantType: EvolutionPhase;         // WHITE_DWARF, NEUTRON_STAR or BLACK_HOLE
+  remnantMass: number;                 // Remnant mass in solar masses (M☉)
+}
+
+// A planet was removed from the system
+export interface PlanetLostEvent {
+  type: SimulationEventType.PLANET_LOST;
+  time: number;                        // Simulation time in years
+  planetId: string;
+  planetName: string;                  // Kept because the planet is no longer in the system
+  parentStarId: string;
+  reason: string;                      // Human-readable cause
+}
+
+// The star system failed a dynamical stability check
+export interface StabilityWarningEvent {
+  type: SimulationEventType.STABILITY_WARNING;
+  time: number;                        // Simulation time in years
+  starIds: string[];                   // Stars in the checked configuration
+  message: string;
+}
+
+// A star exploded as a core-collapse supernova
+export interface SupernovaEvent {
+  type: SimulationEventType.SUPERNOVA;
+  time: number;                        // Simulation time in years
+  starId: string;
+  remnantType: EvolutionPhase;         // NEUTRON_STAR or BLACK_HOLE
+  ejectedMass: number;                 // Mass expelled in the explosion (M☉)
+  kickVelocity: number;                // Natal kick of the remnant (km/s)
+  unboundStarIds: string[];            // Stars no longer bound to the remnant
+  lostPlanetIds: string[];             // Planets unbound or destroyed by the explosion
+  strippedPlanetIds: string[];         // Planets whose envelopes were blown off
+  irradiatedPlanetIds: string[];       // Planets heated by the ejecta
+}
+
+// A star filled its Roche lobe and began transferring mass to its companion
+export interface MassTransferStartedEvent {
+  type: SimulationEventType.MASS_TRANSFER_STARTED;
+  time: number;                        // Simulation time in years
+  starId: string;                      // Donor
+  accretorId: string;
+  stability: MassTransferStability;
+}
+
+// A mass-transfer episode ended
+export interface MassTransferEndedEvent {
+  type: SimulationEventType.MASS_TRANSFER_ENDED;
+  time: number;                        // Simulation time in years
+  starId: string;                      // Donor
+  accretorId: string;
+  transferredMass: number;             // Mass lost by the donor during the episode (M☉)
+  accretedMass: number;                // Mass gained by the accretor during the episode (M☉)
+}
+
+// Unstable mass transfer engulfed the companion in the donor's envelope
+export interface CommonEnvelopeEvent {
+  type: SimulationEventType.COMMON_ENVELOPE;
+  time: number;                        // Simulation time in years
+  starId: string;                      // Donor (the merged star keeps its ID)
+  companionId: string;
+  outcome: CommonEnvelopeOutcome;
+  ejectedMass: number;                 // Mass lost from the system (M☉)
+  separation: number;                  // Separation after envelope ejection (AU), 0 after a merger
+}
+
+// Accreted hydrogen ignited on a white dwarf
+export interface NovaEvent {
+  type: SimulationEventType.NOVA;
+  time: number;                        // Simulation time in years
+  starId: string;                      // White dwarf
+  companionId: string;                 // Donor
+  outbursts: number;                   // Novae during the step
+  ejectedMass: number;                 // Mass blown off by the outbursts (M☉)
+  separation: number;                  // Binary separation after the outbursts (AU)
+}
+
+// An accreting white dwarf reached the carbon-ignition mass and was destroyed
+export interface TypeIaSupernovaEvent {
+  type: SimulationEventType.TYPE_IA_SUPERNOVA;
+  time: number;                        // Simulation time in years
+  starId: string;                      // Destroyed white dwarf
+  starName: string;                    // Name of the white dwarf, which leaves the system
+  ejectedMass: number;                 // White dwarf mass at ignition (M☉)
+  unboundStarIds: string[];            // Stars no longer bound after the explosion
+  runawaySpeed: number;                // Companion speed from the former binary's center of mass (km/s)
+  lostPlanetIds: string[];             // Planets unbound or destroyed by the explosion
+  strippedPlanetIds: string[];         // Planets whose envelopes were blown off
+  irradiatedPlanetIds: string[];       // Planets heated by the ejecta
+}
+
+// The system's gas collapsed into a new generation of stars
+export interface StarFormationEvent {
+  type: SimulationEventType.STAR_FORMATION;
+  time: number;                        // Simulation time in years
+  generation: number;                  // Generation number of the new stars
+  starIds: string[];                   // Stars formed
+  metallicity: number;                 // Metallicity of the collapsing gas (Z☉)
+  gasMass: number;                     // Mass of the collapsing gas (M☉)
+}
+
+export type SimulationEvent =
+  | PhaseChangeEvent
+  | SpectralTypeChangeEvent
+  | RemnantFormedEvent
+  | PlanetLostEvent
+  | StabilityWarningEvent
+  | SupernovaEvent
+  | MassTransferStartedEvent
+  | MassTransferEndedEvent
+  | CommonEnvelopeEvent
+  | NovaEvent
+  | TypeIaSupernovaEvent
+  | StarFormationEvent;
+
 export interface SimulationStatus {
   state: SimulationState;
   currentTime: number;        // Current simulation time in years
@@ -17,14 +17,29 @@ export const CloudParametersInput: React.FC = () => {
   const [mass, setMass] = useState('10');
   const [metallicity, setMetallicity] = useState('1.0');
   const [angularMomentum, setAngularMomentum] = useState('1e48');
+  const [seed, setSeed] = useState('');
   
   const [validationErrors, setValidationErrors] = useState<{
     mass?: string;
     metallicity?: string;
     angularMomentum?: string;
+    seed?: string;
   }>({});
 
-  const validateInput = (field: 'mass' | 'metallicity' | 'angularMomentum', value: string): string | undefined => {
+  const validateInput = (field: 'mass' | 'metallicity' | 'angularMomentum' | 'seed', value: string): string | undefined => {
+    if (field === 'seed') {
+      // Seed is optional: blank means a new random system every time
+      if (value.trim() === '') {
+        return undefined;
+      }
+      const { min, max } = VALIDATION_RANGES.SEED;
+      const seedValue = Number(value);
+      if (!Number.isInteger(seedValue) || seedValue < min || seedValue > max) {
+        return `Must be an integer between ${min} and ${max}`;
+      }
+      return undefined;
+    }
+    
     const numValue = parseFloat(value);
     
     if (isNaN(numValue)) {
@@ -72,20 +87,29 @@ export const CloudParametersInput: React.FC = () => {
     if (error) clearError();
   };
 
+  const handleSeedChange = (value: string) => {
+    setSeed(value);
+    const error = validateInput('seed', value);
+    setValidationErrors(prev => ({ ...prev, seed: error }));
+    if (error) clearError();
+  };
+
   const handleCreateSimulation = () => {
     // Validate all inputs
     const massError = validateInput('mass', mass);
     const metallicityError = validateInput('metallicity', metallicity);
     const angularMomentumError = validateInput('angularMomentum', angularMomentum);
+    const seedError = validateInput('seed', seed);
     
     setValidationErrors({
       mass: massError,
       metallicity: metallicityError,
       angularMomentum: angularMomentumError,
+      seed: seedError,
     });
     
     // If any validation errors, don't proceed
-    if (massError || metallicityError || angularMomentumError) {
+    if (massError || metallicityError || angularMomentumError || seedError) {
       return;
     }
     
@@ -96,6 +120,10 @@ export const CloudParametersInput: React.FC = () => {
       angularMomentum: parseFloat(angularMomentum),
     };
     
+    if (seed.trim() !== '') {
+      params.seed = Number(seed);
+    }
+    
     // Initialize simulation
     try {
       initializeSimulation(params);
@@ -198,6 +226,33 @@ export const CloudParametersInput: React.FC = () => {
         )}
       </div>
       
+      {/* Seed Input */}
+      <div style={{ marginBottom: '15px' }}>
+        <Tooltip content="Optional random seed. The same seed and parameters always reproduce the same system; leave blank for a new system each time.">
+          <label style={{ display: 'block', marginBottom: '5px', fontWeight: 'bold' }}>
+            Seed (optional)
+          </label>
+        </Tooltip>
+        <input
+          type="text"
+          value={seed}
+          onChange={(e) => handleSeedChange(e.target.value)}
+          placeholder="e.g., 42"
+          style={{
+            width: '100%',
+            padding: '8px',
+            border: validationErrors.seed ? '2px solid #e74c3c' : '1px solid #ccc',
+            borderRadius: '4px',
+            fontSize: '14px',
+          }}
+        />
+        {validationErrors.seed && (
+          <div style={{ fontSize: '12px', color: '#e74c3c', marginTop: '3px' }}>
+            {validationErrors.seed}
+          </div>
+        )}
+      </div>
+      
       {/* Create Simulation Button */}
       <button
         onClick={handleCreateSimulation}
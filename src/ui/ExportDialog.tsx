@@ -23,7 +23,7 @@ interface ExportDialogProps {
 type ExportType = 'stellar' | 'orbital' | 'complete';
 
 export const ExportDialog: React.FC<ExportDialogProps> = ({ isOpen, onClose }) => {
-  const { system } = useSimulation();
+  const { system, controller } = useSimulation();
   const { showSuccess, showError } = useToast();
   const [exportType, setExportType] = useState<ExportType>('complete');
   const [format, setFormat] = useState<ExportFormat>(ExportFormat.CSV);
@@ -54,6 +54,8 @@ export const ExportDialog: React.FC<ExportDialogProps> = ({ isOpen, onClose }) =
       includeTimeSeries,
       timeSeriesInterval,
       includeMetadata,
+      history: includeTimeSeries ? controller.getHistory().getSnapshots() : undefined,
+      events: controller.getEvents(),
     };
 
     try {
@@ -328,6 +330,9 @@ export const ExportDialog: React.FC<ExportDialogProps> = ({ isOpen, onClose }) =
                   <div>System: {system.name}</div>
                   <div>Stars: {system.stars.length}</div>
                   <div>Planets: {system.planets.length}</div>
+                  {system.brownDwarfs && system.brownDwarfs.length > 0 && (
+                    <div>Brown Dwarfs: {system.brownDwarfs.length}</div>
+                  )}
                 </div>
               </div>
             )}
@@ -4,7 +4,7 @@
  */
 
 import React, { useState } from 'react';
-import { Star, EvolutionPhase } from '../types/core';
+import { Star, EvolutionPhase, StructureZone } from '../types/core';
 
 interface InternalStructureInfoProps {
   star: Star;
@@ -205,6 +205,32 @@ function getLayerExplanation(phase: EvolutionPhase, mass: number): React.ReactNo
           convective, creating the star's bloated appearance.
         </p>
       );
+    case EvolutionPhase.BLUE_SUPERGIANT:
+    case EvolutionPhase.LUMINOUS_BLUE_VARIABLE:
+      return (
+        <p>
+          <strong>Blue supergiant:</strong> A helium-burning core sits inside an
+          extended but still radiative envelope. The star stays hot because its
+          outer layers have not yet become convective.
+        </p>
+      );
+    case EvolutionPhase.YELLOW_SUPERGIANT:
+    case EvolutionPhase.RED_SUPERGIANT:
+      return (
+        <p>
+          <strong>Supergiant phase:</strong> A small helium-burning core powers a
+          huge, cool envelope. As the envelope cools it turns convective from the
+          surface inward.
+        </p>
+      );
+    case EvolutionPhase.WOLF_RAYET:
+      return (
+        <p>
+          <strong>Wolf–Rayet star:</strong> Winds or a companion have removed the
+          hydrogen envelope. What remains is a compact helium star with a large
+          convective core and a radiative mantle.
+        </p>
+      );
     case EvolutionPhase.WHITE_DWARF:
       return (
         <p>
@@ -261,6 +287,15 @@ function getEnergyExplanation(reaction: string, phase: EvolutionPhase): React.Re
   );
 }
 
+/**
+ * Describe the zones from the centre outwards, e.g. "convective to 12%, radiative to the surface"
+ */
+function describeZones(zones: StructureZone[]): string {
+  return zones
+    .map(zone => `${zone.type} ${zone.outerRadius >= 1 ? 'to the surface' : `to ${(zone.outerRadius * 100).toFixed(0)}%`}`)
+    .join(', ');
+}
+
 /**
  * Get evolution connection explanation
  */
@@ -301,6 +336,9 @@ function getEvolutionConnectionExplanation(star: Star): React.ReactNode {
             Core occupies {(layerStructure.coreRadius * 100).toFixed(1)}% of radius
             but contains most of the mass
           </li>
+          <li>
+            Energy transport: {describeZones(layerStructure.zones)}
+          </li>
           <li>
             Core temperature: {(coreTemperature / 1e6).toFixed(1)} million K
             {coreTemperature > 1e8 && ' (hot enough for helium fusion!)'}
@@ -324,6 +362,11 @@ function getPhaseDisplayName(phase: EvolutionPhase): string {
     [EvolutionPhase.RED_GIANT]: 'Red Giant',
     [EvolutionPhase.HORIZONTAL_BRANCH]: 'Horizontal Branch',
     [EvolutionPhase.ASYMPTOTIC_GIANT]: 'Asymptotic Giant Branch',
+    [EvolutionPhase.BLUE_SUPERGIANT]: 'Blue Supergiant',
+    [EvolutionPhase.YELLOW_SUPERGIANT]: 'Yellow Supergiant',
+    [EvolutionPhase.RED_SUPERGIANT]: 'Red Supergiant',
+    [EvolutionPhase.LUMINOUS_BLUE_VARIABLE]: 'Luminous Blue Variable',
+    [EvolutionPhase.WOLF_RAYET]: 'Wolf–Rayet',
     [EvolutionPhase.PLANETARY_NEBULA]: 'Planetary Nebula',
     [EvolutionPhase.WHITE_DWARF]: 'White Dwarf',
     [EvolutionPhase.NEUTRON_STAR]: 'Neutron Star',
@@ -342,6 +385,11 @@ function getPhaseDescription(phase: EvolutionPhase): string {
     [EvolutionPhase.RED_GIANT]: 'Hydrogen exhausted in core. The core contracts and heats up while the envelope expands dramatically.',
     [EvolutionPhase.HORIZONTAL_BRANCH]: 'Helium fusion begins in the core (helium flash for low-mass stars). The star stabilizes briefly.',
     [EvolutionPhase.ASYMPTOTIC_GIANT]: 'Both hydrogen and helium burn in shells around an inert C-O core. The star expands even more.',
+    [EvolutionPhase.BLUE_SUPERGIANT]: 'A massive star that has left the main sequence. Still hot and compact, it burns hydrogen in a shell and begins core helium burning.',
+    [EvolutionPhase.YELLOW_SUPERGIANT]: 'A massive star crossing the Hertzsprung gap. Its envelope swells and cools within a few thousand years.',
+    [EvolutionPhase.RED_SUPERGIANT]: 'A massive star burning helium in its core under a cool convective envelope hundreds of times the size of the Sun.',
+    [EvolutionPhase.LUMINOUS_BLUE_VARIABLE]: 'A star so luminous it is close to the Eddington limit. It swells and shrinks in S Doradus cycles and sheds mass in giant eruptions.',
+    [EvolutionPhase.WOLF_RAYET]: 'A massive star stripped of its hydrogen envelope. Its bare, extremely hot helium core drives a dense, fast wind.',
     [EvolutionPhase.PLANETARY_NEBULA]: 'The outer layers are expelled, revealing the hot core. Creates beautiful glowing gas clouds.',
     [EvolutionPhase.WHITE_DWARF]: 'A dense remnant core supported by electron degeneracy. No fusion occurs; it slowly cools over billions of years.',
     [EvolutionPhase.NEUTRON_STAR]: 'The collapsed core of a massive star, incredibly dense. A teaspoon would weigh billions of tons!',
@@ -4,7 +4,7 @@
  */
 
 import React, { useEffect, useRef } from 'react';
-import { Star, EvolutionPhase } from '../types/core';
+import { Star, EvolutionPhase, ZoneType } from '../types/core';
 
 interface InternalStructureViewProps {
   star: Star;
@@ -64,27 +64,19 @@ function drawInternalStructure(
 
   // Calculate actual radii in pixels
   const coreRadiusPx = maxRadius * layerStructure.coreRadius;
-  const radiativeRadiusPx = maxRadius * layerStructure.radiativeZoneRadius;
-  const convectiveRadiusPx = maxRadius * layerStructure.convectiveZoneRadius;
 
-  // Draw outer convective envelope (or atmosphere)
-  if (convectiveRadiusPx > radiativeRadiusPx) {
+  // Draw zones from the surface inwards so each covers the ones outside it
+  for (const zone of [...layerStructure.zones].reverse()) {
     ctx.beginPath();
-    ctx.arc(centerX, centerY, convectiveRadiusPx, 0, 2 * Math.PI);
-    ctx.fillStyle = getConvectiveZoneColor(star.evolutionPhase);
+    ctx.arc(centerX, centerY, maxRadius * zone.outerRadius, 0, 2 * Math.PI);
+    // Clear the disc first so translucent zones do not stack
+    ctx.fillStyle = '#000';
     ctx.fill();
-    ctx.strokeStyle = 'rgba(255, 255, 255, 0.3)';
-    ctx.lineWidth = 1;
-    ctx.stroke();
-  }
-
-  // Draw radiative zone
-  if (radiativeRadiusPx > coreRadiusPx) {
-    ctx.beginPath();
-    ctx.arc(centerX, centerY, radiativeRadiusPx, 0, 2 * Math.PI);
-    ctx.fillStyle = getRadiativeZoneColor(star.evolutionPhase);
+    ctx.fillStyle = zone.type === ZoneType.CONVECTIVE
+      ? getConvectiveZoneColor(star.evolutionPhase)
+      : getRadiativeZoneColor(star.evolutionPhase);
     ctx.fill();
-    ctx.strokeStyle = 'rgba(255, 255, 255, 0.4)';
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.3)';
     ctx.lineWidth = 1;
     ctx.stroke();
   }
@@ -135,16 +127,14 @@ function drawInternalStructure(
     ctx.fillText('Core', centerX, centerY + 5);
   }
 
-  // Radiative zone label
-  if (radiativeRadiusPx > coreRadiusPx + 20) {
-    const radZoneY = centerY - (coreRadiusPx + radiativeRadiusPx) / 2;
-    ctx.fillText('Radiative', centerX, radZoneY);
-  }
-
-  // Convective zone label
-  if (convectiveRadiusPx > radiativeRadiusPx + 20) {
-    const convZoneY = centerY - (radiativeRadiusPx + convectiveRadiusPx) / 2;
-    ctx.fillText('Convective', centerX, convZoneY);
+  // Zone labels, placed outside the core
+  for (const zone of layerStructure.zones) {
+    const innerPx = Math.max(maxRadius * zone.innerRadius, coreRadiusPx);
+    const outerPx = maxRadius * zone.outerRadius;
+    if (outerPx > innerPx + 20) {
+      const zoneY = centerY - (innerPx + outerPx) / 2;
+      ctx.fillText(zone.type === ZoneType.CONVECTIVE ? 'Convective' : 'Radiative', centerX, zoneY);
+    }
   }
 
   ctx.shadowBlur = 0;
@@ -181,7 +171,13 @@ function getCoreColor(phase: EvolutionPhase, _reaction: string): string {
     case EvolutionPhase.RED_GIANT:
       return 'rgba(200, 50, 50, 0.7)'; // Dim red for inert core
     case EvolutionPhase.HORIZONTAL_BRANCH:
+    case EvolutionPhase.BLUE_SUPERGIANT:
+    case EvolutionPhase.YELLOW_SUPERGIANT:
+    case EvolutionPhase.RED_SUPERGIANT:
+    case EvolutionPhase.LUMINOUS_BLUE_VARIABLE:
       return 'rgba(255, 200, 100, 0.9)'; // Bright for helium burning
+    case EvolutionPhase.WOLF_RAYET:
+      return 'rgba(220, 200, 255, 0.95)'; // Exposed hot helium core
     case EvolutionPhase.ASYMPTOTIC_GIANT:
       return 'rgba(255, 150, 50, 0.8)';
     case EvolutionPhase.WHITE_DWARF:
@@ -204,7 +200,12 @@ function getRadiativeZoneColor(phase: EvolutionPhase): string {
       return 'rgba(255, 150, 50, 0.5)';
     case EvolutionPhase.RED_GIANT:
     case EvolutionPhase.ASYMPTOTIC_GIANT:
+    case EvolutionPhase.RED_SUPERGIANT:
       return 'rgba(255, 100, 50, 0.4)';
+    case EvolutionPhase.BLUE_SUPERGIANT:
+    case EvolutionPhase.LUMINOUS_BLUE_VARIABLE:
+    case EvolutionPhase.WOLF_RAYET:
+      return 'rgba(150, 180, 255, 0.45)'; // Hot radiative envelope
     default:
       return 'rgba(255, 120, 50, 0.45)';
   }
@@ -221,6 +222,8 @@ function getConvectiveZoneColor(phase: EvolutionPhase): string {
       return 'rgba(200, 100, 50, 0.3)';
     case EvolutionPhase.RED_GIANT:
     case EvolutionPhase.ASYMPTOTIC_GIANT:
+    case EvolutionPhase.YELLOW_SUPERGIANT:
+    case EvolutionPhase.RED_SUPERGIANT:
       return 'rgba(150, 50, 30, 0.25)'; // Dim outer layers
     default:
       return 'rgba(180, 80, 40, 0.3)';
@@ -4,15 +4,17 @@
  */
 
 import React from 'react';
-import { Star, NuclearReaction } from '../types/core';
+import { Star, NuclearReaction, DredgeUp } from '../types/core';
 import { Tooltip } from './Tooltip';
+import { calculateCarbonToOxygenRatio, calculateNitrogenToCarbonRatio, isCarbonStar } from '../physics/dredgeUp';
 
 interface NuclearSynthesisPanelProps {
   star: Star;
 }
 
 export const NuclearSynthesisPanel: React.FC<NuclearSynthesisPanelProps> = ({ star }) => {
-  const { activeReactions, coreComposition, coreTemperature, corePressure } = star.internalStructure;
+  const { activeReactions, coreComposition, coreTemperature, corePressure, ironCoreMass } = star.internalStructure;
+  const { surfaceComposition, dredgeUps = [] } = star;
 
   return (
     <div style={{
@@ -132,6 +134,50 @@ export const NuclearSynthesisPanel: React.FC<NuclearSynthesisPanelProps> = ({ st
         </div>
       </div>
 
+      {/* Surface Composition */}
+      {surfaceComposition && (
+        <div style={{ marginBottom: '15px' }}>
+          <Tooltip content="Mass fractions at the stellar surface, changed when dredge-ups mix processed material up from the interior">
+            <h4 style={{ margin: '0 0 8px 0' }}>Surface Composition</h4>
+          </Tooltip>
+          <div style={{
+            padding: '10px',
+            backgroundColor: '#fff',
+            borderRadius: '4px',
+            border: '1px solid #e0e0e0',
+          }}>
+            <CompositionBar label="Hydrogen (H)" fraction={surfaceComposition.hydrogen} color="#3498db" />
+            <CompositionBar label="Helium (He)" fraction={surfaceComposition.helium} color="#e74c3c" />
+            <CompositionBar label="Carbon (C)" fraction={surfaceComposition.carbon} color="#9b59b6" />
+            <CompositionBar label="Nitrogen (N)" fraction={surfaceComposition.nitrogen} color="#34495e" />
+            <CompositionBar label="Oxygen (O)" fraction={surfaceComposition.oxygen} color="#1abc9c" />
+            <div style={{ fontSize: '13px', marginTop: '5px' }}>
+              <div style={{ marginBottom: '5px' }}>
+                <Tooltip content="Carbon to oxygen atoms at the surface; above 1 the star is a carbon star">
+                  <span style={{ fontWeight: 'bold' }}>C/O:</span>
+                </Tooltip>
+                {' '}{calculateCarbonToOxygenRatio(surfaceComposition).toFixed(2)}
+                {isCarbonStar(surfaceComposition) && (
+                  <span style={{ color: '#8e44ad', fontWeight: 'bold' }}> (carbon star)</span>
+                )}
+              </div>
+              <div style={{ marginBottom: '5px' }}>
+                <Tooltip content="Nitrogen to carbon atoms at the surface; raised by CN-cycled material">
+                  <span style={{ fontWeight: 'bold' }}>N/C:</span>
+                </Tooltip>
+                {' '}{calculateNitrogenToCarbonRatio(surfaceComposition).toFixed(2)}
+              </div>
+              <div>
+                <Tooltip content="Episodes in which the convective envelope reached processed layers">
+                  <span style={{ fontWeight: 'bold' }}>Dredge-ups:</span>
+                </Tooltip>
+                {' '}{dredgeUps.length > 0 ? dredgeUps.map(getDredgeUpName).join(', ') : 'none'}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Core Conditions */}
       <div>
         <h4 style={{ margin: '0 0 8px 0' }}>Core Conditions</h4>
@@ -154,6 +200,14 @@ export const NuclearSynthesisPanel: React.FC<NuclearSynthesisPanelProps> = ({ st
             </Tooltip>
             {' '}{corePressure.toExponential(2)} Pa
           </div>
+          {ironCoreMass !== undefined && (
+            <div style={{ marginTop: '5px' }}>
+              <Tooltip content="Inert iron core built by silicon burning; it collapses at the Chandrasekhar mass">
+                <span style={{ fontWeight: 'bold' }}>Iron core:</span>
+              </Tooltip>
+              {' '}{ironCoreMass.toFixed(2)} M☉
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -203,6 +257,20 @@ const CompositionBar: React.FC<CompositionBarProps> = ({ label, fraction, color
   );
 };
 
+/**
+ * Get human-readable name for a dredge-up episode
+ */
+function getDredgeUpName(dredgeUp: DredgeUp): string {
+  switch (dredgeUp) {
+    case DredgeUp.FIRST:
+      return 'First';
+    case DredgeUp.SECOND:
+      return 'Second';
+    case DredgeUp.THIRD:
+      return 'Third';
+  }
+}
+
 /**
  * Get human-readable name for a nuclear reaction
  */
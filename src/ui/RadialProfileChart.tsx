@@ -0,0 +1,120 @@
+/**
+ * Radial Profile Chart Component
+ * Plots temperature, density, pressure, enclosed mass and luminosity
+ * from a star's centre to its surface
+ */
+
+import React, { useEffect, useRef } from 'react';
+import { RadialProfile, RadialProfilePoint } from '../types/core';
+
+interface RadialProfileChartProps {
+  profile: RadialProfile;
+  width?: number;
+  height?: number;
+}
+
+// Plotted quantities, each scaled to its maximum
+const PROFILE_SERIES: { label: string; color: string; value: (point: RadialProfilePoint) => number }[] = [
+  { label: 'T', color: '#e74c3c', value: point => point.temperature },
+  { label: 'ρ', color: '#3498db', value: point => point.density },
+  { label: 'P', color: '#9b59b6', value: point => point.pressure },
+  { label: 'm', color: '#2ecc71', value: point => point.enclosedMass },
+  { label: 'L', color: '#f1c40f', value: point => point.luminosity },
+];
+
+export const RadialProfileChart: React.FC<RadialProfileChartProps> = ({
+  profile,
+  width = 280,
+  height = 180,
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    ctx.clearRect(0, 0, width, height);
+    drawProfile(ctx, profile, width, height);
+  }, [profile, width, height]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={width}
+      height={height}
+      style={{
+        border: '1px solid #ccc',
+        borderRadius: '8px',
+        backgroundColor: '#fff',
+      }}
+    />
+  );
+};
+
+/**
+ * Draw each profile quantity against fractional radius
+ */
+function drawProfile(
+  ctx: CanvasRenderingContext2D,
+  profile: RadialProfile,
+  width: number,
+  height: number
+): void {
+  const padding = { left: 30, right: 10, top: 10, bottom: 30 };
+  const plotWidth = width - padding.left - padding.right;
+  const plotHeight = height - padding.top - padding.bottom;
+  const surfaceRadius = profile.points[profile.points.length - 1].radius;
+
+  // Axes
+  ctx.strokeStyle = '#999';
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  ctx.moveTo(padding.left, padding.top);
+  ctx.lineTo(padding.left, padding.top + plotHeight);
+  ctx.lineTo(padding.left + plotWidth, padding.top + plotHeight);
+  ctx.stroke();
+
+  ctx.font = '10px Arial';
+  ctx.fillStyle = '#666';
+  ctx.textAlign = 'center';
+  ctx.fillText('0', padding.left, padding.top + plotHeight + 12);
+  ctx.fillText('r / R', padding.left + plotWidth / 2, padding.top + plotHeight + 24);
+  ctx.fillText('1', padding.left + plotWidth, padding.top + plotHeight + 12);
+  ctx.textAlign = 'right';
+  ctx.fillText('max', padding.left - 4, padding.top + 8);
+
+  // Curves
+  for (const series of PROFILE_SERIES) {
+    const values = profile.points.map(series.value);
+    const maximum = Math.max(...values);
+    if (maximum <= 0) continue;
+
+    ctx.strokeStyle = series.color;
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    profile.points.forEach((point, i) => {
+      const x = padding.left + (point.radius / surfaceRadius) * plotWidth;
+      const y = padding.top + plotHeight * (1 - values[i] / maximum);
+      if (i === 0) {
+        ctx.moveTo(x, y);
+      } else {
+        ctx.lineTo(x, y);
+      }
+    });
+    ctx.stroke();
+  }
+
+  // Legend
+  ctx.textAlign = 'left';
+  PROFILE_SERIES.forEach((series, i) => {
+    const x = padding.left + plotWidth - 20;
+    const y = padding.top + 10 + i * 12;
+    ctx.fillStyle = series.color;
+    ctx.fillRect(x, y - 7, 8, 8);
+    ctx.fillStyle = '#333';
+    ctx.fillText(series.label, x + 11, y);
+  });
+}
@@ -230,6 +230,9 @@ export const SaveLoadDialog: React.FC<SaveLoadDialogProps> = ({ isOpen, mode, on
                   <div>System: {system.name}</div>
                   <div>Stars: {system.stars.length}</div>
                   <div>Planets: {system.planets.length}</div>
+                  {system.brownDwarfs && system.brownDwarfs.length > 0 && (
+                    <div>Brown Dwarfs: {system.brownDwarfs.length}</div>
+                  )}
                   <div>Age: {formatTime(currentTime)}</div>
                 </div>
               </div>
@@ -348,6 +351,9 @@ export const SaveLoadDialog: React.FC<SaveLoadDialogProps> = ({ isOpen, mode, on
                       <div>System: {sim.system.name}</div>
                       <div>Stars: {sim.system.stars.length}</div>
                       <div>Planets: {sim.system.planets.length}</div>
+                      {sim.system.brownDwarfs && sim.system.brownDwarfs.length > 0 && (
+                        <div>Brown Dwarfs: {sim.system.brownDwarfs.length}</div>
+                      )}
                       <div>Age: {formatTime(sim.currentTime)}</div>
                     </div>
                   </div>
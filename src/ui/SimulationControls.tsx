@@ -6,11 +6,13 @@
 import React, { useState, useEffect } from 'react';
 import { useSimulation } from '../context/SimulationContext';
 import { useToast } from '../context/ToastContext';
-import { SimulationState } from '../types/core';
+import { SimulationState, DynamicsMode, StructureModel } from '../types/core';
 import { Tooltip } from './Tooltip';
+import { CONVECTION_CONSTANTS } from '../constants/physics';
 
 export const SimulationControls: React.FC = () => {
   const {
+    controller,
     system,
     state,
     timeScale,
@@ -20,6 +22,9 @@ export const SimulationControls: React.FC = () => {
     setTimeScale,
     jumpToTime,
     updateSimulation,
+    setStructureModel,
+    setConvectiveOvershoot,
+    setMultiGenerationStarFormation,
   } = useSimulation();
   const { showSuccess, showInfo } = useToast();
   
@@ -27,6 +32,10 @@ export const SimulationControls: React.FC = () => {
   const [jumpToTimeInput, setJumpToTimeInput] = useState('');
   const [timeScaleError, setTimeScaleError] = useState<string | undefined>();
   const [jumpToTimeError, setJumpToTimeError] = useState<string | undefined>();
+  const [dynamicsMode, setDynamicsMode] = useState(controller.getDynamicsMode());
+  const [structureModel, setStructureModelState] = useState(controller.getStructureModel());
+  const [convectiveOvershoot, setConvectiveOvershootState] = useState(controller.getConvectiveOvershoot());
+  const [multiGeneration, setMultiGeneration] = useState(controller.isMultiGenerationStarFormationEnabled());
 
   // Update animation loop
   useEffect(() => {
@@ -118,7 +127,37 @@ export const SimulationControls: React.FC = () => {
     }
   };
 
+  const handleDynamicsModeChange = (mode: DynamicsMode) => {
+    controller.setDynamicsMode(mode);
+    setDynamicsMode(mode);
+    showInfo(mode === DynamicsMode.N_BODY
+      ? 'N-body dynamics enabled'
+      : 'Keplerian dynamics enabled');
+  };
+
+  const handleStructureModelChange = (model: StructureModel) => {
+    setStructureModel(model);
+    setStructureModelState(model);
+    showInfo(model === StructureModel.HYDROSTATIC
+      ? 'Radial profiles from the hydrostatic solver'
+      : 'Radial profiles from Lane–Emden polytropes');
+  };
+
+  const handleConvectiveOvershootChange = (overshoot: number) => {
+    setConvectiveOvershoot(overshoot);
+    setConvectiveOvershootState(overshoot);
+  };
+
+  const handleMultiGenerationChange = (enabled: boolean) => {
+    setMultiGenerationStarFormation(enabled);
+    setMultiGeneration(enabled);
+    showInfo(enabled
+      ? 'Leftover gas and stellar ejecta will form new generations of stars'
+      : 'Only the initial cloud collapse forms stars');
+  };
+
   const isSimulationReady = system !== null;
+  const nBodyDiagnostics = controller.getNBodyDiagnostics();
 
   return (
     <div style={{ marginBottom: '20px' }}>
@@ -260,6 +299,93 @@ export const SimulationControls: React.FC = () => {
           </div>
         )}
       </div>
+      
+      {/* Dynamics Mode */}
+      <div style={{ marginBottom: '15px' }}>
+        <Tooltip content="Kepler mode moves bodies on fixed orbits. N-body mode integrates mutual gravity and falls back to Kepler motion for large time steps.">
+          <label style={{ display: 'block', marginBottom: '5px', fontWeight: 'bold' }}>
+            Dynamics
+          </label>
+        </Tooltip>
+        <select
+          value={dynamicsMode}
+          onChange={(e) => handleDynamicsModeChange(e.target.value as DynamicsMode)}
+          disabled={!isSimulationReady}
+          style={{
+            width: '100%',
+            padding: '8px',
+            border: '1px solid #ccc',
+            borderRadius: '4px',
+            fontSize: '14px',
+          }}
+        >
+          <option value={DynamicsMode.KEPLER}>Keplerian orbits</option>
+          <option value={DynamicsMode.N_BODY}>N-body integration</option>
+        </select>
+        {nBodyDiagnostics && (
+          <div style={{ fontSize: '12px', color: '#666', marginTop: '3px' }}>
+            Energy drift: {nBodyDiagnostics.energyDrift.toExponential(2)} ·
+            Angular momentum drift: {nBodyDiagnostics.angularMomentumDrift.toExponential(2)} ·
+            Kepler fallbacks: {nBodyDiagnostics.keplerFallbacks}
+          </div>
+        )}
+      </div>
+      
+      {/* Structure Model */}
+      <div style={{ marginBottom: '15px' }}>
+        <Tooltip content="Polytrope mode scales a single Lane–Emden solution to each star. Hydrostatic mode solves hydrostatic equilibrium through the star's convective and radiative zones.">
+          <label style={{ display: 'block', marginBottom: '5px', fontWeight: 'bold' }}>
+            Stellar Structure
+          </label>
+        </Tooltip>
+        <select
+          value={structureModel}
+          onChange={(e) => handleStructureModelChange(e.target.value as StructureModel)}
+          style={{
+            width: '100%',
+            padding: '8px',
+            border: '1px solid #ccc',
+            borderRadius: '4px',
+            fontSize: '14px',
+          }}
+        >
+          <option value={StructureModel.POLYTROPE}>Lane–Emden polytrope</option>
+          <option value={StructureModel.HYDROSTATIC}>Hydrostatic solver</option>
+        </select>
+      </div>
+      
+      {/* Convective Overshoot */}
+      <div style={{ marginBottom: '15px' }}>
+        <Tooltip content="Convective zones are found with the Schwarzschild criterion. Overshoot carries convective motions this many pressure scale heights past each zone boundary.">
+          <label style={{ display: 'block', marginBottom: '5px', fontWeight: 'bold' }}>
+            Convective Overshoot: {convectiveOvershoot.toFixed(2)} H<sub>P</sub>
+          </label>
+        </Tooltip>
+        <input
+          type="range"
+          min={0}
+          max={CONVECTION_CONSTANTS.MAX_OVERSHOOT}
+          step={0.05}
+          value={convectiveOvershoot}
+          onChange={(e) => handleConvectiveOvershootChange(parseFloat(e.target.value))}
+          style={{ width: '100%' }}
+        />
+      </div>
+      
+      {/* Multi-Generation Star Formation */}
+      <div style={{ marginBottom: '15px' }}>
+        <Tooltip content="Gas the cloud collapse left over, enriched by stellar winds, planetary nebulae and supernovae, collapses into a new generation of stars after the first death in the youngest generation.">
+          <label style={{ display: 'flex', alignItems: 'center', cursor: 'pointer', fontWeight: 'bold' }}>
+            <input
+              type="checkbox"
+              checked={multiGeneration}
+              onChange={(e) => handleMultiGenerationChange(e.target.checked)}
+              style={{ marginRight: '8px' }}
+            />
+            Multi-Generation Star Formation
+          </label>
+        </Tooltip>
+      </div>
     </div>
   );
 };
@@ -0,0 +1,139 @@
+/**
+ * Stellar History Chart Component
+ * Plots a star's recorded mass, luminosity and temperature against time
+ */
+
+import React, { useEffect, useRef } from 'react';
+import { StarHistorySample } from '../types/core';
+
+interface StellarHistoryChartProps {
+  samples: StarHistorySample[];
+  width?: number;
+  height?: number;
+}
+
+// Plotted quantities, each scaled between its minimum and maximum;
+// luminosity spans orders of magnitude, so it is plotted logarithmically
+const HISTORY_SERIES: { label: string; color: string; value: (sample: StarHistorySample) => number }[] = [
+  { label: 'M', color: '#2ecc71', value: sample => sample.mass },
+  { label: 'log L', color: '#f1c40f', value: sample => Math.log10(Math.max(sample.luminosity, 1e-10)) },
+  { label: 'T', color: '#e74c3c', value: sample => sample.temperature },
+];
+
+export const StellarHistoryChart: React.FC<StellarHistoryChartProps> = ({
+  samples,
+  width = 280,
+  height = 180,
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    ctx.clearRect(0, 0, width, height);
+    drawHistory(ctx, samples, width, height);
+  }, [samples, width, height]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={width}
+      height={height}
+      style={{
+        border: '1px solid #ccc',
+        borderRadius: '8px',
+        backgroundColor: '#fff',
+      }}
+    />
+  );
+};
+
+/**
+ * Format a time axis label in years
+ */
+function formatAxisTime(time: number): string {
+  if (time >= 1e9) return `${(time / 1e9).toFixed(1)} Gyr`;
+  if (time >= 1e6) return `${(time / 1e6).toFixed(1)} Myr`;
+  return `${time.toFixed(0)} yr`;
+}
+
+/**
+ * Draw each recorded quantity against simulation time
+ */
+function drawHistory(
+  ctx: CanvasRenderingContext2D,
+  samples: StarHistorySample[],
+  width: number,
+  height: number
+): void {
+  const padding = { left: 30, right: 10, top: 10, bottom: 30 };
+  const plotWidth = width - padding.left - padding.right;
+  const plotHeight = height - padding.top - padding.bottom;
+
+  // Axes
+  ctx.strokeStyle = '#999';
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  ctx.moveTo(padding.left, padding.top);
+  ctx.lineTo(padding.left, padding.top + plotHeight);
+  ctx.lineTo(padding.left + plotWidth, padding.top + plotHeight);
+  ctx.stroke();
+
+  ctx.font = '10px Arial';
+  ctx.fillStyle = '#666';
+  ctx.textAlign = 'center';
+  ctx.fillText('t', padding.left + plotWidth / 2, padding.top + plotHeight + 24);
+
+  if (samples.length < 2) {
+    ctx.fillText('Not enough history yet', padding.left + plotWidth / 2, padding.top + plotHeight / 2);
+    return;
+  }
+
+  const startTime = samples[0].time;
+  const endTime = samples[samples.length - 1].time;
+  const timeSpan = endTime - startTime || 1;
+  ctx.textAlign = 'left';
+  ctx.fillText(formatAxisTime(startTime), padding.left, padding.top + plotHeight + 12);
+  ctx.textAlign = 'right';
+  ctx.fillText(formatAxisTime(endTime), padding.left + plotWidth, padding.top + plotHeight + 12);
+  ctx.fillText('max', padding.left - 4, padding.top + 8);
+  ctx.fillText('min', padding.left - 4, padding.top + plotHeight);
+
+  // Curves
+  for (const series of HISTORY_SERIES) {
+    const values = samples.map(series.value);
+    const minimum = Math.min(...values);
+    const range = Math.max(...values) - minimum;
+
+    ctx.strokeStyle = series.color;
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    samples.forEach((sample, i) => {
+      const x = padding.left + ((sample.time - startTime) / timeSpan) * plotWidth;
+      // Constant quantities run through the middle of the plot
+      const fraction = range > 0 ? (values[i] - minimum) / range : 0.5;
+      const y = padding.top + plotHeight * (1 - fraction);
+      if (i === 0) {
+        ctx.moveTo(x, y);
+      } else {
+        ctx.lineTo(x, y);
+      }
+    });
+    ctx.stroke();
+  }
+
+  // Legend
+  ctx.textAlign = 'left';
+  HISTORY_SERIES.forEach((series, i) => {
+    const x = padding.left + plotWidth - 40;
+    const y = padding.top + 10 + i * 12;
+    ctx.fillStyle = series.color;
+    ctx.fillRect(x, y - 7, 8, 8);
+    ctx.fillStyle = '#333';
+    ctx.fillText(series.label, x + 11, y);
+  });
+}
@@ -6,6 +6,15 @@
 import React from 'react';
 import { useSimulation } from '../context/SimulationContext';
 import { Star, EvolutionPhase } from '../types/core';
+import { calculateRemnantProperties } from '../physics/remnants';
+import {
+  calculateCharacteristicAge,
+  calculateSpinDownLuminosity,
+  isBeyondDeathLine,
+  isMagnetar,
+} from '../physics/pulsars';
+import { PHYSICS_CONSTANTS } from '../constants/physics';
+import { StellarHistoryChart } from './StellarHistoryChart';
 
 interface StellarPropertiesDisplayProps {
   selectedStarId?: string | null;
@@ -14,7 +23,7 @@ interface StellarPropertiesDisplayProps {
 export const StellarPropertiesDisplay: React.FC<StellarPropertiesDisplayProps> = ({ 
   selectedStarId 
 }) => {
-  const { system } = useSimulation();
+  const { system, controller, currentTime } = useSimulation();
 
   // Find the selected star or default to the first star
   const star: Star | undefined = React.useMemo(() => {
@@ -28,6 +37,12 @@ export const StellarPropertiesDisplay: React.FC<StellarPropertiesDisplayProps> =
     return system.stars[0];
   }, [system, selectedStarId]);
 
+  // Recorded samples of the star up to the current time
+  const history = React.useMemo(
+    () => (star ? controller.getHistory().getStarHistory(star.id, 0, currentTime) : []),
+    [controller, star, currentTime]
+  );
+
   // Format large numbers with appropriate units
   const formatNumber = (value: number, decimals: number = 2): string => {
     if (value >= 1e9) {
@@ -61,6 +76,11 @@ export const StellarPropertiesDisplay: React.FC<StellarPropertiesDisplayProps> =
       [EvolutionPhase.RED_GIANT]: 'Red Giant',
       [EvolutionPhase.HORIZONTAL_BRANCH]: 'Horizontal Branch',
       [EvolutionPhase.ASYMPTOTIC_GIANT]: 'Asymptotic Giant',
+      [EvolutionPhase.BLUE_SUPERGIANT]: 'Blue Supergiant',
+      [EvolutionPhase.YELLOW_SUPERGIANT]: 'Yellow Supergiant',
+      [EvolutionPhase.RED_SUPERGIANT]: 'Red Supergiant',
+      [EvolutionPhase.LUMINOUS_BLUE_VARIABLE]: 'Luminous Blue Variable',
+      [EvolutionPhase.WOLF_RAYET]: 'Wolf–Rayet',
       [EvolutionPhase.PLANETARY_NEBULA]: 'Planetary Nebula',
       [EvolutionPhase.WHITE_DWARF]: 'White Dwarf',
       [EvolutionPhase.NEUTRON_STAR]: 'Neutron Star',
@@ -77,6 +97,11 @@ export const StellarPropertiesDisplay: React.FC<StellarPropertiesDisplayProps> =
       [EvolutionPhase.RED_GIANT]: '#e74c3c',
       [EvolutionPhase.HORIZONTAL_BRANCH]: '#f39c12',
       [EvolutionPhase.ASYMPTOTIC_GIANT]: '#d35400',
+      [EvolutionPhase.BLUE_SUPERGIANT]: '#5dade2',
+      [EvolutionPhase.YELLOW_SUPERGIANT]: '#f1c40f',
+      [EvolutionPhase.RED_SUPERGIANT]: '#c0392b',
+      [EvolutionPhase.LUMINOUS_BLUE_VARIABLE]: '#2980b9',
+      [EvolutionPhase.WOLF_RAYET]: '#8e44ad',
       [EvolutionPhase.PLANETARY_NEBULA]: '#1abc9c',
       [EvolutionPhase.WHITE_DWARF]: '#ecf0f1',
       [EvolutionPhase.NEUTRON_STAR]: '#34495e',
@@ -116,6 +141,20 @@ export const StellarPropertiesDisplay: React.FC<StellarPropertiesDisplayProps> =
   }
 
   const agePercentage = (star.age / star.lifetime) * 100;
+  const isRemnant = star.evolutionPhase === EvolutionPhase.WHITE_DWARF ||
+    star.evolutionPhase === EvolutionPhase.NEUTRON_STAR ||
+    star.evolutionPhase === EvolutionPhase.BLACK_HOLE;
+  const remnant = calculateRemnantProperties(star.initialMass, star.metallicity);
+  const pulsar = star.evolutionPhase === EvolutionPhase.NEUTRON_STAR ? star.pulsar : undefined;
+  const massTransfer = system?.massTransfer?.find(episode =>
+    episode.donorId === star.id || episode.accretorId === star.id
+  );
+  
+  // Compact remnants are measured in kilometres rather than solar radii
+  const radiusKm = star.radius * PHYSICS_CONSTANTS.SOLAR_RADIUS / 1000;
+  const radiusValue = isRemnant
+    ? `${formatNumber(radiusKm, 1)} km`
+    : `${star.radius.toFixed(3)} R☉`;
 
   return (
     <div style={{
@@ -165,6 +204,13 @@ export const StellarPropertiesDisplay: React.FC<StellarPropertiesDisplayProps> =
             icon="⚖️"
           />
 
+          {/* Initial Mass */}
+          <PropertyCard
+            label="Initial Mass"
+            value={`${star.initialMass.toFixed(3)} M☉`}
+            icon="🌱"
+          />
+
           {/* Temperature */}
           <PropertyCard
             label="Temperature"
@@ -181,8 +227,8 @@ export const StellarPropertiesDisplay: React.FC<StellarPropertiesDisplayProps> =
 
           {/* Radius */}
           <PropertyCard
-            label="Radius"
-            value={`${star.radius.toFixed(3)} R☉`}
+            label={star.evolutionPhase === EvolutionPhase.BLACK_HOLE ? 'Event Horizon' : 'Radius'}
+            value={radiusValue}
             icon="📏"
           />
 
@@ -193,12 +239,91 @@ export const StellarPropertiesDisplay: React.FC<StellarPropertiesDisplayProps> =
             icon="⏱️"
           />
 
+          {/* Cooling age (white dwarfs only) */}
+          {star.evolutionPhase === EvolutionPhase.WHITE_DWARF && star.remnantAge !== undefined && (
+            <PropertyCard
+              label="Cooling Age"
+              value={formatTime(star.remnantAge)}
+              icon="❄️"
+            />
+          )}
+
+          {/* Pulsar spin-down (neutron stars only) */}
+          {pulsar && (
+            <>
+              <PropertyCard
+                label="Spin Period"
+                value={pulsar.period < 1 ? `${(pulsar.period * 1000).toFixed(1)} ms` : `${pulsar.period.toFixed(2)} s`}
+                icon="🌀"
+              />
+              <PropertyCard
+                label="Period Derivative"
+                value={`${pulsar.periodDerivative.toExponential(2)} s/s`}
+                icon="🐢"
+              />
+              <PropertyCard
+                label="Characteristic Age"
+                value={formatTime(calculateCharacteristicAge(pulsar.period, pulsar.periodDerivative))}
+                icon="⌛"
+              />
+              <PropertyCard
+                label="Spin-down Luminosity"
+                value={`${calculateSpinDownLuminosity(pulsar.period, pulsar.periodDerivative, star.mass).toExponential(2)} L☉`}
+                icon="⚡"
+              />
+              <PropertyCard
+                label={isMagnetar(pulsar.magneticField) ? 'Magnetic Field (Magnetar)' : 'Magnetic Field'}
+                value={`${pulsar.magneticField.toExponential(2)} G`}
+                icon="🧲"
+              />
+              <PropertyCard
+                label="Radio Emission"
+                value={isBeyondDeathLine(pulsar.period, pulsar.magneticField) ? 'Beyond death line' : 'Active pulsar'}
+                icon="📡"
+              />
+            </>
+          )}
+
           {/* Metallicity */}
           <PropertyCard
             label="Metallicity"
             value={`${star.metallicity.toFixed(3)} Z☉`}
             icon="🔬"
           />
+
+          {/* Star-formation generation */}
+          {star.generation !== undefined && (
+            <PropertyCard
+              label="Generation"
+              value={star.generation === 1 ? '1 (initial cloud)' : `${star.generation}`}
+              icon="🌱"
+            />
+          )}
+
+          {/* Roche lobe (close binaries only) */}
+          {star.rocheLobeRadius !== undefined && (
+            <PropertyCard
+              label="Roche Lobe"
+              value={`${formatNumber(star.rocheLobeRadius, 1)} R☉ (${formatNumber(star.radius / star.rocheLobeRadius * 100, 0)}% filled)`}
+              icon="🪢"
+            />
+          )}
+
+          {/* Ongoing Roche-lobe overflow */}
+          {massTransfer && (
+            <PropertyCard
+              label="Mass Transfer"
+              value={`${massTransfer.donorId === star.id ? 'Donor' : 'Accretor'} (${massTransfer.stability}, ${massTransfer.rate.toExponential(1)} M☉/yr)`}
+              icon="🔄"
+            />
+          )}
+
+          {/* Remnant (predicted until the star dies) */}
+          <PropertyCard
+            label={isRemnant ? 'Remnant' : 'Predicted Remnant'}
+            value={`${getPhaseDisplayName(remnant.phase)} (${remnant.mass.toFixed(2)} M☉)`}
+            icon="💀"
+          />
         </div>
 
         {/* Lifetime Progress */}
@@ -245,6 +370,16 @@ export const StellarPropertiesDisplay: React.FC<StellarPropertiesDisplayProps> =
             <span>Main Sequence Lifetime: {formatTime(star.lifetime)}</span>
           </div>
         </div>
+
+        {/* Evolution History */}
+        <div style={{ marginTop: '20px' }}>
+          <div style={{ fontWeight: 'bold', fontSize: '14px', marginBottom: '8px' }}>
+            Evolution History
+          </div>
+          <div style={{ display: 'flex', justifyContent: 'center' }}>
+            <StellarHistoryChart samples={history} width={400} height={180} />
+          </div>
+        </div>
       </div>
     </div>
   );
@@ -5,10 +5,26 @@
 
 import React from 'react';
 import { useSimulation } from '../context/SimulationContext';
-import { EvolutionPhase, PlanetComposition } from '../types/core';
+import { EvolutionPhase, PlanetComposition, BrownDwarf, ElementYields } from '../types/core';
+import { describeSimulationEvent } from '../simulation/SimulationEvents';
+import { calculateYieldMass, calculateGasMetallicity } from '../physics/yields';
+import { calculateCarbonToOxygenRatio, calculateNitrogenToCarbonRatio } from '../physics/dredgeUp';
+
+// Elements listed in the interstellar medium ledger
+const LEDGER_ELEMENTS: { key: keyof ElementYields; label: string }[] = [
+  { key: 'hydrogen', label: 'Hydrogen' },
+  { key: 'helium', label: 'Helium' },
+  { key: 'carbon', label: 'Carbon' },
+  { key: 'nitrogen', label: 'Nitrogen' },
+  { key: 'oxygen', label: 'Oxygen' },
+  { key: 'neon', label: 'Neon' },
+  { key: 'magnesium', label: 'Magnesium' },
+  { key: 'silicon', label: 'Silicon' },
+  { key: 'iron', label: 'Iron' },
+];
 
 export const SystemOverview: React.FC = () => {
-  const { system, currentTime } = useSimulation();
+  const { system, currentTime, controller } = useSimulation();
 
   // Format time in appropriate units
   const formatTime = (timeInYears: number): string => {
@@ -23,54 +39,23 @@ export const SystemOverview: React.FC = () => {
     }
   };
 
-  // Get key milestones from the system
+  // Get key milestones from events emitted by the simulation
   const getMilestones = () => {
     if (!system) return [];
 
-    const milestones: Array<{ time: number; event: string }> = [];
-
-    // System formation
-    milestones.push({
+    const milestones: Array<{ time: number; event: string }> = [{
       time: 0,
       event: 'System formation from molecular cloud',
-    });
-
-    // Star evolution milestones
-    system.stars.forEach((star) => {
-      // Main sequence end
-      milestones.push({
-        time: star.lifetime,
-        event: `${star.name} leaves main sequence`,
-      });
+    }];
 
-      // Red giant phase (if applicable)
-      if (star.mass >= 0.5) {
-        milestones.push({
-          time: star.lifetime * 1.1,
-          event: `${star.name} enters red giant phase`,
-        });
-      }
-
-      // Final state
-      let finalPhase = '';
-      if (star.mass < 1.4) {
-        finalPhase = 'white dwarf';
-      } else if (star.mass < 3.0) {
-        finalPhase = 'neutron star';
-      } else {
-        finalPhase = 'black hole';
-      }
-      
+    for (const event of controller.getEvents(0, currentTime)) {
       milestones.push({
-        time: star.lifetime * 1.2,
-        event: `${star.name} becomes ${finalPhase}`,
+        time: event.time,
+        event: describeSimulationEvent(event, system),
       });
-    });
+    }
 
-    // Sort by time and filter to show only upcoming or recent milestones
-    return milestones
-      .sort((a, b) => a.time - b.time)
-      .filter(m => m.time <= currentTime * 1.5); // Show past and near-future events
+    return milestones;
   };
 
   // Count planets by composition
@@ -88,6 +73,14 @@ export const SystemOverview: React.FC = () => {
     );
   };
 
+  // Mass, spectral type and temperature of a brown dwarf, and whether it
+  // is still burning deuterium
+  const describeBrownDwarf = (brownDwarf: BrownDwarf): string => {
+    const burning = brownDwarf.deuteriumFraction > 0.01 && brownDwarf.deuteriumFraction < 1;
+    return `${brownDwarf.mass.toFixed(3)} M☉, ${brownDwarf.spectralType} (${brownDwarf.temperature.toFixed(0)} K)` +
+      (burning ? ', burning deuterium' : '');
+  };
+
   // Get current phase distribution
   const getPhaseDistribution = () => {
     if (!system) return {};
@@ -117,6 +110,11 @@ export const SystemOverview: React.FC = () => {
   const planetStats = getPlanetStats();
   const milestones = getMilestones();
   const phaseDistribution = getPhaseDistribution();
+  const brownDwarfs = system.brownDwarfs ?? [];
+  const interstellarMedium = system.interstellarMedium;
+  const returnedMass = interstellarMedium ? calculateYieldMass(interstellarMedium) : 0;
+  const generations = system.generations ?? [];
+  const gasReservoir = system.gasReservoir;
 
   return (
     <div style={{
@@ -163,6 +161,16 @@ export const SystemOverview: React.FC = () => {
             color="#9b59b6"
           />
 
+          {/* Number of Brown Dwarfs */}
+          {brownDwarfs.length > 0 && (
+            <StatCard
+              label="Brown Dwarfs"
+              value={brownDwarfs.length.toString()}
+              icon="🟤"
+              color="#8e5a3c"
+            />
+          )}
+
           {/* Total System Mass */}
           <StatCard
             label="Total Stellar Mass"
@@ -204,6 +212,12 @@ export const SystemOverview: React.FC = () => {
                 label="Angular Momentum"
                 value={`${system.initialCloudParameters.angularMomentum.toExponential(2)} kg⋅m²/s`}
               />
+              {system.initialCloudParameters.seed !== undefined && (
+                <InfoRow
+                  label="Seed"
+                  value={system.initialCloudParameters.seed.toString()}
+                />
+              )}
             </div>
           </div>
         </div>
@@ -247,6 +261,92 @@ export const SystemOverview: React.FC = () => {
           </div>
         )}
 
+        {/* Brown Dwarfs */}
+        {brownDwarfs.length > 0 && (
+          <div style={{ marginBottom: '20px' }}>
+            <h4 style={{ marginTop: 0, marginBottom: '12px', fontSize: '16px' }}>
+              Brown Dwarfs
+            </h4>
+            <div style={{
+              padding: '15px',
+              backgroundColor: '#f8f9fa',
+              borderRadius: '6px',
+              border: '1px solid #e9ecef',
+            }}>
+              <div style={{ display: 'grid', gap: '8px' }}>
+                {brownDwarfs.map(brownDwarf => (
+                  <InfoRow
+                    key={brownDwarf.id}
+                    label={brownDwarf.name}
+                    value={describeBrownDwarf(brownDwarf)}
+                  />
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Interstellar Medium Ledger */}
+        {interstellarMedium && returnedMass > 0 && (
+          <div style={{ marginBottom: '20px' }}>
+            <h4 style={{ marginTop: 0, marginBottom: '12px', fontSize: '16px' }}>
+              Returned to the Interstellar Medium
+            </h4>
+            <div style={{
+              padding: '15px',
+              backgroundColor: '#f8f9fa',
+              borderRadius: '6px',
+              border: '1px solid #e9ecef',
+            }}>
+              <div style={{ display: 'grid', gap: '8px' }}>
+                <InfoRow label="Total" value={`${returnedMass.toFixed(3)} M☉`} />
+                {LEDGER_ELEMENTS.map(({ key, label }) => (
+                  <InfoRow
+                    key={key}
+                    label={label}
+                    value={`${interstellarMedium[key].toExponential(2)} M☉`}
+                  />
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Stellar Generations */}
+        {generations.length > 0 && (
+          <div style={{ marginBottom: '20px' }}>
+            <h4 style={{ marginTop: 0, marginBottom: '12px', fontSize: '16px' }}>
+              Stellar Generations
+            </h4>
+            <div style={{
+              padding: '15px',
+              backgroundColor: '#f8f9fa',
+              borderRadius: '6px',
+              border: '1px solid #e9ecef',
+            }}>
+              <div style={{ display: 'grid', gap: '8px' }}>
+                {generations.map(generation => (
+                  <InfoRow
+                    key={generation.generation}
+                    label={`Generation ${generation.generation} (${formatTime(generation.time)})`}
+                    value={`${generation.starIds.length} star${generation.starIds.length === 1 ? '' : 's'}, ` +
+                      `${generation.metallicity.toFixed(3)} Z☉, ` +
+                      `C/O ${calculateCarbonToOxygenRatio(generation.composition).toFixed(2)}, ` +
+                      `N/C ${calculateNitrogenToCarbonRatio(generation.composition).toFixed(2)}`}
+                  />
+                ))}
+                {gasReservoir && (
+                  <InfoRow
+                    label="Gas Reservoir"
+                    value={`${calculateYieldMass(gasReservoir).toFixed(2)} M☉, ` +
+                      `${calculateGasMetallicity(gasReservoir).toFixed(3)} Z☉`}
+                  />
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* Evolution Phase Distribution */}
         <div style={{ marginBottom: '20px' }}>
           <h4 style={{ marginTop: 0, marginBottom: '12px', fontSize: '16px' }}>
@@ -396,6 +496,11 @@ const formatPhaseName = (phase: EvolutionPhase): string => {
     [EvolutionPhase.RED_GIANT]: 'Red Giant',
     [EvolutionPhase.HORIZONTAL_BRANCH]: 'Horizontal Branch',
     [EvolutionPhase.ASYMPTOTIC_GIANT]: 'Asymptotic Giant',
+    [EvolutionPhase.BLUE_SUPERGIANT]: 'Blue Supergiant',
+    [EvolutionPhase.YELLOW_SUPERGIANT]: 'Yellow Supergiant',
+    [EvolutionPhase.RED_SUPERGIANT]: 'Red Supergiant',
+    [EvolutionPhase.LUMINOUS_BLUE_VARIABLE]: 'Luminous Blue Variable',
+    [EvolutionPhase.WOLF_RAYET]: 'Wolf–Rayet',
     [EvolutionPhase.PLANETARY_NEBULA]: 'Planetary Nebula',
     [EvolutionPhase.WHITE_DWARF]: 'White Dwarf',
     [EvolutionPhase.NEUTRON_STAR]: 'Neutron Star',
@@ -7,7 +7,7 @@ import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { render } from '@testing-library/react';
 import { VisualizationCanvas } from './VisualizationCanvas';
 import { SimulationProvider } from '../context/SimulationContext';
-import { StarSystem, Star, Planet, EvolutionPhase, SpectralType, PlanetComposition, NuclearReaction } from '../types/core';
+import { StarSystem, Star, Planet, EvolutionPhase, SpectralType, PlanetComposition, NuclearReaction, ZoneType } from '../types/core';
 
 // Mock canvas context
 const mockContext = {
@@ -81,6 +81,7 @@ function createTestStar(overrides: Partial<Star> = {}): Star {
     id: 'star-1',
     name: 'Test Star',
     mass: 1.0,
+    initialMass: 1.0,
     radius: 1.0,
     luminosity: 1.0,
     temperature: 5778,
@@ -116,8 +117,10 @@ function createTestStar(overrides: Partial<Star> = {}): Star {
       },
       layerStructure: {
         coreRadius: 0.25,
-        radiativeZoneRadius: 0.7,
-        convectiveZoneRadius: 1.0,
+        zones: [
+          { type: ZoneType.RADIATIVE, innerRadius: 0, outerRadius: 0.7 },
+          { type: ZoneType.CONVECTIVE, innerRadius: 0.7, outerRadius: 1.0 },
+        ],
       },
     },
     ...overrides,
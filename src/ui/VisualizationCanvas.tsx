@@ -1,11 +1,11 @@
 /**
  * Visualization Canvas Component
- * Renders the star system with stars, orbits, and planets
+ * Renders the star system with stars, orbits, planets and brown dwarfs
  */
 
 import React, { useRef, useEffect, useState, useCallback } from 'react';
 import { useSimulation } from '../context/SimulationContext';
-import { Vector2 } from '../types/core';
+import { Vector2, BrownDwarf, EvolutionPhase } from '../types/core';
 
 interface VisualizationConfig {
   scale: number;           // AU per pixel
@@ -336,6 +336,93 @@ export const VisualizationCanvas: React.FC = () => {
     }
   };
 
+  /**
+   * Render a single brown dwarf
+   * Drawn between planet and star size with a faint glow; cool T and Y
+   * dwarfs look magenta rather than red
+   */
+  const renderBrownDwarf = (ctx: CanvasRenderingContext2D, brownDwarf: BrownDwarf, width: number, height: number) => {
+    const position = auToPixels({ x: brownDwarf.position.x, y: brownDwarf.position.y }, width, height);
+    
+    // Check if brown dwarf is visible on canvas
+    if (position.x < -50 || position.x > width + 50 || 
+        position.y < -50 || position.y > height + 50) {
+      return; // Skip rendering if off-screen
+    }
+    
+    const displayRadius = 3;
+    const color = brownDwarf.temperature >= 1300 ? getStarColor(brownDwarf.temperature) : 'rgb(155, 79, 150)';
+    
+    // Draw faint glow
+    const gradient = ctx.createRadialGradient(
+      position.x, position.y, 0,
+      position.x, position.y, displayRadius * 2
+    );
+    gradient.addColorStop(0, color);
+    gradient.addColorStop(1, 'rgba(0, 0, 0, 0)');
+    ctx.fillStyle = gradient;
+    ctx.beginPath();
+    ctx.arc(position.x, position.y, displayRadius * 2, 0, Math.PI * 2);
+    ctx.fill();
+    
+    // Draw body
+    ctx.fillStyle = color;
+    ctx.beginPath();
+    ctx.arc(position.x, position.y, displayRadius, 0, Math.PI * 2);
+    ctx.fill();
+    
+    // Draw label if enabled
+    if (config.showLabels) {
+      ctx.fillStyle = '#fff';
+      ctx.font = '10px system-ui';
+      ctx.textAlign = 'left';
+      ctx.textBaseline = 'middle';
+      ctx.shadowColor = '#000';
+      ctx.shadowBlur = 2;
+      
+      const labelX = position.x + displayRadius + 5;
+      const labelY = position.y;
+      
+      // Brown dwarf name
+      ctx.fillText(brownDwarf.name, labelX, labelY - 8);
+      
+      // Brown dwarf properties
+      ctx.font = '9px system-ui';
+      ctx.fillStyle = '#aaa';
+      ctx.fillText(`${brownDwarf.spectralType} • ${brownDwarf.mass.toFixed(3)} M☉ • ${brownDwarf.temperature.toFixed(0)} K`, labelX, labelY + 4);
+      
+      ctx.shadowBlur = 0;
+    }
+  };
+
+  /**
+   * Render the outflow around a massive star shedding its envelope
+   * Luminous blue variables sit in a shell thrown off by their eruptions;
+   * Wolf–Rayet stars are wrapped in the violet glow of their dense winds
+   */
+  const renderStellarWind = (ctx: CanvasRenderingContext2D, position: Vector2, displayRadius: number, phase: EvolutionPhase) => {
+    if (phase === EvolutionPhase.LUMINOUS_BLUE_VARIABLE) {
+      ctx.strokeStyle = 'rgba(120, 170, 255, 0.5)';
+      ctx.lineWidth = 2;
+      ctx.setLineDash([4, 3]);
+      ctx.beginPath();
+      ctx.arc(position.x, position.y, displayRadius * 4, 0, Math.PI * 2);
+      ctx.stroke();
+      ctx.setLineDash([]);
+    } else if (phase === EvolutionPhase.WOLF_RAYET) {
+      const wind = ctx.createRadialGradient(
+        position.x, position.y, displayRadius,
+        position.x, position.y, displayRadius * 5
+      );
+      wind.addColorStop(0, 'rgba(170, 120, 255, 0.5)');
+      wind.addColorStop(1, 'rgba(0, 0, 0, 0)');
+      ctx.fillStyle = wind;
+      ctx.beginPath();
+      ctx.arc(position.x, position.y, displayRadius * 5, 0, Math.PI * 2);
+      ctx.fill();
+    }
+  };
+
   /**
    * Render a single star
    */
@@ -355,6 +442,9 @@ export const VisualizationCanvas: React.FC = () => {
     // Get star color based on temperature
     const color = getStarColor(star.temperature);
     
+    // Draw the outflow of an LBV or Wolf–Rayet star behind it
+    renderStellarWind(ctx, position, displayRadius, star.evolutionPhase);
+    
     // Draw star glow (outer halo)
     const gradient = ctx.createRadialGradient(
       position.x, position.y, 0,
@@ -449,6 +539,11 @@ export const VisualizationCanvas: React.FC = () => {
       renderPlanet(ctx, planet, canvas.width, canvas.height);
     });
     
+    // Render brown dwarfs
+    system.brownDwarfs?.forEach(brownDwarf => {
+      renderBrownDwarf(ctx, brownDwarf, canvas.width, canvas.height);
+    });
+    
     // Render stars (on top of planets)
     system.stars.forEach(star => {
       renderStar(ctx, star, canvas.width, canvas.height);
@@ -7,6 +7,7 @@ export {
   validateMass,
   validateMetallicity,
   validateAngularMomentum,
+  validateSeed,
   validateCloudParameters,
   validateTimeScale,
   validateSimulationTime,
@@ -8,6 +8,7 @@ import {
   validateMass,
   validateMetallicity,
   validateAngularMomentum,
+  validateSeed,
   validateCloudParameters,
   validateTimeScale,
   validateSimulationTime,
@@ -208,6 +209,31 @@ describe('Input Validation', () => {
     });
   });
 
+  describe('validateSeed', () => {
+    it('should accept integer seeds within range', () => {
+      expect(validateSeed(0).isValid).toBe(true);
+      expect(validateSeed(123456).isValid).toBe(true);
+      expect(validateSeed(4294967295).isValid).toBe(true);
+    });
+
+    it('should reject non-integer seeds', () => {
+      const result = validateSeed(1.5);
+      expect(result.isValid).toBe(false);
+      expect(result.errors[0]).toContain('integer');
+    });
+
+    it('should reject out-of-range seeds', () => {
+      expect(validateSeed(-1).isValid).toBe(false);
+      expect(validateSeed(2 ** 32).isValid).toBe(false);
+    });
+
+    it('should reject NaN seed', () => {
+      const result = validateSeed(NaN);
+      expect(result.isValid).toBe(false);
+      expect(result.errors[0]).toContain('valid number');
+    });
+  });
+
   describe('validateCloudParameters', () => {
     it('should accept valid cloud parameters', () => {
       const params = {
@@ -241,6 +267,17 @@ describe('Input Validation', () => {
       expect(result.isValid).toBe(false);
       expect(result.errors.length).toBeGreaterThanOrEqual(3);
     });
+
+    it('should reject an invalid seed', () => {
+      const params = {
+        mass: 10,
+        metallicity: 1.0,
+        angularMomentum: 1e45,
+        seed: -5,
+      };
+      const result = validateCloudParameters(params);
+      expect(result.isValid).toBe(false);
+    });
   });
 
   describe('validateTimeScale', () => {
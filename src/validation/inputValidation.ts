@@ -116,6 +116,36 @@ export function validateAngularMomentum(angularMomentum: number): ValidationResu
   };
 }
 
+/**
+ * Validate random seed input
+ * @param seed - Integer seed for the pseudo-random number generator
+ * @returns Validation result with error messages if invalid
+ */
+export function validateSeed(seed: number): ValidationResult {
+  const errors: string[] = [];
+  
+  if (typeof seed !== 'number' || isNaN(seed)) {
+    errors.push('Seed must be a valid number');
+    return { isValid: false, errors };
+  }
+  
+  if (!Number.isInteger(seed)) {
+    errors.push(`Seed must be an integer (provided: ${seed})`);
+    return { isValid: false, errors };
+  }
+  
+  const { min, max } = VALIDATION_RANGES.SEED;
+  
+  if (seed < min || seed > max) {
+    errors.push(`Seed must be between ${min} and ${max} (provided: ${seed})`);
+  }
+  
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
 /**
  * Validate complete cloud parameters
  * @param params - Cloud parameters to validate
@@ -142,6 +172,14 @@ export function validateCloudParameters(params: CloudParameters): ValidationResu
     errors.push(...angularMomentumValidation.errors);
   }
   
+  // Validate seed (optional)
+  if (params.seed !== undefined) {
+    const seedValidation = validateSeed(params.seed);
+    if (!seedValidation.isValid) {
+      errors.push(...seedValidation.errors);
+    }
+  }
+  
   return {
     isValid: errors.length === 0,
     errors
@@ -248,6 +286,11 @@ export function getValidationRanges() {
       min: VALIDATION_RANGES.SIMULATION_TIME.min,
       max: VALIDATION_RANGES.SIMULATION_TIME.max,
       unit: VALIDATION_RANGES.SIMULATION_TIME.unit
+    },
+    seed: {
+      min: VALIDATION_RANGES.SEED.min,
+      max: VALIDATION_RANGES.SEED.max,
+      unit: VALIDATION_RANGES.SEED.unit
     }
   };
 }